@@ -0,0 +1,247 @@
+import type { Address, Hash } from 'viem';
+import { Approval, ApprovalData, ApprovalInfo, TokenApproval } from '../types';
+import { ApprovalEvent } from '../history/history-types';
+import { ValidationError } from '../errors/validation-error';
+import { PERMIT2_UNLIMITED_THRESHOLD, UNLIMITED_THRESHOLD } from '../constants';
+
+/**
+ * Every approval shape the services accept; `toApproval` turns any of them
+ * into the canonical `Approval`.
+ */
+export type ApprovalLike = Approval | ApprovalData | TokenApproval | ApprovalInfo;
+
+export function isApproval(value: ApprovalLike): value is Approval {
+  return typeof (value as Approval).value === 'bigint';
+}
+
+export function isApprovalData(value: ApprovalLike): value is ApprovalData {
+  return typeof (value as ApprovalData).allowance === 'bigint';
+}
+
+export function isTokenApproval(value: ApprovalLike): value is TokenApproval {
+  return typeof (value as TokenApproval).riskScore === 'number' && 'spender' in value;
+}
+
+/**
+ * Only fungible allowances can be unlimited; NFT approvals never are.
+ * Permit2 amounts are uint160 and are measured against that maximum.
+ */
+export function isUnlimitedApproval(approval: Pick<Approval, 'value' | 'kind'>): boolean {
+  if (isNftApproval(approval)) return false;
+  return approval.value >= (isPermit2Approval(approval) ? PERMIT2_UNLIMITED_THRESHOLD : UNLIMITED_THRESHOLD);
+}
+
+export function isOperatorApproval(approval: Pick<Approval, 'kind'>): boolean {
+  return approval.kind === 'operator';
+}
+
+export function isSingleTokenApproval(approval: Pick<Approval, 'kind'>): boolean {
+  return approval.kind === 'token';
+}
+
+export function isPermit2Approval(approval: Pick<Approval, 'kind'>): boolean {
+  return approval.kind === 'permit2';
+}
+
+export function isNftApproval(approval: Pick<Approval, 'kind'>): boolean {
+  return isOperatorApproval(approval) || isSingleTokenApproval(approval);
+}
+
+/**
+ * Key identifying a token/spender pair, independent of address casing.
+ * Operator approvals and Permit2 sub-allowances are keyed apart from an
+ * allowance on the same pair, and a single-token approval by its token id,
+ * since an ERC-721 token has at most one approved address.
+ */
+export function approvalKey(
+  approval: Pick<Approval, 'kind' | 'tokenAddress' | 'spenderAddress' | 'tokenId'>
+): string {
+  const token = approval.tokenAddress.toLowerCase();
+  if (isSingleTokenApproval(approval)) {
+    return `${token}-#${approval.tokenId ?? ''}`;
+  }
+
+  const key = `${token}-${approval.spenderAddress.toLowerCase()}`;
+  if (isOperatorApproval(approval)) return `${key}-operator`;
+  return isPermit2Approval(approval) ? `${key}-permit2` : key;
+}
+
+/**
+ * Whether `a` was logged after `b`, by block and then by position in the
+ * block, so the later of two logs in one transaction wins.
+ */
+export function isLaterLog(
+  a: Pick<Approval, 'blockNumber' | 'logIndex'>,
+  b: Pick<Approval, 'blockNumber' | 'logIndex'>
+): boolean {
+  const blockA = a.blockNumber ?? 0n;
+  const blockB = b.blockNumber ?? 0n;
+  return blockA > blockB || (blockA === blockB && (a.logIndex ?? 0) > (b.logIndex ?? 0));
+}
+
+export function toApproval(value: ApprovalLike): Approval {
+  if (isApproval(value)) return value;
+  if (isApprovalData(value)) return fromApprovalData(value);
+  if (isTokenApproval(value)) return fromTokenApproval(value);
+  return fromApprovalInfo(value);
+}
+
+export function fromApprovalData(data: ApprovalData): Approval {
+  return {
+    kind: data.kind,
+    tokenStandard: data.tokenStandard,
+    tokenAddress: data.tokenAddress as Address,
+    tokenId: parseTokenId(data.tokenId),
+    tokenName: data.tokenName,
+    tokenSymbol: data.tokenSymbol,
+    tokenDecimals: data.tokenDecimals,
+    spenderAddress: data.spenderAddress as Address,
+    spenderName: data.spenderName,
+    ownerAddress: data.ownerAddress as Address | undefined,
+    chainId: data.chainId,
+    value: data.allowance,
+    approvedValue: data.approvedAllowance,
+    expiration: parseDate(data.expiration),
+    nonce: data.nonce,
+    transactionHash: (data.transactionHash || undefined) as Hash | undefined,
+    blockNumber: data.blockNumber !== undefined ? BigInt(data.blockNumber) : undefined,
+    timestamp: parseDate(data.approvalDate),
+    lastUsed: parseDate(data.lastUsed),
+    riskScore: data.riskScore,
+    riskLevel: data.riskLevel,
+    riskFactors: data.riskFactors,
+  };
+}
+
+export function toApprovalData(approval: Approval): ApprovalData {
+  return {
+    kind: approval.kind,
+    tokenStandard: approval.tokenStandard,
+    tokenAddress: approval.tokenAddress,
+    tokenId: approval.tokenId?.toString(),
+    tokenName: approval.tokenName,
+    tokenSymbol: approval.tokenSymbol,
+    tokenDecimals: approval.tokenDecimals,
+    spenderAddress: approval.spenderAddress,
+    spenderName: approval.spenderName,
+    ownerAddress: approval.ownerAddress,
+    chainId: approval.chainId,
+    allowance: approval.value,
+    approvedAllowance: approval.approvedValue,
+    isUnlimited: isUnlimitedApproval(approval),
+    expiration: approval.expiration?.toISOString(),
+    nonce: approval.nonce,
+    blockNumber: approval.blockNumber !== undefined ? Number(approval.blockNumber) : undefined,
+    transactionHash: approval.transactionHash,
+    riskScore: approval.riskScore,
+    riskLevel: approval.riskLevel,
+    riskFactors: approval.riskFactors,
+    lastUsed: approval.lastUsed?.toISOString(),
+    approvalDate: approval.timestamp?.toISOString(),
+  };
+}
+
+export function fromTokenApproval(token: TokenApproval, ownerAddress?: Address): Approval {
+  const timestamp = token.lastUpdated
+    ?? (token.approvedAt !== undefined ? new Date(token.approvedAt * 1000) : undefined);
+
+  return {
+    kind: token.kind,
+    tokenAddress: token.tokenAddress as Address,
+    tokenId: parseTokenId(token.tokenId),
+    tokenName: token.tokenName,
+    tokenSymbol: token.tokenSymbol,
+    tokenDecimals: token.tokenDecimals,
+    spenderAddress: token.spender as Address,
+    spenderName: token.spenderName,
+    ownerAddress,
+    value: BigInt(token.allowance),
+    transactionHash: token.transactionHash as Hash | undefined,
+    timestamp,
+    lastUsed: parseDate(token.lastUsed),
+    usdValue: token.usdValue,
+    riskScore: token.riskScore,
+    riskLevel: token.riskLevel,
+    riskFactors: token.riskFactors,
+  };
+}
+
+/**
+ * Unscored approvals come out as score 0 / `minimal` with no factors.
+ */
+export function toTokenApproval(approval: Approval): TokenApproval {
+  return {
+    kind: approval.kind,
+    tokenAddress: approval.tokenAddress,
+    tokenId: approval.tokenId?.toString(),
+    tokenName: approval.tokenName,
+    tokenSymbol: approval.tokenSymbol,
+    tokenDecimals: approval.tokenDecimals,
+    spender: approval.spenderAddress,
+    spenderName: approval.spenderName,
+    allowance: approval.value.toString(),
+    isUnlimited: isUnlimitedApproval(approval),
+    riskScore: approval.riskScore ?? 0,
+    riskLevel: approval.riskLevel ?? 'minimal',
+    riskFactors: approval.riskFactors ?? [],
+    lastUsed: approval.lastUsed?.toISOString(),
+    lastUpdated: approval.timestamp,
+    transactionHash: approval.transactionHash,
+    approvedAt: approval.timestamp ? Math.floor(approval.timestamp.getTime() / 1000) : undefined,
+    usdValue: approval.usdValue,
+  };
+}
+
+export function fromApprovalInfo(info: ApprovalInfo): Approval {
+  return {
+    tokenAddress: info.tokenAddress,
+    tokenSymbol: info.tokenSymbol,
+    tokenDecimals: info.tokenDecimals,
+    spenderAddress: info.spender,
+    ownerAddress: info.owner,
+    value: BigInt(info.allowance),
+    transactionHash: info.transactionHash as Hash | undefined,
+    blockNumber: info.blockNumber,
+  };
+}
+
+export function toApprovalInfo(approval: Approval): ApprovalInfo {
+  if (!approval.ownerAddress) {
+    throw ValidationError.missingRequired(['ownerAddress']);
+  }
+
+  return {
+    owner: approval.ownerAddress,
+    tokenAddress: approval.tokenAddress,
+    tokenSymbol: approval.tokenSymbol,
+    tokenDecimals: approval.tokenDecimals,
+    spender: approval.spenderAddress,
+    allowance: approval.value.toString(),
+    blockNumber: approval.blockNumber,
+    transactionHash: approval.transactionHash,
+  };
+}
+
+/**
+ * The approval state a single history event leaves behind. Revocation
+ * events produce a zero-value approval.
+ */
+export function fromApprovalEvent(event: ApprovalEvent): Approval {
+  return {
+    tokenAddress: event.tokenAddress,
+    spenderAddress: event.spender,
+    ownerAddress: event.owner,
+    value: event.amount,
+    transactionHash: event.transactionHash as Hash,
+    blockNumber: event.blockNumber,
+    timestamp: new Date(event.timestamp),
+  };
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+function parseTokenId(value: string | undefined): bigint | undefined {
+  return value !== undefined ? BigInt(value) : undefined;
+}
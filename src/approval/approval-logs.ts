@@ -0,0 +1,40 @@
+import { hexToBigInt, type Address, type Hex } from 'viem';
+
+/**
+ * An `Approval(owner, spender, …)` log decoded by its shape. ERC-20 and
+ * ERC-721 share the event signature: ERC-20 logs carry the value as data,
+ * ERC-721 logs index the token id as a fourth topic and carry no data.
+ */
+export type DecodedApprovalLog =
+  | { standard: 'erc20'; owner: Address; spender: Address; value: bigint }
+  | { standard: 'erc721'; owner: Address; spender: Address; tokenId: bigint };
+
+/**
+ * Decodes an `Approval` log from its raw topics and data. Logs matching
+ * neither layout are not approvals this tool understands and yield null.
+ */
+export function decodeApprovalLog(log: { topics: readonly Hex[]; data: Hex }): DecodedApprovalLog | null {
+  const [, ownerTopic, spenderTopic, tokenIdTopic] = log.topics;
+  if (!ownerTopic || !spenderTopic) return null;
+
+  const owner = topicToAddress(ownerTopic);
+  const spender = topicToAddress(spenderTopic);
+
+  if (log.topics.length === 4 && tokenIdTopic && isEmptyData(log.data)) {
+    return { standard: 'erc721', owner, spender, tokenId: hexToBigInt(tokenIdTopic) };
+  }
+
+  if (log.topics.length === 3 && !isEmptyData(log.data)) {
+    return { standard: 'erc20', owner, spender, value: hexToBigInt(log.data.slice(0, 66) as Hex) };
+  }
+
+  return null;
+}
+
+function topicToAddress(topic: Hex): Address {
+  return `0x${topic.slice(26)}`.toLowerCase() as Address;
+}
+
+function isEmptyData(data: Hex): boolean {
+  return data === '0x' || data.length <= 2;
+}
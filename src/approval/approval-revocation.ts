@@ -0,0 +1,71 @@
+import { encodeFunctionData, parseAbi, zeroAddress } from 'viem';
+import { Approval, RevocationCall } from '../types';
+import { isOperatorApproval, isPermit2Approval, isSingleTokenApproval } from './approval-adapters';
+import { PERMIT2_ADDRESS } from '../constants';
+
+const REVOKE_ABI = parseAbi([
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function setApprovalForAll(address operator, bool approved)',
+]);
+
+const PERMIT2_REVOKE_ABI = parseAbi([
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+]);
+
+/**
+ * The call that revokes an approval: `approve(spender, 0)` for an allowance,
+ * `setApprovalForAll(operator, false)` for an operator approval,
+ * `approve(address(0), tokenId)` for a single ERC-721 token and Permit2's
+ * `approve(token, spender, 0, 0)` for a Permit2 sub-allowance.
+ */
+export function buildRevocationCall(
+  approval: Pick<Approval, 'kind' | 'tokenAddress' | 'spenderAddress' | 'tokenId'>
+): RevocationCall {
+  const spender = approval.spenderAddress;
+
+  if (isPermit2Approval(approval)) {
+    return {
+      to: PERMIT2_ADDRESS,
+      functionName: 'approve',
+      args: [approval.tokenAddress, spender, '0', '0'],
+      data: encodeFunctionData({
+        abi: PERMIT2_REVOKE_ABI,
+        functionName: 'approve',
+        args: [approval.tokenAddress, spender, 0n, 0],
+      }),
+    };
+  }
+
+  if (isSingleTokenApproval(approval)) {
+    const tokenId = approval.tokenId ?? 0n;
+    return {
+      to: approval.tokenAddress,
+      functionName: 'approve',
+      args: [zeroAddress, tokenId.toString()],
+      data: encodeFunctionData({ abi: REVOKE_ABI, functionName: 'approve', args: [zeroAddress, tokenId] }),
+    };
+  }
+
+  if (isOperatorApproval(approval)) {
+    return {
+      to: approval.tokenAddress,
+      functionName: 'setApprovalForAll',
+      args: [spender, 'false'],
+      data: encodeFunctionData({ abi: REVOKE_ABI, functionName: 'setApprovalForAll', args: [spender, false] }),
+    };
+  }
+
+  return {
+    to: approval.tokenAddress,
+    functionName: 'approve',
+    args: [spender, '0'],
+    data: encodeFunctionData({ abi: REVOKE_ABI, functionName: 'approve', args: [spender, 0n] }),
+  };
+}
+
+/**
+ * Solidity-style rendering of a call, e.g. `setApprovalForAll(0xabc…, false)`.
+ */
+export function formatRevocationCall(call: RevocationCall): string {
+  return `${call.functionName}(${call.args.join(', ')})`;
+}
@@ -0,0 +1,138 @@
+import type { Address, Hash } from 'viem';
+import { Approval, SerializedApproval } from '../types';
+import { ValidationError } from '../errors/validation-error';
+
+/**
+ * Version of the `SerializedApproval` layout. Bump it whenever a field is
+ * renamed or changes type, and teach `deserializeApproval` the old layout.
+ */
+export const APPROVAL_SCHEMA_VERSION = 1;
+
+export interface SerializedApprovalList {
+  schemaVersion: number;
+  approvals: SerializedApproval[];
+}
+
+export function serializeApproval(approval: Approval): SerializedApproval {
+  return {
+    schemaVersion: APPROVAL_SCHEMA_VERSION,
+    kind: approval.kind,
+    tokenStandard: approval.tokenStandard,
+    tokenAddress: approval.tokenAddress,
+    tokenId: approval.tokenId?.toString(),
+    tokenName: approval.tokenName,
+    tokenSymbol: approval.tokenSymbol,
+    tokenDecimals: approval.tokenDecimals,
+    spenderAddress: approval.spenderAddress,
+    spenderName: approval.spenderName,
+    spenderVerified: approval.spenderVerified,
+    ownerAddress: approval.ownerAddress,
+    chainId: approval.chainId,
+    value: approval.value.toString(),
+    approvedValue: approval.approvedValue?.toString(),
+    expiration: approval.expiration?.toISOString(),
+    nonce: approval.nonce,
+    transactionHash: approval.transactionHash,
+    blockNumber: approval.blockNumber?.toString(),
+    logIndex: approval.logIndex,
+    timestamp: approval.timestamp?.toISOString(),
+    lastUsed: approval.lastUsed?.toISOString(),
+    usdValue: approval.usdValue,
+    riskScore: approval.riskScore,
+    riskLevel: approval.riskLevel,
+    riskFactors: approval.riskFactors,
+  };
+}
+
+export function deserializeApproval(serialized: SerializedApproval): Approval {
+  if (serialized.schemaVersion !== APPROVAL_SCHEMA_VERSION) {
+    throw new ValidationError(`Unsupported approval schema version: ${serialized.schemaVersion}`, [
+      {
+        field: 'schemaVersion',
+        message: `Must be ${APPROVAL_SCHEMA_VERSION}`,
+        value: serialized.schemaVersion,
+      },
+    ]);
+  }
+
+  return {
+    kind: serialized.kind,
+    tokenStandard: serialized.tokenStandard,
+    tokenAddress: serialized.tokenAddress as Address,
+    tokenId: serialized.tokenId !== undefined ? parseBigInt(serialized.tokenId, 'tokenId') : undefined,
+    tokenName: serialized.tokenName,
+    tokenSymbol: serialized.tokenSymbol,
+    tokenDecimals: serialized.tokenDecimals,
+    spenderAddress: serialized.spenderAddress as Address,
+    spenderName: serialized.spenderName,
+    spenderVerified: serialized.spenderVerified,
+    ownerAddress: serialized.ownerAddress as Address | undefined,
+    chainId: serialized.chainId,
+    value: parseBigInt(serialized.value, 'value'),
+    approvedValue: serialized.approvedValue !== undefined
+      ? parseBigInt(serialized.approvedValue, 'approvedValue')
+      : undefined,
+    expiration: serialized.expiration !== undefined ? new Date(serialized.expiration) : undefined,
+    nonce: serialized.nonce,
+    transactionHash: serialized.transactionHash as Hash | undefined,
+    blockNumber: serialized.blockNumber !== undefined
+      ? parseBigInt(serialized.blockNumber, 'blockNumber')
+      : undefined,
+    logIndex: serialized.logIndex,
+    timestamp: serialized.timestamp !== undefined ? new Date(serialized.timestamp) : undefined,
+    lastUsed: serialized.lastUsed !== undefined ? new Date(serialized.lastUsed) : undefined,
+    usdValue: serialized.usdValue,
+    riskScore: serialized.riskScore,
+    riskLevel: serialized.riskLevel,
+    riskFactors: serialized.riskFactors,
+  };
+}
+
+/**
+ * Serializes approvals to a JSON document that round-trips through
+ * `parseApprovals` without losing precision.
+ */
+export function stringifyApprovals(approvals: Approval[]): string {
+  const document: SerializedApprovalList = {
+    schemaVersion: APPROVAL_SCHEMA_VERSION,
+    approvals: approvals.map(serializeApproval),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+export function parseApprovals(json: string): Approval[] {
+  let document: Partial<SerializedApprovalList>;
+  try {
+    document = JSON.parse(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Approvals are not valid JSON: ${message}`, [
+      { field: 'approvals', message: 'Must be a document written by stringifyApprovals' },
+    ]);
+  }
+
+  if (typeof document !== 'object' || document === null || !Array.isArray(document.approvals)) {
+    throw new ValidationError('Approval document has no approvals list', [
+      { field: 'approvals', message: 'Must be a document written by stringifyApprovals' },
+    ]);
+  }
+
+  return document.approvals.map(deserializeApproval);
+}
+
+/**
+ * `JSON.stringify` replacer that writes bigints as decimal strings.
+ */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function parseBigInt(value: string, field: string): bigint {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new ValidationError(`Invalid ${field}: ${value}`, [
+      { field, message: 'Must be a decimal integer string', value },
+    ]);
+  }
+}
@@ -0,0 +1,4 @@
+export * from './approval-adapters';
+export * from './approval-serializer';
+export * from './approval-logs';
+export * from './approval-revocation';
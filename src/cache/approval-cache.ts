@@ -1,25 +1,32 @@
-import { TokenApproval } from '../types';
+import { Approval } from '../types';
 import {
   CacheEntry,
+  CacheEntryInfo,
   CacheOptions,
   CacheStats,
   ApprovalCacheData,
   DEFAULT_CACHE_OPTIONS,
 } from './types';
+import { CacheStorage, MemoryCacheStorage } from './cache-storage';
 
 export class ApprovalCache {
-  private cache: Map<string, CacheEntry<ApprovalCacheData>>;
+  private storage: CacheStorage;
   private options: CacheOptions;
   private hits: number = 0;
   private misses: number = 0;
   private cleanupTimer: NodeJS.Timeout | null = null;
 
-  constructor(options: Partial<CacheOptions> = {}) {
-    this.cache = new Map();
+  constructor(options: Partial<CacheOptions> = {}, storage: CacheStorage = new MemoryCacheStorage()) {
+    this.storage = storage;
     this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
     this.startCleanupTimer();
   }
 
+  /** Where entries are kept: `memory` or the cache directory */
+  get location(): string {
+    return this.storage.location;
+  }
+
   private generateKey(walletAddress: string, chainId: number): string {
     return `${walletAddress.toLowerCase()}-${chainId}`;
   }
@@ -29,42 +36,52 @@ export class ApprovalCache {
       clearInterval(this.cleanupTimer);
     }
     this.cleanupTimer = setInterval(() => {
-      this.cleanup();
+      this.prune().catch(() => undefined);
     }, this.options.cleanupInterval);
+    // Never keep a CLI process alive just to expire cache entries
+    this.cleanupTimer.unref();
   }
 
-  private cleanup(): void {
+  /**
+   * Removes expired entries, then the oldest entries beyond `maxSize`.
+   * @returns How many entries were removed
+   */
+  async prune(): Promise<number> {
     const now = Date.now();
-    const keysToDelete: string[] = [];
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.expiresAt <= now) {
-        keysToDelete.push(key);
+    const live: Array<[string, CacheEntry<ApprovalCacheData>]> = [];
+    let removed = 0;
+
+    for (const key of await this.storage.keys()) {
+      const entry = await this.storage.get(key);
+      if (!entry || entry.expiresAt <= now) {
+        await this.storage.delete(key);
+        removed++;
+      } else {
+        live.push([key, entry]);
       }
     }
 
-    keysToDelete.forEach((key) => this.cache.delete(key));
-  }
-
-  private enforceMaxSize(): void {
-    if (this.cache.size <= this.options.maxSize) {
-      return;
+    if (live.length <= this.options.maxSize) {
+      return removed;
     }
 
     // Remove oldest entries first
-    const entries = Array.from(this.cache.entries())
-      .sort((a, b) => a[1].timestamp - b[1].timestamp);
+    const toRemove = live
+      .sort((a, b) => a[1].timestamp - b[1].timestamp)
+      .slice(0, live.length - this.options.maxSize);
+    for (const [key] of toRemove) {
+      await this.storage.delete(key);
+    }
 
-    const toRemove = entries.slice(0, this.cache.size - this.options.maxSize);
-    toRemove.forEach(([key]) => this.cache.delete(key));
+    return removed + toRemove.length;
   }
 
-  get(
+  async get(
     walletAddress: string,
     chainId: number
-  ): ApprovalCacheData | null {
+  ): Promise<ApprovalCacheData | null> {
     const key = this.generateKey(walletAddress, chainId);
-    const entry = this.cache.get(key);
+    const entry = await this.storage.get(key);
 
     if (!entry) {
       this.misses++;
@@ -73,7 +90,7 @@ export class ApprovalCache {
 
     const now = Date.now();
     if (entry.expiresAt <= now) {
-      this.cache.delete(key);
+      await this.storage.delete(key);
       this.misses++;
       return null;
     }
@@ -83,12 +100,12 @@ export class ApprovalCache {
     return entry.data;
   }
 
-  set(
+  async set(
     walletAddress: string,
     chainId: number,
-    approvals: TokenApproval[],
+    approvals: Approval[],
     blockNumber: bigint
-  ): void {
+  ): Promise<void> {
     const key = this.generateKey(walletAddress, chainId);
     const now = Date.now();
 
@@ -104,27 +121,55 @@ export class ApprovalCache {
       hits: 0,
     };
 
-    this.cache.set(key, entry);
-    this.enforceMaxSize();
+    await this.storage.set(key, entry);
+
+    const keys = await this.storage.keys();
+    if (keys.length > this.options.maxSize) {
+      await this.prune();
+    }
   }
 
-  invalidate(walletAddress: string, chainId: number): boolean {
+  async invalidate(walletAddress: string, chainId: number): Promise<boolean> {
     const key = this.generateKey(walletAddress, chainId);
-    return this.cache.delete(key);
+    return this.storage.delete(key);
   }
 
-  invalidateAll(): void {
-    this.cache.clear();
+  async invalidateAll(): Promise<void> {
+    await this.storage.clear();
     this.hits = 0;
     this.misses = 0;
   }
 
-  getStats(): CacheStats {
-    const entries = Array.from(this.cache.values());
-    const timestamps = entries.map((e) => e.timestamp);
+  /**
+   * Every stored entry, expired ones included, oldest first.
+   */
+  async list(): Promise<CacheEntryInfo[]> {
+    const now = Date.now();
+    const infos: CacheEntryInfo[] = [];
+
+    for (const key of await this.storage.keys()) {
+      const entry = await this.storage.get(key);
+      if (!entry) continue;
+
+      infos.push({
+        walletAddress: entry.data.walletAddress,
+        chainId: entry.data.chainId,
+        blockNumber: entry.data.blockNumber,
+        approvalCount: entry.data.approvals.length,
+        timestamp: entry.timestamp,
+        expiresAt: entry.expiresAt,
+        expired: entry.expiresAt <= now,
+      });
+    }
+
+    return infos.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const timestamps = (await this.list()).map((e) => e.timestamp);
 
     return {
-      size: this.cache.size,
+      size: timestamps.length,
       hits: this.hits,
       misses: this.misses,
       hitRate: this.hits + this.misses > 0
@@ -135,27 +180,29 @@ export class ApprovalCache {
     };
   }
 
-  has(walletAddress: string, chainId: number): boolean {
+  async has(walletAddress: string, chainId: number): Promise<boolean> {
     const key = this.generateKey(walletAddress, chainId);
-    const entry = this.cache.get(key);
-    
+    const entry = await this.storage.get(key);
+
     if (!entry) {
       return false;
     }
 
     if (entry.expiresAt <= Date.now()) {
-      this.cache.delete(key);
+      await this.storage.delete(key);
       return false;
     }
 
     return true;
   }
 
+  /**
+   * Stops the cleanup timer. Stored entries are left in place.
+   */
   destroy(): void {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
-    this.cache.clear();
   }
 }
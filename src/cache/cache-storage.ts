@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { deserializeApproval, serializeApproval } from '../approval';
+import { writeFileAtomic } from '../utils/file-system';
+import { ApprovalCacheData, CacheEntry, SerializedCacheEntry } from './types';
+
+/**
+ * Version of the `SerializedCacheEntry` layout. Entries written with another
+ * version read as misses.
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+/**
+ * Where `ApprovalCache` keeps its entries. Backends only store and list;
+ * expiry and size limits are enforced by the cache.
+ */
+export interface CacheStorage {
+  /** Human-readable location, for `approval-guard cache info` */
+  readonly location: string;
+  get(key: string): Promise<CacheEntry<ApprovalCacheData> | null>;
+  set(key: string, entry: CacheEntry<ApprovalCacheData>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCacheStorage implements CacheStorage {
+  readonly location = 'memory';
+  private entries = new Map<string, CacheEntry<ApprovalCacheData>>();
+
+  async get(key: string): Promise<CacheEntry<ApprovalCacheData> | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: CacheEntry<ApprovalCacheData>): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per entry in `directory`, so separate CLI runs share a warm
+ * cache. Files are replaced by rename, never rewritten in place, and a file
+ * that cannot be parsed reads as a miss. Hit counts are not written back.
+ */
+export class FileCacheStorage implements CacheStorage {
+  constructor(private readonly directory: string) {}
+
+  get location(): string {
+    return this.directory;
+  }
+
+  async get(key: string): Promise<CacheEntry<ApprovalCacheData> | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.fileFor(key), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      return deserializeCacheEntry(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry<ApprovalCacheData>): Promise<void> {
+    await writeFileAtomic(this.fileFor(key), JSON.stringify(serializeCacheEntry(entry)));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.fileFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all((await this.keys()).map((key) => this.delete(key)));
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
+
+export function serializeCacheEntry(entry: CacheEntry<ApprovalCacheData>): SerializedCacheEntry {
+  return {
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    timestamp: entry.timestamp,
+    expiresAt: entry.expiresAt,
+    hits: entry.hits,
+    data: {
+      walletAddress: entry.data.walletAddress,
+      chainId: entry.data.chainId,
+      blockNumber: entry.data.blockNumber.toString(),
+      approvals: entry.data.approvals.map(serializeApproval),
+    },
+  };
+}
+
+/**
+ * Returns null for an entry written with another schema version.
+ */
+export function deserializeCacheEntry(serialized: SerializedCacheEntry): CacheEntry<ApprovalCacheData> | null {
+  if (serialized.schemaVersion !== CACHE_SCHEMA_VERSION) {
+    return null;
+  }
+
+  return {
+    timestamp: serialized.timestamp,
+    expiresAt: serialized.expiresAt,
+    hits: serialized.hits,
+    data: {
+      walletAddress: serialized.data.walletAddress,
+      chainId: serialized.data.chainId,
+      blockNumber: BigInt(serialized.data.blockNumber),
+      approvals: serialized.data.approvals.map(deserializeApproval),
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { deserializeApproval, serializeApproval } from '../approval';
+import { writeFileAtomic } from '../utils/file-system';
+import { ScanCheckpoint, SerializedScanCheckpoint } from './types';
+
+/**
+ * Version of the `SerializedScanCheckpoint` layout. A checkpoint written with
+ * another version is ignored and the wallet is rescanned in full.
+ */
+export const CHECKPOINT_SCHEMA_VERSION = 1;
+
+/**
+ * Where incremental scans keep each wallet's reconciled approval state
+ * between runs.
+ */
+export interface CheckpointStore {
+  get(walletAddress: string, chainId: number): Promise<ScanCheckpoint | null>;
+  set(checkpoint: ScanCheckpoint): Promise<void>;
+  delete(walletAddress: string, chainId: number): Promise<void>;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, ScanCheckpoint>();
+
+  async get(walletAddress: string, chainId: number): Promise<ScanCheckpoint | null> {
+    return this.checkpoints.get(checkpointKey(walletAddress, chainId)) ?? null;
+  }
+
+  async set(checkpoint: ScanCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpointKey(checkpoint.walletAddress, checkpoint.chainId), checkpoint);
+  }
+
+  async delete(walletAddress: string, chainId: number): Promise<void> {
+    this.checkpoints.delete(checkpointKey(walletAddress, chainId));
+  }
+}
+
+/**
+ * One JSON file per wallet and chain in `directory`. Files are replaced by
+ * rename so an interrupted run never leaves a half-written checkpoint; a
+ * file that cannot be read is treated as missing.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly directory: string) {}
+
+  async get(walletAddress: string, chainId: number): Promise<ScanCheckpoint | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.fileFor(walletAddress, chainId), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      return deserializeCheckpoint(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  async set(checkpoint: ScanCheckpoint): Promise<void> {
+    await writeFileAtomic(
+      this.fileFor(checkpoint.walletAddress, checkpoint.chainId),
+      JSON.stringify(serializeCheckpoint(checkpoint), null, 2)
+    );
+  }
+
+  async delete(walletAddress: string, chainId: number): Promise<void> {
+    await fs.rm(this.fileFor(walletAddress, chainId), { force: true });
+  }
+
+  private fileFor(walletAddress: string, chainId: number): string {
+    return path.join(this.directory, `${checkpointKey(walletAddress, chainId)}.json`);
+  }
+}
+
+export function serializeCheckpoint(checkpoint: ScanCheckpoint): SerializedScanCheckpoint {
+  return {
+    schemaVersion: CHECKPOINT_SCHEMA_VERSION,
+    walletAddress: checkpoint.walletAddress,
+    chainId: checkpoint.chainId,
+    fromBlock: checkpoint.fromBlock.toString(),
+    blockNumber: checkpoint.blockNumber.toString(),
+    blockHash: checkpoint.blockHash,
+    approvals: checkpoint.approvals.map(serializeApproval),
+  };
+}
+
+/**
+ * Returns null for a checkpoint written with another schema version.
+ */
+export function deserializeCheckpoint(serialized: SerializedScanCheckpoint): ScanCheckpoint | null {
+  if (serialized.schemaVersion !== CHECKPOINT_SCHEMA_VERSION) {
+    return null;
+  }
+
+  return {
+    walletAddress: serialized.walletAddress,
+    chainId: serialized.chainId,
+    fromBlock: BigInt(serialized.fromBlock),
+    blockNumber: BigInt(serialized.blockNumber),
+    blockHash: serialized.blockHash,
+    approvals: serialized.approvals.map(deserializeApproval),
+  };
+}
+
+function checkpointKey(walletAddress: string, chainId: number): string {
+  return `${walletAddress.toLowerCase()}-${chainId}`;
+}
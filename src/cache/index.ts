@@ -1,2 +1,42 @@
 export { ApprovalCache } from './approval-cache';
-export { CacheEntry, CacheOptions, CacheStats } from './types';
+export {
+  CACHE_SCHEMA_VERSION,
+  CacheStorage,
+  FileCacheStorage,
+  MemoryCacheStorage,
+  deserializeCacheEntry,
+  serializeCacheEntry,
+} from './cache-storage';
+export {
+  CHECKPOINT_SCHEMA_VERSION,
+  CheckpointStore,
+  FileCheckpointStore,
+  MemoryCheckpointStore,
+  deserializeCheckpoint,
+  serializeCheckpoint,
+} from './checkpoint-store';
+export {
+  TOKEN_METADATA_SCHEMA_VERSION,
+  FileTokenMetadataStore,
+  MemoryTokenMetadataStore,
+  TokenMetadataStore,
+  deserializeTokenMetadataFile,
+  loadTokenMetadataSeed,
+  parseTokenMetadataSeed,
+  serializeTokenMetadataFile,
+} from './token-metadata-store';
+export {
+  CacheEntry,
+  CacheEntryInfo,
+  CacheOptions,
+  CacheStats,
+  MetadataConfidence,
+  ScanCheckpoint,
+  SerializedCacheEntry,
+  SerializedScanCheckpoint,
+  SerializedTokenMetadataFile,
+  SerializedTokenMetadataRecord,
+  TokenMetadataConfidence,
+  TokenMetadataRecord,
+  TokenMetadataSource,
+} from './types';
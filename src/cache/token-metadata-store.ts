@@ -0,0 +1,266 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { isAddress } from 'viem';
+import { ValidationError, ValidationIssue } from '../errors/validation-error';
+import { writeFileAtomic } from '../utils/file-system';
+import { isRecord } from '../utils/validation';
+import {
+  SerializedTokenMetadataFile,
+  SerializedTokenMetadataRecord,
+  TokenMetadataRecord,
+} from './types';
+
+/**
+ * Version of the `SerializedTokenMetadataFile` layout. A file written with
+ * another version reads as empty and is replaced on the next write.
+ */
+export const TOKEN_METADATA_SCHEMA_VERSION = 2;
+
+/**
+ * Where `TokenMetadataService` keeps resolved token metadata, per chain.
+ * Stores only keep records; deciding what is stale is up to the service.
+ */
+export interface TokenMetadataStore {
+  /** Human-readable location, for log output */
+  readonly location: string;
+  get(chainId: number, address: string): Promise<TokenMetadataRecord | null>;
+  /** Adds or replaces records, which may span several chains */
+  put(records: TokenMetadataRecord[]): Promise<void>;
+  list(chainId: number): Promise<TokenMetadataRecord[]>;
+}
+
+export class MemoryTokenMetadataStore implements TokenMetadataStore {
+  readonly location = 'memory';
+  private records = new Map<string, TokenMetadataRecord>();
+
+  async get(chainId: number, address: string): Promise<TokenMetadataRecord | null> {
+    return this.records.get(recordKey(chainId, address)) ?? null;
+  }
+
+  async put(records: TokenMetadataRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(recordKey(record.chainId, record.address), record);
+    }
+  }
+
+  async list(chainId: number): Promise<TokenMetadataRecord[]> {
+    return Array.from(this.records.values()).filter((record) => record.chainId === chainId);
+  }
+}
+
+/**
+ * One JSON file per chain in `directory`, read once and then served from
+ * memory. Puts made while a write is pending are folded into it, so
+ * resolving a batch of tokens rewrites each file once rather than once per
+ * token.
+ */
+export class FileTokenMetadataStore implements TokenMetadataStore {
+  private chains = new Map<number, Promise<Map<string, TokenMetadataRecord>>>();
+  private pendingWrites = new Map<number, Promise<void>>();
+  private lastWrites = new Map<number, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  get location(): string {
+    return this.directory;
+  }
+
+  async get(chainId: number, address: string): Promise<TokenMetadataRecord | null> {
+    const records = await this.load(chainId);
+    return records.get(address.toLowerCase()) ?? null;
+  }
+
+  async put(records: TokenMetadataRecord[]): Promise<void> {
+    const chainIds = new Set<number>();
+    for (const record of records) {
+      (await this.load(record.chainId)).set(record.address.toLowerCase(), record);
+      chainIds.add(record.chainId);
+    }
+
+    await Promise.all(Array.from(chainIds, (chainId) => this.scheduleWrite(chainId)));
+  }
+
+  async list(chainId: number): Promise<TokenMetadataRecord[]> {
+    return Array.from((await this.load(chainId)).values());
+  }
+
+  private load(chainId: number): Promise<Map<string, TokenMetadataRecord>> {
+    let records = this.chains.get(chainId);
+    if (!records) {
+      records = this.read(chainId);
+      this.chains.set(chainId, records);
+    }
+    return records;
+  }
+
+  private async read(chainId: number): Promise<Map<string, TokenMetadataRecord>> {
+    try {
+      const content = await fs.readFile(this.fileFor(chainId), 'utf-8');
+      const records = deserializeTokenMetadataFile(JSON.parse(content)) ?? [];
+      return new Map(records.map((record) => [record.address, record]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private scheduleWrite(chainId: number): Promise<void> {
+    const pending = this.pendingWrites.get(chainId);
+    if (pending) {
+      return pending;
+    }
+
+    // Writes to one file run one after another; the snapshot is taken when a write starts
+    const previous = this.lastWrites.get(chainId) ?? Promise.resolve();
+    const write = previous.catch(() => undefined).then(async () => {
+      this.pendingWrites.delete(chainId);
+      const records = Array.from((await this.load(chainId)).values());
+      await writeFileAtomic(
+        this.fileFor(chainId),
+        JSON.stringify(serializeTokenMetadataFile(chainId, records), null, 2)
+      );
+    });
+
+    this.pendingWrites.set(chainId, write);
+    this.lastWrites.set(chainId, write);
+    return write;
+  }
+
+  private fileFor(chainId: number): string {
+    return path.join(this.directory, `${chainId}.json`);
+  }
+}
+
+export function serializeTokenMetadataFile(
+  chainId: number,
+  records: TokenMetadataRecord[]
+): SerializedTokenMetadataFile {
+  return {
+    schemaVersion: TOKEN_METADATA_SCHEMA_VERSION,
+    chainId,
+    tokens: records.map((record): SerializedTokenMetadataRecord => ({
+      address: record.address,
+      name: record.name,
+      symbol: record.symbol,
+      decimals: record.decimals,
+      totalSupply: record.totalSupply?.toString(),
+      verified: record.verified,
+      source: record.source,
+      confidence: record.confidence,
+      resolvedAt: record.resolvedAt,
+      refreshedAt: record.refreshedAt,
+    })),
+  };
+}
+
+/**
+ * Returns null for a file written with another schema version.
+ */
+export function deserializeTokenMetadataFile(
+  serialized: SerializedTokenMetadataFile
+): TokenMetadataRecord[] | null {
+  if (serialized.schemaVersion !== TOKEN_METADATA_SCHEMA_VERSION) {
+    return null;
+  }
+
+  return serialized.tokens.map((token) => ({
+    chainId: serialized.chainId,
+    address: token.address.toLowerCase(),
+    name: token.name,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    totalSupply: token.totalSupply !== undefined ? BigInt(token.totalSupply) : undefined,
+    verified: token.verified,
+    source: token.source,
+    confidence: token.confidence,
+    resolvedAt: token.resolvedAt,
+    refreshedAt: token.refreshedAt,
+  }));
+}
+
+/**
+ * Reads a token metadata seed file: a JSON array of
+ * `{ chainId, address, name, symbol, decimals, verified? }` entries, or an
+ * object holding that array under `tokens`.
+ */
+export async function loadTokenMetadataSeed(filePath: string): Promise<TokenMetadataRecord[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Cannot read token metadata seed ${filePath}: ${message}`, [
+      { field: 'tokenSeed', message: 'File must exist and be valid JSON', value: filePath },
+    ]);
+  }
+
+  return parseTokenMetadataSeed(parsed);
+}
+
+/**
+ * Checks an already parsed seed document, reporting every problem at once.
+ * Seeded records are stamped with the current time.
+ */
+export function parseTokenMetadataSeed(value: unknown, now: number = Date.now()): TokenMetadataRecord[] {
+  const tokens = isRecord(value) ? value.tokens : value;
+  if (!Array.isArray(tokens)) {
+    throw new ValidationError('Token metadata seed must be a list of tokens', [
+      { field: 'tokens', message: 'Must be an array, or an object with a tokens array', value },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const records: TokenMetadataRecord[] = [];
+
+  tokens.forEach((token: unknown, i) => {
+    const field = `tokens[${i}]`;
+    if (!isRecord(token)) {
+      issues.push({ field, message: 'must be an object', value: token });
+      return;
+    }
+
+    const before = issues.length;
+    if (!Number.isInteger(token.chainId) || (token.chainId as number) <= 0) {
+      issues.push({ field: `${field}.chainId`, message: 'must be a positive integer', value: token.chainId });
+    }
+    if (typeof token.address !== 'string' || !isAddress(token.address, { strict: false })) {
+      issues.push({ field: `${field}.address`, message: 'must be a valid Ethereum address', value: token.address });
+    }
+    for (const key of ['name', 'symbol'] as const) {
+      if (typeof token[key] !== 'string') {
+        issues.push({ field: `${field}.${key}`, message: 'must be a string', value: token[key] });
+      }
+    }
+    if (!Number.isInteger(token.decimals) || (token.decimals as number) < 0 || (token.decimals as number) > 255) {
+      issues.push({ field: `${field}.decimals`, message: 'must be an integer between 0 and 255', value: token.decimals });
+    }
+    if (token.verified !== undefined && typeof token.verified !== 'boolean') {
+      issues.push({ field: `${field}.verified`, message: 'must be a boolean', value: token.verified });
+    }
+    if (issues.length > before) return;
+
+    records.push({
+      chainId: token.chainId as number,
+      address: (token.address as string).toLowerCase(),
+      name: token.name as string,
+      symbol: token.symbol as string,
+      decimals: token.decimals as number,
+      verified: token.verified as boolean | undefined,
+      source: 'seed',
+      confidence: { name: 'high', symbol: 'high', decimals: 'high' },
+      resolvedAt: now,
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid token metadata seed: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  return records;
+}
+
+function recordKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
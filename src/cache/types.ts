@@ -1,4 +1,4 @@
-import { TokenApproval } from '../types';
+import { Approval, SerializedApproval } from '../types';
 
 export interface CacheEntry<T> {
   data: T;
@@ -23,12 +23,143 @@ export interface CacheStats {
 }
 
 export interface ApprovalCacheData {
-  approvals: TokenApproval[];
+  approvals: Approval[];
   walletAddress: string;
   chainId: number;
   blockNumber: bigint;
 }
 
+/**
+ * JSON form of a cache entry: bigints as decimal strings, approvals in
+ * their `SerializedApproval` form.
+ */
+export interface SerializedCacheEntry {
+  schemaVersion: number;
+  timestamp: number;
+  expiresAt: number;
+  hits: number;
+  data: {
+    walletAddress: string;
+    chainId: number;
+    blockNumber: string;
+    approvals: SerializedApproval[];
+  };
+}
+
+/**
+ * One cached scan as listed by `ApprovalCache.list()`.
+ */
+export interface CacheEntryInfo {
+  walletAddress: string;
+  chainId: number;
+  blockNumber: bigint;
+  approvalCount: number;
+  timestamp: number;
+  expiresAt: number;
+  expired: boolean;
+}
+
+/**
+ * A wallet's reconciled approval state as of `blockNumber`: the latest log
+ * for every approval key seen in `[fromBlock, blockNumber]`, with the amount
+ * that log set. Live values are never stored; they are read again on every
+ * scan.
+ */
+export interface ScanCheckpoint {
+  walletAddress: string;
+  chainId: number;
+  /** First block the state covers */
+  fromBlock: bigint;
+  /** Last block folded into `approvals`; the next scan reads logs after it */
+  blockNumber: bigint;
+  /** Hash of `blockNumber`, to notice a reorg deeper than the rewind */
+  blockHash: string;
+  approvals: Approval[];
+}
+
+/**
+ * JSON form of `ScanCheckpoint`.
+ */
+export interface SerializedScanCheckpoint {
+  schemaVersion: number;
+  walletAddress: string;
+  chainId: number;
+  fromBlock: string;
+  blockNumber: string;
+  blockHash: string;
+  approvals: SerializedApproval[];
+}
+
+/**
+ * Where a token's name, symbol and decimals came from: the built-in list, a
+ * seed file, the token contract itself, or a token list when the contract
+ * did not answer. Records from token lists are never stored.
+ */
+export type TokenMetadataSource = 'builtin' | 'seed' | 'chain' | 'list';
+
+/**
+ * How far a metadata field can be trusted: read through the standard ABI or
+ * curated (`high`), decoded from a non-standard `bytes32` return or taken
+ * from a token list (`medium`), or a placeholder because the token has no
+ * such method (`none`).
+ */
+export type MetadataConfidence = 'high' | 'medium' | 'none';
+
+export interface TokenMetadataConfidence {
+  name: MetadataConfidence;
+  symbol: MetadataConfidence;
+  decimals: MetadataConfidence;
+}
+
+/**
+ * Token metadata kept by a `TokenMetadataStore`, scoped to one chain. Name,
+ * symbol and decimals never change once resolved; `totalSupply` is read
+ * again once `refreshedAt` is older than the service's supply TTL.
+ */
+export interface TokenMetadataRecord {
+  chainId: number;
+  /** Lowercase token address */
+  address: string;
+  name: string;
+  symbol: string;
+  /** Unset when the token has no `decimals()` */
+  decimals?: number;
+  totalSupply?: bigint;
+  verified?: boolean;
+  source: TokenMetadataSource;
+  confidence: TokenMetadataConfidence;
+  /** When name, symbol and decimals were resolved (ms since epoch) */
+  resolvedAt: number;
+  /** When `totalSupply` was last read from the chain; unset for records never read from it */
+  refreshedAt?: number;
+}
+
+/**
+ * JSON form of `TokenMetadataRecord`, without the chain ID its file is
+ * scoped to.
+ */
+export interface SerializedTokenMetadataRecord {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals?: number;
+  totalSupply?: string;
+  verified?: boolean;
+  source: TokenMetadataSource;
+  confidence: TokenMetadataConfidence;
+  resolvedAt: number;
+  refreshedAt?: number;
+}
+
+/**
+ * One chain's stored token metadata, as written by `FileTokenMetadataStore`.
+ */
+export interface SerializedTokenMetadataFile {
+  schemaVersion: number;
+  chainId: number;
+  tokens: SerializedTokenMetadataRecord[];
+}
+
 export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
   ttl: 5 * 60 * 1000, // 5 minutes
   maxSize: 100,
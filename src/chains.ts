@@ -0,0 +1,294 @@
+import { defineChain, isAddress, type Address, type Chain } from 'viem';
+import { arbitrum, base, mainnet, optimism, polygon, sepolia } from 'viem/chains';
+import { ValidationError, ValidationIssue } from './errors/validation-error';
+import { isNonEmptyString, isRecord } from './utils/validation';
+import { loadStructuredFile, parseStructured, StructuredFormat } from './utils/yaml';
+
+/**
+ * A chain as written in a `--chain-config` file. A definition with the id
+ * of a known chain only replaces the fields it sets; a new chain needs at
+ * least `name` and `rpcUrls`.
+ */
+export interface ChainDefinition {
+  id: number;
+  /** Name to select the chain by, e.g. "bsc" */
+  name?: string;
+  /** Further names to select the chain by */
+  aliases?: string[];
+  /** Name shown in reports (default: `name`) */
+  displayName?: string;
+  rpcUrls?: string[];
+  multicall3?: { address: Address; blockCreated?: number };
+  /** Most blocks the chain's RPCs accept in one `eth_getLogs` query */
+  maxBlockRange?: number;
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+  blockExplorer?: string;
+  testnet?: boolean;
+}
+
+export interface RegisteredChain {
+  chain: Chain;
+  /** Lowercase names the chain is selected by, the primary name first */
+  names: string[];
+  /** Endpoints set in a chain config, in priority order; empty for built-in chains */
+  rpcUrls: string[];
+  maxBlockRange?: bigint;
+}
+
+const DEFINITION_KEYS: Array<keyof ChainDefinition> = [
+  'id', 'name', 'aliases', 'displayName', 'rpcUrls', 'multicall3', 'maxBlockRange',
+  'nativeCurrency', 'blockExplorer', 'testnet',
+];
+
+const ETHER = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+const BUILTIN_CHAINS: RegisteredChain[] = [
+  builtin(mainnet, 'mainnet', 'ethereum'),
+  builtin(arbitrum, 'arbitrum'),
+  builtin(optimism, 'optimism'),
+  builtin(polygon, 'polygon'),
+  builtin(base, 'base'),
+  builtin(sepolia, 'sepolia'),
+];
+
+/**
+ * Every chain the scanner can run on, selected by name or chain ID. The
+ * built-in chains can be extended, or adjusted, with `ChainDefinition`s.
+ */
+export class ChainRegistry {
+  private readonly chains = new Map<number, RegisteredChain>();
+  private readonly byName = new Map<string, number>();
+
+  constructor(chains: RegisteredChain[] = BUILTIN_CHAINS) {
+    for (const entry of chains) {
+      this.chains.set(entry.chain.id, entry);
+      entry.names.forEach((name) => this.byName.set(name, entry.chain.id));
+    }
+  }
+
+  /** Chain IDs, in the order the chains were registered */
+  get ids(): number[] {
+    return Array.from(this.chains.keys());
+  }
+
+  get names(): string[] {
+    return Array.from(this.byName.keys());
+  }
+
+  list(): RegisteredChain[] {
+    return Array.from(this.chains.values());
+  }
+
+  has(chain: string | number): boolean {
+    return this.find(chain) !== undefined;
+  }
+
+  /**
+   * Resolves a chain from a name ("mainnet") or a numeric chain ID.
+   */
+  resolve(chain: string | number): RegisteredChain {
+    const entry = this.find(chain);
+    if (!entry) {
+      throw ValidationError.invalidChainId(chain);
+    }
+    return entry;
+  }
+
+  /**
+   * A registry with `definitions` added; definitions of a registered chain
+   * are applied over it.
+   */
+  extend(definitions: ChainDefinition[]): ChainRegistry {
+    const chains = new Map(this.chains);
+    for (const definition of definitions) {
+      chains.set(definition.id, toRegisteredChain(definition, chains.get(definition.id)));
+    }
+    return new ChainRegistry(Array.from(chains.values()));
+  }
+
+  private find(chain: string | number): RegisteredChain | undefined {
+    const chainId = typeof chain === 'number' || /^\d+$/.test(chain)
+      ? Number(chain)
+      : this.byName.get(chain.toLowerCase());
+    return chainId !== undefined ? this.chains.get(chainId) : undefined;
+  }
+}
+
+export const DEFAULT_CHAIN_REGISTRY = new ChainRegistry();
+
+/**
+ * Reads the chain definitions of a `--chain-config` file: a `chains` list
+ * in JSON (`.json`) or YAML (anything else).
+ */
+export async function loadChainConfig(filePath: string): Promise<ChainDefinition[]> {
+  return validateChainConfig(await loadStructuredFile(filePath, 'chainConfig', 'chain config'));
+}
+
+export function parseChainConfig(content: string, format: StructuredFormat): ChainDefinition[] {
+  return validateChainConfig(parseStructured(content, format, 'chainConfig', 'chain config'));
+}
+
+/**
+ * Checks a parsed chain config against `registry`, reporting every problem
+ * at once.
+ */
+export function validateChainConfig(
+  value: unknown,
+  registry: ChainRegistry = DEFAULT_CHAIN_REGISTRY
+): ChainDefinition[] {
+  if (!isRecord(value) || !Array.isArray(value.chains)) {
+    throw new ValidationError('Chain config must have a chains list', [
+      { field: 'chains', message: 'Must be a list of chain definitions', value },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, message: string, fieldValue?: unknown): void => {
+    issues.push({ field, message, value: fieldValue });
+  };
+
+  const ids = new Set<number>();
+  value.chains.forEach((definition, index) => {
+    const field = `chains[${index}]`;
+    if (!isRecord(definition)) {
+      issue(field, 'must be a mapping with at least an id', definition);
+      return;
+    }
+    checkDefinition(definition, field, issue);
+
+    if (!isPositiveInteger(definition.id)) return;
+    if (ids.has(definition.id)) {
+      issue(`${field}.id`, `duplicate chain id ${definition.id}`, definition.id);
+    }
+    ids.add(definition.id);
+    if (!registry.has(definition.id)) {
+      if (definition.name === undefined) {
+        issue(`${field}.name`, 'name is required for a chain that is not built in');
+      }
+      if (definition.rpcUrls === undefined) {
+        issue(`${field}.rpcUrls`, 'rpcUrls are required for a chain that is not built in');
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid chain config: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  return value.chains as ChainDefinition[];
+}
+
+function builtin(chain: Chain, ...names: string[]): RegisteredChain {
+  return { chain, names, rpcUrls: [] };
+}
+
+function toRegisteredChain(definition: ChainDefinition, existing?: RegisteredChain): RegisteredChain {
+  const previous = existing?.chain;
+  const rpcUrls = definition.rpcUrls ?? existing?.rpcUrls ?? [];
+  const name = definition.name?.toLowerCase();
+  const names = [...new Set([
+    ...(name ? [name] : []),
+    ...(existing?.names ?? []),
+    ...(definition.aliases ?? []).map((alias) => alias.toLowerCase()),
+  ])];
+
+  const chain = defineChain({
+    ...previous,
+    id: definition.id,
+    name: definition.displayName ?? definition.name ?? previous?.name ?? `Chain ${definition.id}`,
+    nativeCurrency: definition.nativeCurrency ?? previous?.nativeCurrency ?? ETHER,
+    rpcUrls: {
+      ...previous?.rpcUrls,
+      default: { http: rpcUrls.length > 0 ? rpcUrls : previous?.rpcUrls.default.http ?? [] },
+    },
+    blockExplorers: definition.blockExplorer
+      ? { default: { name: 'Explorer', url: definition.blockExplorer } }
+      : previous?.blockExplorers,
+    contracts: definition.multicall3
+      ? { ...previous?.contracts, multicall3: definition.multicall3 }
+      : previous?.contracts,
+    testnet: definition.testnet ?? previous?.testnet,
+  });
+
+  return {
+    chain,
+    names,
+    rpcUrls,
+    maxBlockRange: definition.maxBlockRange !== undefined
+      ? BigInt(definition.maxBlockRange)
+      : existing?.maxBlockRange,
+  };
+}
+
+type IssueReporter = (field: string, message: string, value?: unknown) => void;
+
+function checkDefinition(definition: Record<string, unknown>, field: string, issue: IssueReporter): void {
+  for (const key of Object.keys(definition)) {
+    if (!(DEFINITION_KEYS as string[]).includes(key)) {
+      issue(`${field}.${key}`, `unknown key; expected one of ${DEFINITION_KEYS.join(', ')}`);
+    }
+  }
+
+  if (!isPositiveInteger(definition.id)) {
+    issue(`${field}.id`, 'id must be a positive integer', definition.id);
+  }
+  for (const key of ['name', 'displayName', 'blockExplorer'] as const) {
+    if (definition[key] !== undefined && !isNonEmptyString(definition[key])) {
+      issue(`${field}.${key}`, `${key} must be a non-empty string`, definition[key]);
+    }
+  }
+  if (isNonEmptyString(definition.name) && /^\d+$/.test(definition.name)) {
+    issue(`${field}.name`, 'name must not be a number', definition.name);
+  }
+  if (definition.aliases !== undefined && !isStringList(definition.aliases)) {
+    issue(`${field}.aliases`, 'aliases must be a list of names', definition.aliases);
+  }
+  if (definition.rpcUrls !== undefined) {
+    const urls = definition.rpcUrls;
+    if (!isStringList(urls) || urls.length === 0 || !urls.every(isHttpUrl)) {
+      issue(`${field}.rpcUrls`, 'rpcUrls must be a non-empty list of http(s) URLs', urls);
+    }
+  }
+  if (definition.multicall3 !== undefined) {
+    const multicall3 = definition.multicall3;
+    if (!isRecord(multicall3) || typeof multicall3.address !== 'string' || !isAddress(multicall3.address, { strict: false })) {
+      issue(`${field}.multicall3.address`, 'must be a valid Ethereum address', isRecord(multicall3) ? multicall3.address : multicall3);
+    } else if (multicall3.blockCreated !== undefined && !isNonNegativeInteger(multicall3.blockCreated)) {
+      issue(`${field}.multicall3.blockCreated`, 'must be a block number', multicall3.blockCreated);
+    }
+  }
+  if (definition.maxBlockRange !== undefined && !isPositiveInteger(definition.maxBlockRange)) {
+    issue(`${field}.maxBlockRange`, 'maxBlockRange must be a positive integer', definition.maxBlockRange);
+  }
+  if (definition.nativeCurrency !== undefined) {
+    const currency = definition.nativeCurrency;
+    if (
+      !isRecord(currency) || !isNonEmptyString(currency.name) || !isNonEmptyString(currency.symbol) ||
+      !isNonNegativeInteger(currency.decimals)
+    ) {
+      issue(`${field}.nativeCurrency`, 'nativeCurrency must have a name, symbol and decimals', currency);
+    }
+  }
+  if (definition.testnet !== undefined && typeof definition.testnet !== 'boolean') {
+    issue(`${field}.testnet`, 'must be true or false', definition.testnet);
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isNonEmptyString);
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return isNonNegativeInteger(value) && value > 0;
+}
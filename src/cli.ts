@@ -1,35 +1,169 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { createPublicClient, http, type Address } from 'viem';
-import { mainnet, polygon, arbitrum, optimism } from 'viem/chains';
-import { ApprovalScanner } from './scanner';
+import { ApprovalScanner, createScanner } from './scanner';
+import { MultiChainScanner, MultiChainScannerOptions, selectChains } from './multi-chain-scanner';
+import { PortfolioScanner, loadAddressBook } from './portfolio';
 import { ReportGenerator } from './services/report-generator';
-import { RiskScorer } from './risk-scorer';
-import { config } from './config';
-import { handleError, ApprovalGuardError } from './errors';
+import { FileCheckpointStore } from './cache/checkpoint-store';
+import { ApprovalCache } from './cache/approval-cache';
+import { FileCacheStorage } from './cache/cache-storage';
+import {
+  FileTokenMetadataStore,
+  MemoryTokenMetadataStore,
+  loadTokenMetadataSeed,
+} from './cache/token-metadata-store';
+import { bigintReplacer } from './approval';
+import { getConfig, SUPPORTED_CHAIN_NAMES } from './config';
+import { ChainRegistry, DEFAULT_CHAIN_REGISTRY, RegisteredChain, loadChainConfig } from './chains';
+import { loadRiskPolicy } from './risk/risk-policy';
+import { loadRiskRules } from './risk/rules';
+import { ErrorHandler, ValidationError } from './errors';
+import {
+  ApprovalData,
+  ApprovalReport,
+  PortfolioReport,
+  ReportFormat,
+  RiskLevel,
+  ScanMetadata,
+  SpenderExposureResult,
+  TokenApprovalCensus,
+} from './types';
 import { validateAddress, validateOutputPath } from './utils/validation';
+import {
+  formatAllowance,
+  formatAmountAtRisk,
+  formatApprovedAllowance,
+  formatDate,
+  formatSpenderStatus,
+} from './utils/formatting';
+import { isPermit2 } from './services/permit2-service';
+import { TokenListIndex, loadTokenList } from './services/token-list';
+import { SpenderLabelIndex, loadSpenderLabels } from './services/spender-labels';
+import type { RpcPoolMode, RpcPoolOptions } from './services/rpc-pool';
+import { RpcRecorder, loadRpcRecording, replayTransport } from './services/rpc-recording';
 import { createSpinner } from './utils/spinner';
 import { logger, LogLevel } from './utils/logger';
 import * as fs from 'fs';
 import * as path from 'path';
+import type { Transport } from 'viem';
 
-const CHAINS = {
-  mainnet,
-  polygon,
-  arbitrum,
-  optimism,
-} as const;
+const DISPLAY_FORMATS = ['table', 'minimal'] as const;
+const RPC_MODES: RpcPoolMode[] = ['failover', 'round-robin'];
+const REPORT_FORMATS: ReportFormat[] = ['json', 'text', 'csv'];
 
-type ChainName = keyof typeof CHAINS;
+type DisplayFormat = typeof DISPLAY_FORMATS[number];
+type OutputFormat = DisplayFormat | ReportFormat;
 
-interface ScanOptions {
-  chain: ChainName;
+interface OutputOptions {
   output?: string;
-  format: 'json' | 'table' | 'minimal';
+  format: OutputFormat;
   verbose?: boolean;
   quiet?: boolean;
-  threshold?: string;
+}
+
+interface RpcOptions {
+  rpc: string[];
+  rpcMode: string;
+  quorum?: boolean;
+  maxRps?: string;
+  maxCu?: string;
+  record?: string;
+  replay?: string;
+}
+
+/**
+ * Where RPC requests go instead of the endpoints: a recording to serve
+ * them from, or a recorder keeping them for `--record`.
+ */
+interface RpcPlayback {
+  transport?: Transport;
+  recorder?: RpcRecorder;
+}
+
+interface LogRangeOptions {
+  fromBlock?: string;
+  maxBlockRange?: string;
+}
+
+interface ScanCommandOptions extends OutputOptions, LogRangeOptions, RpcOptions {
+  chain: string;
+  chains?: string;
+  chainConfig?: string;
+  policy?: string;
+  rules: string[];
+  threshold: string;
+  cache: boolean;
+  cacheDir?: string;
+  cacheMaxEntries: string;
+  checkpointDir?: string;
+  reorgDepth?: string;
+  tokenSeed?: string;
+  tokenList: string[];
+  multicall: boolean;
+}
+
+interface CheckCommandOptions extends OutputOptions, LogRangeOptions, RpcOptions {
+  chain: string;
+  chainConfig?: string;
+  policy?: string;
+  rules: string[];
+  token: string;
+  spender?: string;
+  multicall: boolean;
+}
+
+interface ExposureCommandOptions extends OutputOptions, RpcOptions {
+  chain: string;
+  chainConfig?: string;
+  owner: string[];
+  owners?: string;
+  fromBlock?: string;
+  toBlock?: string;
+  maxBlockRange?: string;
+  multicall: boolean;
+}
+
+interface TokenApprovalsCommandOptions extends OutputOptions, RpcOptions {
+  chain: string;
+  chainConfig?: string;
+  spenderLabels: string[];
+  minAllowances: string;
+  policy?: string;
+  fromBlock?: string;
+  toBlock?: string;
+  maxBlockRange?: string;
+  multicall: boolean;
+}
+
+interface PortfolioCommandOptions extends OutputOptions, Pick<RpcOptions, 'rpcMode' | 'quorum' | 'maxRps' | 'maxCu'> {
+  chains: string;
+  chainConfig?: string;
+  tag: string[];
+  concurrency: string;
+  policy?: string;
+  rules: string[];
+  cache: boolean;
+  cacheDir?: string;
+  cacheMaxEntries: string;
+  maxBlockRange?: string;
+  tokenList: string[];
+  multicall: boolean;
+}
+
+interface ReportCommandOptions extends OutputOptions {
+  recommendations: boolean;
+}
+
+interface ChainsCommandOptions extends Pick<OutputOptions, 'verbose' | 'quiet'> {
+  chainConfig?: string;
+  json?: boolean;
+}
+
+interface CacheCommandOptions extends Pick<OutputOptions, 'verbose' | 'quiet'> {
+  cacheDir?: string;
+  maxEntries?: string;
+  json?: boolean;
 }
 
 const program = new Command();
@@ -43,144 +177,1158 @@ program
   .command('scan')
   .description('Scan a wallet for token approvals')
   .argument('<address>', 'Wallet address to scan')
-  .option('-c, --chain <chain>', 'Chain to scan', 'mainnet')
+  .option('-c, --chain <chain>', `Chain to scan (${SUPPORTED_CHAIN_NAMES.join(', ')}, a chain from --chain-config, or chain ID)`, 'mainnet')
+  .option('--chains <chains>', 'Scan several chains at once: a comma-separated list, or all (every chain that is not a testnet)')
+  .option('--chain-config <path>', 'Chain config file (JSON or YAML) adding or adjusting chains (defaults to $APPROVAL_GUARD_CHAINS)')
+  .option('-r, --rpc <url>', 'RPC endpoint URL (repeatable; defaults to $RPC_URLS_<chainId>, $ETH_RPC_URL, then the chain\'s public RPC)', collect, [])
+  .option('--rpc-mode <mode>', `How requests are spread over several endpoints (${RPC_MODES.join(', ')})`, 'failover')
+  .option('--quorum', 'Cross-check allowance and block hash reads on two endpoints')
+  .option('--max-rps <requests>', 'Most requests per second sent to each RPC endpoint')
+  .option('--max-cu <units>', 'Most compute units per second spent on each RPC endpoint')
+  .option('--record <path>', 'Save every RPC request and response to this file')
+  .option('--replay <path>', 'Answer RPC requests from a file saved with --record instead of the network')
+  .option('-p, --policy <path>', 'Risk policy file (JSON or YAML)')
+  .option('--rules <module>', 'Module exporting extra risk rules (repeatable)', collect, [])
   .option('-o, --output <path>', 'Output file path')
-  .option('-f, --format <format>', 'Output format (json, table, minimal)', 'table')
+  .option('-f, --format <format>', 'Output format (table, minimal, json, text, csv)', 'table')
   .option('-v, --verbose', 'Enable verbose output')
   .option('-q, --quiet', 'Suppress non-essential output')
   .option('-t, --threshold <score>', 'Minimum risk score to display', '0')
-  .action(async (address: string, options: ScanOptions) => {
-    // Configure logging
-    if (options.quiet) {
-      logger.setLevel(LogLevel.ERROR);
-    } else if (options.verbose) {
-      logger.setLevel(LogLevel.DEBUG);
-    }
+  .option('--no-cache', 'Disable caching')
+  .option('--cache-dir <path>', 'Scan cache directory (defaults to $APPROVAL_GUARD_CACHE_DIR, then ~/.cache/approval-guard)')
+  .option('--cache-max-entries <count>', 'Most scans kept in the cache', '100')
+  .option('--from-block <block>', 'First block to read logs from (0 scans the full history)')
+  .option('--max-block-range <blocks>', 'Most blocks per getLogs query your RPC accepts')
+  .option('--no-multicall', 'Send one eth_call per contract read instead of batching through Multicall3')
+  .option('--checkpoint-dir <path>', 'Keep scan checkpoints here and only read logs since the last scan')
+  .option('--reorg-depth <blocks>', 'Blocks behind the head an incremental scan reads again', '64')
+  .option('--token-seed <path>', 'JSON file of token metadata to add to the metadata store before scanning')
+  .option('--token-list <path>', 'Token list file (Uniswap Token List JSON) of verified tokens (repeatable, earlier lists win)', collect, [])
+  .action(async (address: string, options: ScanCommandOptions) => {
+    configureLogging(options);
 
-    const spinner = createSpinner();
+    const spinner = createSpinner('Fetching approvals...');
 
     try {
       // Validate inputs
-      if (!validateAddress(address)) {
-        throw new ApprovalGuardError('Invalid Ethereum address provided');
-      }
+      validateAddress(address, 'address');
+      validateOutputOptions(options);
 
-      if (options.output && !validateOutputPath(options.output)) {
-        throw new ApprovalGuardError('Invalid output path provided');
+      const threshold = parseInt(options.threshold, 10);
+      if (isNaN(threshold)) {
+        throw new ValidationError(`Invalid threshold: ${options.threshold}`, [
+          { field: 'threshold', message: 'Must be a number between 0 and 100', value: options.threshold },
+        ]);
       }
 
-      const chainName = options.chain as ChainName;
-      if (!CHAINS[chainName]) {
-        throw new ApprovalGuardError(`Unsupported chain: ${options.chain}`);
+      const chains = await loadChainRegistry(options.chainConfig);
+      const appConfig = getConfig({ chain: options.chain, chains, rpcUrls: options.rpc, cacheDir: options.cacheDir });
+      const rpc = parseRpcOptions(options);
+      const selected = options.chains !== undefined ? parseChainsOption(options, chains) : null;
+      const playback = await openRpcPlayback(options, appConfig.chainId);
+      // A cached scan sends no requests, so recording and replaying skip the caches
+      const cacheEnabled = options.cache && !options.record && !options.replay;
+      const policy = options.policy ? await loadRiskPolicy(options.policy) : undefined;
+      const rules = (await Promise.all(options.rules.map(loadRiskRules))).flat();
+      const fromBlock = parseBlockOption(options.fromBlock, 'fromBlock');
+      const maxBlockRange = parseBlockOption(options.maxBlockRange, 'maxBlockRange', 1n);
+      const cache = cacheEnabled
+        ? new ApprovalCache(
+          { maxSize: parseCountOption(options.cacheMaxEntries, 'cacheMaxEntries') },
+          new FileCacheStorage(appConfig.cacheDir)
+        )
+        : undefined;
+      const reorgDepth = parseBlockOption(options.reorgDepth, 'reorgDepth');
+      // Token metadata outlives the scan cache's TTL, so it is kept beside it rather than in it
+      const tokenMetadata = cacheEnabled
+        ? new FileTokenMetadataStore(path.join(appConfig.cacheDir, 'tokens'))
+        : new MemoryTokenMetadataStore();
+      if (options.tokenSeed) {
+        await tokenMetadata.put(await loadTokenMetadataSeed(options.tokenSeed));
       }
+      const tokenLists = new TokenListIndex(await Promise.all(options.tokenList.map(loadTokenList)));
 
       logger.header('Approval Guard Scanner');
       logger.info(`Scanning wallet: ${logger.formatAddress(address, false)}`);
-      logger.info(`Chain: ${chainName}`);
+      if (selected) {
+        logger.info(`Chains: ${selected.map(({ chain }) => `${chain.name} (${chain.id})`).join(', ')}`);
+      } else {
+        logger.info(`Chain: ${appConfig.chain.name} (${appConfig.chainId})`);
+        logRpcEndpoints(appConfig.rpcUrls, rpc, options);
+      }
+      if (cache) {
+        logger.debug(`Cache: ${cache.location}`);
+      }
+      logger.debug(`Token metadata: ${tokenMetadata.location}`);
+      if (policy) {
+        logger.info(`Risk policy: ${policy.name}@${policy.version}`);
+      }
+      if (rules.length > 0) {
+        logger.info(`Extra risk rules: ${rules.map((rule) => rule.id).join(', ')}`);
+      }
+      if (options.tokenList.length > 0 && !selected) {
+        logger.info(`Token lists: ${tokenLists.count(appConfig.chainId)} tokens on this chain`);
+      }
       logger.divider();
 
-      const chain = CHAINS[chainName];
-      const client = createPublicClient({
-        chain,
-        transport: http(config.rpcUrl),
-      });
+      const shared: MultiChainScannerOptions = {
+        chains,
+        rpc,
+        cacheEnabled,
+        cache,
+        historyEnabled: false,
+        logs: { maxBlockRange },
+        multicall: { enabled: options.multicall },
+        checkpoints: options.checkpointDir ? new FileCheckpointStore(options.checkpointDir) : undefined,
+        reorgDepth,
+        tokenMetadata,
+        tokenLists,
+        risk: { policy, rules },
+      };
 
-      const scanner = new ApprovalScanner(client as any);
-      const riskScorer = new RiskScorer();
-      const reportGenerator = new ReportGenerator();
+      if (selected) {
+        const scanner = new MultiChainScanner(selected.map(({ chain }) => chain.id), shared);
 
-      spinner.start('Fetching approvals...');
-      const approvals = await scanner.scanWallet(address as Address);
-      spinner.succeed(`Found ${approvals.length} approvals`);
+        spinner.start();
+        const result = await scanner.scan(address, { fromBlock });
+        const scanned = Object.keys(result.chains).length;
+        spinner.succeed(`Found ${result.approvals.length} approvals on ${scanned} chain${scanned === 1 ? '' : 's'}`);
+        for (const failure of result.failures) {
+          logger.warn(`${failure.chainName} (${failure.chainId}) could not be scanned: ${failure.error}`);
+        }
+        for (const [chainId, chainResult] of Object.entries(result.chains)) {
+          const chainScanner = scanner.scannerFor(Number(chainId));
+          if (chainScanner) {
+            reportRpcState(chainScanner, chainResult);
+          }
+        }
 
-      if (approvals.length === 0) {
-        logger.success('No token approvals found for this wallet!');
+        writeReport(scanner.buildReport(result), options, threshold);
         return;
       }
 
-      spinner.start('Analyzing risk...');
-      const scoredApprovals = approvals.map(approval => ({
-        ...approval,
-        riskScore: riskScorer.calculateRiskScore(approval),
-        riskFactors: riskScorer.getRiskFactors(approval),
-      }));
-      spinner.succeed('Risk analysis complete');
+      const scanner = createScanner({
+        ...shared,
+        chain: appConfig.chainId,
+        rpcUrls: appConfig.rpcUrls,
+        ...playback,
+      });
+
+      spinner.start();
+      const result = await scanner.scan(address, { fromBlock });
+      spinner.succeed(`Found ${result.approvals.length} approvals`);
+      await saveRpcRecording(playback, options);
+      if (result.scanMetadata.checkpointBlock) {
+        logger.debug(`Continued from checkpoint at block ${result.scanMetadata.checkpointBlock}`);
+      }
+      reportRpcState(scanner, result);
+
+      writeReport(scanner.buildReport(result), options, threshold);
+    } catch (error) {
+      spinner.fail('Scan failed');
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+program
+  .command('check')
+  .description('Check the live allowance a wallet has granted for a token')
+  .argument('<wallet>', 'Wallet address to check')
+  .requiredOption('--token <address>', 'Token contract address')
+  .option('--spender <address>', 'Spender address (defaults to every spender found in the token\'s Approval logs)')
+  .option('-c, --chain <chain>', `Chain to check (${SUPPORTED_CHAIN_NAMES.join(', ')}, a chain from --chain-config, or chain ID)`, 'mainnet')
+  .option('--chain-config <path>', 'Chain config file (JSON or YAML) adding or adjusting chains (defaults to $APPROVAL_GUARD_CHAINS)')
+  .option('-r, --rpc <url>', 'RPC endpoint URL (repeatable; defaults to $RPC_URLS_<chainId>, $ETH_RPC_URL, then the chain\'s public RPC)', collect, [])
+  .option('--rpc-mode <mode>', `How requests are spread over several endpoints (${RPC_MODES.join(', ')})`, 'failover')
+  .option('--quorum', 'Cross-check allowance and block hash reads on two endpoints')
+  .option('--max-rps <requests>', 'Most requests per second sent to each RPC endpoint')
+  .option('--max-cu <units>', 'Most compute units per second spent on each RPC endpoint')
+  .option('--record <path>', 'Save every RPC request and response to this file')
+  .option('--replay <path>', 'Answer RPC requests from a file saved with --record instead of the network')
+  .option('-p, --policy <path>', 'Risk policy file (JSON or YAML)')
+  .option('--rules <module>', 'Module exporting extra risk rules (repeatable)', collect, [])
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (table, minimal, json, text, csv)', 'table')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .option('--from-block <block>', 'First block to read logs from (0 scans the full history)')
+  .option('--max-block-range <blocks>', 'Most blocks per getLogs query your RPC accepts')
+  .option('--no-multicall', 'Send one eth_call per contract read instead of batching through Multicall3')
+  .action(async (wallet: string, options: CheckCommandOptions) => {
+    configureLogging(options);
+
+    const spinner = createSpinner('Reading allowance...');
+
+    try {
+      validateAddress(wallet, 'wallet');
+      validateAddress(options.token, 'token');
+      if (options.spender) {
+        validateAddress(options.spender, 'spender');
+      }
+      validateOutputOptions(options);
+
+      const chains = await loadChainRegistry(options.chainConfig);
+      const appConfig = getConfig({ chain: options.chain, chains, rpcUrls: options.rpc });
+      const rpc = parseRpcOptions(options);
+      const playback = await openRpcPlayback(options, appConfig.chainId);
+      const policy = options.policy ? await loadRiskPolicy(options.policy) : undefined;
+      const rules = (await Promise.all(options.rules.map(loadRiskRules))).flat();
+      const fromBlock = parseBlockOption(options.fromBlock, 'fromBlock');
+      const maxBlockRange = parseBlockOption(options.maxBlockRange, 'maxBlockRange', 1n);
+
+      logger.header('Approval Guard Check');
+      logger.info(`Wallet: ${logger.formatAddress(wallet, false)}`);
+      logger.info(`Token: ${logger.formatAddress(options.token, false)}`);
+      if (options.spender) {
+        logger.info(`Spender: ${logger.formatAddress(options.spender, false)}`);
+      }
+      logger.info(`Chain: ${appConfig.chain.name} (${appConfig.chainId})`);
+      logRpcEndpoints(appConfig.rpcUrls, rpc, options);
+      if (policy) {
+        logger.info(`Risk policy: ${policy.name}@${policy.version}`);
+      }
+      if (rules.length > 0) {
+        logger.info(`Extra risk rules: ${rules.map((rule) => rule.id).join(', ')}`);
+      }
+      logger.divider();
+
+      const scanner = createScanner({
+        chain: appConfig.chainId,
+        chains,
+        rpcUrls: appConfig.rpcUrls,
+        rpc,
+        ...playback,
+        cacheEnabled: false,
+        historyEnabled: false,
+        logs: { maxBlockRange },
+        multicall: { enabled: options.multicall },
+        risk: { policy, rules },
+      });
+
+      spinner.start();
+      const result = await scanner.check(wallet, options.token, options.spender, { fromBlock });
+      spinner.succeed(`Checked ${result.approvals.length} allowance${result.approvals.length === 1 ? '' : 's'}`);
+      await saveRpcRecording(playback, options);
+      reportRpcState(scanner, result);
+
+      writeReport(scanner.buildReport(result), options);
+    } catch (error) {
+      spinner.fail('Check failed');
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
 
-      // Filter by threshold
-      const threshold = parseInt(options.threshold || '0', 10);
-      const filteredApprovals = scoredApprovals.filter(
-        a => a.riskScore >= threshold
+program
+  .command('spender-exposure')
+  .description('List every owner with a live approval to a spender, by amount at risk')
+  .argument('<spender>', 'Spender address, e.g. an exploited contract')
+  .option('--owner <address>', 'Only look at approvals from this owner (repeatable)', collect, [])
+  .option('--owners <path>', 'File of owners to look at, one address per line')
+  .option('-c, --chain <chain>', `Chain to scan (${SUPPORTED_CHAIN_NAMES.join(', ')}, a chain from --chain-config, or chain ID)`, 'mainnet')
+  .option('--chain-config <path>', 'Chain config file (JSON or YAML) adding or adjusting chains (defaults to $APPROVAL_GUARD_CHAINS)')
+  .option('-r, --rpc <url>', 'RPC endpoint URL (repeatable; defaults to $RPC_URLS_<chainId>, $ETH_RPC_URL, then the chain\'s public RPC)', collect, [])
+  .option('--rpc-mode <mode>', `How requests are spread over several endpoints (${RPC_MODES.join(', ')})`, 'failover')
+  .option('--quorum', 'Cross-check allowance and block hash reads on two endpoints')
+  .option('--max-rps <requests>', 'Most requests per second sent to each RPC endpoint')
+  .option('--max-cu <units>', 'Most compute units per second spent on each RPC endpoint')
+  .option('--record <path>', 'Save every RPC request and response to this file')
+  .option('--replay <path>', 'Answer RPC requests from a file saved with --record instead of the network')
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (table, minimal, json, text, csv)', 'table')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .option('--from-block <block>', 'First block to read logs from (0 scans the full history)')
+  .option('--to-block <block>', 'Last block to read logs from and to read allowances at (defaults to the latest)')
+  .option('--max-block-range <blocks>', 'Most blocks per getLogs query your RPC accepts')
+  .option('--no-multicall', 'Send one eth_call per contract read instead of batching through Multicall3')
+  .action(async (spender: string, options: ExposureCommandOptions) => {
+    configureLogging(options);
+
+    const spinner = createSpinner('Reading approvals to the spender...');
+
+    try {
+      validateAddress(spender, 'spender');
+      validateOutputOptions(options);
+
+      const owners = parseOwnersOptions(options);
+      const chains = await loadChainRegistry(options.chainConfig);
+      const appConfig = getConfig({ chain: options.chain, chains, rpcUrls: options.rpc });
+      const rpc = parseRpcOptions(options);
+      const playback = await openRpcPlayback(options, appConfig.chainId);
+      const fromBlock = parseBlockOption(options.fromBlock, 'fromBlock');
+      const toBlock = parseBlockOption(options.toBlock, 'toBlock');
+      const maxBlockRange = parseBlockOption(options.maxBlockRange, 'maxBlockRange', 1n);
+
+      logger.header('Approval Guard Spender Exposure');
+      logger.info(`Spender: ${logger.formatAddress(spender, false)}`);
+      if (owners) {
+        logger.info(`Owners: ${owners.length}`);
+      }
+      logger.info(`Chain: ${appConfig.chain.name} (${appConfig.chainId})`);
+      logRpcEndpoints(appConfig.rpcUrls, rpc, options);
+      logger.divider();
+
+      const scanner = createScanner({
+        chain: appConfig.chainId,
+        chains,
+        rpcUrls: appConfig.rpcUrls,
+        rpc,
+        ...playback,
+        cacheEnabled: false,
+        historyEnabled: false,
+        logs: { maxBlockRange },
+        multicall: { enabled: options.multicall },
+      });
+
+      spinner.start();
+      const result = await scanner.spenderExposure(spender, { owners, fromBlock, toBlock });
+      spinner.succeed(
+        `Found ${result.summary.approvals} live approval${result.summary.approvals === 1 ? '' : 's'} ` +
+        `from ${result.summary.owners} owner${result.summary.owners === 1 ? '' : 's'}`
       );
+      await saveRpcRecording(playback, options);
+      reportRpcState(scanner, result);
+
+      writeExposure(result, options);
+    } catch (error) {
+      spinner.fail('Exposure scan failed');
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+program
+  .command('token-approvals')
+  .description('List the live allowances granted on a token, grouped by spender')
+  .argument('<token>', 'Token contract address')
+  .option('--spender-labels <path>', 'File (JSON or YAML) naming spenders (repeatable, earlier files win)', collect, [])
+  .option('--min-allowances <count>', 'Allowances an unknown or unverified spender holds before it is flagged', '10')
+  .option('-p, --policy <path>', 'Risk policy file (JSON or YAML) whose trusted and blocked spenders apply')
+  .option('-c, --chain <chain>', `Chain to scan (${SUPPORTED_CHAIN_NAMES.join(', ')}, a chain from --chain-config, or chain ID)`, 'mainnet')
+  .option('--chain-config <path>', 'Chain config file (JSON or YAML) adding or adjusting chains (defaults to $APPROVAL_GUARD_CHAINS)')
+  .option('-r, --rpc <url>', 'RPC endpoint URL (repeatable; defaults to $RPC_URLS_<chainId>, $ETH_RPC_URL, then the chain\'s public RPC)', collect, [])
+  .option('--rpc-mode <mode>', `How requests are spread over several endpoints (${RPC_MODES.join(', ')})`, 'failover')
+  .option('--quorum', 'Cross-check allowance and block hash reads on two endpoints')
+  .option('--max-rps <requests>', 'Most requests per second sent to each RPC endpoint')
+  .option('--max-cu <units>', 'Most compute units per second spent on each RPC endpoint')
+  .option('--record <path>', 'Save every RPC request and response to this file')
+  .option('--replay <path>', 'Answer RPC requests from a file saved with --record instead of the network')
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (table, minimal, json, text, csv)', 'table')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .option('--from-block <block>', 'First block to read logs from (0 scans the full history)')
+  .option('--to-block <block>', 'Last block to read logs from and to read allowances at (defaults to the latest)')
+  .option('--max-block-range <blocks>', 'Most blocks per getLogs query your RPC accepts')
+  .option('--no-multicall', 'Send one eth_call per contract read instead of batching through Multicall3')
+  .action(async (token: string, options: TokenApprovalsCommandOptions) => {
+    configureLogging(options);
 
-      // Output results
-      logger.header('Scan Results');
+    const spinner = createSpinner('Reading approvals on the token...');
 
-      if (options.format === 'table') {
-        displayTableOutput(filteredApprovals, logger);
-      } else if (options.format === 'minimal') {
-        displayMinimalOutput(filteredApprovals, logger);
+    try {
+      validateAddress(token, 'token');
+      validateOutputOptions(options);
+
+      const minAllowances = parseCountOption(options.minAllowances, 'minAllowances');
+      const labels = (await Promise.all(options.spenderLabels.map(loadSpenderLabels))).flat();
+      const policy = options.policy ? await loadRiskPolicy(options.policy) : undefined;
+      const chains = await loadChainRegistry(options.chainConfig);
+      const appConfig = getConfig({ chain: options.chain, chains, rpcUrls: options.rpc });
+      const rpc = parseRpcOptions(options);
+      const playback = await openRpcPlayback(options, appConfig.chainId);
+      const fromBlock = parseBlockOption(options.fromBlock, 'fromBlock');
+      const toBlock = parseBlockOption(options.toBlock, 'toBlock');
+      const maxBlockRange = parseBlockOption(options.maxBlockRange, 'maxBlockRange', 1n);
+
+      logger.header('Approval Guard Token Approvals');
+      logger.info(`Token: ${logger.formatAddress(token, false)}`);
+      logger.info(`Chain: ${appConfig.chain.name} (${appConfig.chainId})`);
+      if (labels.length > 0) {
+        logger.info(`Spender labels: ${labels.length}`);
       }
+      if (policy) {
+        logger.info(`Risk policy: ${policy.name}@${policy.version}`);
+      }
+      logRpcEndpoints(appConfig.rpcUrls, rpc, options);
+      logger.divider();
 
-      // Generate JSON report
-      const report = reportGenerator.generate({
-        wallet: address as Address,
-        chain: chainName,
-        approvals: scoredApprovals,
-        scanDate: new Date().toISOString(),
+      const scanner = createScanner({
+        chain: appConfig.chainId,
+        chains,
+        rpcUrls: appConfig.rpcUrls,
+        rpc,
+        ...playback,
+        cacheEnabled: false,
+        historyEnabled: false,
+        logs: { maxBlockRange },
+        multicall: { enabled: options.multicall },
+        spenderLabels: new SpenderLabelIndex(labels),
+        risk: { policy },
       });
 
-      if (options.format === 'json' || options.output) {
-        const jsonOutput = JSON.stringify(report, null, 2);
-        
-        if (options.output) {
-          const outputPath = path.resolve(options.output);
-          fs.writeFileSync(outputPath, jsonOutput);
-          logger.success(`Report saved to: ${outputPath}`);
-        } else if (options.format === 'json') {
-          console.log(jsonOutput);
-        }
+      spinner.start();
+      const census = await scanner.tokenApprovals(token, { fromBlock, toBlock, minAllowances });
+      spinner.succeed(
+        `Found ${census.summary.approvals} live allowance${census.summary.approvals === 1 ? '' : 's'} ` +
+        `to ${census.summary.spenders} spender${census.summary.spenders === 1 ? '' : 's'}`
+      );
+      await saveRpcRecording(playback, options);
+      reportRpcState(scanner, census);
+
+      writeTokenApprovals(census, options);
+    } catch (error) {
+      spinner.fail('Token approvals scan failed');
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+program
+  .command('portfolio')
+  .description('Scan every wallet of an address book and report on them together')
+  .argument('<address-book>', 'Address book (JSON or YAML) listing the wallets, with labels, tags and chains')
+  .option('--chains <chains>', 'Chains of wallets that name none: a comma-separated list, or all', 'mainnet')
+  .option('--chain-config <path>', 'Chain config file (JSON or YAML) adding or adjusting chains (defaults to $APPROVAL_GUARD_CHAINS)')
+  .option('--tag <tag>', 'Only scan wallets with this tag (repeatable)', collect, [])
+  .option('--concurrency <wallets>', 'Most wallets scanned at once', '4')
+  .option('--rpc-mode <mode>', `How requests are spread over several endpoints (${RPC_MODES.join(', ')})`, 'failover')
+  .option('--quorum', 'Cross-check allowance and block hash reads on two endpoints')
+  .option('--max-rps <requests>', 'Most requests per second sent to each RPC endpoint')
+  .option('--max-cu <units>', 'Most compute units per second spent on each RPC endpoint')
+  .option('-p, --policy <path>', 'Risk policy file (JSON or YAML)')
+  .option('--rules <module>', 'Module exporting extra risk rules (repeatable)', collect, [])
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (table, minimal, json, text, csv)', 'table')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .option('--no-cache', 'Disable caching')
+  .option('--cache-dir <path>', 'Scan cache directory (defaults to $APPROVAL_GUARD_CACHE_DIR, then ~/.cache/approval-guard)')
+  .option('--cache-max-entries <count>', 'Most scans kept in the cache', '100')
+  .option('--max-block-range <blocks>', 'Most blocks per getLogs query your RPC accepts')
+  .option('--no-multicall', 'Send one eth_call per contract read instead of batching through Multicall3')
+  .option('--token-list <path>', 'Token list file (Uniswap Token List JSON) of verified tokens (repeatable, earlier lists win)', collect, [])
+  .action(async (addressBook: string, options: PortfolioCommandOptions) => {
+    configureLogging(options);
+
+    const spinner = createSpinner('Scanning wallets...');
+
+    try {
+      validateOutputOptions(options);
+
+      const chains = await loadChainRegistry(options.chainConfig);
+      const defaultChains = parseChainList(options.chains);
+      const entries = (await loadAddressBook(addressBook, chains))
+        .filter((entry) => options.tag.length === 0 || entry.tags?.some((tag) => options.tag.includes(tag)));
+      if (entries.length === 0) {
+        throw new ValidationError(`No wallets in ${addressBook} are tagged ${options.tag.join(', ')}`, [
+          { field: 'tag', message: 'Must match the tags of at least one wallet', value: options.tag },
+        ]);
       }
 
-      // Summary
+      const { cacheDir } = getConfig({ cacheDir: options.cacheDir });
+      const policy = options.policy ? await loadRiskPolicy(options.policy) : undefined;
+      const rules = (await Promise.all(options.rules.map(loadRiskRules))).flat();
+      const cache = options.cache
+        ? new ApprovalCache(
+          { maxSize: parseCountOption(options.cacheMaxEntries, 'cacheMaxEntries') },
+          new FileCacheStorage(cacheDir)
+        )
+        : undefined;
+
+      const scanner = new PortfolioScanner(entries, {
+        chains,
+        defaultChains,
+        concurrency: parseCountOption(options.concurrency, 'concurrency'),
+        onProgress: (scanned, total) => spinner.updateText(`Scanned ${scanned} of ${total} wallets...`),
+        rpc: parseRpcOptions(options),
+        cacheEnabled: options.cache,
+        cache,
+        historyEnabled: false,
+        logs: { maxBlockRange: parseBlockOption(options.maxBlockRange, 'maxBlockRange', 1n) },
+        multicall: { enabled: options.multicall },
+        tokenMetadata: options.cache
+          ? new FileTokenMetadataStore(path.join(cacheDir, 'tokens'))
+          : new MemoryTokenMetadataStore(),
+        tokenLists: new TokenListIndex(await Promise.all(options.tokenList.map(loadTokenList))),
+        risk: { policy, rules },
+      });
+
+      logger.header('Approval Guard Portfolio');
+      logger.info(`Address book: ${addressBook} (${entries.length} wallets)`);
+      if (policy) {
+        logger.info(`Risk policy: ${policy.name}@${policy.version}`);
+      }
       logger.divider();
-      const criticalCount = scoredApprovals.filter(a => a.riskScore >= 80).length;
-      const highCount = scoredApprovals.filter(a => a.riskScore >= 60 && a.riskScore < 80).length;
-      
-      logger.info(`Total approvals: ${scoredApprovals.length}`);
-      if (criticalCount > 0) {
-        logger.warn(`Critical risk approvals: ${criticalCount}`);
+
+      spinner.start();
+      const result = await scanner.scan();
+      const failed = result.wallets.filter((wallet) => wallet.error);
+      spinner.succeed(`Scanned ${result.wallets.length - failed.length} of ${result.wallets.length} wallets`);
+      for (const wallet of failed) {
+        logger.warn(`${wallet.label ?? wallet.address} could not be scanned: ${wallet.error}`);
       }
-      if (highCount > 0) {
-        logger.warn(`High risk approvals: ${highCount}`);
+
+      writePortfolioReport(scanner.buildReport(result), options);
+    } catch (error) {
+      spinner.fail('Portfolio scan failed');
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+program
+  .command('report')
+  .description('Render a saved JSON scan report in another format')
+  .argument('<input-file>', 'Report written by `scan --output` (JSON)')
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (table, minimal, json, text, csv)', 'json')
+  .option('--no-recommendations', 'Omit revocation recommendations')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .action(async (inputFile: string, options: ReportCommandOptions) => {
+    configureLogging(options);
+
+    try {
+      validateOutputOptions(options);
+
+      const inputPath = path.resolve(inputFile);
+      if (!fs.existsSync(inputPath)) {
+        throw new ValidationError(`Report file not found: ${inputFile}`, [
+          { field: 'input-file', message: 'File does not exist', value: inputFile },
+        ]);
       }
 
+      const saved = new ReportGenerator().parseReport(fs.readFileSync(inputPath, 'utf-8'));
+      const report: ApprovalReport = options.recommendations
+        ? saved
+        : {
+            ...saved,
+            approvals: saved.approvals.map((entry) => ({ ...entry, recommendation: undefined })),
+            recommendations: [],
+          };
+
+      writeReport(report, options);
     } catch (error) {
-      spinner.fail('Scan failed');
-      handleError(error);
-      process.exit(1);
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+program
+  .command('chains')
+  .description('List the chains that can be scanned')
+  .option('--chain-config <path>', 'Chain config file (JSON or YAML) adding or adjusting chains (defaults to $APPROVAL_GUARD_CHAINS)')
+  .option('--json', 'Print the chains as JSON')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .action(async (options: ChainsCommandOptions) => {
+    configureLogging(options);
+
+    try {
+      const chains = await loadChainRegistry(options.chainConfig);
+      const rows = chains.list().map(({ chain, names, maxBlockRange }) => ({
+        id: chain.id,
+        name: chain.name,
+        names: names.join(', '),
+        currency: chain.nativeCurrency.symbol,
+        rpc: getConfig({ chain: chain.id, chains }).rpcUrl,
+        multicall3: chain.contracts?.multicall3?.address ?? 'none',
+        maxBlockRange: maxBlockRange?.toString() ?? 'default',
+        testnet: chain.testnet ?? false,
+      }));
+
+      if (options.json) {
+        console.log(JSON.stringify(rows, null, 2));
+        return;
+      }
+      logger.table(rows);
+    } catch (error) {
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect, prune or clear the on-disk scan cache');
+
+cacheCommand
+  .command('info')
+  .description('List cached scans')
+  .option('--cache-dir <path>', 'Scan cache directory (defaults to $APPROVAL_GUARD_CACHE_DIR, then ~/.cache/approval-guard)')
+  .option('--json', 'Print the entries as JSON')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .action(async (options: CacheCommandOptions) => {
+    configureLogging(options);
+
+    try {
+      const cache = openCache(options);
+      const entries = await cache.list();
+
+      if (options.json) {
+        console.log(JSON.stringify({ location: cache.location, entries }, bigintReplacer, 2));
+        return;
+      }
+
+      logger.header('Approval Guard Cache');
+      logger.info(`Location: ${cache.location}`);
+      logger.info(`Entries: ${entries.length} (${entries.filter((e) => e.expired).length} expired)`);
+      if (entries.length > 0) {
+        logger.table(entries.map((entry) => ({
+          wallet: entry.walletAddress,
+          chain: entry.chainId,
+          block: entry.blockNumber.toString(),
+          approvals: entry.approvalCount,
+          cached: formatDate(new Date(entry.timestamp)),
+          expired: entry.expired,
+        })));
+      }
+    } catch (error) {
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+cacheCommand
+  .command('prune')
+  .description('Remove expired scans, then the oldest beyond --max-entries')
+  .option('--cache-dir <path>', 'Scan cache directory (defaults to $APPROVAL_GUARD_CACHE_DIR, then ~/.cache/approval-guard)')
+  .option('--max-entries <count>', 'Most scans to keep', '100')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .action(async (options: CacheCommandOptions) => {
+    configureLogging(options);
+
+    try {
+      const removed = await openCache(options).prune();
+      logger.success(`Removed ${removed} cached scan${removed === 1 ? '' : 's'}`);
+    } catch (error) {
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
     }
   });
 
-function displayTableOutput(approvals: any[], log: typeof logger): void {
+cacheCommand
+  .command('clear')
+  .description('Remove every cached scan')
+  .option('--cache-dir <path>', 'Scan cache directory (defaults to $APPROVAL_GUARD_CACHE_DIR, then ~/.cache/approval-guard)')
+  .option('-v, --verbose', 'Enable verbose output')
+  .option('-q, --quiet', 'Suppress non-essential output')
+  .action(async (options: CacheCommandOptions) => {
+    configureLogging(options);
+
+    try {
+      const cache = openCache(options);
+      await cache.invalidateAll();
+      logger.success(`Cleared ${cache.location}`);
+    } catch (error) {
+      new ErrorHandler({ verbose: options.verbose }).handle(error);
+    }
+  });
+
+function openCache(options: CacheCommandOptions): ApprovalCache {
+  const { cacheDir } = getConfig({ cacheDir: options.cacheDir });
+  const maxSize = options.maxEntries !== undefined ? parseCountOption(options.maxEntries, 'maxEntries') : undefined;
+  return new ApprovalCache({ maxSize }, new FileCacheStorage(cacheDir));
+}
+
+/**
+ * Chains of `--chains`. Endpoints, recordings and block numbers belong to
+ * one chain, so the options naming them are rejected alongside it.
+ */
+function parseChainsOption(options: ScanCommandOptions, chains: ChainRegistry): RegisteredChain[] {
+  const conflicting = [
+    options.rpc.length > 0 && '--rpc',
+    options.record && '--record',
+    options.replay && '--replay',
+    options.fromBlock !== undefined && options.fromBlock !== '0' && '--from-block',
+  ].filter((option): option is string => typeof option === 'string');
+  if (conflicting.length > 0) {
+    throw new ValidationError(`--chains cannot be combined with ${conflicting.join(', ')}`, [
+      {
+        field: 'chains',
+        message: 'Set endpoints per chain with $RPC_URLS_<chainId> or --chain-config; --from-block only takes 0',
+        value: options.chains,
+      },
+    ]);
+  }
+
+  return selectChains(parseChainList(options.chains ?? ''), chains);
+}
+
+/** A comma-separated chain list, or `all` */
+function parseChainList(value: string): string[] | 'all' {
+  return value.trim().toLowerCase() === 'all'
+    ? 'all'
+    : value.split(',').map((chain) => chain.trim()).filter(Boolean);
+}
+
+/**
+ * The built-in chains, extended by the chain config at `filePath` or
+ * `$APPROVAL_GUARD_CHAINS` when either is set.
+ */
+async function loadChainRegistry(filePath = process.env.APPROVAL_GUARD_CHAINS): Promise<ChainRegistry> {
+  return filePath ? DEFAULT_CHAIN_REGISTRY.extend(await loadChainConfig(filePath)) : DEFAULT_CHAIN_REGISTRY;
+}
+
+/**
+ * Owners of `--owner` and the `--owners` file (one address per line, `#`
+ * starts a comment), or undefined when neither is given.
+ */
+function parseOwnersOptions(options: ExposureCommandOptions): string[] | undefined {
+  if (options.owner.length === 0 && !options.owners) {
+    return undefined;
+  }
+  if (options.owners && !fs.existsSync(path.resolve(options.owners))) {
+    throw new ValidationError(`Owners file not found: ${options.owners}`, [
+      { field: 'owners', message: 'File does not exist', value: options.owners },
+    ]);
+  }
+
+  const listed = options.owners
+    ? fs.readFileSync(path.resolve(options.owners), 'utf-8')
+      .split('\n')
+      .map((line) => line.replace(/#.*/, '').trim())
+      .filter(Boolean)
+    : [];
+  const owners = [...options.owner, ...listed];
+  owners.forEach((owner) => validateAddress(owner, 'owner'));
+  if (owners.length === 0) {
+    throw new ValidationError(`No owners in ${options.owners}`, [
+      { field: 'owners', message: 'Must list at least one address', value: options.owners },
+    ]);
+  }
+  return owners;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseBlockOption(value: string | undefined, field: string, min = 0n): bigint | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value) || BigInt(value) < min) {
+    throw new ValidationError(`Invalid ${field}: ${value}`, [
+      { field, message: `Must be a whole number of at least ${min}`, value },
+    ]);
+  }
+  return BigInt(value);
+}
+
+function parseRpcOptions(options: Pick<RpcOptions, 'rpcMode' | 'quorum' | 'maxRps' | 'maxCu'>): RpcPoolOptions {
+  if (!RPC_MODES.includes(options.rpcMode as RpcPoolMode)) {
+    throw new ValidationError(`Invalid rpcMode: ${options.rpcMode}`, [
+      { field: 'rpcMode', message: `Must be one of: ${RPC_MODES.join(', ')}`, value: options.rpcMode },
+    ]);
+  }
+  return {
+    mode: options.rpcMode as RpcPoolMode,
+    quorum: options.quorum ?? false,
+    scheduler: {
+      budget: {
+        requestsPerSecond: options.maxRps !== undefined ? parseCountOption(options.maxRps, 'maxRps') : undefined,
+        computeUnitsPerSecond: options.maxCu !== undefined ? parseCountOption(options.maxCu, 'maxCu') : undefined,
+      },
+    },
+  };
+}
+
+/**
+ * Loads the `--replay` recording, checking it was made on `chainId`, or
+ * sets up a recorder for `--record`.
+ */
+async function openRpcPlayback(options: RpcOptions, chainId: number): Promise<RpcPlayback> {
+  if (options.record && options.replay) {
+    throw new ValidationError('Cannot record and replay at once', [
+      { field: 'replay', message: 'Use either --record or --replay', value: options.replay },
+    ]);
+  }
+
+  if (options.replay) {
+    const recording = await loadRpcRecording(options.replay);
+    if (recording.chainId !== undefined && recording.chainId !== chainId) {
+      throw new ValidationError(`Recording ${options.replay} was made on chain ${recording.chainId}`, [
+        { field: 'replay', message: `Must be a recording of chain ${chainId}`, value: options.replay },
+      ]);
+    }
+    return { transport: replayTransport(recording) };
+  }
+
+  return options.record ? { recorder: new RpcRecorder(chainId) } : {};
+}
+
+async function saveRpcRecording({ recorder }: RpcPlayback, options: RpcOptions): Promise<void> {
+  if (!recorder || !options.record) return;
+  await recorder.save(options.record);
+  logger.info(`Recorded ${recorder.size} RPC requests to ${options.record}`);
+}
+
+function logRpcEndpoints(urls: string[], rpc: RpcPoolOptions, options: RpcOptions): void {
+  if (options.replay) {
+    logger.info(`RPC: replaying ${options.replay}`);
+    return;
+  }
+  if (urls.length === 1) {
+    logger.debug(`RPC: ${urls[0]}`);
+    return;
+  }
+  logger.debug(`RPC: ${urls.length} endpoints, ${rpc.mode}${rpc.quorum ? ' with quorum reads' : ''}`);
+  urls.forEach((url) => logger.debug(`  ${url}`));
+}
+
+/**
+ * Warns about quorum disagreements and, when verbose, shows how each
+ * endpoint fared against its budget.
+ */
+function reportRpcState(
+  scanner: ApprovalScanner,
+  result: { scanMetadata: Pick<ScanMetadata, 'rpcDisagreements'> }
+): void {
+  for (const disagreement of result.scanMetadata.rpcDisagreements ?? []) {
+    logger.warn(
+      `RPC endpoints disagree on ${disagreement.method} at block ${disagreement.blockNumber}: ` +
+      disagreement.endpoints.join(' vs ')
+    );
+  }
+
+  const stats = scanner.requestStats();
+  if (!stats) return;
+
+  const health = new Map(scanner.rpcHealth().map((endpoint) => [endpoint.url, endpoint]));
+  for (const provider of stats.providers) {
+    const endpoint = health.get(provider.provider);
+    const budget = provider.budget;
+    const parts = [
+      `${provider.requests} requests`,
+      `${endpoint?.failures ?? 0} failed`,
+      `${provider.computeUnits} CU`,
+      `peak ${provider.peakRequestsPerSecond}${budget?.requestsPerSecond ? `/${budget.requestsPerSecond}` : ''} req/s`,
+      `peak ${provider.peakComputeUnitsPerSecond}${budget?.computeUnitsPerSecond ? `/${budget.computeUnitsPerSecond}` : ''} CU/s`,
+    ];
+    if (provider.rateLimited > 0) parts.push(`${provider.rateLimited} rate limited`);
+    if (provider.waitedMs > 0) parts.push(`${provider.waitedMs}ms throttled`);
+    if (endpoint?.averageLatencyMs !== undefined) parts.push(`${Math.round(endpoint.averageLatencyMs)}ms avg`);
+    logger.debug(`RPC ${provider.provider}: ${parts.join(', ')}`);
+  }
+  if (stats.retries > 0) {
+    logger.debug(`RPC retries: ${stats.retries}, ${stats.exhausted} gave up`);
+  }
+}
+
+function parseCountOption(value: string, field: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new ValidationError(`Invalid ${field}: ${value}`, [
+      { field, message: 'Must be a whole number of at least 1', value },
+    ]);
+  }
+  return count;
+}
+
+function configureLogging(options: Pick<OutputOptions, 'verbose' | 'quiet'>): void {
+  if (options.quiet) {
+    logger.setLevel(LogLevel.ERROR);
+  } else if (options.verbose) {
+    logger.setLevel(LogLevel.DEBUG);
+  }
+}
+
+function validateOutputOptions(options: OutputOptions): void {
+  if (options.output) {
+    validateOutputPath(options.output);
+  }
+
+  if (![...DISPLAY_FORMATS, ...REPORT_FORMATS].includes(options.format)) {
+    throw new ValidationError(`Unsupported format: ${options.format}`, [
+      { field: 'format', message: 'Must be one of table, minimal, json, text, csv', value: options.format },
+    ]);
+  }
+}
+
+/**
+ * Saves the output of `render` when `--output` is given and prints it for a
+ * report format. Returns whether that covered the output, leaving the
+ * console rendering of display formats to the caller.
+ */
+function writeFormatted(options: OutputOptions, render: (format: ReportFormat) => string): boolean {
+  if (options.output) {
+    // Display-only formats are saved as JSON so the file can be re-rendered later
+    const fileFormat: ReportFormat = isReportFormat(options.format) ? options.format : 'json';
+    const outputPath = path.resolve(options.output);
+    fs.writeFileSync(outputPath, render(fileFormat));
+    logger.success(`Report saved to: ${outputPath}`);
+  }
+
+  if (isReportFormat(options.format)) {
+    if (!options.output) {
+      console.log(render(options.format));
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Shared output stage for every command: saves the report when `--output`
+ * is given and prints it in the requested format.
+ */
+function writeReport(report: ApprovalReport, options: OutputOptions, threshold = 0): void {
+  const reportGenerator = new ReportGenerator();
+  if (writeFormatted(options, (format) => reportGenerator.formatReport(report, format))) {
+    return;
+  }
+
+  const approvals = report.approvals.map((entry) => entry.approval);
+
+  if (approvals.length === 0 && !report.chains?.some((c) => c.error)) {
+    logger.success('No token approvals found for this wallet!');
+    return;
+  }
+
+  // Filter by threshold
+  const filteredApprovals = approvals.filter((a) => (a.riskScore ?? 0) >= threshold);
+
+  // Output results
+  logger.header('Scan Results');
+
+  const display = options.format === 'table' ? displayTableOutput : displayMinimalOutput;
+  if (report.chains) {
+    for (const chain of report.chains) {
+      logger.info(`${chain.chainName} (${chain.chainId})`);
+      if (chain.error) {
+        logger.warn(`  Not scanned: ${chain.error}`);
+        continue;
+      }
+      display(filteredApprovals.filter((a) => a.chainId === chain.chainId), logger);
+      logger.info(`  ${chain.summary?.totalApprovals ?? 0} approvals, ${chain.summary?.highRiskCount ?? 0} high risk`);
+      console.log('');
+    }
+  } else {
+    display(filteredApprovals, logger);
+  }
+
+  // Summary
+  logger.divider();
+  if (report.chains) {
+    logger.info(`Chains scanned: ${report.chains.filter((c) => !c.error).length} of ${report.chains.length}`);
+  }
+  logger.info(`Total approvals: ${report.summary.totalApprovals}`);
+  logger.info(`Unlimited approvals: ${approvals.filter((a) => a.isUnlimited).length}`);
+  if (report.summary.highRiskCount > 0) {
+    logger.warn(`High risk approvals: ${report.summary.highRiskCount}`);
+  }
+  if (report.summary.mediumRiskCount > 0) {
+    logger.warn(`Medium risk approvals: ${report.summary.mediumRiskCount}`);
+  }
+
+  for (const recommendation of report.recommendations) {
+    logger.warn(`Revoke ${recommendation.tokenSymbol ?? recommendation.tokenAddress} → ${logger.formatAddress(recommendation.spenderAddress)}: ${recommendation.reason}`);
+  }
+}
+
+/**
+ * Output stage of `portfolio`: like `writeReport`, but the table lists
+ * wallets and the spenders they share rather than single approvals.
+ */
+function writePortfolioReport(report: PortfolioReport, options: OutputOptions): void {
+  const reportGenerator = new ReportGenerator();
+  if (writeFormatted(options, (format) => reportGenerator.formatPortfolioReport(report, format))) {
+    return;
+  }
+
+  logger.header('Portfolio Results');
+  for (const wallet of report.wallets) {
+    const name = wallet.label ? `${wallet.label} ${logger.formatAddress(wallet.address)}` : logger.formatAddress(wallet.address);
+    if (!wallet.report) {
+      logger.warn(`${name}: not scanned`);
+      continue;
+    }
+    const { summary } = wallet.report;
+    const badge = logger.riskBadge(summary.totalRiskScore, summary.overallRiskLevel);
+    if (options.format === 'minimal') {
+      console.log(`${badge} ${name}`);
+      continue;
+    }
+    console.log(`  ${badge} ${name}${wallet.tags.length > 0 ? ` [${wallet.tags.join(', ')}]` : ''}`);
+    console.log(`      ${summary.totalApprovals} approvals, ${summary.highRiskCount} high risk, ` +
+      `${wallet.report.recommendations.length} to revoke`);
+  }
+
+  if (options.format === 'table' && report.sharedSpenders.length > 0) {
+    logger.header('Shared Risky Spenders');
+    for (const spender of report.sharedSpenders) {
+      const name = spender.spenderName
+        ? `${spender.spenderName} ${logger.formatAddress(spender.spenderAddress)}`
+        : logger.formatAddress(spender.spenderAddress);
+      console.log(`  ${logger.riskBadge(spender.highestRiskScore, spender.riskLevel)} ${name}`);
+      console.log(`      approved by ${spender.wallets.length} wallets, ${spender.unlimitedApprovals} unlimited`);
+    }
+  }
+
+  const { summary } = report;
+  logger.divider();
+  logger.info(`Wallets scanned: ${summary.scannedWallets} of ${summary.totalWallets}`);
+  logger.info(`Total approvals: ${summary.totalApprovals}`);
+  logger.info(`Unlimited approvals: ${summary.unlimitedApprovals}`);
+  if (summary.highRiskCount > 0) {
+    logger.warn(`High risk approvals: ${summary.highRiskCount} in ${summary.walletsAtRisk} wallets`);
+  }
+  if (summary.mediumRiskCount > 0) {
+    logger.warn(`Medium risk approvals: ${summary.mediumRiskCount}`);
+  }
+}
+
+/**
+ * Output stage of `spender-exposure`: one row per owner and token, the
+ * largest amount at risk first.
+ */
+function writeExposure(result: SpenderExposureResult, options: OutputOptions): void {
+  const reportGenerator = new ReportGenerator();
+  if (writeFormatted(options, (format) => reportGenerator.formatExposure(result, format))) {
+    return;
+  }
+
+  if (result.exposures.length === 0) {
+    logger.success('No live approvals to this spender found!');
+    return;
+  }
+
+  logger.header('Exposed Owners');
+  for (const entry of result.exposures) {
+    const { approval } = entry;
+    const token = `${approval.tokenSymbol ?? ''} ${logger.formatAddress(approval.tokenAddress)}`;
+    if (options.format === 'minimal') {
+      console.log(`${formatAmountAtRisk(entry)} ${token} ← ${logger.formatAddress(entry.ownerAddress)}`);
+      continue;
+    }
+    logger.divider('─', 60);
+    console.log(`  Owner:   ${logger.formatAddress(entry.ownerAddress, false)}`);
+    console.log(`  Token:   ${token}`);
+    console.log(`  Amount:  ${logger.formatAmount(formatAllowance(approval), approval.isUnlimited)}`);
+    console.log(`  At risk: ${formatAmountAtRisk(entry)}`);
+  }
+  if (options.format === 'table') {
+    logger.divider('─', 60);
+  }
+
+  logger.divider();
+  logger.info(`Exposed owners: ${result.summary.owners}`);
+  logger.info(`Tokens: ${result.summary.tokens}`);
+  logger.info(`Live approvals: ${result.summary.approvals}`);
+  if (result.summary.unlimitedApprovals > 0) {
+    logger.warn(`Unlimited approvals: ${result.summary.unlimitedApprovals}`);
+  }
+}
+
+/**
+ * Output stage of `token-approvals`: one entry per spender, the one with
+ * the most allowances first; report formats list every allowance.
+ */
+function writeTokenApprovals(census: TokenApprovalCensus, options: OutputOptions): void {
+  const reportGenerator = new ReportGenerator();
+  if (writeFormatted(options, (format) => reportGenerator.formatTokenApprovals(census, format))) {
+    return;
+  }
+
+  if (census.spenders.length === 0) {
+    logger.success('No live allowances on this token found!');
+    return;
+  }
+
+  logger.header('Spenders');
+  for (const spender of census.spenders) {
+    const name = spender.spenderName
+      ? `${spender.spenderName} ${logger.formatAddress(spender.spenderAddress)}`
+      : logger.formatAddress(spender.spenderAddress);
+    const marker = spender.flagged ? '⚠' : ' ';
+    if (options.format === 'minimal') {
+      console.log(`${marker} ${spender.approvals.length} ${name}`);
+      continue;
+    }
+    logger.divider('─', 60);
+    console.log(`${marker} Spender:    ${name}`);
+    console.log(`  Status:     ${formatSpenderStatus(spender)}`);
+    console.log(`  Allowances: ${spender.approvals.length} from ${spender.owners} owners, ${spender.unlimitedApprovals} unlimited`);
+  }
+  if (options.format === 'table') {
+    logger.divider('─', 60);
+  }
+
+  const { summary } = census;
+  logger.divider();
+  logger.info(`Owners: ${summary.owners}`);
+  logger.info(`Spenders: ${summary.spenders}`);
+  logger.info(`Live allowances: ${summary.approvals}`);
+  if (summary.unlimitedApprovals > 0) {
+    logger.warn(`Unlimited allowances: ${summary.unlimitedApprovals}`);
+  }
+  if (summary.flaggedSpenders > 0) {
+    logger.warn(
+      `Flagged spenders: ${summary.flaggedSpenders} ` +
+      `(unknown or unverified with ${summary.minAllowances}+ allowances, or blocked)`
+    );
+  }
+}
+
+function isReportFormat(format: string): format is ReportFormat {
+  return (REPORT_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Permit2 sub-allowances are listed under the token's approval to Permit2,
+ * or on their own when that approval was filtered out.
+ */
+function displayTableOutput(approvals: ApprovalData[], log: typeof logger): void {
+  const permit2 = approvals.filter((a) => a.kind === 'permit2');
+  const nested = new Set<ApprovalData>();
+
   for (const approval of approvals) {
+    if (approval.kind === 'permit2') continue;
+
     log.divider('─', 60);
-    console.log(`  Token:   ${log.formatAddress(approval.tokenAddress)}`);
-    console.log(`  Spender: ${log.formatAddress(approval.spender)}`);
-    console.log(`  Amount:  ${log.formatAmount(approval.allowance, approval.isUnlimited)}`);
-    console.log(`  Risk:    ${log.riskBadge(approval.riskScore)}`);
-    
-    if (approval.riskFactors && approval.riskFactors.length > 0) {
-      console.log(`  Factors: ${approval.riskFactors.join(', ')}`);
+    displayApproval(approval, log, '  ');
+
+    if (isPermit2(approval.spenderAddress)) {
+      for (const sub of permit2.filter((p) => p.tokenAddress === approval.tokenAddress)) {
+        console.log('');
+        displayApproval(sub, log, '      ');
+        nested.add(sub);
+      }
     }
   }
+
+  for (const sub of permit2.filter((p) => !nested.has(p))) {
+    log.divider('─', 60);
+    displayApproval(sub, log, '  ');
+  }
   log.divider('─', 60);
 }
 
-function displayMinimalOutput(approvals: any[], log: typeof logger): void {
+function displayApproval(approval: ApprovalData, log: typeof logger, indent: string): void {
+  const amount = formatAllowance(approval);
+  const riskFactors = approval.riskFactors ?? [];
+  const spenderLabel = approval.kind === 'operator' ? 'Operator:' : 'Spender: ';
+
+  console.log(`${indent}Token:   ${approval.tokenSymbol ?? ''} ${log.formatAddress(approval.tokenAddress)}`);
+  console.log(`${indent}${spenderLabel} ${log.formatAddress(approval.spenderAddress)}`);
+  const approved = formatApprovedAllowance(approval);
+  const approvedNote = approved !== undefined ? ` remaining of ${approved} last approved` : '';
+
+  console.log(`${indent}Amount:  ${log.formatAmount(amount, approval.isUnlimited)}${approvedNote}`);
+
+  if (approval.kind === 'permit2') {
+    console.log(`${indent}Via:     Permit2, expires ${approval.expiration ?? 'unknown'} (nonce ${approval.nonce ?? '?'})`);
+  }
+
+  console.log(`${indent}Risk:    ${log.riskBadge(approval.riskScore ?? 0, approval.riskLevel ?? RiskLevel.MINIMAL)}`);
+
+  if (riskFactors.length > 0) {
+    console.log(`${indent}Factors: ${riskFactors.join(', ')}`);
+  }
+}
+
+function displayMinimalOutput(approvals: ApprovalData[], log: typeof logger): void {
   for (const approval of approvals) {
-    const risk = log.riskBadge(approval.riskScore);
-    console.log(`${risk} ${log.formatAddress(approval.tokenAddress)} → ${log.formatAddress(approval.spender)}`);
+    const risk = log.riskBadge(approval.riskScore ?? 0, approval.riskLevel ?? RiskLevel.MINIMAL);
+    console.log(`${risk} ${log.formatAddress(approval.tokenAddress)} → ${log.formatAddress(approval.spenderAddress)}`);
   }
 }
 
-program.parse();
+program.parseAsync();
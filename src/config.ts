@@ -1,44 +1,85 @@
+import * as os from 'os';
+import * as path from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import { Chain, mainnet, arbitrum, optimism, polygon, base } from 'viem/chains';
+import type { Chain } from 'viem';
+import { ChainRegistry, DEFAULT_CHAIN_REGISTRY } from './chains';
 
 dotenvConfig();
 
 export interface AppConfig {
+  /** First of `rpcUrls` */
   rpcUrl: string;
+  /** Every endpoint for the chain, in priority order */
+  rpcUrls: string[];
   chainId: number;
   chain: Chain;
+  /** The chain's `eth_getLogs` block span limit, when its registry entry sets one */
+  maxBlockRange?: bigint;
   etherscanApiKey?: string;
+  /** Directory of the CLI's on-disk scan cache */
+  cacheDir: string;
 }
 
-const SUPPORTED_CHAINS: Record<number, Chain> = {
-  1: mainnet,
-  42161: arbitrum,
-  10: optimism,
-  137: polygon,
-  8453: base,
-};
-
-export function getConfig(): AppConfig {
-  const rpcUrl = process.env.ETH_RPC_URL;
-  if (!rpcUrl) {
-    throw new Error('ETH_RPC_URL environment variable is required');
-  }
-
-  const chainId = parseInt(process.env.CHAIN_ID || '1', 10);
-  const chain = SUPPORTED_CHAINS[chainId];
-  
-  if (!chain) {
-    throw new Error(
-      `Unsupported chain ID: ${chainId}. Supported chains: ${Object.keys(SUPPORTED_CHAINS).join(', ')}`
-    );
-  }
+export interface ConfigOverrides {
+  rpcUrl?: string;
+  /** Several endpoints, in priority order; wins over `rpcUrl` */
+  rpcUrls?: string[];
+  chain?: string | number;
+  /** Chains `chain` is resolved from (default: the built-in chains) */
+  chains?: ChainRegistry;
+  cacheDir?: string;
+}
+
+/**
+ * Resolves a chain from a CLI-style name ("mainnet") or a numeric chain ID.
+ */
+export function resolveChain(chain: string | number, chains: ChainRegistry = DEFAULT_CHAIN_REGISTRY): Chain {
+  return chains.resolve(chain).chain;
+}
+
+/**
+ * Builds the runtime configuration. Explicit overrides win over the
+ * environment; without an RPC URL the chain's public endpoint is used, and
+ * the cache lives under `~/.cache/approval-guard`.
+ *
+ * RPC endpoints come from `rpcUrls` or `rpcUrl`, then `RPC_URLS_<chainId>`,
+ * then the chain config, then `ETH_RPC_URL`; both variables take a
+ * comma-separated list. `ETH_RPC_URL` is one chain's endpoint, so it only
+ * serves the chain of `CHAIN_ID`, else mainnet.
+ */
+export function getConfig(overrides: ConfigOverrides = {}): AppConfig {
+  const registry = overrides.chains ?? DEFAULT_CHAIN_REGISTRY;
+  const defaultChain = process.env.CHAIN_ID ?? 1;
+  const { chain, rpcUrls: chainRpcUrls, maxBlockRange } = registry.resolve(overrides.chain ?? defaultChain);
+  const ethRpcUrls = registry.resolve(defaultChain).chain.id === chain.id
+    ? splitUrls(process.env.ETH_RPC_URL)
+    : [];
+  const rpcUrls = [
+    overrides.rpcUrls ?? [],
+    splitUrls(overrides.rpcUrl),
+    splitUrls(process.env[`RPC_URLS_${chain.id}`]),
+    chainRpcUrls,
+    ethRpcUrls,
+    [...chain.rpcUrls.default.http],
+  ].find((urls) => urls.length > 0) as string[];
 
   return {
-    rpcUrl,
-    chainId,
+    rpcUrl: rpcUrls[0],
+    rpcUrls,
+    chainId: chain.id,
     chain,
+    maxBlockRange,
     etherscanApiKey: process.env.ETHERSCAN_API_KEY || undefined,
+    cacheDir: overrides.cacheDir
+      || process.env.APPROVAL_GUARD_CACHE_DIR
+      || path.join(os.homedir(), '.cache', 'approval-guard'),
   };
 }
 
-export const SUPPORTED_CHAIN_IDS = Object.keys(SUPPORTED_CHAINS).map(Number);
\ No newline at end of file
+function splitUrls(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+}
+
+export const SUPPORTED_CHAIN_IDS = DEFAULT_CHAIN_REGISTRY.ids;
+
+export const SUPPORTED_CHAIN_NAMES = DEFAULT_CHAIN_REGISTRY.names;
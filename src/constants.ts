@@ -8,26 +8,31 @@ export const MAX_UINT256 = BigInt('0xfffffffffffffffffffffffffffffffffffffffffff
 // Threshold for considering an approval as "unlimited" (99% of max)
 export const UNLIMITED_THRESHOLD = MAX_UINT256 * BigInt(99) / BigInt(100);
 
+// Permit2 amounts are uint160, so its "unlimited" is 99% of that max
+export const MAX_UINT160 = (BigInt(1) << BigInt(160)) - BigInt(1);
+export const PERMIT2_UNLIMITED_THRESHOLD = MAX_UINT160 * BigInt(99) / BigInt(100);
+
+// Canonical Uniswap Permit2 deployment (same address on every supported chain)
+export const PERMIT2_ADDRESS = '0x000000000022d473030f116ddee9f6b43ac78ba3';
+
+// Permit2 sub-allowances expiring further out than this are flagged
+export const PERMIT2_FAR_EXPIRATION_DAYS = 30;
+
+// Default number of blocks to look back when scanning for Approval events
+export const DEFAULT_BLOCK_RANGE = BigInt(1_000_000);
+
+// Blocks behind the head an incremental scan rereads, in case they are reorged
+export const DEFAULT_REORG_DEPTH = BigInt(64);
+
+// Default number of items processed per batch
+export const DEFAULT_BATCH_SIZE = 50;
+
+// Unknown or unverified spenders holding this many allowances on one token are flagged
+export const FLAGGED_SPENDER_ALLOWANCES = 10;
+
 // Days after which an approval is considered dormant
 export const DORMANT_DAYS_THRESHOLD = 90;
 
-// Risk score weights
-export const RISK_WEIGHTS = {
-  UNLIMITED_APPROVAL: 40,
-  DORMANT_APPROVAL: 25,
-  UNVERIFIED_SPENDER: 20,
-  HIGH_VALUE_TOKEN: 10,
-  UNKNOWN_SPENDER: 15,
-} as const;
-
-// Risk level thresholds
-export const RISK_THRESHOLDS = {
-  LOW: 25,
-  MEDIUM: 50,
-  HIGH: 75,
-  CRITICAL: 90,
-} as const;
-
 // Common trusted spender categories
 export const TRUSTED_PROTOCOLS = [
   'uniswap',
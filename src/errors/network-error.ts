@@ -3,12 +3,15 @@ import { ApprovalGuardError, ErrorCode } from './approval-guard-error';
 export class NetworkError extends ApprovalGuardError {
   public readonly statusCode?: number;
   public readonly retryable: boolean;
+  /** How long the server asked to wait before the next request */
+  public readonly retryAfterMs?: number;
 
   constructor(
     message: string,
     options: {
       statusCode?: number;
       retryable?: boolean;
+      retryAfterMs?: number;
       cause?: Error;
       details?: Record<string, unknown>;
     } = {}
@@ -24,6 +27,7 @@ export class NetworkError extends ApprovalGuardError {
     this.name = 'NetworkError';
     this.statusCode = options.statusCode;
     this.retryable = options.retryable ?? this.isRetryableStatus(options.statusCode);
+    this.retryAfterMs = options.retryAfterMs;
   }
 
   private isRetryableStatus(status?: number): boolean {
@@ -39,10 +43,12 @@ export class NetworkError extends ApprovalGuardError {
     });
   }
 
-  public static rateLimited(retryAfterMs?: number): NetworkError {
+  public static rateLimited(retryAfterMs?: number, cause?: Error): NetworkError {
     return new NetworkError('Rate limit exceeded', {
       statusCode: 429,
       retryable: true,
+      retryAfterMs,
+      cause,
       details: { retryAfterMs },
     });
   }
@@ -1,4 +1,4 @@
-import { Address, PublicClient, parseAbiItem, Log } from 'viem';
+import { Address, PublicClient, parseAbiItem, GetLogsReturnType } from 'viem';
 import {
   ApprovalEvent,
   ApprovalTimeline,
@@ -7,19 +7,23 @@ import {
   TimelineAnalysis,
 } from './history-types';
 import { NetworkError } from '../errors';
+import { LogFetcher } from '../services/log-fetcher';
 
 const APPROVAL_EVENT_ABI = parseAbiItem(
   'event Approval(address indexed owner, address indexed spender, uint256 value)'
 );
 
-const BLOCKS_PER_QUERY = 10000n;
+type ApprovalLog = GetLogsReturnType<typeof APPROVAL_EVENT_ABI>[number];
+
 const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 
 export class HistoryTracker {
   private client: PublicClient;
+  private logFetcher: LogFetcher;
 
-  constructor(client: PublicClient) {
+  constructor(client: PublicClient, logFetcher: LogFetcher = new LogFetcher()) {
     this.client = client;
+    this.logFetcher = logFetcher;
   }
 
   async getApprovalHistory(
@@ -52,35 +56,32 @@ export class HistoryTracker {
     const fromBlock = options.fromBlock ?? currentBlock - 100000n;
     const toBlock = options.toBlock ?? currentBlock;
 
-    const allEvents: ApprovalEvent[] = [];
-
-    for (let start = fromBlock; start <= toBlock; start += BLOCKS_PER_QUERY) {
-      const end = start + BLOCKS_PER_QUERY - 1n > toBlock ? toBlock : start + BLOCKS_PER_QUERY - 1n;
+    let allEvents: ApprovalEvent[];
 
-      try {
-        const logs = await this.client.getLogs({
+    try {
+      const logs = await this.logFetcher.fetch(fromBlock, toBlock, (start, end) =>
+        this.client.getLogs({
           event: APPROVAL_EVENT_ABI,
           args: {
             owner: walletAddress,
           },
           fromBlock: start,
           toBlock: end,
-        });
-
-        const events = await this.processLogs(logs, options);
-        allEvents.push(...events);
-      } catch (error) {
-        throw new NetworkError(
-          `Failed to fetch approval events: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
+        })
+      );
+
+      allEvents = await this.processLogs(logs, options);
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to fetch approval events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
 
     return allEvents.sort((a, b) => a.timestamp - b.timestamp);
   }
 
   private async processLogs(
-    logs: Log[],
+    logs: ApprovalLog[],
     options: HistoryQueryOptions
   ): Promise<ApprovalEvent[]> {
     const events: ApprovalEvent[] = [];
@@ -88,7 +89,7 @@ export class HistoryTracker {
     for (const log of logs) {
       if (!log.blockNumber || !log.transactionHash || !log.address) continue;
 
-      const args = log.args as { owner: Address; spender: Address; value: bigint };
+      const args = log.args;
       if (!args.owner || !args.spender || args.value === undefined) continue;
 
       // Apply filters
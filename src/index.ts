@@ -1,41 +1,65 @@
-#!/usr/bin/env node
+/**
+ * Programmatic entry point. Scans run through the same `ApprovalScanner`
+ * pipeline as the `approval-guard scan` command.
+ */
 
-import { config } from 'dotenv';
-import { parseArgs, validateOptions, CliOptions } from './cli';
-
-// Load environment variables
-config();
-
-async function main(): Promise<void> {
-  try {
-    const options: CliOptions = parseArgs(process.argv);
-    validateOptions(options);
-
-    if (options.verbose) {
-      console.log('Approval Guard - Token Approval Scanner');
-      console.log('========================================');
-      console.log(`Scanning wallet: ${options.wallet}`);
-      console.log(`Output format: ${options.format}`);
-      if (options.output) {
-        console.log(`Output file: ${options.output}`);
-      }
-      if (options.threshold !== undefined) {
-        console.log(`Risk threshold: ${options.threshold}`);
-      }
-      console.log('');
-    }
-
-    // TODO: Implement main scanning logic
-    console.log('Scanning for token approvals...');
-    
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`Error: ${error.message}`);
-    } else {
-      console.error('An unexpected error occurred');
-    }
-    process.exit(1);
-  }
-}
-
-main();
+export { ApprovalScanner, createScanner, scanApprovals, summarizeApprovals } from './scanner';
+export type { ScannerOptions } from './scanner';
+export { MultiChainScanner, selectChains } from './multi-chain-scanner';
+export type { MultiChainScannerOptions } from './multi-chain-scanner';
+export {
+  PortfolioScanner,
+  findSharedSpenders,
+  loadAddressBook,
+  parseAddressBook,
+  validateAddressBook,
+} from './portfolio';
+export type { AddressBookEntry, PortfolioScannerOptions } from './portfolio';
+export { getConfig, resolveChain, SUPPORTED_CHAIN_IDS, SUPPORTED_CHAIN_NAMES } from './config';
+export type { AppConfig, ConfigOverrides } from './config';
+export {
+  ChainRegistry,
+  DEFAULT_CHAIN_REGISTRY,
+  loadChainConfig,
+  parseChainConfig,
+  validateChainConfig,
+} from './chains';
+export type { ChainDefinition, RegisteredChain } from './chains';
+export { ReportGenerator } from './services/report-generator';
+export { TokenMetadataService } from './services/token-metadata-service';
+export type { TokenListField, TokenMetadata, TokenMetadataServiceOptions } from './services/token-metadata-service';
+export { TokenListIndex, loadTokenList, parseTokenList } from './services/token-list';
+export type { ListedToken, TokenList, TokenListEntry } from './services/token-list';
+export { SpenderLabelIndex, loadSpenderLabels, parseSpenderLabels, validateSpenderLabels } from './services/spender-labels';
+export type { SpenderLabelEntry } from './services/spender-labels';
+export { Permit2Service, isPermit2 } from './services/permit2-service';
+export { LogFetcher, classifyLimitError } from './services/log-fetcher';
+export type { LogFetcherOptions, LogQuery } from './services/log-fetcher';
+export { MulticallReader } from './services/multicall-reader';
+export type { CallResult, ContractCall, MulticallReaderOptions } from './services/multicall-reader';
+export { RpcPool } from './services/rpc-pool';
+export type { RpcDisagreement, RpcEndpointHealth, RpcPoolMode, RpcPoolOptions } from './services/rpc-pool';
+export { RPC_RECORDING_SCHEMA_VERSION, RpcRecorder, loadRpcRecording, recordingTransport, replayTransport } from './services/rpc-recording';
+export type { RecordedRpcError, RecordedRpcExchange, RpcRecordingFile } from './services/rpc-recording';
+export { DEFAULT_COMPUTE_UNITS, RequestScheduler } from './services/request-scheduler';
+export type {
+  ProviderRequestStats,
+  RequestBudget,
+  RequestSchedulerOptions,
+  RequestSchedulerStats,
+} from './services/request-scheduler';
+export { FileCheckpointStore, MemoryCheckpointStore } from './cache/checkpoint-store';
+export type { CheckpointStore } from './cache/checkpoint-store';
+export { FileTokenMetadataStore, MemoryTokenMetadataStore, loadTokenMetadataSeed } from './cache/token-metadata-store';
+export type { TokenMetadataStore } from './cache/token-metadata-store';
+export type { ScanCheckpoint, TokenMetadataRecord, TokenMetadataSource } from './cache/types';
+export { RiskCalculator } from './risk/risk-calculator';
+export { DEFAULT_RISK_MODEL, DEFAULT_THRESHOLDS, scoreToRiskLevel } from './risk';
+export { loadRiskPolicy, parseRiskPolicy, validateRiskPolicy, policyToModel } from './risk';
+export { BUILTIN_RULES, loadRiskRules } from './risk';
+export type { RiskModel, RiskPolicy, PolicyRule, PolicyRuleCondition, RiskRule, RiskRuleContext } from './risk';
+export type { RiskCalculatorOptions } from './risk/risk-calculator';
+export type { StructuredFormat } from './utils/yaml';
+export * from './approval';
+export * from './errors';
+export * from './types';
@@ -0,0 +1,163 @@
+import { ApprovalScanner, ScannerOptions, summarizeApprovals } from './scanner.js';
+import { ChainRegistry, DEFAULT_CHAIN_REGISTRY, RegisteredChain } from './chains.js';
+import {
+  ApprovalReport,
+  ChainReportSummary,
+  ChainScanFailure,
+  MultiChainScanResult,
+  ScanOptions,
+  ScanResult,
+} from './types.js';
+import { ApprovalGuardError } from './errors/approval-guard-error.js';
+import { ValidationError } from './errors/validation-error.js';
+import { isValidAddress, normalizeAddress } from './utils/address.js';
+
+/**
+ * Options shared by the scanner of every chain. Endpoints are chain
+ * specific, so they come from `rpcUrls` by chain ID, `$RPC_URLS_<chainId>`
+ * or the chain registry rather than one URL; `$ETH_RPC_URL` only serves
+ * the chain of `$CHAIN_ID`, else mainnet.
+ */
+export interface MultiChainScannerOptions
+  extends Omit<ScannerOptions, 'chain' | 'client' | 'transport' | 'recorder' | 'rpcUrl' | 'rpcUrls'> {
+  /** Endpoints of single chains, by chain ID */
+  rpcUrls?: Record<number, string[]>;
+}
+
+/**
+ * Scans one wallet on several chains at once, with an `ApprovalScanner`
+ * per chain. A chain whose scan fails is reported in `failures` while the
+ * others are still returned; only when every chain fails does `scan` throw.
+ */
+export class MultiChainScanner {
+  private readonly scanners = new Map<number, { chain: RegisteredChain; scanner: ApprovalScanner }>();
+
+  /**
+   * @param chains - Chain names or IDs, or `all` for every chain of the
+   *   registry that is not a testnet
+   */
+  constructor(
+    chains: Array<string | number> | 'all',
+    options: MultiChainScannerOptions = {},
+    createChainScanner: (options: ScannerOptions) => ApprovalScanner = (scannerOptions): ApprovalScanner =>
+      new ApprovalScanner(scannerOptions)
+  ) {
+    const { rpcUrls, ...shared } = options;
+    const registry = options.chains ?? DEFAULT_CHAIN_REGISTRY;
+
+    for (const chain of selectChains(chains, registry)) {
+      const chainId = chain.chain.id;
+      this.scanners.set(chainId, {
+        chain,
+        scanner: createChainScanner({ ...shared, chain: chainId, chains: registry, rpcUrls: rpcUrls?.[chainId] }),
+      });
+    }
+  }
+
+  get chainIds(): number[] {
+    return Array.from(this.scanners.keys());
+  }
+
+  /** The scanner of one chain, e.g. for its `rpcHealth()` */
+  scannerFor(chainId: number): ApprovalScanner | undefined {
+    return this.scanners.get(chainId)?.scanner;
+  }
+
+  async scan(walletAddress: string, options: ScanOptions = {}): Promise<MultiChainScanResult> {
+    if (!walletAddress || !isValidAddress(walletAddress)) {
+      throw ValidationError.invalidAddress(walletAddress, 'walletAddress');
+    }
+
+    const startTime = Date.now();
+    const entries = Array.from(this.scanners.values());
+    const settled = await Promise.allSettled(entries.map(({ scanner }) => scanner.scan(walletAddress, options)));
+
+    const chains: Record<number, ScanResult> = {};
+    const failures: ChainScanFailure[] = [];
+    settled.forEach((outcome, index) => {
+      const { chain } = entries[index];
+      if (outcome.status === 'fulfilled') {
+        chains[chain.chain.id] = outcome.value;
+      } else {
+        failures.push(toFailure(chain, outcome.reason));
+      }
+    });
+
+    if (failures.length === entries.length) {
+      const [first] = settled as PromiseRejectedResult[];
+      throw first.reason;
+    }
+
+    const results = Object.values(chains);
+    const approvals = results
+      .flatMap((result) => result.approvals)
+      .sort((a, b) => (b.riskScore ?? 0) - (a.riskScore ?? 0));
+
+    return {
+      walletAddress: normalizeAddress(walletAddress),
+      approvals,
+      recommendations: results
+        .flatMap((result) => result.recommendations)
+        .sort((a, b) => b.priority - a.priority),
+      summary: summarizeApprovals(approvals),
+      chains,
+      failures,
+      scanMetadata: {
+        scanTime: new Date().toISOString(),
+        durationMs: Date.now() - startTime,
+        chainIds: this.chainIds,
+        riskModel: results[0].scanMetadata.riskModel,
+      },
+    };
+  }
+
+  /**
+   * A report over every chain, with a summary per chain in `chains`.
+   */
+  buildReport(result: MultiChainScanResult): ApprovalReport {
+    const [first] = this.scanners.values();
+    const summaries: ChainReportSummary[] = Array.from(this.scanners.values(), ({ chain, scanner }) => {
+      const chainId = chain.chain.id;
+      const scanned = result.chains[chainId];
+      const failure = result.failures.find((f) => f.chainId === chainId);
+      return {
+        chainId,
+        chainName: chain.chain.name,
+        summary: scanned ? scanner.buildReport(scanned).summary : undefined,
+        error: failure?.error,
+      };
+    });
+
+    return { ...first.scanner.buildReport(result), chains: summaries };
+  }
+}
+
+/**
+ * Resolves a `--chains` style selection: `all`, or names and IDs, each
+ * chain once in the order given.
+ */
+export function selectChains(
+  chains: Array<string | number> | 'all',
+  registry: ChainRegistry = DEFAULT_CHAIN_REGISTRY
+): RegisteredChain[] {
+  const selected = chains === 'all'
+    ? registry.list().filter((entry) => !entry.chain.testnet)
+    : chains.map((chain) => registry.resolve(chain));
+  const unique = [...new Map(selected.map((entry) => [entry.chain.id, entry])).values()];
+
+  if (unique.length === 0) {
+    throw new ValidationError('No chains to scan', [
+      { field: 'chains', message: 'Name at least one chain, or use all', value: chains },
+    ]);
+  }
+  return unique;
+}
+
+function toFailure({ chain }: RegisteredChain, error: unknown): ChainScanFailure {
+  return {
+    chainId: chain.id,
+    chainName: chain.name,
+    error: error instanceof Error ? error.message : String(error),
+    code: error instanceof ApprovalGuardError ? error.code : undefined,
+  };
+}
@@ -0,0 +1,304 @@
+import { isAddress } from 'viem';
+import { ApprovalScanner, ScannerOptions } from './scanner.js';
+import { MultiChainScanner, MultiChainScannerOptions, selectChains } from './multi-chain-scanner.js';
+import { ChainRegistry, DEFAULT_CHAIN_REGISTRY } from './chains.js';
+import {
+  PortfolioReport,
+  PortfolioScanResult,
+  PortfolioSummary,
+  PortfolioWalletReport,
+  PortfolioWalletResult,
+  ReportApprovalEntry,
+  RiskLevel,
+  RiskModelInfo,
+  ScanOptions,
+  SharedSpender,
+} from './types.js';
+import { ValidationError, ValidationIssue } from './errors/validation-error.js';
+import { scoreToRiskLevel } from './risk/risk-model.js';
+import { processParallelBatch } from './utils/batch-processor.js';
+import { normalizeAddress } from './utils/address.js';
+import { isNonEmptyString, isRecord } from './utils/validation.js';
+import { loadStructuredFile, parseStructured, StructuredFormat } from './utils/yaml.js';
+
+/**
+ * A wallet of an address book. Wallets without `chains` are scanned on the
+ * portfolio's default chains.
+ */
+export interface AddressBookEntry {
+  address: string;
+  label?: string;
+  tags?: string[];
+  /** Chain names or IDs, or `all` for every chain that is not a testnet */
+  chains?: Array<string | number> | 'all';
+}
+
+export interface PortfolioScannerOptions extends MultiChainScannerOptions {
+  /** Chains of wallets that name none (default: mainnet) */
+  defaultChains?: Array<string | number> | 'all';
+  /** Wallets scanned at once (default: 4) */
+  concurrency?: number;
+  onProgress?: (scanned: number, total: number) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+const ENTRY_KEYS: Array<keyof AddressBookEntry> = ['address', 'label', 'tags', 'chains'];
+
+const HIGH_RISK_LEVELS: RiskLevel[] = ['critical', 'high'];
+
+/**
+ * Scans every wallet of an address book, a bounded number at a time, and
+ * aggregates the results into one `PortfolioReport`. Each chain gets one
+ * `ApprovalScanner` shared by all wallets, so endpoint budgets hold across
+ * the whole portfolio.
+ */
+export class PortfolioScanner {
+  private readonly wallets: Array<{ entry: AddressBookEntry; chainIds: number[]; scanner: MultiChainScanner }>;
+  private readonly chainScanners = new Map<number, ApprovalScanner>();
+  private readonly concurrency: number;
+  private readonly onProgress?: (scanned: number, total: number) => void;
+
+  constructor(
+    entries: AddressBookEntry[],
+    options: PortfolioScannerOptions = {},
+    createChainScanner: (options: ScannerOptions) => ApprovalScanner = (scannerOptions): ApprovalScanner =>
+      new ApprovalScanner(scannerOptions)
+  ) {
+    const { defaultChains = ['mainnet'], concurrency = DEFAULT_CONCURRENCY, onProgress, ...shared } = options;
+    const registry = shared.chains ?? DEFAULT_CHAIN_REGISTRY;
+    const chainScanner = (scannerOptions: ScannerOptions): ApprovalScanner => {
+      const chainId = scannerOptions.chain as number;
+      const scanner = this.chainScanners.get(chainId) ?? createChainScanner(scannerOptions);
+      this.chainScanners.set(chainId, scanner);
+      return scanner;
+    };
+
+    this.concurrency = concurrency;
+    this.onProgress = onProgress;
+    this.wallets = entries.map((entry) => {
+      const chainIds = selectChains(entry.chains ?? defaultChains, registry).map(({ chain }) => chain.id);
+      return { entry, chainIds, scanner: new MultiChainScanner(chainIds, shared, chainScanner) };
+    });
+  }
+
+  /** The scanner of one chain, e.g. for its `rpcHealth()` */
+  scannerFor(chainId: number): ApprovalScanner | undefined {
+    return this.chainScanners.get(chainId);
+  }
+
+  /**
+   * Scans every wallet. A wallet that cannot be scanned is kept with its
+   * `error`; only when every wallet fails does `scan` throw.
+   */
+  async scan(options: ScanOptions = {}): Promise<PortfolioScanResult> {
+    const startTime = Date.now();
+    const errors: unknown[] = [];
+
+    const { results } = await processParallelBatch(
+      this.wallets,
+      async ({ entry, chainIds, scanner }): Promise<PortfolioWalletResult> => {
+        const wallet = {
+          address: normalizeAddress(entry.address),
+          label: entry.label,
+          tags: entry.tags ?? [],
+          chainIds,
+        };
+        try {
+          return { ...wallet, result: await scanner.scan(entry.address, options) };
+        } catch (error) {
+          errors.push(error);
+          return { ...wallet, error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { batchSize: this.concurrency, delayMs: 0, onProgress: this.onProgress }
+    );
+
+    if (results.length > 0 && errors.length === results.length) {
+      throw errors[0];
+    }
+
+    return {
+      wallets: results,
+      scanMetadata: {
+        scanTime: new Date().toISOString(),
+        durationMs: Date.now() - startTime,
+      },
+    };
+  }
+
+  /**
+   * The aggregate report: each wallet's own report, the risky spenders
+   * wallets have in common and totals over the whole portfolio.
+   */
+  buildReport(result: PortfolioScanResult): PortfolioReport {
+    const wallets: PortfolioWalletReport[] = result.wallets.map(({ result: scanned, ...wallet }, index) => ({
+      ...wallet,
+      report: scanned ? this.wallets[index].scanner.buildReport(scanned) : undefined,
+    }));
+    const riskModel = wallets.find((wallet) => wallet.report)?.report?.riskModel;
+    if (!riskModel) {
+      throw new ValidationError('Portfolio has no scanned wallets to report on', [
+        { field: 'wallets', message: 'At least one wallet must have been scanned' },
+      ]);
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      riskModel,
+      summary: summarizePortfolio(wallets, riskModel),
+      wallets,
+      sharedSpenders: findSharedSpenders(wallets),
+    };
+  }
+}
+
+/**
+ * Spenders approved by more than one wallet where at least one approval is
+ * high risk or recommended for revocation, most widely approved first.
+ * Spenders are matched by address across chains, so a contract deployed
+ * at the same address everywhere counts once.
+ */
+export function findSharedSpenders(wallets: PortfolioWalletReport[]): SharedSpender[] {
+  const bySpender = new Map<string, Array<{ wallet: string; entry: ReportApprovalEntry }>>();
+  for (const wallet of wallets) {
+    for (const entry of wallet.report?.approvals ?? []) {
+      const spender = entry.approval.spenderAddress.toLowerCase();
+      bySpender.set(spender, [...(bySpender.get(spender) ?? []), { wallet: wallet.address, entry }]);
+    }
+  }
+
+  const shared: SharedSpender[] = [];
+  for (const [spenderAddress, approvals] of bySpender) {
+    const owners = [...new Set(approvals.map(({ wallet }) => wallet))];
+    const risky = approvals.some(({ entry }) =>
+      HIGH_RISK_LEVELS.includes(entry.riskAssessment.riskLevel) || entry.recommendation?.shouldRevoke
+    );
+    if (owners.length < 2 || !risky) continue;
+
+    const riskiest = approvals.reduce((top, item) =>
+      item.entry.riskAssessment.riskScore > top.entry.riskAssessment.riskScore ? item : top
+    );
+    shared.push({
+      spenderAddress,
+      spenderName: approvals.find(({ entry }) => entry.approval.spenderName)?.entry.approval.spenderName,
+      chainIds: [...new Set(approvals.flatMap(({ entry }) => entry.approval.chainId ?? []))],
+      wallets: owners,
+      approvals: approvals.length,
+      unlimitedApprovals: approvals.filter(({ entry }) => entry.approval.isUnlimited).length,
+      highestRiskScore: riskiest.entry.riskAssessment.riskScore,
+      riskLevel: riskiest.entry.riskAssessment.riskLevel,
+    });
+  }
+
+  return shared.sort((a, b) => b.wallets.length - a.wallets.length || b.highestRiskScore - a.highestRiskScore);
+}
+
+/**
+ * Reads an address book: a `wallets` list in JSON (`.json`) or YAML
+ * (anything else), checked against the chains of `registry`.
+ */
+export async function loadAddressBook(
+  filePath: string,
+  registry: ChainRegistry = DEFAULT_CHAIN_REGISTRY
+): Promise<AddressBookEntry[]> {
+  return validateAddressBook(await loadStructuredFile(filePath, 'addressBook', 'address book'), registry);
+}
+
+export function parseAddressBook(
+  content: string,
+  format: StructuredFormat,
+  registry: ChainRegistry = DEFAULT_CHAIN_REGISTRY
+): AddressBookEntry[] {
+  return validateAddressBook(parseStructured(content, format, 'addressBook', 'address book'), registry);
+}
+
+/**
+ * Checks a parsed address book, reporting every problem at once.
+ */
+export function validateAddressBook(
+  value: unknown,
+  registry: ChainRegistry = DEFAULT_CHAIN_REGISTRY
+): AddressBookEntry[] {
+  if (!isRecord(value) || !Array.isArray(value.wallets) || value.wallets.length === 0) {
+    throw new ValidationError('Address book must have a wallets list', [
+      { field: 'wallets', message: 'Must be a non-empty list of wallets', value },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, message: string, fieldValue?: unknown): void => {
+    issues.push({ field, message, value: fieldValue });
+  };
+
+  const addresses = new Set<string>();
+  value.wallets.forEach((wallet, index) => {
+    const field = `wallets[${index}]`;
+    if (!isRecord(wallet)) {
+      issue(field, 'must be a mapping with at least an address', wallet);
+      return;
+    }
+
+    for (const key of Object.keys(wallet)) {
+      if (!(ENTRY_KEYS as string[]).includes(key)) {
+        issue(`${field}.${key}`, `unknown key; expected one of ${ENTRY_KEYS.join(', ')}`);
+      }
+    }
+    if (typeof wallet.address !== 'string' || !isAddress(wallet.address, { strict: false })) {
+      issue(`${field}.address`, 'must be a valid Ethereum address', wallet.address);
+    } else if (addresses.has(wallet.address.toLowerCase())) {
+      issue(`${field}.address`, `duplicate wallet ${wallet.address}`, wallet.address);
+    } else {
+      addresses.add(wallet.address.toLowerCase());
+    }
+    if (wallet.label !== undefined && !isNonEmptyString(wallet.label)) {
+      issue(`${field}.label`, 'label must be a non-empty string', wallet.label);
+    }
+    if (wallet.tags !== undefined && !(Array.isArray(wallet.tags) && wallet.tags.every(isNonEmptyString))) {
+      issue(`${field}.tags`, 'tags must be a list of names', wallet.tags);
+    }
+    if (wallet.chains !== undefined && wallet.chains !== 'all') {
+      const chains = wallet.chains;
+      if (!Array.isArray(chains) || chains.length === 0) {
+        issue(`${field}.chains`, 'chains must be all or a non-empty list of chain names or IDs', chains);
+      } else {
+        chains
+          .filter((chain) => !(typeof chain === 'string' || typeof chain === 'number') || !registry.has(chain))
+          .forEach((chain) => issue(`${field}.chains`, `unknown chain ${String(chain)}`, chain));
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid address book: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  return value.wallets as AddressBookEntry[];
+}
+
+function summarizePortfolio(wallets: PortfolioWalletReport[], riskModel: RiskModelInfo): PortfolioSummary {
+  const entries = wallets.flatMap((wallet) => wallet.report?.approvals ?? []);
+  const scores = entries.map((entry) => entry.riskAssessment.riskScore);
+  const averageRiskScore = scores.length > 0
+    ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+    : 0;
+  const countLevels = (...levels: RiskLevel[]): number =>
+    entries.filter((entry) => levels.includes(entry.riskAssessment.riskLevel)).length;
+
+  return {
+    totalWallets: wallets.length,
+    scannedWallets: wallets.filter((wallet) => wallet.report).length,
+    failedWallets: wallets.filter((wallet) => !wallet.report).length,
+    walletsAtRisk: wallets.filter((wallet) => (wallet.report?.summary.highRiskCount ?? 0) > 0).length,
+    totalApprovals: entries.length,
+    unlimitedApprovals: entries.filter((entry) => entry.approval.isUnlimited).length,
+    highRiskCount: countLevels(...HIGH_RISK_LEVELS),
+    mediumRiskCount: countLevels('medium'),
+    lowRiskCount: countLevels('low', 'minimal'),
+    averageRiskScore,
+    overallRiskLevel: scoreToRiskLevel(averageRiskScore, riskModel.thresholds),
+  };
+}
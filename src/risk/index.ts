@@ -1,3 +1,6 @@
 export { RiskCalculator } from './risk-calculator';
-export { RiskFactors, RiskThresholds } from './risk-factors';
-export { RiskLevel, RiskCategory } from './risk-types';
+export { RiskFactors, RiskThresholds, DEFAULT_THRESHOLDS } from './risk-factors';
+export { RiskModel, DEFAULT_RISK_MODEL, getModelInfo, levelFloor, scoreToRiskLevel } from './risk-model';
+export { RiskPolicy, loadRiskPolicy, parseRiskPolicy, validateRiskPolicy, policyToModel } from './risk-policy';
+export { RiskLevel, RiskCategory, PolicyRule, PolicyRuleCondition } from './risk-types';
+export * from './rules';
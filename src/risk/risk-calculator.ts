@@ -4,120 +4,107 @@ import {
   RiskBreakdown,
   RiskAssessment,
 } from './risk-types';
+import { RiskThresholds } from './risk-factors';
+import { RiskModel, DEFAULT_RISK_MODEL, getModelInfo, scoreToRiskLevel } from './risk-model';
+import { RiskPolicy, policyToModel } from './risk-policy';
 import {
-  RiskThresholds,
-  DEFAULT_THRESHOLDS,
-  RiskFactors,
-  getDormancyMultiplier,
-  getValueMultiplier,
-} from './risk-factors';
-import { TokenApproval } from '../types';
+  RiskRule,
+  RiskRuleContext,
+  BUILTIN_RULES,
+  blockedSpenderRule,
+  createPolicyRule,
+  assertUniqueRuleIds,
+} from './rules';
+import { RiskModelInfo } from '../types';
+import { ApprovalLike, toApproval } from '../approval/approval-adapters';
+import { ApprovalGuardError, ErrorCode } from '../errors/approval-guard-error';
 
 export interface RiskCalculatorOptions {
+  model?: RiskModel;
+  /** Applied on top of `model` */
+  policy?: RiskPolicy;
   thresholds?: Partial<RiskThresholds>;
   dormancyDays?: number;
+  /** Extra rules, run after the built-in scoring rules */
+  rules?: RiskRule[];
 }
 
+/**
+ * The risk engine. Every score and level in the tool comes from here, using
+ * a single named and versioned `RiskModel` and an ordered list of rules:
+ * the built-in scoring rules, any extra rules, then the blocklist and policy
+ * rules, which only ever raise a score.
+ */
 export class RiskCalculator {
-  private thresholds: RiskThresholds;
-  private dormancyDays: number;
+  readonly model: RiskModel;
+  readonly rules: readonly RiskRule[];
 
   constructor(options: RiskCalculatorOptions = {}) {
-    this.thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
-    this.dormancyDays = options.dormancyDays ?? 90;
+    const base = options.policy
+      ? policyToModel(options.policy, options.model)
+      : options.model ?? DEFAULT_RISK_MODEL;
+    this.model = {
+      ...base,
+      thresholds: { ...base.thresholds, ...options.thresholds },
+      dormancyDays: options.dormancyDays ?? base.dormancyDays,
+    };
+    this.rules = [
+      ...BUILTIN_RULES,
+      ...(options.rules ?? []),
+      blockedSpenderRule,
+      ...this.model.rules.map(createPolicyRule),
+    ];
+    assertUniqueRuleIds(this.rules);
+  }
+
+  /** Model id, version, thresholds and rule ids to stamp on results */
+  get modelInfo(): RiskModelInfo {
+    return getModelInfo(this.model, this.rules.map((rule) => rule.id));
+  }
+
+  levelFor(score: number): RiskLevel {
+    return scoreToRiskLevel(score, this.model.thresholds);
   }
 
-  calculateApprovalRisk(approval: TokenApproval): RiskAssessment {
+  async calculateApprovalRisk(input: ApprovalLike): Promise<RiskAssessment> {
+    const approval = toApproval(input);
     const breakdown: RiskBreakdown[] = [];
-    let totalScore = 0;
-
-    // Check unlimited allowance
-    if (approval.isUnlimited) {
-      const factor = RiskFactors[RiskCategory.UNLIMITED_ALLOWANCE];
-      const score = factor.baseScore * factor.weight;
-      breakdown.push({
-        category: factor.category,
-        score,
-        description: factor.description,
-        weight: factor.weight,
-      });
-      totalScore += score;
-    }
+    const context: RiskRuleContext = {
+      model: this.model,
+      score: 0,
+      trustedSpender: this.model.trustedSpenders.includes(approval.spenderAddress.toLowerCase()),
+      now: new Date(),
+    };
 
-    // Check dormancy
-    if (approval.lastUsed) {
-      const daysSinceUse = this.getDaysSince(approval.lastUsed);
-      if (daysSinceUse > this.dormancyDays) {
-        const factor = RiskFactors[RiskCategory.DORMANT_APPROVAL];
-        const multiplier = getDormancyMultiplier(daysSinceUse);
-        const score = factor.baseScore * factor.weight * multiplier;
-        breakdown.push({
-          category: factor.category,
-          score,
-          description: `${factor.description} (${daysSinceUse} days)`,
-          weight: factor.weight * multiplier,
+    for (const rule of this.rules) {
+      let entry: RiskBreakdown | null;
+      try {
+        entry = await rule.evaluate(approval, context);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new ApprovalGuardError(`Risk rule "${rule.id}" failed: ${message}`, {
+          code: ErrorCode.SCAN_FAILED,
+          details: { ruleId: rule.id },
+          cause: error instanceof Error ? error : undefined,
         });
-        totalScore += score;
       }
-    }
 
-    // Check value risk
-    if (approval.usdValue && approval.usdValue > 100) {
-      const factor = RiskFactors[RiskCategory.HIGH_VALUE_TOKEN];
-      const multiplier = getValueMultiplier(approval.usdValue);
-      const score = factor.baseScore * factor.weight * multiplier;
-      breakdown.push({
-        category: factor.category,
-        score,
-        description: `${factor.description} ($${approval.usdValue.toFixed(2)})`,
-        weight: factor.weight * multiplier,
-      });
-      totalScore += score;
-    }
-
-    // Apply recent approval discount
-    if (approval.approvedAt) {
-      const daysSinceApproval = this.getDaysSince(approval.approvedAt);
-      if (daysSinceApproval < 7) {
-        const factor = RiskFactors[RiskCategory.RECENT_APPROVAL];
-        const score = factor.baseScore * factor.weight;
-        breakdown.push({
-          category: factor.category,
-          score,
-          description: factor.description,
-          weight: factor.weight,
-        });
-        totalScore += score;
+      if (entry) {
+        breakdown.push(entry);
+        context.score = clampScore(context.score + entry.score);
       }
     }
 
-    // Normalize score to 0-100 range
-    const normalizedScore = Math.max(0, Math.min(100, totalScore));
-    const level = this.scoreToLevel(normalizedScore);
-    const recommendations = this.generateRecommendations(breakdown, level);
+    const level = this.levelFor(context.score);
 
     return {
       level,
-      score: normalizedScore,
+      score: context.score,
       breakdown,
-      recommendations,
+      recommendations: this.generateRecommendations(breakdown, level),
     };
   }
 
-  private getDaysSince(timestamp: number): number {
-    const now = Date.now();
-    const diff = now - timestamp * 1000;
-    return Math.floor(diff / (1000 * 60 * 60 * 24));
-  }
-
-  private scoreToLevel(score: number): RiskLevel {
-    if (score >= this.thresholds.critical) return RiskLevel.CRITICAL;
-    if (score >= this.thresholds.high) return RiskLevel.HIGH;
-    if (score >= this.thresholds.medium) return RiskLevel.MEDIUM;
-    if (score >= this.thresholds.low) return RiskLevel.LOW;
-    return RiskLevel.MINIMAL;
-  }
-
   private generateRecommendations(
     breakdown: RiskBreakdown[],
     level: RiskLevel
@@ -127,6 +114,15 @@ export class RiskCalculator {
     const hasUnlimited = breakdown.some(
       (b) => b.category === RiskCategory.UNLIMITED_ALLOWANCE
     );
+    const isOperator = breakdown.some(
+      (b) => b.category === RiskCategory.NFT_OPERATOR
+    );
+    const isNftToken = breakdown.some(
+      (b) => b.category === RiskCategory.NFT_TOKEN_APPROVAL
+    );
+    const isLongLivedPermit2 = breakdown.some(
+      (b) => b.category === RiskCategory.PERMIT2_FAR_EXPIRATION
+    );
     const isDormant = breakdown.some(
       (b) => b.category === RiskCategory.DORMANT_APPROVAL
     );
@@ -144,6 +140,24 @@ export class RiskCalculator {
       );
     }
 
+    if (isOperator) {
+      recommendations.push(
+        'Revoke operator access with setApprovalForAll(operator, false) if no longer needed'
+      );
+    }
+
+    if (isNftToken) {
+      recommendations.push(
+        'Clear the token approval with approve(address(0), tokenId) if no longer needed'
+      );
+    }
+
+    if (isLongLivedPermit2) {
+      recommendations.push(
+        "Revoke the Permit2 sub-allowance with Permit2's approve(token, spender, 0, 0) or lockdown"
+      );
+    }
+
     if (isDormant) {
       recommendations.push(
         'Approval appears unused - consider revoking if no longer needed'
@@ -163,7 +177,7 @@ export class RiskCalculator {
     return recommendations;
   }
 
-  calculateAggregateRisk(approvals: TokenApproval[]): RiskAssessment {
+  async calculateAggregateRisk(approvals: ApprovalLike[]): Promise<RiskAssessment> {
     if (approvals.length === 0) {
       return {
         level: RiskLevel.MINIMAL,
@@ -173,7 +187,7 @@ export class RiskCalculator {
       };
     }
 
-    const assessments = approvals.map((a) => this.calculateApprovalRisk(a));
+    const assessments = await Promise.all(approvals.map((a) => this.calculateApprovalRisk(a)));
     const avgScore =
       assessments.reduce((sum, a) => sum + a.score, 0) / assessments.length;
     const maxScore = Math.max(...assessments.map((a) => a.score));
@@ -196,7 +210,7 @@ export class RiskCalculator {
     });
 
     return {
-      level: this.scoreToLevel(normalizedScore),
+      level: this.levelFor(normalizedScore),
       score: normalizedScore,
       breakdown: aggregatedBreakdown,
       recommendations: this.generateAggregateRecommendations(
@@ -238,3 +252,7 @@ export class RiskCalculator {
     return recommendations;
   }
 }
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, score));
+}
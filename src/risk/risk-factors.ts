@@ -1,15 +1,15 @@
 import { RiskCategory } from './risk-types';
+import type { RiskThresholds } from '../types';
 
-export interface RiskThresholds {
-  critical: number;
-  high: number;
-  medium: number;
-  low: number;
-}
+export type { RiskThresholds } from '../types';
 
+/**
+ * The one score-to-level table. Every level shown by the CLI, the reports and
+ * the services is derived from this (or a model's override of it).
+ */
 export const DEFAULT_THRESHOLDS: RiskThresholds = {
-  critical: 90,
-  high: 70,
+  critical: 80,
+  high: 60,
   medium: 40,
   low: 20,
 };
@@ -58,6 +58,30 @@ export const RiskFactors: Record<RiskCategory, RiskFactorConfig> = {
     weight: 0.8,
     description: 'Recent approval may be intentionally active',
   },
+  [RiskCategory.BLOCKED_SPENDER]: {
+    category: RiskCategory.BLOCKED_SPENDER,
+    baseScore: 100,
+    weight: 1,
+    description: 'Spender is on the policy blocklist',
+  },
+  [RiskCategory.NFT_OPERATOR]: {
+    category: RiskCategory.NFT_OPERATOR,
+    baseScore: 50,
+    weight: 1.5,
+    description: 'Operator can transfer every token in the collection',
+  },
+  [RiskCategory.NFT_TOKEN_APPROVAL]: {
+    category: RiskCategory.NFT_TOKEN_APPROVAL,
+    baseScore: 25,
+    weight: 1.2,
+    description: 'Spender can transfer this NFT',
+  },
+  [RiskCategory.PERMIT2_FAR_EXPIRATION]: {
+    category: RiskCategory.PERMIT2_FAR_EXPIRATION,
+    baseScore: 20,
+    weight: 1.0,
+    description: 'Permit2 sub-allowance does not expire for a long time',
+  },
 };
 
 export function getDormancyMultiplier(daysSinceLastUse: number): number {
@@ -0,0 +1,61 @@
+import { RiskLevel, RiskModelInfo, RiskThresholds } from '../types';
+import { DORMANT_DAYS_THRESHOLD } from '../constants';
+import { PolicyRule, RiskCategory } from './risk-types';
+import { DEFAULT_THRESHOLDS, RiskFactorConfig, RiskFactors } from './risk-factors';
+
+/**
+ * Everything that determines a score: the factor table, the level thresholds,
+ * the dormancy window and any policy spender lists and rules. Change the
+ * version whenever any of these change so that stored results can be told
+ * apart.
+ */
+export interface RiskModel {
+  id: string;
+  version: string;
+  thresholds: RiskThresholds;
+  factors: Record<RiskCategory, RiskFactorConfig>;
+  dormancyDays: number;
+  /** Lowercase addresses */
+  trustedSpenders: string[];
+  /** Lowercase addresses */
+  blockedSpenders: string[];
+  rules: PolicyRule[];
+}
+
+export const DEFAULT_RISK_MODEL: RiskModel = {
+  id: 'approval-guard-additive',
+  version: '1.0.0',
+  thresholds: DEFAULT_THRESHOLDS,
+  factors: RiskFactors,
+  dormancyDays: DORMANT_DAYS_THRESHOLD,
+  trustedSpenders: [],
+  blockedSpenders: [],
+  rules: [],
+};
+
+export function getModelInfo(model: RiskModel, rules: string[]): RiskModelInfo {
+  return {
+    id: model.id,
+    version: model.version,
+    thresholds: { ...model.thresholds },
+    rules,
+  };
+}
+
+/**
+ * Lowest score that still falls into `level`.
+ */
+export function levelFloor(level: RiskLevel, thresholds: RiskThresholds): number {
+  return level === RiskLevel.MINIMAL ? 0 : thresholds[level];
+}
+
+export function scoreToRiskLevel(
+  score: number,
+  thresholds: RiskThresholds = DEFAULT_THRESHOLDS
+): RiskLevel {
+  if (score >= thresholds.critical) return RiskLevel.CRITICAL;
+  if (score >= thresholds.high) return RiskLevel.HIGH;
+  if (score >= thresholds.medium) return RiskLevel.MEDIUM;
+  if (score >= thresholds.low) return RiskLevel.LOW;
+  return RiskLevel.MINIMAL;
+}
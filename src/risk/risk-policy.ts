@@ -0,0 +1,258 @@
+import { isAddress } from 'viem';
+import { RiskLevel, RiskThresholds } from '../types';
+import { ValidationError, ValidationIssue } from '../errors/validation-error';
+import { isRecord } from '../utils/validation';
+import { loadStructuredFile, parseStructured, StructuredFormat } from '../utils/yaml';
+import { PolicyRule, PolicyRuleCondition, RiskCategory } from './risk-types';
+import { RiskModel, DEFAULT_RISK_MODEL } from './risk-model';
+
+/**
+ * A risk policy as written in a `--policy` file. Everything except the name
+ * and version is optional and falls back to the default model.
+ */
+export interface RiskPolicy {
+  name: string;
+  version: string;
+  thresholds?: Partial<RiskThresholds>;
+  dormancyDays?: number;
+  /** Replaces the weight of each listed factor */
+  weights?: Partial<Record<RiskCategory, number>>;
+  spenders?: {
+    trusted?: string[];
+    blocked?: string[];
+  };
+  rules?: PolicyRule[];
+}
+
+const LEVELS: string[] = Object.values(RiskLevel);
+const CATEGORIES: string[] = Object.values(RiskCategory);
+const THRESHOLD_KEYS: Array<keyof RiskThresholds> = ['critical', 'high', 'medium', 'low'];
+const POLICY_KEYS: Array<keyof RiskPolicy> = [
+  'name', 'version', 'thresholds', 'dormancyDays', 'weights', 'spenders', 'rules',
+];
+const CONDITION_KEYS: Array<keyof PolicyRuleCondition> = [
+  'unlimited', 'trustedSpender', 'dormantDays', 'minUsdValue', 'tokens', 'spenders',
+];
+
+/**
+ * Reads and validates a policy file. `.json` files are parsed as JSON, anything
+ * else as YAML.
+ */
+export async function loadRiskPolicy(filePath: string): Promise<RiskPolicy> {
+  return validateRiskPolicy(await loadStructuredFile(filePath, 'policy', 'risk policy'));
+}
+
+export function parseRiskPolicy(content: string, format: StructuredFormat): RiskPolicy {
+  return validateRiskPolicy(parseStructured(content, format, 'policy', 'risk policy'));
+}
+
+/**
+ * Checks an already parsed policy document, reporting every problem at once.
+ */
+export function validateRiskPolicy(value: unknown): RiskPolicy {
+  if (!isRecord(value)) {
+    throw new ValidationError('Risk policy must be an object', [
+      { field: 'policy', message: 'Must be a mapping of policy settings', value },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, message: string, fieldValue?: unknown): void => {
+    issues.push({ field, message, value: fieldValue });
+  };
+
+  checkKeys(value, POLICY_KEYS, '', issue);
+
+  for (const field of ['name', 'version'] as const) {
+    if (typeof value[field] !== 'string' || (value[field] as string).trim() === '') {
+      issue(field, `${field} must be a non-empty string (quote numeric values in YAML)`, value[field]);
+    }
+  }
+
+  if (value.thresholds !== undefined) {
+    if (!isRecord(value.thresholds)) {
+      issue('thresholds', 'thresholds must be a mapping of level to minimum score', value.thresholds);
+    } else {
+      checkKeys(value.thresholds, THRESHOLD_KEYS, 'thresholds', issue);
+      for (const key of THRESHOLD_KEYS) {
+        const score = value.thresholds[key];
+        if (score !== undefined && !isScore(score)) {
+          issue(`thresholds.${key}`, 'must be a number between 0 and 100', score);
+        }
+      }
+      const merged = { ...DEFAULT_RISK_MODEL.thresholds, ...value.thresholds } as RiskThresholds;
+      const ordered = THRESHOLD_KEYS.every(
+        (key, i) => i === 0 || !isScore(merged[key]) || !isScore(merged[THRESHOLD_KEYS[i - 1]]) ||
+          merged[THRESHOLD_KEYS[i - 1]] > merged[key]
+      );
+      if (!ordered) {
+        issue('thresholds', 'thresholds must satisfy critical > high > medium > low', merged);
+      }
+    }
+  }
+
+  if (value.dormancyDays !== undefined && !isNonNegative(value.dormancyDays)) {
+    issue('dormancyDays', 'dormancyDays must be a non-negative number', value.dormancyDays);
+  }
+
+  if (value.weights !== undefined) {
+    if (!isRecord(value.weights)) {
+      issue('weights', 'weights must be a mapping of risk factor to weight', value.weights);
+    } else {
+      checkKeys(value.weights, CATEGORIES, 'weights', issue);
+      for (const [key, weight] of Object.entries(value.weights)) {
+        if (!isNonNegative(weight)) {
+          issue(`weights.${key}`, 'must be a non-negative number', weight);
+        }
+      }
+    }
+  }
+
+  if (value.spenders !== undefined) {
+    if (!isRecord(value.spenders)) {
+      issue('spenders', 'spenders must have trusted and/or blocked address lists', value.spenders);
+    } else {
+      checkKeys(value.spenders, ['trusted', 'blocked'], 'spenders', issue);
+      checkAddressList(value.spenders.trusted, 'spenders.trusted', issue);
+      checkAddressList(value.spenders.blocked, 'spenders.blocked', issue);
+    }
+  }
+
+  if (value.rules !== undefined) {
+    if (!Array.isArray(value.rules)) {
+      issue('rules', 'rules must be a list', value.rules);
+    } else {
+      const ids = new Set<string>();
+      value.rules.forEach((rule, index) => checkRule(rule, `rules[${index}]`, ids, issue));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid risk policy: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  return value as unknown as RiskPolicy;
+}
+
+/**
+ * Applies a policy on top of a base model. The result is identified by the
+ * policy's name and version.
+ */
+export function policyToModel(policy: RiskPolicy, base: RiskModel = DEFAULT_RISK_MODEL): RiskModel {
+  const factors = { ...base.factors };
+  for (const [category, weight] of Object.entries(policy.weights ?? {})) {
+    const key = category as RiskCategory;
+    factors[key] = { ...factors[key], weight: weight as number };
+  }
+
+  return {
+    id: policy.name,
+    version: policy.version,
+    thresholds: { ...base.thresholds, ...policy.thresholds },
+    factors,
+    dormancyDays: policy.dormancyDays ?? base.dormancyDays,
+    trustedSpenders: [...base.trustedSpenders, ...lowercase(policy.spenders?.trusted)],
+    blockedSpenders: [...base.blockedSpenders, ...lowercase(policy.spenders?.blocked)],
+    rules: [
+      ...base.rules,
+      ...(policy.rules ?? []).map((rule) => ({
+        ...rule,
+        when: {
+          ...rule.when,
+          tokens: rule.when.tokens && lowercase(rule.when.tokens),
+          spenders: rule.when.spenders && lowercase(rule.when.spenders),
+        },
+      })),
+    ],
+  };
+}
+
+type IssueReporter = (field: string, message: string, value?: unknown) => void;
+
+function checkRule(rule: unknown, field: string, ids: Set<string>, issue: IssueReporter): void {
+  if (!isRecord(rule)) {
+    issue(field, 'rule must be a mapping with id, when and level', rule);
+    return;
+  }
+
+  checkKeys(rule, ['id', 'description', 'when', 'level'], field, issue);
+
+  if (typeof rule.id !== 'string' || rule.id.trim() === '') {
+    issue(`${field}.id`, 'id must be a non-empty string', rule.id);
+  } else if (ids.has(rule.id)) {
+    issue(`${field}.id`, `duplicate rule id "${rule.id}"`, rule.id);
+  } else {
+    ids.add(rule.id);
+  }
+
+  if (rule.description !== undefined && typeof rule.description !== 'string') {
+    issue(`${field}.description`, 'description must be a string', rule.description);
+  }
+
+  if (typeof rule.level !== 'string' || !LEVELS.includes(rule.level)) {
+    issue(`${field}.level`, `level must be one of ${LEVELS.join(', ')}`, rule.level);
+  }
+
+  const when = rule.when;
+  if (!isRecord(when)) {
+    issue(`${field}.when`, 'when must be a mapping of conditions', when);
+    return;
+  }
+
+  checkKeys(when, CONDITION_KEYS, `${field}.when`, issue);
+  for (const key of ['unlimited', 'trustedSpender'] as const) {
+    if (when[key] !== undefined && typeof when[key] !== 'boolean') {
+      issue(`${field}.when.${key}`, 'must be true or false', when[key]);
+    }
+  }
+  for (const key of ['dormantDays', 'minUsdValue'] as const) {
+    if (when[key] !== undefined && !isNonNegative(when[key])) {
+      issue(`${field}.when.${key}`, 'must be a non-negative number', when[key]);
+    }
+  }
+  checkAddressList(when.tokens, `${field}.when.tokens`, issue);
+  checkAddressList(when.spenders, `${field}.when.spenders`, issue);
+}
+
+function checkAddressList(list: unknown, field: string, issue: IssueReporter): void {
+  if (list === undefined) return;
+
+  if (!Array.isArray(list)) {
+    issue(field, 'must be a list of addresses', list);
+    return;
+  }
+
+  list.forEach((address, index) => {
+    if (typeof address !== 'string' || !isAddress(address, { strict: false })) {
+      issue(`${field}[${index}]`, 'must be a valid Ethereum address', address);
+    }
+  });
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  allowed: readonly string[],
+  field: string,
+  issue: IssueReporter
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      issue(field ? `${field}.${key}` : key, `unknown key; expected one of ${allowed.join(', ')}`);
+    }
+  }
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isScore(value: unknown): value is number {
+  return isNonNegative(value) && value <= 100;
+}
+
+function lowercase(addresses: string[] | undefined): string[] {
+  return (addresses ?? []).map((address) => address.toLowerCase());
+}
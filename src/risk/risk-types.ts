@@ -1,10 +1,6 @@
-export enum RiskLevel {
-  CRITICAL = 'critical',
-  HIGH = 'high',
-  MEDIUM = 'medium',
-  LOW = 'low',
-  MINIMAL = 'minimal',
-}
+import { RiskLevel } from '../types';
+
+export { RiskLevel };
 
 export enum RiskCategory {
   UNLIMITED_ALLOWANCE = 'unlimited_allowance',
@@ -13,10 +9,15 @@ export enum RiskCategory {
   HIGH_VALUE_TOKEN = 'high_value_token',
   SUSPICIOUS_CONTRACT = 'suspicious_contract',
   RECENT_APPROVAL = 'recent_approval',
+  BLOCKED_SPENDER = 'blocked_spender',
+  NFT_OPERATOR = 'nft_operator',
+  NFT_TOKEN_APPROVAL = 'nft_token_approval',
+  PERMIT2_FAR_EXPIRATION = 'permit2_far_expiration',
 }
 
 export interface RiskBreakdown {
-  category: RiskCategory;
+  /** A `RiskCategory` for built-in rules; plugins may use their own */
+  category: string;
   score: number;
   description: string;
   weight: number;
@@ -28,3 +29,27 @@ export interface RiskAssessment {
   breakdown: RiskBreakdown[];
   recommendations: string[];
 }
+
+/**
+ * Conditions of a policy rule. All given conditions must hold; a rule without
+ * conditions matches every approval.
+ */
+export interface PolicyRuleCondition {
+  unlimited?: boolean;
+  trustedSpender?: boolean;
+  /** Unused for at least this many days */
+  dormantDays?: number;
+  minUsdValue?: number;
+  tokens?: string[];
+  spenders?: string[];
+}
+
+/**
+ * Raises every matching approval to at least `level`.
+ */
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  when: PolicyRuleCondition;
+  level: RiskLevel;
+}
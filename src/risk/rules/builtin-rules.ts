@@ -0,0 +1,168 @@
+import { RiskCategory, RiskBreakdown } from '../risk-types';
+import { RiskModel } from '../risk-model';
+import { getDormancyMultiplier, getValueMultiplier } from '../risk-factors';
+import {
+  isOperatorApproval,
+  isPermit2Approval,
+  isSingleTokenApproval,
+  isUnlimitedApproval,
+} from '../../approval/approval-adapters';
+import { PERMIT2_FAR_EXPIRATION_DAYS } from '../../constants';
+import { RiskRule } from './risk-rule';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const unlimitedAllowanceRule: RiskRule = {
+  id: 'unlimited-allowance',
+  category: RiskCategory.UNLIMITED_ALLOWANCE,
+  async evaluate(approval, { model }) {
+    return isUnlimitedApproval(approval) ? factorEntry(model, RiskCategory.UNLIMITED_ALLOWANCE) : null;
+  },
+};
+
+/** `setApprovalForAll` grants are as open-ended as an unlimited allowance */
+export const nftOperatorRule: RiskRule = {
+  id: 'nft-operator',
+  category: RiskCategory.NFT_OPERATOR,
+  async evaluate(approval, { model }) {
+    return isOperatorApproval(approval) && approval.value > 0n
+      ? factorEntry(model, RiskCategory.NFT_OPERATOR)
+      : null;
+  },
+};
+
+/** One ERC-721 token; never scored as a fungible allowance */
+export const nftTokenApprovalRule: RiskRule = {
+  id: 'nft-token-approval',
+  category: RiskCategory.NFT_TOKEN_APPROVAL,
+  async evaluate(approval, { model }) {
+    return isSingleTokenApproval(approval) && approval.value > 0n
+      ? factorEntry(model, RiskCategory.NFT_TOKEN_APPROVAL, 1, `#${approval.tokenId ?? '?'}`)
+      : null;
+  },
+};
+
+/** Permit2 sub-allowances set to expire far in the future, often uint48 max */
+export const permit2ExpirationRule: RiskRule = {
+  id: 'permit2-far-expiration',
+  category: RiskCategory.PERMIT2_FAR_EXPIRATION,
+  async evaluate(approval, { model, now }) {
+    if (!isPermit2Approval(approval) || !approval.expiration || approval.value === 0n) return null;
+
+    const daysLeft = daysBetween(now, approval.expiration);
+    if (daysLeft <= PERMIT2_FAR_EXPIRATION_DAYS) return null;
+
+    return factorEntry(
+      model,
+      RiskCategory.PERMIT2_FAR_EXPIRATION,
+      daysLeft > 365 ? 1.5 : 1,
+      `expires in ${daysLeft} days`
+    );
+  },
+};
+
+export const dormantApprovalRule: RiskRule = {
+  id: 'dormant-approval',
+  category: RiskCategory.DORMANT_APPROVAL,
+  async evaluate(approval, { model, now }) {
+    if (!approval.lastUsed) return null;
+
+    const daysSinceUse = daysBetween(approval.lastUsed, now);
+    if (daysSinceUse <= model.dormancyDays) return null;
+
+    return factorEntry(
+      model,
+      RiskCategory.DORMANT_APPROVAL,
+      getDormancyMultiplier(daysSinceUse),
+      `${daysSinceUse} days`
+    );
+  },
+};
+
+/** Unknown verification status is not penalised */
+export const unverifiedSpenderRule: RiskRule = {
+  id: 'unverified-spender',
+  category: RiskCategory.UNVERIFIED_SPENDER,
+  async evaluate(approval, { model, trustedSpender }) {
+    return approval.spenderVerified === false && !trustedSpender
+      ? factorEntry(model, RiskCategory.UNVERIFIED_SPENDER)
+      : null;
+  },
+};
+
+export const highValueTokenRule: RiskRule = {
+  id: 'high-value-token',
+  category: RiskCategory.HIGH_VALUE_TOKEN,
+  async evaluate(approval, { model }) {
+    if (!approval.usdValue || approval.usdValue <= 100) return null;
+
+    return factorEntry(
+      model,
+      RiskCategory.HIGH_VALUE_TOKEN,
+      getValueMultiplier(approval.usdValue),
+      `$${approval.usdValue.toFixed(2)}`
+    );
+  },
+};
+
+export const recentApprovalRule: RiskRule = {
+  id: 'recent-approval',
+  category: RiskCategory.RECENT_APPROVAL,
+  async evaluate(approval, { model, now }) {
+    return approval.timestamp && daysBetween(approval.timestamp, now) < 7
+      ? factorEntry(model, RiskCategory.RECENT_APPROVAL)
+      : null;
+  },
+};
+
+/**
+ * Raises approvals to blocked spenders to the factor's score. Runs after the
+ * scoring rules so it can top up whatever they produced.
+ */
+export const blockedSpenderRule: RiskRule = {
+  id: 'blocked-spender',
+  category: RiskCategory.BLOCKED_SPENDER,
+  async evaluate(approval, { model, score }) {
+    if (!model.blockedSpenders.includes(approval.spenderAddress.toLowerCase())) return null;
+
+    const factor = model.factors[RiskCategory.BLOCKED_SPENDER];
+    const floor = Math.min(100, factor.baseScore * factor.weight);
+    return {
+      category: factor.category,
+      score: Math.max(0, floor - score),
+      description: factor.description,
+      weight: factor.weight,
+    };
+  },
+};
+
+/** The scoring rules every calculator starts with, in evaluation order */
+export const BUILTIN_RULES: readonly RiskRule[] = [
+  unlimitedAllowanceRule,
+  nftOperatorRule,
+  nftTokenApprovalRule,
+  permit2ExpirationRule,
+  dormantApprovalRule,
+  unverifiedSpenderRule,
+  highValueTokenRule,
+  recentApprovalRule,
+];
+
+function factorEntry(
+  model: RiskModel,
+  category: RiskCategory,
+  multiplier = 1,
+  detail?: string
+): RiskBreakdown {
+  const factor = model.factors[category];
+  return {
+    category: factor.category,
+    score: factor.baseScore * factor.weight * multiplier,
+    description: detail ? `${factor.description} (${detail})` : factor.description,
+    weight: factor.weight * multiplier,
+  };
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
@@ -0,0 +1,4 @@
+export * from './risk-rule';
+export * from './builtin-rules';
+export * from './policy-rules';
+export * from './rule-loader';
@@ -0,0 +1,47 @@
+import { Approval } from '../../types';
+import { PolicyRule } from '../risk-types';
+import { levelFloor } from '../risk-model';
+import { isUnlimitedApproval } from '../../approval/approval-adapters';
+import { RiskRule, RiskRuleContext } from './risk-rule';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Turns a policy file rule into a plugin that raises matching approvals to at
+ * least the rule's level. Its breakdown category is `rule:<id>`.
+ */
+export function createPolicyRule(rule: PolicyRule): RiskRule {
+  const id = `rule:${rule.id}`;
+
+  return {
+    id,
+    category: id,
+    async evaluate(approval, context) {
+      if (!matchesPolicyRule(rule, approval, context)) return null;
+
+      const floor = levelFloor(rule.level, context.model.thresholds);
+      return {
+        category: id,
+        score: Math.max(0, floor - context.score),
+        description: rule.description ?? `Policy rule "${rule.id}" (at least ${rule.level})`,
+        weight: 1,
+      };
+    },
+  };
+}
+
+function matchesPolicyRule(rule: PolicyRule, approval: Approval, context: RiskRuleContext): boolean {
+  const { when } = rule;
+
+  if (when.unlimited !== undefined && when.unlimited !== isUnlimitedApproval(approval)) return false;
+  if (when.trustedSpender !== undefined && when.trustedSpender !== context.trustedSpender) return false;
+  if (when.dormantDays !== undefined) {
+    if (!approval.lastUsed) return false;
+    if ((context.now.getTime() - approval.lastUsed.getTime()) / DAY_MS < when.dormantDays) return false;
+  }
+  if (when.minUsdValue !== undefined && (approval.usdValue ?? 0) < when.minUsdValue) return false;
+  if (when.tokens && !when.tokens.includes(approval.tokenAddress.toLowerCase())) return false;
+  if (when.spenders && !when.spenders.includes(approval.spenderAddress.toLowerCase())) return false;
+
+  return true;
+}
@@ -0,0 +1,25 @@
+import type { Approval } from '../../types';
+import type { RiskBreakdown } from '../risk-types';
+import type { RiskModel } from '../risk-model';
+
+export interface RiskRuleContext {
+  model: RiskModel;
+  /** Score from the rules that ran before this one, clamped to 0-100 */
+  score: number;
+  /** Whether the spender is on the model's trusted list */
+  trustedSpender: boolean;
+  now: Date;
+}
+
+/**
+ * A single risk check. `RiskCalculator` runs its rules in order and adds the
+ * score of every entry they return; returning `null` means the rule does not
+ * apply to the approval.
+ */
+export interface RiskRule {
+  /** Unique across the rules of a calculator; stamped on results */
+  id: string;
+  /** Category of the breakdown entries this rule produces */
+  category: string;
+  evaluate(approval: Approval, context: RiskRuleContext): Promise<RiskBreakdown | null>;
+}
@@ -0,0 +1,65 @@
+import * as path from 'path';
+import { ValidationError } from '../../errors/validation-error';
+import { RiskRule } from './risk-rule';
+
+/**
+ * Loads third-party rules from a CommonJS module. The module may export a
+ * rule or a list of rules as `rules` or as its default export.
+ */
+export async function loadRiskRules(modulePath: string): Promise<RiskRule[]> {
+  const resolved = path.resolve(modulePath);
+
+  let loaded: Record<string, unknown>;
+  try {
+    loaded = await import(resolved);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Cannot load risk rules from ${modulePath}: ${message}`, [
+      { field: 'rules', message: 'Must be a path to a loadable module', value: modulePath },
+    ]);
+  }
+
+  const exported = loaded.rules ?? loaded.default;
+  if (exported === undefined) {
+    throw new ValidationError(`No risk rules exported by ${modulePath}`, [
+      { field: 'rules', message: 'Module must export `rules` or a default export', value: modulePath },
+    ]);
+  }
+
+  const rules: unknown[] = Array.isArray(exported) ? exported : [exported];
+  const issues = rules.flatMap((rule, index) =>
+    isRiskRule(rule)
+      ? []
+      : [{ field: `rules[${index}]`, message: 'Must have a string id and category and an evaluate function' }]
+  );
+  if (issues.length > 0) {
+    throw new ValidationError(`Invalid risk rules in ${modulePath}`, issues);
+  }
+
+  return rules as RiskRule[];
+}
+
+export function isRiskRule(value: unknown): value is RiskRule {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Partial<RiskRule>;
+  return (
+    typeof rule.id === 'string' && rule.id.length > 0 &&
+    typeof rule.category === 'string' &&
+    typeof rule.evaluate === 'function'
+  );
+}
+
+/**
+ * Throws when two rules share an id, since ids identify rules in results.
+ */
+export function assertUniqueRuleIds(rules: readonly RiskRule[]): void {
+  const seen = new Set<string>();
+  const duplicates = rules.filter((rule) => seen.size === seen.add(rule.id).size);
+
+  if (duplicates.length > 0) {
+    throw new ValidationError(
+      `Duplicate risk rule ids: ${duplicates.map((r) => r.id).join(', ')}`,
+      duplicates.map((rule) => ({ field: 'rules', message: `Rule id "${rule.id}" is used more than once`, value: rule.id }))
+    );
+  }
+}
@@ -1,225 +1,1055 @@
-import { createPublicClient, http, type Address, parseAbiItem } from 'viem';
-import { mainnet } from 'viem/chains';
-import { config } from './config.js';
-import { ApprovalData, ScanOptions, ScanResult } from './types.js';
+import {
+  createPublicClient,
+  parseAbi,
+  parseAbiItem,
+  zeroAddress,
+  type Address,
+  type Chain,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+import { getConfig } from './config.js';
+import { ChainRegistry } from './chains.js';
+import {
+  Approval,
+  ApprovalData,
+  ApprovalReport,
+  ExposureEntry,
+  ExposureOptions,
+  RevocationRecommendation,
+  RiskAssessment,
+  RiskLevel,
+  ScanMetadata,
+  ScanOptions,
+  ScanResult,
+  ScanSummary,
+  SpenderExposureResult,
+  TokenApprovalCensus,
+  TokenApprovalsOptions,
+  TokenSpenderAllowances,
+} from './types.js';
 import { ApprovalCache } from './cache/approval-cache.js';
-import { BatchProcessor } from './utils/batch-processor.js';
+import { CheckpointStore } from './cache/checkpoint-store.js';
+import { TokenMetadataStore } from './cache/token-metadata-store.js';
+import { ScanCheckpoint } from './cache/types.js';
 import { TokenMetadataService } from './services/token-metadata-service.js';
-import { RiskCalculator } from './risk/risk-calculator.js';
+import { TokenListIndex } from './services/token-list.js';
+import { SpenderLabelIndex } from './services/spender-labels.js';
+import { ApprovalFetcher } from './services/approval-fetcher.js';
+import { Permit2Service, isPermit2 } from './services/permit2-service.js';
+import { LogFetcher, LogFetcherOptions } from './services/log-fetcher.js';
+import { ContractCall, MulticallReader, MulticallReaderOptions } from './services/multicall-reader.js';
+import { RpcEndpointHealth, RpcPool, RpcPoolOptions } from './services/rpc-pool.js';
+import { RequestSchedulerStats } from './services/request-scheduler.js';
+import { RpcRecorder, recordingTransport } from './services/rpc-recording.js';
+import { ReportGenerator } from './services/report-generator.js';
+import { RiskCalculator, RiskCalculatorOptions } from './risk/risk-calculator.js';
+import { RiskAssessment as CalculatedRisk } from './risk/risk-types.js';
 import { HistoryTracker } from './history/history-tracker.js';
+import { WalletHistory } from './history/history-types.js';
+import { ApprovalGuardError } from './errors/approval-guard-error.js';
 import { NetworkError } from './errors/network-error.js';
 import { ValidationError } from './errors/validation-error.js';
 import { isValidAddress, normalizeAddress } from './utils/address.js';
-import { ERC20_APPROVAL_TOPIC, MAX_UINT256, DEFAULT_BATCH_SIZE, DEFAULT_BLOCK_RANGE } from './constants.js';
+import { createBatches, processParallelBatch } from './utils/batch-processor.js';
+import { groupApprovalsBySpender } from './utils/approval-filters.js';
+import {
+  approvalKey,
+  buildRevocationCall,
+  decodeApprovalLog,
+  isLaterLog,
+  isNftApproval,
+  isOperatorApproval,
+  isPermit2Approval,
+  toApprovalData,
+} from './approval/index.js';
+import {
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_BLOCK_RANGE,
+  DEFAULT_REORG_DEPTH,
+  FLAGGED_SPENDER_ALLOWANCES,
+} from './constants.js';
 
+// ERC-721 emits the same event with the token id indexed; logs are decoded by shape
 const approvalEvent = parseAbiItem(
   'event Approval(address indexed owner, address indexed spender, uint256 value)'
 );
 
+// Shared by ERC-721 and ERC-1155
+const approvalForAllEvent = parseAbiItem(
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)'
+);
+
+const NFT_ABI = parseAbi([
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+  'function getApproved(uint256 tokenId) view returns (address)',
+]);
+
+const ERC20_BALANCE_ABI = parseAbi(['function balanceOf(address owner) view returns (uint256)']);
+
+// Owners per log query of an exposure scan; each is one OR'd value of the owner topic
+const OWNERS_PER_QUERY = 100;
+
+// Owner groups whose logs are read at once; each reads `Approval` and `ApprovalForAll`
+const OWNER_GROUP_CONCURRENCY = 4;
+
 export interface ScannerOptions {
   rpcUrl?: string;
+  /** Several endpoints, in priority order; wins over `rpcUrl` */
+  rpcUrls?: string[];
+  /** How requests are spread over the endpoints; see `RpcPool` */
+  rpc?: RpcPoolOptions;
+  /** Transport in place of the RPC pool, such as a `replayTransport` */
+  transport?: Transport;
+  /** Keeps every JSON-RPC exchange of the scanner, e.g. to replay it later */
+  recorder?: RpcRecorder;
+  /** Chain name or ID (default: the client's chain, else $CHAIN_ID or mainnet) */
+  chain?: string | number;
+  /** Chains `chain` is resolved from, e.g. extended by a chain config */
+  chains?: ChainRegistry;
+  client?: PublicClient;
   cacheEnabled?: boolean;
+  /** Cache to use instead of a fresh in-memory one */
+  cache?: ApprovalCache;
   historyEnabled?: boolean;
+  /** Reads in flight at once when view calls go one by one */
   batchSize?: number;
   blockRange?: bigint;
+  /** How `eth_getLogs` queries are split; see `LogFetcher` */
+  logs?: LogFetcherOptions;
+  /** How view calls are batched through Multicall3; see `MulticallReader` */
+  multicall?: MulticallReaderOptions;
+  /** Persists each wallet's approval state so later scans only read new logs */
+  checkpoints?: CheckpointStore;
+  /** Blocks behind the head an incremental scan reads again (default: 64) */
+  reorgDepth?: bigint;
+  /** Keeps token metadata between scans (default: in memory only) */
+  tokenMetadata?: TokenMetadataStore;
+  /** Token lists whose members count as verified tokens */
+  tokenLists?: TokenListIndex;
+  /** Spender names for `tokenApprovals` (default: the built-in well-known spenders) */
+  spenderLabels?: SpenderLabelIndex;
+  risk?: RiskCalculatorOptions;
 }
 
+interface ScoredApproval {
+  approval: Approval;
+  risk: CalculatedRisk;
+}
+
+/**
+ * Runs the scan pipeline for a single wallet on a single chain:
+ * fetch → reconcile → enrich → score → recommend → report.
+ *
+ * The CLI and the library entry point both go through this class, so
+ * the JSON written by `approval-guard scan` is the same data returned
+ * by `scanApprovals()`.
+ */
 export class ApprovalScanner {
-  private client;
+  private client: PublicClient;
+  private chain: Chain;
+  private rpcUrl: string;
+  private rpcPool: RpcPool | null;
   private cache: ApprovalCache | null;
   private metadataService: TokenMetadataService;
+  private approvalFetcher: ApprovalFetcher;
+  private permit2Service: Permit2Service;
+  private logFetcher: LogFetcher;
+  private reader: MulticallReader;
   private riskCalculator: RiskCalculator;
+  private spenderLabels: SpenderLabelIndex;
+  private reportGenerator: ReportGenerator;
   private historyTracker: HistoryTracker | null;
-  private batchProcessor: BatchProcessor<Address, ApprovalData[]>;
-  private batchSize: number;
+  private checkpoints: CheckpointStore | null;
+  private reorgDepth: bigint;
   private blockRange: bigint;
 
   constructor(options: ScannerOptions = {}) {
-    const rpcUrl = options.rpcUrl || config.rpcUrl;
-    
-    this.client = createPublicClient({
-      chain: mainnet,
-      transport: http(rpcUrl),
+    const appConfig = getConfig({
+      rpcUrl: options.rpcUrl,
+      rpcUrls: options.rpcUrls,
+      chain: options.chain ?? options.client?.chain?.id,
+      chains: options.chains,
     });
 
-    this.cache = options.cacheEnabled !== false ? new ApprovalCache() : null;
-    this.metadataService = new TokenMetadataService(this.client);
-    this.riskCalculator = new RiskCalculator();
-    this.historyTracker = options.historyEnabled !== false ? new HistoryTracker() : null;
-    this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    this.chain = appConfig.chain;
+    this.rpcUrl = appConfig.rpcUrl;
+    this.rpcPool = null;
+    if (options.client) {
+      this.client = options.client;
+    } else {
+      let transport = options.transport;
+      if (!transport) {
+        this.rpcPool = new RpcPool(appConfig.rpcUrls, options.rpc);
+        transport = this.rpcPool.transport();
+      }
+      this.client = createPublicClient({
+        chain: appConfig.chain,
+        transport: options.recorder ? recordingTransport(transport, options.recorder) : transport,
+      });
+    }
+
+    this.cache = options.cacheEnabled !== false ? options.cache ?? new ApprovalCache() : null;
+    this.logFetcher = new LogFetcher({
+      ...options.logs,
+      maxBlockRange: options.logs?.maxBlockRange ?? appConfig.maxBlockRange,
+    });
+    this.reader = new MulticallReader(this.client, {
+      fallbackConcurrency: options.batchSize || DEFAULT_BATCH_SIZE,
+      ...options.multicall,
+    });
+    this.metadataService = new TokenMetadataService(this.client, {
+      chainId: appConfig.chainId,
+      store: options.tokenMetadata,
+      tokenLists: options.tokenLists,
+      reader: this.reader,
+    });
+    this.approvalFetcher = new ApprovalFetcher(this.client, {}, this.logFetcher, this.reader);
+    this.permit2Service = new Permit2Service(this.client, this.logFetcher, this.reader);
+    this.riskCalculator = new RiskCalculator(options.risk);
+    this.spenderLabels = options.spenderLabels ?? new SpenderLabelIndex();
+    this.reportGenerator = new ReportGenerator(this.riskCalculator.modelInfo);
+    this.historyTracker = options.historyEnabled !== false ? new HistoryTracker(this.client, this.logFetcher) : null;
+    this.checkpoints = options.checkpoints ?? null;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
     this.blockRange = options.blockRange || DEFAULT_BLOCK_RANGE;
+  }
 
-    this.batchProcessor = new BatchProcessor<Address, ApprovalData[]>(
-      async (tokens) => this.processTokenBatch(tokens),
-      { batchSize: this.batchSize }
-    );
+  get chainId(): number {
+    return this.chain.id;
   }
 
   async scan(walletAddress: string, options: ScanOptions = {}): Promise<ScanResult> {
-    if (!isValidAddress(walletAddress)) {
-      throw new ValidationError(`Invalid wallet address: ${walletAddress}`);
+    if (!walletAddress || !isValidAddress(walletAddress)) {
+      throw ValidationError.invalidAddress(walletAddress, 'walletAddress');
     }
 
     const normalizedAddress = normalizeAddress(walletAddress);
     const startTime = Date.now();
 
-    // Check cache first
-    if (this.cache && !options.forceRefresh) {
-      const cached = this.cache.get(normalizedAddress);
-      if (cached) {
-        return this.buildScanResult(normalizedAddress, cached, startTime, true);
+    // Entries are keyed by wallet and chain only, so only default scans use the cache
+    const cache = options.fromBlock === undefined && options.toBlock === undefined && !options.includeZeroAllowances
+      ? this.cache
+      : null;
+    const cached = cache && !options.forceRefresh
+      ? await cache.get(normalizedAddress, this.chain.id)
+      : null;
+
+    let approvals: Approval[];
+    let blockNumber: bigint;
+    let checkpointBlock: bigint | undefined;
+
+    if (cached) {
+      approvals = cached.approvals;
+      blockNumber = cached.blockNumber;
+    } else {
+      try {
+        blockNumber = options.toBlock ?? await this.client.getBlockNumber();
+        const checkpoint = await this.loadCheckpoint(normalizedAddress, blockNumber, options);
+        checkpointBlock = checkpoint?.blockNumber;
+
+        const historyStart = checkpoint?.fromBlock
+          ?? options.fromBlock
+          ?? (blockNumber > this.blockRange ? blockNumber - this.blockRange : 0n);
+        const fromBlock = checkpoint ? checkpoint.blockNumber + 1n : historyStart;
+
+        // With checkpoints every Permit2 pair is kept, in case its token is approved to Permit2 again later
+        const [allowances, operators, newPermit2Pairs] = await Promise.all([
+          this.fetchApprovals(normalizedAddress, fromBlock, blockNumber),
+          this.fetchOperatorApprovals(normalizedAddress, fromBlock, blockNumber),
+          this.checkpoints
+            ? this.permit2Service.fetchPairs(normalizedAddress, { fromBlock, toBlock: blockNumber, chainId: this.chain.id })
+            : Promise.resolve([]),
+        ]);
+        const logged = [...allowances, ...operators, ...newPermit2Pairs];
+        const latest = this.latestApprovals([...(checkpoint?.approvals ?? []), ...logged]);
+
+        if (this.checkpoints && options.toBlock === undefined) {
+          await this.saveCheckpoint(normalizedAddress, historyStart, blockNumber, checkpoint, logged);
+        }
+
+        const live = await this.confirmApprovals(latest.filter((a) => !isPermit2Approval(a)), blockNumber);
+
+        // Zero allowances are spent or revoked approvals
+        const confirmed = options.includeZeroAllowances ? live : live.filter((a) => a.value > 0n);
+
+        // Tokens approved to Permit2 can carry sub-allowances no Approval log shows
+        const permit2Tokens = confirmed
+          .filter((a) => (a.kind ?? 'allowance') === 'allowance' && a.value > 0n && isPermit2(a.spenderAddress))
+          .map((a) => a.tokenAddress);
+        const permit2Pairs = this.checkpoints
+          ? latest.filter(isPermit2Approval)
+          : permit2Tokens.length > 0
+            ? await this.permit2Service.fetchPairs(normalizedAddress, { fromBlock, toBlock: blockNumber, chainId: this.chain.id })
+            : [];
+        const permit2 = await this.permit2Service.readAllowances(normalizedAddress, permit2Pairs, {
+          tokens: permit2Tokens,
+          toBlock: blockNumber,
+          includeZeroAllowances: options.includeZeroAllowances,
+        });
+
+        approvals = await this.enrichApprovals([...confirmed, ...permit2]);
+      } catch (error) {
+        if (error instanceof ApprovalGuardError) {
+          throw error;
+        }
+        if (error instanceof Error) {
+          throw new NetworkError(`Failed to scan approvals: ${error.message}`, { cause: error });
+        }
+        throw error;
       }
+
+      await cache?.set(normalizedAddress, this.chain.id, approvals, blockNumber);
     }
 
+    const scored = await this.scoreApprovals(approvals);
+    const recommendations = this.recommendRevocations(scored);
+
+    return this.buildScanResult(
+      normalizedAddress,
+      scored.map((s) => s.approval),
+      recommendations,
+      { startTime, fromCache: cached !== null, blockNumber, checkpointBlock }
+    );
+  }
+
+  /**
+   * Checks the live allowance a wallet has granted for one token. With a
+   * spender only that pair is checked (and reported even when it is zero);
+   * without one, every spender found in the token's Approval logs is checked.
+   * The result is scored like a full scan but never read from the cache.
+   */
+  async check(
+    walletAddress: string,
+    tokenAddress: string,
+    spenderAddress?: string,
+    options: ScanOptions = {}
+  ): Promise<ScanResult> {
+    if (!walletAddress || !isValidAddress(walletAddress)) {
+      throw ValidationError.invalidAddress(walletAddress, 'walletAddress');
+    }
+    if (!tokenAddress || !isValidAddress(tokenAddress)) {
+      throw ValidationError.invalidAddress(tokenAddress, 'tokenAddress');
+    }
+    if (spenderAddress !== undefined && !isValidAddress(spenderAddress)) {
+      throw ValidationError.invalidAddress(spenderAddress, 'spenderAddress');
+    }
+
+    const owner = normalizeAddress(walletAddress);
+    const token = normalizeAddress(tokenAddress);
+    const spender = spenderAddress !== undefined ? normalizeAddress(spenderAddress) : undefined;
+    const startTime = Date.now();
+
+    let approvals: Approval[];
+    let blockNumber: bigint;
+
     try {
-      const approvals = await this.fetchApprovals(normalizedAddress, options);
-      const enrichedApprovals = await this.enrichApprovals(approvals);
+      blockNumber = options.toBlock ?? await this.client.getBlockNumber();
+      const fromBlock = options.fromBlock ?? (blockNumber > this.blockRange ? blockNumber - this.blockRange : 0n);
+
+      const logged = await this.fetchApprovals(owner, fromBlock, blockNumber, { token, spender });
+      const lastApproved = this.latestApprovals(logged);
 
-      // Update cache
-      if (this.cache) {
-        this.cache.set(normalizedAddress, enrichedApprovals);
+      // An explicit pair is checked even when its approval predates the block range
+      if (spender && lastApproved.length === 0) {
+        lastApproved.push({
+          tokenAddress: token,
+          spenderAddress: spender,
+          ownerAddress: owner,
+          chainId: this.chain.id,
+          value: 0n,
+        });
       }
 
-      // Track in history
-      if (this.historyTracker) {
-        for (const approval of enrichedApprovals) {
-          this.historyTracker.recordApproval(approval);
-        }
+      // ERC-721 token approvals on the same contract are confirmed as in a scan
+      const [allowances, nfts] = await Promise.all([
+        Promise.all(
+          lastApproved.filter((a) => !isNftApproval(a)).map(async (approval) => {
+            const value = await this.approvalFetcher.getCurrentAllowance(
+              token,
+              owner,
+              approval.spenderAddress,
+              blockNumber
+            );
+            const approvedValue = approval.blockNumber !== undefined ? approval.value : undefined;
+            return { ...approval, approvedValue, value };
+          })
+        ),
+        this.confirmNftApprovals(lastApproved.filter(isNftApproval), blockNumber),
+      ]);
+      const live = [...allowances, ...nfts];
+
+      approvals = await this.enrichApprovals(
+        spender || options.includeZeroAllowances ? live : live.filter((a) => a.value > 0n)
+      );
+    } catch (error) {
+      if (error instanceof ApprovalGuardError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new NetworkError(`Failed to check approval: ${error.message}`, { cause: error });
+      }
+      throw error;
+    }
+
+    const scored = await this.scoreApprovals(approvals);
+    const recommendations = this.recommendRevocations(scored);
+
+    return this.buildScanResult(
+      owner,
+      scored.map((s) => s.approval),
+      recommendations,
+      { startTime, fromCache: false, blockNumber }
+    );
+  }
+
+  /**
+   * Reverse scan: every owner with a live approval to `spenderAddress`,
+   * found through the spender topic of `Approval` and `ApprovalForAll`
+   * logs, optionally only among `options.owners`. Allowances are read live
+   * like in a scan, and each ERC-20 row gets the owner's balance and the
+   * amount at risk, the smaller of the two. Rows are sorted by that amount
+   * in whole tokens; amounts are not priced, so tokens are not weighed
+   * against each other. Results never come from the cache.
+   */
+  async spenderExposure(spenderAddress: string, options: ExposureOptions = {}): Promise<SpenderExposureResult> {
+    if (!spenderAddress || !isValidAddress(spenderAddress)) {
+      throw ValidationError.invalidAddress(spenderAddress, 'spenderAddress');
+    }
+    const invalidOwner = options.owners?.find((owner) => !isValidAddress(owner));
+    if (invalidOwner !== undefined) {
+      throw ValidationError.invalidAddress(invalidOwner, 'owners');
+    }
+
+    const spender = normalizeAddress(spenderAddress);
+    const owners = options.owners ? [...new Set(options.owners.map(normalizeAddress))] : undefined;
+    const startTime = Date.now();
+
+    let exposures: ExposureEntry[];
+    let blockNumber: bigint;
+    let fromBlock: bigint;
+
+    try {
+      blockNumber = options.toBlock ?? await this.client.getBlockNumber();
+      fromBlock = options.fromBlock ?? (blockNumber > this.blockRange ? blockNumber - this.blockRange : 0n);
+      const ownerGroups = owners ? createBatches(owners, OWNERS_PER_QUERY) : [undefined];
+
+      const logged = await processParallelBatch(
+        ownerGroups,
+        async (group) => (await Promise.all([
+          this.fetchApprovals(group, fromBlock, blockNumber, { spender }),
+          this.fetchOperatorApprovals(group, fromBlock, blockNumber, spender),
+        ])).flat(),
+        { batchSize: OWNER_GROUP_CONCURRENCY, delayMs: 0 }
+      );
+      if (logged.errors.length > 0) {
+        throw logged.errors[0].error;
       }
 
-      return this.buildScanResult(normalizedAddress, enrichedApprovals, startTime, false);
+      const latest = this.latestApprovalsByOwner(logged.results.flat());
+      const live = (await this.confirmApprovals(latest, blockNumber)).filter((a) => a.value > 0n);
+      const approvals = await this.enrichApprovals(live);
+
+      const erc20 = approvals.filter((a) => !isNftApproval(a));
+      const reads = await this.reader.read<bigint>(
+        erc20.map((approval): ContractCall => ({
+          address: approval.tokenAddress,
+          abi: ERC20_BALANCE_ABI,
+          functionName: 'balanceOf',
+          args: [approval.ownerAddress],
+        })),
+        blockNumber
+      );
+      const balances = new Map(erc20.flatMap((approval, i) => {
+        const read = reads[i];
+        return read.status === 'success' ? [[approval, read.result] as const] : [];
+      }));
+
+      exposures = approvals
+        .map((approval): ExposureEntry => {
+          const balance = balances.get(approval);
+          return {
+            ownerAddress: approval.ownerAddress ?? '',
+            approval: toApprovalData(approval),
+            balance,
+            amountAtRisk: balance !== undefined ? (balance < approval.value ? balance : approval.value) : undefined,
+          };
+        })
+        .sort(compareExposure);
     } catch (error) {
+      if (error instanceof ApprovalGuardError) {
+        throw error;
+      }
       if (error instanceof Error) {
-        throw new NetworkError(`Failed to scan approvals: ${error.message}`);
+        throw new NetworkError(`Failed to scan spender exposure: ${error.message}`, { cause: error });
       }
       throw error;
     }
+
+    return {
+      spenderAddress: spender,
+      exposures,
+      summary: {
+        owners: new Set(exposures.map((e) => e.ownerAddress)).size,
+        tokens: new Set(exposures.map((e) => e.approval.tokenAddress)).size,
+        approvals: exposures.length,
+        unlimitedApprovals: exposures.filter((e) => e.approval.isUnlimited).length,
+      },
+      scanMetadata: {
+        scanTime: new Date().toISOString(),
+        durationMs: Date.now() - startTime,
+        chainId: this.chain.id,
+        rpcUrl: this.rpcUrl,
+        fromBlock: fromBlock.toString(),
+        blockNumber: blockNumber.toString(),
+        rpcDisagreements: this.takeRpcDisagreements(),
+      },
+    };
   }
 
+  /**
+   * Token-centric census: every live allowance granted on `tokenAddress`,
+   * found through the `Approval` logs the token emitted and read live like
+   * in a scan, grouped by spender. Spenders are named from the labels and
+   * the risk policy; one that is neither named by a verified label nor
+   * trusted is flagged once it holds `minAllowances` allowances, and one the
+   * policy blocks is always flagged. Results never come from the cache.
+   */
+  async tokenApprovals(tokenAddress: string, options: TokenApprovalsOptions = {}): Promise<TokenApprovalCensus> {
+    if (!tokenAddress || !isValidAddress(tokenAddress)) {
+      throw ValidationError.invalidAddress(tokenAddress, 'tokenAddress');
+    }
+    const minAllowances = options.minAllowances ?? FLAGGED_SPENDER_ALLOWANCES;
+    if (!Number.isInteger(minAllowances) || minAllowances < 1) {
+      throw new ValidationError('minAllowances must be a positive integer', [
+        { field: 'minAllowances', message: 'Must be a positive integer', value: minAllowances },
+      ]);
+    }
+
+    const token = normalizeAddress(tokenAddress);
+    const startTime = Date.now();
+
+    let approvals: Approval[];
+    let blockNumber: bigint;
+    let fromBlock: bigint;
+
+    try {
+      blockNumber = options.toBlock ?? await this.client.getBlockNumber();
+      fromBlock = options.fromBlock ?? (blockNumber > this.blockRange ? blockNumber - this.blockRange : 0n);
+
+      const logged = await this.fetchApprovals(undefined, fromBlock, blockNumber, { token });
+      const latest = this.latestApprovalsByOwner(logged);
+      const live = (await this.confirmApprovals(latest, blockNumber)).filter((a) => a.value > 0n);
+      approvals = await this.enrichApprovals(live);
+    } catch (error) {
+      if (error instanceof ApprovalGuardError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new NetworkError(`Failed to scan token approvals: ${error.message}`, { cause: error });
+      }
+      throw error;
+    }
+
+    const { trustedSpenders, blockedSpenders } = this.riskCalculator.model;
+    const spenders = Array.from(groupApprovalsBySpender(approvals), ([spender, granted]): TokenSpenderAllowances => {
+      const label = this.spenderLabels.get(this.chain.id, spender);
+      const trusted = trustedSpenders.includes(spender);
+      const blocked = blockedSpenders.includes(spender);
+      const spenderVerified = !blocked && (trusted || label?.verified === true);
+      const rows = granted
+        .sort((a, b) => (a.value === b.value ? 0 : a.value > b.value ? -1 : 1))
+        .map(toApprovalData);
+
+      return {
+        spenderAddress: spender,
+        spenderName: label?.name,
+        labelSource: label?.source ?? (trusted || blocked ? 'policy' : undefined),
+        spenderVerified,
+        blocked,
+        flagged: blocked || (!spenderVerified && rows.length >= minAllowances),
+        owners: new Set(rows.map((row) => row.ownerAddress)).size,
+        unlimitedApprovals: rows.filter((row) => row.isUnlimited).length,
+        approvals: rows,
+      };
+    }).sort((a, b) => b.approvals.length - a.approvals.length || a.spenderAddress.localeCompare(b.spenderAddress));
+
+    return {
+      tokenAddress: token,
+      tokenName: approvals[0]?.tokenName,
+      tokenSymbol: approvals[0]?.tokenSymbol,
+      tokenDecimals: approvals[0]?.tokenDecimals,
+      spenders,
+      summary: {
+        owners: new Set(approvals.map((a) => a.ownerAddress)).size,
+        spenders: spenders.length,
+        approvals: approvals.length,
+        unlimitedApprovals: spenders.reduce((sum, s) => sum + s.unlimitedApprovals, 0),
+        flaggedSpenders: spenders.filter((s) => s.flagged).length,
+        minAllowances,
+      },
+      scanMetadata: {
+        scanTime: new Date().toISOString(),
+        durationMs: Date.now() - startTime,
+        chainId: this.chain.id,
+        rpcUrl: this.rpcUrl,
+        fromBlock: fromBlock.toString(),
+        blockNumber: blockNumber.toString(),
+        rpcDisagreements: this.takeRpcDisagreements(),
+      },
+    };
+  }
+
+  /**
+   * Final pipeline stage: turns a scan result into the report structure
+   * rendered by `ReportGenerator.formatReport`.
+   */
+  buildReport(result: Pick<ScanResult, 'walletAddress' | 'approvals' | 'recommendations'>): ApprovalReport {
+    const assessments: RiskAssessment[] = result.approvals.map((approval) => ({
+      tokenAddress: approval.tokenAddress,
+      spenderAddress: approval.spenderAddress,
+      riskScore: approval.riskScore ?? 0,
+      riskLevel: approval.riskLevel ?? RiskLevel.MINIMAL,
+      factors: approval.riskFactors ?? [],
+    }));
+
+    return this.reportGenerator.generateReport(
+      result.walletAddress,
+      result.approvals,
+      assessments,
+      result.recommendations
+    );
+  }
+
+  /**
+   * `Approval` logs of `owner`, one or several owners, or any owner when
+   * unset.
+   */
   private async fetchApprovals(
+    owner: Address | Address[] | undefined,
+    fromBlock: bigint,
+    toBlock: bigint,
+    filter: { token?: Address; spender?: Address } = {}
+  ): Promise<Approval[]> {
+    const logs = await this.logFetcher.fetch(fromBlock, toBlock, (start, end) =>
+      this.client.getLogs({
+        address: filter.token,
+        event: approvalEvent,
+        args: {
+          owner,
+          spender: filter.spender,
+        },
+        fromBlock: start,
+        toBlock: end,
+      })
+    );
+
+    return logs.flatMap((log): Approval[] => {
+      const decoded = decodeApprovalLog(log);
+      if (!decoded) return [];
+
+      const base = {
+        tokenAddress: normalizeAddress(log.address),
+        spenderAddress: normalizeAddress(decoded.spender),
+        ownerAddress: normalizeAddress(decoded.owner),
+        chainId: this.chain.id,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+      };
+
+      // Approving the zero address clears an ERC-721 token approval
+      return decoded.standard === 'erc721'
+        ? [{
+          ...base,
+          kind: 'token',
+          tokenStandard: 'erc721',
+          tokenId: decoded.tokenId,
+          value: decoded.spender === zeroAddress ? 0n : 1n,
+        }]
+        : [{ ...base, value: decoded.value }];
+    });
+  }
+
+  /**
+   * `ApprovalForAll` logs for every collection the owners approved an
+   * operator on, or `operator` only. Approved operators get value 1n,
+   * revoked ones 0n.
+   */
+  private async fetchOperatorApprovals(
+    owner: Address | Address[] | undefined,
+    fromBlock: bigint,
+    toBlock: bigint,
+    operator?: Address
+  ): Promise<Approval[]> {
+    const logs = await this.logFetcher.fetch(fromBlock, toBlock, (start, end) =>
+      this.client.getLogs({
+        event: approvalForAllEvent,
+        args: { owner, operator },
+        fromBlock: start,
+        toBlock: end,
+      })
+    );
+
+    return logs.map((log) => {
+      const args = log.args as { owner: Address; operator: Address; approved: boolean };
+
+      return {
+        kind: 'operator' as const,
+        tokenAddress: normalizeAddress(log.address),
+        spenderAddress: normalizeAddress(args.operator),
+        ownerAddress: normalizeAddress(args.owner),
+        chainId: this.chain.id,
+        value: args.approved ? 1n : 0n,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+      };
+    });
+  }
+
+  /**
+   * Replaces the logged state of every approval with the live state at
+   * `blockNumber`; the logged amount of an allowance stays as `approvedValue`.
+   */
+  private async confirmApprovals(approvals: Approval[], blockNumber: bigint): Promise<Approval[]> {
+    const [allowances, nfts] = await Promise.all([
+      this.approvalFetcher.reconcileAllowances(approvals.filter((a) => !isNftApproval(a)), blockNumber),
+      this.confirmNftApprovals(approvals.filter(isNftApproval), blockNumber),
+    ]);
+
+    return [...allowances, ...nfts];
+  }
+
+  /**
+   * Checks each NFT approval the logs leave open against the contract at the
+   * scanned block: `isApprovedForAll` for operators, `getApproved(tokenId)`
+   * for single tokens (transfers clear those without a log). A contract that
+   * cannot answer keeps the state from its logs.
+   */
+  private async confirmNftApprovals(approvals: Approval[], blockNumber: bigint): Promise<Approval[]> {
+    const open = approvals.filter((a) => isNftApproval(a) && a.value !== 0n && a.ownerAddress);
+    const reads = await this.reader.read(
+      open.map((approval): ContractCall => isOperatorApproval(approval)
+        ? {
+          address: approval.tokenAddress,
+          abi: NFT_ABI,
+          functionName: 'isApprovedForAll',
+          args: [approval.ownerAddress, approval.spenderAddress],
+        }
+        : {
+          address: approval.tokenAddress,
+          abi: NFT_ABI,
+          functionName: 'getApproved',
+          args: [approval.tokenId ?? 0n],
+        }
+      ),
+      blockNumber
+    );
+    const live = new Map(open.map((approval, i) => {
+      const read = reads[i];
+      if (read.status === 'failure') return [approval, true];
+      return [approval, isOperatorApproval(approval)
+        ? read.result === true
+        : (read.result as Address).toLowerCase() === approval.spenderAddress.toLowerCase()];
+    }));
+
+    return approvals.map((approval) => live.get(approval) === false ? { ...approval, value: 0n } : approval);
+  }
+
+  /**
+   * The wallet's checkpoint, when the scan can continue from it: same
+   * history start, behind the head, and its block still on the canonical
+   * chain. Historical (`toBlock`) and forced scans always start over.
+   */
+  private async loadCheckpoint(
     walletAddress: Address,
+    head: bigint,
     options: ScanOptions
-  ): Promise<ApprovalData[]> {
-    const currentBlock = await this.client.getBlockNumber();
-    const fromBlock = options.fromBlock || currentBlock - this.blockRange;
-
-    const logs = await this.client.getLogs({
-      event: approvalEvent,
-      args: {
-        owner: walletAddress,
-      },
+  ): Promise<ScanCheckpoint | null> {
+    if (!this.checkpoints || options.forceRefresh || options.toBlock !== undefined) {
+      return null;
+    }
+
+    const checkpoint = await this.checkpoints.get(walletAddress, this.chain.id);
+    if (
+      !checkpoint ||
+      checkpoint.blockNumber >= head ||
+      (options.fromBlock !== undefined && options.fromBlock !== checkpoint.fromBlock)
+    ) {
+      return null;
+    }
+
+    // A reorg deeper than the rewind replaced the checkpoint block
+    const block = await this.client.getBlock({ blockNumber: checkpoint.blockNumber });
+    return block.hash === checkpoint.blockHash ? checkpoint : null;
+  }
+
+  /**
+   * Folds the logs up to `reorgDepth` blocks behind the head into the
+   * checkpoint; the rest are read again next time. Approvals whose latest
+   * log set them to zero are dropped, since only a new log can reopen them.
+   */
+  private async saveCheckpoint(
+    walletAddress: Address,
+    fromBlock: bigint,
+    head: bigint,
+    previous: ScanCheckpoint | null,
+    logged: Approval[]
+  ): Promise<void> {
+    const safeBlock = head - this.reorgDepth;
+    if (safeBlock < fromBlock || (previous && safeBlock <= previous.blockNumber)) {
+      return;
+    }
+
+    const settled = logged.filter((approval) => (approval.blockNumber ?? 0n) <= safeBlock);
+    const block = await this.client.getBlock({ blockNumber: safeBlock });
+    if (!block.hash) {
+      return;
+    }
+
+    await this.checkpoints?.set({
+      walletAddress,
+      chainId: this.chain.id,
       fromBlock,
-      toBlock: currentBlock,
+      blockNumber: safeBlock,
+      blockHash: block.hash,
+      approvals: this.latestApprovals([...(previous?.approvals ?? []), ...settled])
+        .filter((approval) => approval.value > 0n),
     });
+  }
 
-    const approvalMap = new Map<string, ApprovalData>();
+  private latestApprovals(logged: Approval[]): Approval[] {
+    const latest = new Map<string, Approval>();
 
-    for (const log of logs) {
-      const { spender, value } = log.args as { spender: Address; value: bigint };
-      const tokenAddress = log.address;
-      const key = `${tokenAddress}-${spender}`;
+    for (const approval of logged) {
+      const key = approvalKey(approval);
 
       // Keep only the latest approval for each token-spender pair
-      const existing = approvalMap.get(key);
-      if (!existing || log.blockNumber > existing.blockNumber) {
-        approvalMap.set(key, {
-          tokenAddress: normalizeAddress(tokenAddress),
-          spenderAddress: normalizeAddress(spender),
-          ownerAddress: walletAddress,
-          allowance: value.toString(),
-          isUnlimited: value === MAX_UINT256,
-          blockNumber: Number(log.blockNumber),
-          transactionHash: log.transactionHash,
-          riskScore: 0,
-          riskFactors: [],
-        });
+      const existing = latest.get(key);
+      if (!existing || isLaterLog(approval, existing)) {
+        latest.set(key, approval);
       }
     }
 
-    // Filter out zero allowances (revoked approvals)
-    return Array.from(approvalMap.values()).filter(
-      (approval) => BigInt(approval.allowance) > 0n
-    );
+    return Array.from(latest.values());
   }
 
-  private async enrichApprovals(approvals: ApprovalData[]): Promise<ApprovalData[]> {
-    const tokenAddresses = [...new Set(approvals.map((a) => a.tokenAddress))];
-    
-    // Fetch metadata in batches
-    const metadataMap = new Map<string, { name: string; symbol: string; decimals: number }>();
-    
-    for (const tokenAddress of tokenAddresses) {
-      try {
-        const metadata = await this.metadataService.getTokenMetadata(tokenAddress as Address);
-        metadataMap.set(tokenAddress, metadata);
-      } catch {
-        // Use defaults if metadata fetch fails
-        metadataMap.set(tokenAddress, { name: 'Unknown', symbol: 'UNKNOWN', decimals: 18 });
-      }
+  /**
+   * `latestApprovals` of logs from many owners: approvals are only unique
+   * per owner, so the latest of each is taken owner by owner.
+   */
+  private latestApprovalsByOwner(logged: Approval[]): Approval[] {
+    const byOwner = new Map<string, Approval[]>();
+    for (const approval of logged) {
+      const owner = approval.ownerAddress ?? '';
+      byOwner.set(owner, [...(byOwner.get(owner) ?? []), approval]);
     }
 
+    return Array.from(byOwner.values(), (approvals) => this.latestApprovals(approvals)).flat();
+  }
+
+  private async enrichApprovals(approvals: Approval[]): Promise<Approval[]> {
+    const nfts = approvals.filter(isNftApproval);
+    const allowances = approvals.filter((a) => !isNftApproval(a));
+
+    const [enrichedAllowances, enrichedNfts] = await Promise.all([
+      this.enrichAllowances(allowances),
+      this.enrichCollections(nfts),
+    ]);
+
+    return [...enrichedAllowances, ...enrichedNfts];
+  }
+
+  private async enrichAllowances(approvals: Approval[]): Promise<Approval[]> {
+    if (approvals.length === 0) return [];
+
+    const tokenAddresses = [...new Set(approvals.map((a) => a.tokenAddress))] as Address[];
+
+    const resolved = await this.metadataService.getMultipleTokenMetadata(tokenAddresses);
+    const metadataMap = new Map(Array.from(resolved.values(), (m) => [m.address.toLowerCase(), m]));
+
     return approvals.map((approval) => {
+      // Tokens whose metadata could not be read keep their raw address only
       const metadata = metadataMap.get(approval.tokenAddress);
-      const riskResult = this.riskCalculator.calculate(approval);
 
       return {
         ...approval,
-        tokenName: metadata?.name,
-        tokenSymbol: metadata?.symbol,
+        tokenName: metadata?.name ?? 'Unknown',
+        tokenSymbol: metadata?.symbol ?? 'UNKNOWN',
+        // Unknown decimals stay unset so amounts are never scaled by a guess
         tokenDecimals: metadata?.decimals,
-        riskScore: riskResult.score,
-        riskFactors: riskResult.factors,
       };
     });
   }
 
-  private async processTokenBatch(tokens: Address[]): Promise<ApprovalData[][]> {
-    // Placeholder for batch processing logic
-    return tokens.map(() => []);
+  private async enrichCollections(approvals: Approval[]): Promise<Approval[]> {
+    if (approvals.length === 0) return [];
+
+    const collections = [...new Set(approvals.map((a) => a.tokenAddress))] as Address[];
+
+    const resolved = await this.metadataService.getMultipleCollectionMetadata(collections);
+    const metadataMap = new Map(Array.from(resolved.values(), (m) => [m.address.toLowerCase(), m]));
+
+    return approvals.map((approval) => {
+      const metadata = metadataMap.get(approval.tokenAddress);
+
+      return {
+        ...approval,
+        tokenStandard: metadata?.standard ?? approval.tokenStandard,
+        tokenName: metadata?.name ?? 'Unknown Collection',
+        tokenSymbol: metadata?.symbol ?? 'UNKNOWN',
+      };
+    });
+  }
+
+  private async scoreApprovals(approvals: Approval[]): Promise<ScoredApproval[]> {
+    return Promise.all(approvals.map(async (approval) => {
+      const risk = await this.riskCalculator.calculateApprovalRisk(approval);
+
+      return {
+        risk,
+        approval: {
+          ...approval,
+          riskScore: Math.round(risk.score),
+          riskLevel: risk.level,
+          riskFactors: risk.breakdown.map((b) => b.category),
+        },
+      };
+    }));
+  }
+
+  private recommendRevocations(scored: ScoredApproval[]): RevocationRecommendation[] {
+    return scored
+      .map(({ approval, risk }) => {
+        const isSevere = risk.level === RiskLevel.CRITICAL || risk.level === RiskLevel.HIGH;
+        const shouldRevoke = isSevere || (risk.level === RiskLevel.MEDIUM && risk.breakdown.length >= 2);
+
+        return {
+          chainId: approval.chainId,
+          kind: approval.kind,
+          tokenAddress: approval.tokenAddress,
+          tokenId: approval.tokenId?.toString(),
+          tokenSymbol: approval.tokenSymbol,
+          spenderAddress: approval.spenderAddress,
+          spenderName: approval.spenderName,
+          shouldRevoke,
+          priority: isSevere ? 3 : risk.level === RiskLevel.MEDIUM ? 2 : 1,
+          reason: risk.recommendations.join('. '),
+          revocation: buildRevocationCall(approval),
+        };
+      })
+      .sort((a, b) => b.priority - a.priority);
   }
 
   private buildScanResult(
     walletAddress: Address,
-    approvals: ApprovalData[],
-    startTime: number,
-    fromCache: boolean
+    scored: Approval[],
+    recommendations: RevocationRecommendation[],
+    meta: { startTime: number; fromCache: boolean; blockNumber: bigint; checkpointBlock?: bigint }
   ): ScanResult {
-    const sortedApprovals = [...approvals].sort((a, b) => b.riskScore - a.riskScore);
-    const totalRiskScore = approvals.reduce((sum, a) => sum + a.riskScore, 0);
-    const averageRiskScore = approvals.length > 0 ? totalRiskScore / approvals.length : 0;
+    const approvals = scored.map(toApprovalData);
+    const sortedApprovals = [...approvals].sort((a, b) => (b.riskScore ?? 0) - (a.riskScore ?? 0));
 
     return {
       walletAddress,
       approvals: sortedApprovals,
-      summary: {
-        totalApprovals: approvals.length,
-        unlimitedApprovals: approvals.filter((a) => a.isUnlimited).length,
-        highRiskApprovals: approvals.filter((a) => a.riskScore >= 70).length,
-        mediumRiskApprovals: approvals.filter((a) => a.riskScore >= 40 && a.riskScore < 70).length,
-        lowRiskApprovals: approvals.filter((a) => a.riskScore < 40).length,
-        averageRiskScore: Math.round(averageRiskScore),
-      },
+      recommendations,
+      summary: summarizeApprovals(approvals),
       scanMetadata: {
         scanTime: new Date().toISOString(),
-        durationMs: Date.now() - startTime,
-        fromCache,
-        rpcUrl: config.rpcUrl,
+        durationMs: Date.now() - meta.startTime,
+        fromCache: meta.fromCache,
+        chainId: this.chain.id,
+        rpcUrl: this.rpcUrl,
+        blockNumber: meta.blockNumber.toString(),
+        checkpointBlock: meta.checkpointBlock?.toString(),
+        rpcDisagreements: this.takeRpcDisagreements(),
+        riskModel: this.riskCalculator.modelInfo,
       },
     };
   }
 
-  clearCache(): void {
-    this.cache?.clear();
+  private takeRpcDisagreements(): ScanMetadata['rpcDisagreements'] {
+    const disagreements = this.rpcPool?.takeDisagreements() ?? [];
+    if (disagreements.length === 0) {
+      return undefined;
+    }
+
+    return disagreements.map(({ method, blockNumber, endpoints }) => ({
+      method,
+      blockNumber: blockNumber.toString(),
+      endpoints,
+    }));
+  }
+
+  /**
+   * Request counts, failures and latency per RPC endpoint; empty when the
+   * scanner was given a client or transport.
+   */
+  rpcHealth(): RpcEndpointHealth[] {
+    return this.rpcPool?.health() ?? [];
   }
 
-  getHistory(walletAddress?: string): ReturnType<HistoryTracker['getHistory']> {
+  /**
+   * Requests, compute units, rate limiting and retries per RPC endpoint;
+   * null when the scanner was given a client or transport.
+   */
+  requestStats(): RequestSchedulerStats | null {
+    return this.rpcPool?.requestStats() ?? null;
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cache?.invalidateAll();
+  }
+
+  async getHistory(walletAddress: string): Promise<WalletHistory> {
     if (!this.historyTracker) {
-      return { entries: [], statistics: { totalApprovals: 0, totalRevocations: 0, uniqueTokens: 0, uniqueSpenders: 0 } };
+      return {
+        walletAddress: walletAddress as Address,
+        timelines: [],
+        totalApprovals: 0,
+        totalRevocations: 0,
+        oldestApproval: null,
+        newestApproval: null,
+      };
     }
-    return this.historyTracker.getHistory(walletAddress as Address | undefined);
+    return this.historyTracker.getApprovalHistory(walletAddress as Address);
   }
 }
 
+/**
+ * ERC-20 rows by amount at risk in whole tokens, then those of tokens
+ * without decimals by raw amount, then rows without an amount.
+ */
+function compareExposure(a: ExposureEntry, b: ExposureEntry): number {
+  const tier = (entry: ExposureEntry): number =>
+    entry.amountAtRisk === undefined ? 2 : entry.approval.tokenDecimals === undefined ? 1 : 0;
+  const amount = (entry: ExposureEntry): number =>
+    Number(entry.amountAtRisk ?? 0n) / 10 ** (entry.approval.tokenDecimals ?? 0);
+
+  return tier(a) - tier(b) || amount(b) - amount(a);
+}
+
+/**
+ * Counts and average score of scan rows, as in `ScanResult.summary`.
+ */
+export function summarizeApprovals(approvals: ApprovalData[]): ScanSummary {
+  const totalRiskScore = approvals.reduce((sum, a) => sum + (a.riskScore ?? 0), 0);
+  const averageRiskScore = approvals.length > 0 ? totalRiskScore / approvals.length : 0;
+  const countLevels = (...levels: RiskLevel[]): number =>
+    approvals.filter((a) => a.riskLevel !== undefined && levels.includes(a.riskLevel)).length;
+
+  return {
+    totalApprovals: approvals.length,
+    unlimitedApprovals: approvals.filter((a) => a.isUnlimited).length,
+    highRiskApprovals: countLevels('critical', 'high'),
+    mediumRiskApprovals: countLevels('medium'),
+    lowRiskApprovals: countLevels('low', 'minimal'),
+    averageRiskScore: Math.round(averageRiskScore),
+  };
+}
+
 // Factory function for creating scanner instances
 export function createScanner(options?: ScannerOptions): ApprovalScanner {
   return new ApprovalScanner(options);
@@ -1,9 +1,10 @@
-import { createPublicClient, http, type Address, parseAbiItem, type Log } from 'viem';
-import { mainnet } from 'viem/chains';
-import { config } from '../config';
+import { type Address, type Hash, type PublicClient, parseAbiItem, zeroAddress, type Log } from 'viem';
 import { NetworkError } from '../errors';
-import { BatchProcessor } from '../utils/batch-processor';
-import type { TokenApproval } from '../types';
+import { processParallelBatch } from '../utils/batch-processor';
+import { LogFetcher } from './log-fetcher';
+import { ContractCall, MulticallReader } from './multicall-reader';
+import { decodeApprovalLog, isNftApproval, isPermit2Approval, toTokenApproval } from '../approval';
+import type { Approval, TokenApproval } from '../types';
 
 const APPROVAL_EVENT = parseAbiItem(
   'event Approval(address indexed owner, address indexed spender, uint256 value)'
@@ -22,9 +23,23 @@ const ERC20_ABI = [
   },
 ] as const;
 
+const ERC721_ABI = [
+  {
+    name: 'getApproved',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const;
+
 export interface ApprovalEvent {
   tokenAddress: Address;
   spender: Address;
+  /** Set for ERC-721 single-token approvals */
+  tokenId?: bigint;
+  /** Amount the latest ERC-20 log approved */
+  value?: bigint;
   blockNumber: bigint;
   transactionHash: string;
 }
@@ -37,59 +52,63 @@ export interface ApprovalFetcherOptions {
 }
 
 export class ApprovalFetcher {
-  private client;
-  private batchProcessor: BatchProcessor<ApprovalEvent, TokenApproval | null>;
-
-  constructor(private options: ApprovalFetcherOptions = {}) {
-    this.client = createPublicClient({
-      chain: mainnet,
-      transport: http(config.rpcUrl),
-    });
+  private client: PublicClient;
 
-    this.batchProcessor = new BatchProcessor<ApprovalEvent, TokenApproval | null>(
-      this.fetchApprovalDetails.bind(this),
-      {
-        batchSize: options.batchSize ?? 10,
-        maxConcurrent: options.maxConcurrent ?? 3,
-      }
-    );
+  constructor(
+    client: PublicClient,
+    private options: ApprovalFetcherOptions = {},
+    private logFetcher: LogFetcher = new LogFetcher(),
+    private reader: MulticallReader = new MulticallReader(client)
+  ) {
+    this.client = client;
   }
 
-  async fetchApprovalEvents(walletAddress: Address): Promise<ApprovalEvent[]> {
+  async fetchApprovalEvents(walletAddress: Address, toBlock?: bigint): Promise<ApprovalEvent[]> {
     try {
-      const logs = await this.client.getLogs({
-        event: APPROVAL_EVENT,
-        args: {
-          owner: walletAddress,
-        },
-        fromBlock: this.options.fromBlock ?? 0n,
-        toBlock: this.options.toBlock ?? 'latest',
-      });
+      const lastBlock = toBlock ?? await this.resolveToBlock();
+      const logs = await this.logFetcher.fetch(this.options.fromBlock ?? 0n, lastBlock, (fromBlock, toBlock) =>
+        this.client.getLogs({
+          event: APPROVAL_EVENT,
+          args: {
+            owner: walletAddress,
+          },
+          fromBlock,
+          toBlock,
+        })
+      );
 
       return this.parseApprovalLogs(logs);
     } catch (error) {
       throw new NetworkError(
         `Failed to fetch approval events: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        { walletAddress }
+        { cause: error instanceof Error ? error : undefined, details: { walletAddress } }
       );
     }
   }
 
+  /**
+   * Latest approval per token/spender pair, or per token id for ERC-721
+   * logs, whose single approved address is replaced by each new approval.
+   */
   private parseApprovalLogs(logs: Log[]): ApprovalEvent[] {
     const approvalMap = new Map<string, ApprovalEvent>();
 
     for (const log of logs) {
-      const spender = log.topics[2];
-      if (!spender || !log.address || !log.blockNumber) continue;
+      const decoded = decodeApprovalLog(log);
+      if (!decoded || !log.address || !log.blockNumber) continue;
 
-      const spenderAddress = `0x${spender.slice(26)}` as Address;
-      const key = `${log.address.toLowerCase()}-${spenderAddress.toLowerCase()}`;
+      const tokenId = decoded.standard === 'erc721' ? decoded.tokenId : undefined;
+      const key = tokenId !== undefined
+        ? `${log.address.toLowerCase()}-#${tokenId}`
+        : `${log.address.toLowerCase()}-${decoded.spender}`;
 
       const existing = approvalMap.get(key);
       if (!existing || log.blockNumber > existing.blockNumber) {
         approvalMap.set(key, {
           tokenAddress: log.address as Address,
-          spender: spenderAddress,
+          spender: decoded.spender,
+          tokenId,
+          value: decoded.standard === 'erc20' ? decoded.value : undefined,
           blockNumber: log.blockNumber,
           transactionHash: log.transactionHash ?? '',
         });
@@ -99,58 +118,123 @@ export class ApprovalFetcher {
     return Array.from(approvalMap.values());
   }
 
-  private async fetchApprovalDetails(
-    event: ApprovalEvent,
-    walletAddress: Address
-  ): Promise<TokenApproval | null> {
-    try {
-      const allowance = await this.client.readContract({
-        address: event.tokenAddress,
+  /**
+   * Approvals the wallet still has outstanding: every logged ERC-20 pair
+   * with a live allowance and every ERC-721 token still approved to its
+   * logged spender. The live reads share Multicall3 batches and each
+   * approving block is fetched once, however many logs it holds.
+   */
+  async fetchApprovals(walletAddress: Address): Promise<Approval[]> {
+    // Pin one block so the logs and every allowance read agree
+    const blockNumber = await this.resolveToBlock();
+    const events = (await this.fetchApprovalEvents(walletAddress, blockNumber))
+      .filter((event) => event.tokenId === undefined || event.spender !== zeroAddress);
+
+    const reads = await this.reader.read(
+      events.map((event): ContractCall => event.tokenId !== undefined
+        ? { address: event.tokenAddress, abi: ERC721_ABI, functionName: 'getApproved', args: [event.tokenId] }
+        : { address: event.tokenAddress, abi: ERC20_ABI, functionName: 'allowance', args: [walletAddress, event.spender] }
+      ),
+      blockNumber
+    );
+
+    // ERC-721 transfers clear a token's approval without emitting a log
+    const live = events.flatMap((event, i) => {
+      const read = reads[i];
+      if (read.status === 'failure') {
+        console.warn(`Failed to fetch details for ${event.tokenAddress}: ${read.error.message}`);
+        return [];
+      }
+      if (event.tokenId !== undefined) {
+        return (read.result as Address).toLowerCase() === event.spender.toLowerCase() ? [{ event, value: 1n }] : [];
+      }
+      return read.result === 0n ? [] : [{ event, value: read.result as bigint }];
+    });
+
+    const timestamps = await this.fetchBlockTimestamps(live.map(({ event }) => event.blockNumber));
+
+    return live.map(({ event, value }): Approval => ({
+      ...(event.tokenId !== undefined
+        ? { kind: 'token' as const, tokenStandard: 'erc721' as const, tokenId: event.tokenId }
+        : { approvedValue: event.value }),
+      tokenAddress: event.tokenAddress,
+      spenderAddress: event.spender,
+      ownerAddress: walletAddress,
+      value,
+      transactionHash: (event.transactionHash || undefined) as Hash | undefined,
+      blockNumber: event.blockNumber,
+      timestamp: timestamps.get(event.blockNumber),
+    }));
+  }
+
+  /**
+   * Replaces the logged value of each ERC-20 allowance with the live
+   * `allowance(owner, spender)` at `blockNumber`; tokens move allowances on
+   * `transferFrom` without emitting a log. The logged value is kept as
+   * `approvedValue`. A token whose allowance cannot be read keeps its logged
+   * value; NFT approvals and Permit2 sub-allowances pass through unchanged.
+   */
+  async reconcileAllowances(approvals: Approval[], blockNumber: bigint): Promise<Approval[]> {
+    const isErc20 = (approval: Approval): boolean =>
+      !isNftApproval(approval) && !isPermit2Approval(approval) && approval.ownerAddress !== undefined;
+
+    const erc20 = approvals.filter(isErc20);
+    const reads = await this.reader.read<bigint>(
+      erc20.map((approval): ContractCall => ({
+        address: approval.tokenAddress,
         abi: ERC20_ABI,
         functionName: 'allowance',
-        args: [walletAddress, event.spender],
-      });
+        args: [approval.ownerAddress, approval.spenderAddress],
+      })),
+      blockNumber
+    );
+    const live = new Map(erc20.map((approval, i) => [approval, reads[i]]));
 
-      if (allowance === 0n) {
-        return null;
-      }
+    return approvals.map((approval) => {
+      const read = live.get(approval);
+      return read?.status === 'success'
+        ? { ...approval, approvedValue: approval.value, value: read.result }
+        : approval;
+    });
+  }
 
-      const block = await this.client.getBlock({
-        blockNumber: event.blockNumber,
-      });
+  /**
+   * Timestamp of each distinct block. Blocks that cannot be fetched are
+   * left out, leaving their approvals undated.
+   */
+  private async fetchBlockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, Date>> {
+    const { results, errors } = await processParallelBatch(
+      [...new Set(blockNumbers)],
+      (blockNumber) => this.client.getBlock({ blockNumber }),
+      { batchSize: this.options.batchSize ?? 10, delayMs: 0 }
+    );
 
-      return {
-        tokenAddress: event.tokenAddress,
-        tokenName: '',
-        tokenSymbol: '',
-        spender: event.spender,
-        spenderName: undefined,
-        allowance: allowance.toString(),
-        isUnlimited: allowance >= BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff') / 2n,
-        lastUpdated: new Date(Number(block.timestamp) * 1000),
-        transactionHash: event.transactionHash,
-      };
-    } catch (error) {
-      console.warn(`Failed to fetch details for ${event.tokenAddress}: ${error}`);
-      return null;
+    for (const { item, error } of errors) {
+      console.warn(`Failed to fetch block ${item}: ${error.message}`);
     }
+
+    return new Map(results.map((block) => [block.number as bigint, new Date(Number(block.timestamp) * 1000)]));
   }
 
   async fetchActiveApprovals(walletAddress: Address): Promise<TokenApproval[]> {
-    const events = await this.fetchApprovalEvents(walletAddress);
-    
-    const results = await this.batchProcessor.processAll(
-      events,
-      walletAddress
-    );
+    const approvals = await this.fetchApprovals(walletAddress);
+    return approvals.map(toTokenApproval);
+  }
 
-    return results.filter((r): r is TokenApproval => r !== null);
+  private async resolveToBlock(): Promise<bigint> {
+    return typeof this.options.toBlock === 'bigint'
+      ? this.options.toBlock
+      : this.client.getBlockNumber();
   }
 
+  /**
+   * Reads `allowance(owner, spender)`, at `blockNumber` when given.
+   */
   async getCurrentAllowance(
     tokenAddress: Address,
     ownerAddress: Address,
-    spenderAddress: Address
+    spenderAddress: Address,
+    blockNumber?: bigint
   ): Promise<bigint> {
     try {
       return await this.client.readContract({
@@ -158,11 +242,15 @@ export class ApprovalFetcher {
         abi: ERC20_ABI,
         functionName: 'allowance',
         args: [ownerAddress, spenderAddress],
+        blockNumber,
       });
     } catch (error) {
       throw new NetworkError(
         `Failed to fetch allowance: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        { tokenAddress, ownerAddress, spenderAddress }
+        {
+          cause: error instanceof Error ? error : undefined,
+          details: { tokenAddress, ownerAddress, spenderAddress },
+        }
       );
     }
   }
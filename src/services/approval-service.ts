@@ -1,8 +1,9 @@
 import type { PublicClient, Address } from 'viem';
-import type { ApprovalInfo } from '../types';
+import type { Approval } from '../types';
 import { ApprovalFetcher } from './approval-fetcher';
 import { TokenMetadataService } from './token-metadata-service';
-import { ApprovalGuardError } from '../errors';
+import { ApprovalGuardError, ErrorCode } from '../errors';
+import { isUnlimitedApproval } from '../approval';
 
 export interface ApprovalServiceOptions {
   includeZeroAllowances?: boolean;
@@ -27,14 +28,14 @@ export class ApprovalService {
   async getApprovals(
     walletAddress: Address,
     options: ApprovalServiceOptions = {}
-  ): Promise<ApprovalInfo[]> {
+  ): Promise<Approval[]> {
     const { includeZeroAllowances = false, enrichMetadata = true } = options;
 
     try {
       let approvals = await this.approvalFetcher.fetchApprovals(walletAddress);
 
       if (!includeZeroAllowances) {
-        approvals = approvals.filter(a => BigInt(a.allowance) > 0n);
+        approvals = approvals.filter(a => a.value > 0n);
       }
 
       if (enrichMetadata) {
@@ -43,40 +44,39 @@ export class ApprovalService {
 
       return approvals;
     } catch (error) {
-      throw new ApprovalGuardError(
-        `Failed to get approvals for ${walletAddress}`,
-        'APPROVAL_FETCH_ERROR',
-        error
-      );
+      if (error instanceof ApprovalGuardError) {
+        throw error;
+      }
+      throw new ApprovalGuardError(`Failed to get approvals for ${walletAddress}`, {
+        code: ErrorCode.SCAN_FAILED,
+        cause: error instanceof Error ? error : undefined,
+      });
     }
   }
 
   async getApprovalsBySpender(
     walletAddress: Address,
     spenderAddress: Address
-  ): Promise<ApprovalInfo[]> {
+  ): Promise<Approval[]> {
     const allApprovals = await this.getApprovals(walletAddress);
     return allApprovals.filter(
-      a => a.spender.toLowerCase() === spenderAddress.toLowerCase()
+      a => a.spenderAddress.toLowerCase() === spenderAddress.toLowerCase()
     );
   }
 
   async getApprovalsByToken(
     walletAddress: Address,
     tokenAddress: Address
-  ): Promise<ApprovalInfo[]> {
+  ): Promise<Approval[]> {
     const allApprovals = await this.getApprovals(walletAddress);
     return allApprovals.filter(
       a => a.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
     );
   }
 
-  async getUnlimitedApprovals(walletAddress: Address): Promise<ApprovalInfo[]> {
+  async getUnlimitedApprovals(walletAddress: Address): Promise<Approval[]> {
     const approvals = await this.getApprovals(walletAddress);
-    const maxUint256 = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
-    const unlimitedThreshold = maxUint256 / 2n;
-
-    return approvals.filter(a => BigInt(a.allowance) >= unlimitedThreshold);
+    return approvals.filter(isUnlimitedApproval);
   }
 
   async getApprovalCount(walletAddress: Address): Promise<number> {
@@ -85,9 +85,9 @@ export class ApprovalService {
   }
 
   private async enrichApprovalsWithMetadata(
-    approvals: ApprovalInfo[]
-  ): Promise<ApprovalInfo[]> {
-    const enrichedApprovals: ApprovalInfo[] = [];
+    approvals: Approval[]
+  ): Promise<Approval[]> {
+    const enrichedApprovals: Approval[] = [];
 
     for (const approval of approvals) {
       try {
@@ -97,6 +97,7 @@ export class ApprovalService {
 
         enrichedApprovals.push({
           ...approval,
+          tokenName: metadata.name || approval.tokenName,
           tokenSymbol: metadata.symbol || approval.tokenSymbol,
           tokenDecimals: metadata.decimals ?? approval.tokenDecimals,
         });
@@ -3,7 +3,28 @@ export { RiskAnalysisService } from './risk-analysis-service';
 export { RevocationService } from './revocation-service';
 export { ReportGenerator } from './report-generator';
 export { TokenMetadataService } from './token-metadata-service';
+export type { TokenListField, TokenMetadata, TokenMetadataServiceOptions } from './token-metadata-service';
+export { TokenListIndex, loadTokenList, parseTokenList } from './token-list';
+export type { ListedToken, TokenList, TokenListEntry } from './token-list';
+export { SpenderLabelIndex, loadSpenderLabels, parseSpenderLabels, validateSpenderLabels } from './spender-labels';
+export type { SpenderLabelEntry } from './spender-labels';
 export { ApprovalFetcher } from './approval-fetcher';
+export { Permit2Service, isPermit2 } from './permit2-service';
+export { LogFetcher, classifyLimitError } from './log-fetcher';
+export type { LogFetcherOptions, LogQuery } from './log-fetcher';
+export { MulticallReader } from './multicall-reader';
+export type { CallResult, ContractCall, MulticallReaderOptions } from './multicall-reader';
+export { RpcPool } from './rpc-pool';
+export type { RpcDisagreement, RpcEndpointHealth, RpcPoolMode, RpcPoolOptions } from './rpc-pool';
+export { RPC_RECORDING_SCHEMA_VERSION, RpcRecorder, loadRpcRecording, recordingTransport, replayTransport } from './rpc-recording';
+export type { RecordedRpcError, RecordedRpcExchange, RpcRecordingFile } from './rpc-recording';
+export { DEFAULT_COMPUTE_UNITS, RequestScheduler } from './request-scheduler';
+export type {
+  ProviderRequestStats,
+  RequestBudget,
+  RequestSchedulerOptions,
+  RequestSchedulerStats,
+} from './request-scheduler';
 
 import { ApprovalService } from './approval-service';
 import { RiskAnalysisService } from './risk-analysis-service';
@@ -11,16 +32,30 @@ import { RevocationService } from './revocation-service';
 import { ReportGenerator } from './report-generator';
 import { TokenMetadataService } from './token-metadata-service';
 import { ApprovalFetcher } from './approval-fetcher';
+import { LogFetcher } from './log-fetcher';
+import { MulticallReader } from './multicall-reader';
 import { ApprovalCache } from '../cache';
 import { HistoryTracker } from '../history';
 import { RiskCalculator } from '../risk';
-import type { PublicClient, WalletClient } from 'viem';
+import { createPublicClient, type Chain, type PublicClient, type Transport, type WalletClient } from 'viem';
+import { ApprovalGuardError, ErrorCode } from '../errors';
 
+/**
+ * Either `publicClient`, or a `transport` (such as `replayTransport`) to
+ * build one from.
+ */
 export interface ServiceDependencies {
-  publicClient: PublicClient;
+  publicClient?: PublicClient;
+  transport?: Transport;
+  /** Chain of the client built from `transport` */
+  chain?: Chain;
   walletClient?: WalletClient;
   cache?: ApprovalCache;
   historyTracker?: HistoryTracker;
+  /** Shared by every service that reads logs, so a learned range limit sticks */
+  logFetcher?: LogFetcher;
+  /** Shared by every service that makes view calls */
+  reader?: MulticallReader;
 }
 
 export interface ServiceContainer {
@@ -33,11 +68,16 @@ export interface ServiceContainer {
 }
 
 export function createServiceContainer(deps: ServiceDependencies): ServiceContainer {
-  const { publicClient, walletClient, cache, historyTracker } = deps;
+  const publicClient = deps.publicClient ?? createClient(deps);
+  const {
+    historyTracker,
+    logFetcher = new LogFetcher(),
+    reader = new MulticallReader(publicClient),
+  } = deps;
 
   // Create shared instances
-  const tokenMetadataService = new TokenMetadataService(publicClient);
-  const approvalFetcher = new ApprovalFetcher(publicClient, cache);
+  const tokenMetadataService = new TokenMetadataService(publicClient, { reader });
+  const approvalFetcher = new ApprovalFetcher(publicClient, {}, logFetcher, reader);
   const riskCalculator = new RiskCalculator();
 
   // Create services with injected dependencies
@@ -52,15 +92,9 @@ export function createServiceContainer(deps: ServiceDependencies): ServiceContai
     historyTracker
   );
 
-  const revocationService = new RevocationService(
-    publicClient,
-    walletClient
-  );
+  const revocationService = new RevocationService();
 
-  const reportGenerator = new ReportGenerator(
-    riskAnalysisService,
-    tokenMetadataService
-  );
+  const reportGenerator = new ReportGenerator(riskCalculator.modelInfo);
 
   return {
     approvalService,
@@ -72,6 +106,15 @@ export function createServiceContainer(deps: ServiceDependencies): ServiceContai
   };
 }
 
+function createClient({ transport, chain }: ServiceDependencies): PublicClient {
+  if (!transport) {
+    throw new ApprovalGuardError('Services need a publicClient or a transport', {
+      code: ErrorCode.INVALID_CONFIG,
+    });
+  }
+  return createPublicClient({ chain, transport }) as PublicClient;
+}
+
 export class ServiceRegistry {
   private static instance: ServiceContainer | null = null;
   private static deps: ServiceDependencies | null = null;
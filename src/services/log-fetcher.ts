@@ -0,0 +1,151 @@
+export interface LogFetcherOptions {
+  /** Block span of the first query */
+  initialBlockRange?: bigint;
+  /** Smallest span tried before a rejection is treated as a real failure */
+  minBlockRange?: bigint;
+  /** Largest span ever queried; set this to a provider's documented limit */
+  maxBlockRange?: bigint;
+  /** Responses with fewer logs than this grow the window */
+  growBelowLogs?: number;
+}
+
+/** Queries one inclusive block window */
+export type LogQuery<T> = (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+
+const DEFAULT_OPTIONS: Required<LogFetcherOptions> = {
+  initialBlockRange: 10_000n,
+  minBlockRange: 1n,
+  maxBlockRange: 1_000_000n,
+  growBelowLogs: 1_000,
+};
+
+// Block span limits ("block range is too wide", "exceed maximum block range: 2000")
+const BLOCK_RANGE_ERROR = /block range|range (is )?too (large|wide|big)|exceeds? (the )?max(imum)? (block )?range/i;
+
+// Result size limits ("query returned more than 10000 results", "log response size exceeded")
+const RESULT_SIZE_ERROR = /more than \d+ (results|logs)|too many (results|logs|events)|response size|result window|query timeout/i;
+
+// Alchemy and others suggest a window that will work: "[0x1, 0x2]"
+const SUGGESTED_RANGE = /\[\s*(0x[0-9a-f]+)\s*,\s*(0x[0-9a-f]+)\s*\]/i;
+
+type LimitKind = 'range' | 'results';
+
+/**
+ * Splits `eth_getLogs` queries into block windows the provider accepts.
+ * Hosted and public RPCs cap either the block span of one query or the
+ * number of logs it may return, and say so only in the error message, so
+ * the window is halved whenever a query is rejected for its size and
+ * doubled again while responses stay small. A span limit, once hit, caps
+ * every later query made through the same instance.
+ */
+export class LogFetcher {
+  private readonly options: Required<LogFetcherOptions>;
+  private window: bigint;
+  private maxBlockRange: bigint;
+
+  constructor(options: LogFetcherOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...definedOnly(options) };
+    this.maxBlockRange = this.options.maxBlockRange;
+    this.window = minBigInt(this.options.initialBlockRange, this.maxBlockRange);
+  }
+
+  /** Span the next query will start with */
+  get blockRange(): bigint {
+    return this.window;
+  }
+
+  /**
+   * Runs `query` over `[fromBlock, toBlock]` in consecutive windows and
+   * returns every log in block order. Errors that are not size limits, and
+   * size limits hit at the minimum span, are rethrown unchanged.
+   */
+  async fetch<T>(fromBlock: bigint, toBlock: bigint, query: LogQuery<T>): Promise<T[]> {
+    const logs: T[] = [];
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = minBigInt(start + this.window - 1n, toBlock);
+
+      let chunk: T[];
+      try {
+        chunk = await query(start, end);
+      } catch (error) {
+        this.shrink(error, end - start + 1n);
+        continue;
+      }
+
+      logs.push(...chunk);
+      start = end + 1n;
+
+      if (chunk.length < this.options.growBelowLogs) {
+        this.window = minBigInt(this.window * 2n, this.maxBlockRange);
+      }
+    }
+
+    return logs;
+  }
+
+  private shrink(error: unknown, span: bigint): void {
+    const limit = classifyLimitError(error);
+    if (!limit || span <= this.options.minBlockRange) {
+      throw error;
+    }
+
+    const suggested = suggestedSpan(error);
+    const next = suggested !== null && suggested < span ? suggested : span / 2n;
+    this.window = maxBigInt(next, this.options.minBlockRange);
+
+    // A span limit holds for every later query; a result limit depends on the range's density
+    if (limit === 'range') {
+      this.maxBlockRange = this.window;
+    }
+  }
+}
+
+/**
+ * Whether an RPC error rejects a log query for its block span or for the
+ * number of logs it would return; null for any other failure.
+ */
+export function classifyLimitError(error: unknown): LimitKind | null {
+  const message = errorMessages(error);
+
+  if (BLOCK_RANGE_ERROR.test(message)) return 'range';
+  if (RESULT_SIZE_ERROR.test(message)) return 'results';
+  return null;
+}
+
+function suggestedSpan(error: unknown): bigint | null {
+  const match = SUGGESTED_RANGE.exec(errorMessages(error));
+  if (!match) return null;
+
+  const span = BigInt(match[2]) - BigInt(match[1]) + 1n;
+  return span > 0n ? span : null;
+}
+
+// viem nests the provider's message under `details` and `cause`
+function errorMessages(error: unknown): string {
+  const messages: string[] = [];
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    if (typeof current === 'string') {
+      messages.push(current);
+      break;
+    }
+    const { message, details, cause } = current as { message?: unknown; details?: unknown; cause?: unknown };
+    if (typeof message === 'string') messages.push(message);
+    if (typeof details === 'string') messages.push(details);
+    current = cause;
+  }
+  return messages.join('\n');
+}
+
+function definedOnly(options: LogFetcherOptions): LogFetcherOptions {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,127 @@
+import type { Abi, Address, PublicClient } from 'viem';
+import { isRpcFailure } from '../utils/rpc-errors.js';
+
+export interface ContractCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * Outcome of one call. A failed call never fails the calls batched with it.
+ */
+export type CallResult<T = unknown> =
+  | { status: 'success'; result: T }
+  | { status: 'failure'; error: Error };
+
+export interface MulticallReaderOptions {
+  /** Set to false to always send one `eth_call` per read */
+  enabled?: boolean;
+  /** Calls aggregated into one `eth_call` (default: 500) */
+  batchSize?: number;
+  /** Multicall3 deployment (default: the chain's `multicall3` contract) */
+  multicallAddress?: Address;
+  /** Individual calls in flight at once when falling back (default: 10) */
+  fallbackConcurrency?: number;
+}
+
+/**
+ * Sends view calls through Multicall3 `aggregate3`, a batch of calls per
+ * `eth_call`, with each call allowed to fail on its own. Chains without a
+ * known Multicall3, blocks before it was deployed, and batches the contract
+ * rejects as a whole fall back to one `readContract` per call.
+ */
+export class MulticallReader {
+  private readonly enabled: boolean;
+  private readonly batchSize: number;
+  private readonly multicallAddress: Address | undefined;
+  private readonly deployedAt: bigint | undefined;
+  private readonly fallbackConcurrency: number;
+
+  constructor(private readonly client: PublicClient, options: MulticallReaderOptions = {}) {
+    const multicall3 = client.chain?.contracts?.multicall3;
+
+    this.enabled = options.enabled !== false;
+    this.batchSize = Math.max(1, options.batchSize ?? 500);
+    this.multicallAddress = options.multicallAddress ?? multicall3?.address;
+    // A custom deployment's block is unknown; assume it always existed
+    this.deployedAt = !options.multicallAddress && multicall3?.blockCreated !== undefined
+      ? BigInt(multicall3.blockCreated)
+      : undefined;
+    this.fallbackConcurrency = Math.max(1, options.fallbackConcurrency ?? 10);
+  }
+
+  /**
+   * Whether reads at `blockNumber` (default: latest) go through Multicall3
+   */
+  supports(blockNumber?: bigint): boolean {
+    return this.enabled
+      && this.multicallAddress !== undefined
+      && (blockNumber === undefined || this.deployedAt === undefined || blockNumber >= this.deployedAt);
+  }
+
+  /**
+   * Runs every call at `blockNumber` and returns their results in order.
+   */
+  async read<T = unknown>(calls: ContractCall[], blockNumber?: bigint): Promise<CallResult<T>[]> {
+    if (calls.length === 0) {
+      return [];
+    }
+
+    if (!this.supports(blockNumber)) {
+      return this.readIndividually<T>(calls, blockNumber);
+    }
+
+    const results: CallResult<T>[] = [];
+    for (let start = 0; start < calls.length; start += this.batchSize) {
+      const chunk = calls.slice(start, start + this.batchSize);
+      results.push(...await this.readBatch<T>(chunk, blockNumber));
+    }
+    return results;
+  }
+
+  private async readBatch<T>(calls: ContractCall[], blockNumber?: bigint): Promise<CallResult<T>[]> {
+    try {
+      const results = await this.client.multicall({
+        contracts: calls,
+        allowFailure: true,
+        blockNumber,
+        multicallAddress: this.multicallAddress,
+        // Chunked by call count above rather than by calldata size
+        batchSize: 0,
+      });
+      return results as CallResult<T>[];
+    } catch (error) {
+      // The RPC is the problem, so retrying each call would only add load
+      if (isRpcFailure(error)) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        return calls.map(() => ({ status: 'failure', error: failure }));
+      }
+      return this.readIndividually<T>(calls, blockNumber);
+    }
+  }
+
+  private async readIndividually<T>(calls: ContractCall[], blockNumber?: bigint): Promise<CallResult<T>[]> {
+    const results: CallResult<T>[] = [];
+
+    for (let start = 0; start < calls.length; start += this.fallbackConcurrency) {
+      const settled = await Promise.allSettled(
+        calls.slice(start, start + this.fallbackConcurrency).map((call) =>
+          this.client.readContract({ ...call, blockNumber })
+        )
+      );
+
+      results.push(...settled.map((outcome): CallResult<T> =>
+        outcome.status === 'fulfilled'
+          ? { status: 'success', result: outcome.value as T }
+          : {
+            status: 'failure',
+            error: outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason)),
+          }
+      ));
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,170 @@
+import { parseAbi, parseAbiItem, type Address, type PublicClient } from 'viem';
+import { isLaterLog } from '../approval/index.js';
+import { PERMIT2_ADDRESS } from '../constants.js';
+import { NetworkError } from '../errors/index.js';
+import { normalizeAddress } from '../utils/address.js';
+import { LogFetcher } from './log-fetcher.js';
+import { MulticallReader } from './multicall-reader.js';
+import type { Approval } from '../types.js';
+
+const PERMIT2_EVENTS = [
+  parseAbiItem(
+    'event Approval(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration)'
+  ),
+  parseAbiItem(
+    'event Permit(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration, uint48 nonce)'
+  ),
+  parseAbiItem('event Lockdown(address indexed owner, address token, address spender)'),
+] as const;
+
+const PERMIT2_ABI = parseAbi([
+  'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+]);
+
+// uint48 max, a common "never expires" value, is past the last date JS can represent
+const MAX_DATE_MS = 8.64e15;
+
+export interface Permit2ScanOptions {
+  /** Tokens the wallet has approved to Permit2; other sub-allowances are unspendable */
+  tokens: Address[];
+  fromBlock: bigint;
+  toBlock: bigint;
+  chainId?: number;
+  includeZeroAllowances?: boolean;
+}
+
+export function isPermit2(address: string): boolean {
+  return address.toLowerCase() === PERMIT2_ADDRESS;
+}
+
+/**
+ * Reads the sub-allowances a wallet has granted inside Uniswap Permit2. Its
+ * `Approval`, `Permit` and `Lockdown` events only name the token/spender
+ * pairs; amount, expiration and nonce always come from a live
+ * `allowance(owner, token, spender)` read at `toBlock`.
+ */
+export class Permit2Service {
+  constructor(
+    private readonly client: PublicClient,
+    private readonly logFetcher: LogFetcher = new LogFetcher(),
+    private readonly reader: MulticallReader = new MulticallReader(client),
+    private readonly permit2Address: Address = PERMIT2_ADDRESS
+  ) {}
+
+  async fetchAllowances(owner: Address, options: Permit2ScanOptions): Promise<Approval[]> {
+    if (options.tokens.length === 0) {
+      return [];
+    }
+
+    const pairs = await this.fetchPairs(owner, options);
+    return this.readAllowances(owner, pairs, options);
+  }
+
+  /**
+   * The latest Permit2 log for each token/spender pair the wallet touched in
+   * `[fromBlock, toBlock]`, as a `permit2` approval whose `value` is the
+   * amount that log set (0n for `Lockdown`).
+   */
+  async fetchPairs(
+    owner: Address,
+    options: Pick<Permit2ScanOptions, 'fromBlock' | 'toBlock' | 'chainId'>
+  ): Promise<Approval[]> {
+    let logs;
+    try {
+      logs = (await Promise.all(
+        PERMIT2_EVENTS.map((event) =>
+          this.logFetcher.fetch(options.fromBlock, options.toBlock, (fromBlock, toBlock) =>
+            this.client.getLogs({
+              address: this.permit2Address,
+              event,
+              args: { owner },
+              fromBlock,
+              toBlock,
+            })
+          )
+        )
+      )).flat();
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to fetch Permit2 events: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error instanceof Error ? error : undefined, details: { owner } }
+      );
+    }
+
+    const pairs = new Map<string, Approval>();
+
+    for (const log of logs) {
+      const { token, spender, amount } = log.args as { token?: Address; spender?: Address; amount?: bigint };
+      if (!token || !spender) continue;
+
+      const normalizedToken = normalizeAddress(token);
+      const normalizedSpender = normalizeAddress(spender);
+      const key = `${normalizedToken}-${normalizedSpender}`;
+      const existing = pairs.get(key);
+      const approval: Approval = {
+        kind: 'permit2',
+        tokenStandard: 'erc20',
+        tokenAddress: normalizedToken,
+        spenderAddress: normalizedSpender,
+        ownerAddress: owner,
+        chainId: options.chainId,
+        value: amount ?? 0n,
+        transactionHash: log.transactionHash ?? undefined,
+        blockNumber: log.blockNumber ?? undefined,
+        logIndex: log.logIndex ?? undefined,
+      };
+
+      // Keep the most recent log as the approval's provenance
+      if (!existing || isLaterLog(approval, existing)) {
+        pairs.set(key, approval);
+      }
+    }
+
+    return [...pairs.values()];
+  }
+
+  /**
+   * Reads the live sub-allowance of each pair whose token is in
+   * `options.tokens` at `toBlock`. The logged amount is kept as
+   * `approvedValue`, and stays the value when the read fails.
+   */
+  async readAllowances(
+    owner: Address,
+    pairs: Approval[],
+    options: Pick<Permit2ScanOptions, 'tokens' | 'toBlock' | 'includeZeroAllowances'>
+  ): Promise<Approval[]> {
+    const tokens = new Set(options.tokens.map((token) => token.toLowerCase()));
+    const now = Date.now();
+
+    const candidates = pairs.filter((pair) => tokens.has(pair.tokenAddress.toLowerCase()));
+    const reads = await this.reader.read<readonly [bigint, number, number]>(
+      candidates.map((pair) => ({
+        address: this.permit2Address,
+        abi: PERMIT2_ABI,
+        functionName: 'allowance',
+        args: [owner, pair.tokenAddress, pair.spenderAddress],
+      })),
+      options.toBlock
+    );
+
+    const approvals = candidates.map((pair, i): Approval => {
+      // A pair whose sub-allowance cannot be read keeps the state from its logs
+      const read = reads[i];
+      if (read.status === 'failure') {
+        return { ...pair, approvedValue: pair.value };
+      }
+
+      const [amount, expiration, nonce] = read.result;
+      const expiresAt = new Date(Math.min(expiration * 1000, MAX_DATE_MS));
+
+      // An expired sub-allowance can no longer be spent
+      const value = expiresAt.getTime() > now ? amount : 0n;
+
+      return { ...pair, approvedValue: pair.value, value, expiration: expiresAt, nonce };
+    });
+
+    return options.includeZeroAllowances
+      ? approvals
+      : approvals.filter((approval) => approval.value > 0n);
+  }
+}
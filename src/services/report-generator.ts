@@ -1,42 +1,95 @@
+import type { Address } from 'viem';
 import {
   ApprovalData,
   RiskAssessment,
   RevocationRecommendation,
   ApprovalReport,
+  PortfolioReport,
   ReportFormat,
+  RiskLevel,
+  RiskModelInfo,
+  SpenderExposureResult,
+  TokenApprovalCensus,
 } from '../types.js';
-import { formatDate, formatTokenAmount } from '../utils/formatting.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { scoreToRiskLevel } from '../risk/risk-model.js';
+import { RiskCalculator } from '../risk/risk-calculator.js';
+import {
+  ApprovalLike,
+  approvalKey,
+  bigintReplacer,
+  formatRevocationCall,
+  isApprovalData,
+  toApproval,
+  toApprovalData,
+} from '../approval/index.js';
+import {
+  formatAllowance,
+  formatAmountAtRisk,
+  formatApprovedAllowance,
+  formatDate,
+  formatSpenderStatus,
+  formatTokenAmount,
+} from '../utils/formatting.js';
 import { shortenAddress } from '../utils/address.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+const CSV_HEADERS = [
+  'Token Symbol',
+  'Token Name',
+  'Token Address',
+  'Spender Address',
+  'Allowance',
+  'Last Approved',
+  'Is Unlimited',
+  'Risk Level',
+  'Risk Score',
+  'Risk Factors',
+  'Should Revoke',
+  'Revoke Reason',
+  'Risk Model',
+];
+
 export class ReportGenerator {
+  /**
+   * @param riskModel - Model the assessments were scored with; its thresholds
+   *   decide the overall level and it is stamped on every report.
+   */
+  constructor(private readonly riskModel: RiskModelInfo = new RiskCalculator().modelInfo) {}
+
   generateReport(
     walletAddress: string,
-    approvals: ApprovalData[],
+    approvals: Array<ApprovalLike>,
     riskAssessments: RiskAssessment[],
     recommendations: RevocationRecommendation[]
   ): ApprovalReport {
+    const rows = approvals.map(toReportRow);
     const totalRiskScore = this.calculateTotalRiskScore(riskAssessments);
     const riskLevel = this.determineOverallRiskLevel(totalRiskScore);
     
-    const approvalDetails = approvals.map((approval, index) => ({
-      approval,
-      riskAssessment: riskAssessments[index],
-      recommendation: recommendations.find(
-        r => r.tokenAddress === approval.tokenAddress && 
-             r.spenderAddress === approval.spenderAddress
-      ),
-    }));
+    // Rows of one token and spender differ by kind (direct or Permit2) and token ID
+    const approvalDetails = rows.map((approval, index) => {
+      const key = approvalKey(toApproval(approval));
+      return {
+        approval,
+        riskAssessment: riskAssessments[index],
+        recommendation: recommendations.find(
+          r => recommendationKey(r) === key &&
+               (r.chainId === undefined || r.chainId === approval.chainId)
+        ),
+      };
+    });
 
     return {
       walletAddress,
       generatedAt: new Date().toISOString(),
+      riskModel: this.riskModel,
       summary: {
-        totalApprovals: approvals.length,
+        totalApprovals: rows.length,
         highRiskCount: riskAssessments.filter(r => r.riskLevel === 'critical' || r.riskLevel === 'high').length,
         mediumRiskCount: riskAssessments.filter(r => r.riskLevel === 'medium').length,
-        lowRiskCount: riskAssessments.filter(r => r.riskLevel === 'low').length,
+        lowRiskCount: riskAssessments.filter(r => r.riskLevel === 'low' || r.riskLevel === 'minimal').length,
         totalRiskScore,
         overallRiskLevel: riskLevel,
       },
@@ -51,13 +104,8 @@ export class ReportGenerator {
     return Math.round(sum / assessments.length);
   }
 
-  private determineOverallRiskLevel(
-    score: number
-  ): 'low' | 'medium' | 'high' | 'critical' {
-    if (score >= 80) return 'critical';
-    if (score >= 60) return 'high';
-    if (score >= 40) return 'medium';
-    return 'low';
+  private determineOverallRiskLevel(score: number): RiskLevel {
+    return scoreToRiskLevel(score, this.riskModel.thresholds);
   }
 
   formatReport(report: ApprovalReport, format: ReportFormat): string {
@@ -73,8 +121,45 @@ export class ReportGenerator {
     }
   }
 
+  /**
+   * Reads a report previously written in the `json` format so it can be
+   * rendered again without rescanning.
+   */
+  parseReport(content: string): ApprovalReport {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new ValidationError(`Report is not valid JSON: ${message}`, [
+        { field: 'report', message: 'Must be a report saved with --format json' },
+      ]);
+    }
+
+    if (!isApprovalReport(parsed)) {
+      throw new ValidationError('Report is missing walletAddress, riskModel, summary or approvals', [
+        { field: 'report', message: 'Must be a report saved with --format json' },
+      ]);
+    }
+
+    // Allowances are written as decimal strings; restore them to bigints
+    return {
+      ...parsed,
+      approvals: parsed.approvals.map((entry) => ({
+        ...entry,
+        approval: {
+          ...entry.approval,
+          allowance: parseAllowance(entry.approval.allowance),
+          approvedAllowance: entry.approval.approvedAllowance !== undefined
+            ? parseAllowance(entry.approval.approvedAllowance)
+            : undefined,
+        },
+      })),
+    };
+  }
+
   private formatAsJson(report: ApprovalReport): string {
-    return JSON.stringify(report, null, 2);
+    return JSON.stringify(report, bigintReplacer, 2);
   }
 
   private formatAsText(report: ApprovalReport): string {
@@ -86,6 +171,7 @@ export class ReportGenerator {
     lines.push('');
     lines.push(`Wallet: ${report.walletAddress}`);
     lines.push(`Generated: ${formatDate(new Date(report.generatedAt))}`);
+    lines.push(`Risk Model: ${formatModel(report.riskModel)}`);
     lines.push('');
     lines.push('─'.repeat(60));
     lines.push('SUMMARY');
@@ -98,6 +184,20 @@ export class ReportGenerator {
     lines.push(`  Medium Risk: ${report.summary.mediumRiskCount}`);
     lines.push(`  Low Risk: ${report.summary.lowRiskCount}`);
     lines.push('');
+
+    if (report.chains) {
+      lines.push('─'.repeat(60));
+      lines.push('CHAINS');
+      lines.push('─'.repeat(60));
+      for (const chain of report.chains) {
+        lines.push(chain.summary
+          ? `${chain.chainName} (${chain.chainId}): ${chain.summary.totalApprovals} approvals, ` +
+            `${chain.summary.highRiskCount} critical/high, ${chain.summary.overallRiskLevel.toUpperCase()} ` +
+            `(${chain.summary.totalRiskScore}/100)`
+          : `${chain.chainName} (${chain.chainId}): scan failed: ${chain.error ?? 'unknown error'}`);
+      }
+      lines.push('');
+    }
     
     if (report.recommendations.length > 0) {
       lines.push('─'.repeat(60));
@@ -109,8 +209,14 @@ export class ReportGenerator {
         .sort((a, b) => b.priority - a.priority)
         .forEach((rec, index) => {
           lines.push(`${index + 1}. ${rec.tokenSymbol} → ${shortenAddress(rec.spenderAddress)}`);
+          if (report.chains && rec.chainId !== undefined) {
+            lines.push(`   Chain: ${chainName(report, rec.chainId)}`);
+          }
           lines.push(`   Priority: ${rec.priority === 3 ? 'HIGH' : rec.priority === 2 ? 'MEDIUM' : 'LOW'}`);
           lines.push(`   Reason: ${rec.reason}`);
+          if (rec.revocation) {
+            lines.push(`   Revoke: ${formatRevocationCall(rec.revocation)}`);
+          }
           lines.push('');
         });
     }
@@ -124,9 +230,21 @@ export class ReportGenerator {
       report.approvals.forEach((item, index) => {
         const { approval, riskAssessment } = item;
         lines.push(`[${index + 1}] ${approval.tokenSymbol}`);
+        if (report.chains && approval.chainId !== undefined) {
+          lines.push(`    Chain: ${chainName(report, approval.chainId)}`);
+        }
         lines.push(`    Token: ${shortenAddress(approval.tokenAddress)}`);
         lines.push(`    Spender: ${shortenAddress(approval.spenderAddress)}`);
-        lines.push(`    Allowance: ${approval.isUnlimited ? 'UNLIMITED' : formatTokenAmount(approval.allowance, approval.tokenDecimals)}`);
+        const approved = formatApprovedAllowance(approval);
+        if (approved !== undefined) {
+          lines.push(`    Last approved: ${approved}`);
+          lines.push(`    Remaining: ${formatAllowance(approval)}`);
+        } else {
+          lines.push(`    Allowance: ${formatAllowance(approval)}`);
+        }
+        if (approval.kind === 'permit2') {
+          lines.push(`    Via: Permit2, expires ${approval.expiration ?? 'unknown'} (nonce ${approval.nonce ?? '?'})`);
+        }
         lines.push(`    Risk: ${riskAssessment.riskLevel.toUpperCase()} (${riskAssessment.riskScore}/100)`);
         if (riskAssessment.factors.length > 0) {
           lines.push(`    Factors: ${riskAssessment.factors.join(', ')}`);
@@ -143,48 +261,316 @@ export class ReportGenerator {
   }
 
   private formatAsCsv(report: ApprovalReport): string {
-    const headers = [
-      'Token Symbol',
-      'Token Address',
-      'Spender Address',
-      'Allowance',
-      'Is Unlimited',
-      'Risk Level',
-      'Risk Score',
-      'Risk Factors',
-      'Should Revoke',
-      'Revoke Reason',
-    ];
-    
-    const rows = report.approvals.map(item => {
+    // Multi-chain reports lead with the chain, so rows of one chain can be picked out
+    const chainColumn = report.chains !== undefined;
+    const headers = chainColumn ? ['Chain ID', ...CSV_HEADERS] : CSV_HEADERS;
+    return toCsv(headers, this.csvRows(report, chainColumn));
+  }
+
+  private csvRows(report: ApprovalReport, chainColumn: boolean): string[][] {
+    return report.approvals.map(item => {
       const { approval, riskAssessment, recommendation } = item;
       return [
-        approval.tokenSymbol,
+        ...(chainColumn ? [approval.chainId?.toString() ?? ''] : []),
+        approval.tokenSymbol ?? '',
+        approval.tokenName ?? '',
         approval.tokenAddress,
         approval.spenderAddress,
-        approval.isUnlimited ? 'UNLIMITED' : approval.allowance.toString(),
+        approval.kind === 'allowance' || approval.kind === undefined
+          ? (approval.isUnlimited ? 'UNLIMITED' : approval.allowance.toString())
+          : formatAllowance(approval),
+        approval.approvedAllowance?.toString() ?? '',
         approval.isUnlimited ? 'true' : 'false',
         riskAssessment.riskLevel,
         riskAssessment.riskScore.toString(),
         riskAssessment.factors.join('; '),
         recommendation?.shouldRevoke ? 'true' : 'false',
         recommendation?.reason || '',
+        formatModel(report.riskModel),
       ];
     });
-    
-    const escapeCsvValue = (value: string): string => {
-      if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-        return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Renders a portfolio report. Text lists each wallet's risk, the shared
+   * spenders and the totals; CSV has one row per approval, led by the
+   * wallet it belongs to.
+   */
+  formatPortfolioReport(report: PortfolioReport, format: ReportFormat): string {
+    switch (format) {
+      case 'text':
+        return this.formatPortfolioAsText(report);
+      case 'csv':
+        return this.formatPortfolioAsCsv(report);
+      default:
+        return JSON.stringify(report, bigintReplacer, 2);
+    }
+  }
+
+  private formatPortfolioAsText(report: PortfolioReport): string {
+    const { summary } = report;
+    const lines: string[] = [];
+
+    lines.push('═'.repeat(60));
+    lines.push('APPROVAL GUARD - PORTFOLIO RISK REPORT');
+    lines.push('═'.repeat(60));
+    lines.push('');
+    lines.push(`Generated: ${formatDate(new Date(report.generatedAt))}`);
+    lines.push(`Risk Model: ${formatModel(report.riskModel)}`);
+    lines.push('');
+    lines.push('─'.repeat(60));
+    lines.push('SUMMARY');
+    lines.push('─'.repeat(60));
+    lines.push(`Wallets Scanned: ${summary.scannedWallets} of ${summary.totalWallets}`);
+    lines.push(`Wallets With Critical/High Risk: ${summary.walletsAtRisk}`);
+    lines.push(`Total Approvals: ${summary.totalApprovals} (${summary.unlimitedApprovals} unlimited)`);
+    lines.push(`Overall Risk Level: ${summary.overallRiskLevel.toUpperCase()}`);
+    lines.push(`Average Risk Score: ${summary.averageRiskScore}/100`);
+    lines.push('');
+    lines.push(`  Critical/High Risk: ${summary.highRiskCount}`);
+    lines.push(`  Medium Risk: ${summary.mediumRiskCount}`);
+    lines.push(`  Low Risk: ${summary.lowRiskCount}`);
+    lines.push('');
+
+    lines.push('─'.repeat(60));
+    lines.push('WALLETS');
+    lines.push('─'.repeat(60));
+    for (const wallet of report.wallets) {
+      const tags = wallet.tags.length > 0 ? ` [${wallet.tags.join(', ')}]` : '';
+      lines.push(`${wallet.label ?? shortenAddress(wallet.address)}${tags}`);
+      lines.push(`   Address: ${wallet.address}`);
+      if (!wallet.report) {
+        lines.push(`   Scan failed: ${wallet.error ?? 'unknown error'}`);
+        continue;
       }
-      return value;
-    };
-    
-    const csvLines = [
-      headers.map(escapeCsvValue).join(','),
-      ...rows.map(row => row.map(escapeCsvValue).join(',')),
+      const walletSummary = wallet.report.summary;
+      lines.push(
+        `   ${walletSummary.overallRiskLevel.toUpperCase()} (${walletSummary.totalRiskScore}/100): ` +
+        `${walletSummary.totalApprovals} approvals, ${walletSummary.highRiskCount} critical/high, ` +
+        `${wallet.report.recommendations.length} to revoke`
+      );
+      for (const chain of wallet.report.chains?.filter((c) => c.error) ?? []) {
+        lines.push(`   ${chain.chainName} (${chain.chainId}) not scanned: ${chain.error}`);
+      }
+    }
+    lines.push('');
+
+    if (report.sharedSpenders.length > 0) {
+      lines.push('─'.repeat(60));
+      lines.push('SHARED RISKY SPENDERS');
+      lines.push('─'.repeat(60));
+      report.sharedSpenders.forEach((spender, index) => {
+        lines.push(`${index + 1}. ${spender.spenderName ?? shortenAddress(spender.spenderAddress)}`);
+        lines.push(`   Address: ${spender.spenderAddress}`);
+        lines.push(
+          `   Approved by ${spender.wallets.length} wallets (${spender.approvals} approvals, ` +
+          `${spender.unlimitedApprovals} unlimited) on chains ${spender.chainIds.join(', ')}`
+        );
+        lines.push(`   Highest Risk: ${spender.riskLevel.toUpperCase()} (${spender.highestRiskScore}/100)`);
+        lines.push('');
+      });
+    }
+
+    lines.push('═'.repeat(60));
+    lines.push('END OF REPORT');
+    lines.push('═'.repeat(60));
+
+    return lines.join('\n');
+  }
+
+  private formatPortfolioAsCsv(report: PortfolioReport): string {
+    const headers = ['Wallet Label', 'Wallet Address', 'Wallet Tags', 'Chain ID', ...CSV_HEADERS];
+    const rows = report.wallets.flatMap((wallet) => {
+      const walletColumns = [wallet.label ?? '', wallet.address, wallet.tags.join('; ')];
+      return wallet.report
+        ? this.csvRows(wallet.report, true).map((row) => [...walletColumns, ...row])
+        : [];
+    });
+
+    return toCsv(headers, rows);
+  }
+
+  /**
+   * Renders the owners exposed to one spender, in the order of the result
+   * (largest amount at risk first).
+   */
+  formatExposure(result: SpenderExposureResult, format: ReportFormat): string {
+    switch (format) {
+      case 'text':
+        return this.formatExposureAsText(result);
+      case 'csv':
+        return this.formatExposureAsCsv(result);
+      default:
+        return JSON.stringify(result, bigintReplacer, 2);
+    }
+  }
+
+  private formatExposureAsText(result: SpenderExposureResult): string {
+    const { summary, scanMetadata } = result;
+    const lines: string[] = [];
+
+    lines.push('═'.repeat(60));
+    lines.push('APPROVAL GUARD - SPENDER EXPOSURE REPORT');
+    lines.push('═'.repeat(60));
+    lines.push('');
+    lines.push(`Spender: ${result.spenderAddress}`);
+    lines.push(`Chain: ${scanMetadata.chainId}`);
+    lines.push(`Blocks: ${scanMetadata.fromBlock} to ${scanMetadata.blockNumber}`);
+    lines.push(`Generated: ${formatDate(new Date(scanMetadata.scanTime))}`);
+    lines.push('');
+    lines.push('─'.repeat(60));
+    lines.push('SUMMARY');
+    lines.push('─'.repeat(60));
+    lines.push(`Exposed Owners: ${summary.owners}`);
+    lines.push(`Tokens: ${summary.tokens}`);
+    lines.push(`Live Approvals: ${summary.approvals} (${summary.unlimitedApprovals} unlimited)`);
+    lines.push('');
+
+    if (result.exposures.length > 0) {
+      lines.push('─'.repeat(60));
+      lines.push('EXPOSED OWNERS');
+      lines.push('─'.repeat(60));
+      result.exposures.forEach((entry, index) => {
+        const { approval } = entry;
+        lines.push(`${index + 1}. ${entry.ownerAddress}`);
+        lines.push(`   Token: ${approval.tokenSymbol ?? 'UNKNOWN'} (${approval.tokenAddress})`);
+        lines.push(`   Allowance: ${formatAllowance(approval)}`);
+        if (entry.balance !== undefined) {
+          lines.push(`   Balance: ${formatTokenAmount(entry.balance, approval.tokenDecimals)}`);
+        }
+        lines.push(`   At Risk: ${formatAmountAtRisk(entry)}`);
+        lines.push('');
+      });
+    }
+
+    lines.push('═'.repeat(60));
+    lines.push('END OF REPORT');
+    lines.push('═'.repeat(60));
+
+    return lines.join('\n');
+  }
+
+  private formatExposureAsCsv(result: SpenderExposureResult): string {
+    const headers = [
+      'Owner Address',
+      'Token Symbol',
+      'Token Name',
+      'Token Address',
+      'Kind',
+      'Allowance',
+      'Is Unlimited',
+      'Balance',
+      'Amount At Risk',
+      'Approval Block',
+      'Transaction Hash',
     ];
-    
-    return csvLines.join('\n');
+
+    const rows = result.exposures.map(({ ownerAddress, approval, balance, amountAtRisk }) => [
+      ownerAddress,
+      approval.tokenSymbol ?? '',
+      approval.tokenName ?? '',
+      approval.tokenAddress,
+      approval.kind ?? 'allowance',
+      approval.kind === 'allowance' || approval.kind === undefined
+        ? approval.allowance.toString()
+        : formatAllowance(approval),
+      approval.isUnlimited ? 'true' : 'false',
+      balance?.toString() ?? '',
+      amountAtRisk?.toString() ?? '',
+      approval.blockNumber?.toString() ?? '',
+      approval.transactionHash ?? '',
+    ]);
+
+    return toCsv(headers, rows);
+  }
+
+  /**
+   * Renders a token approval census: text lists the spenders, CSV one row
+   * per allowance with its spender's label.
+   */
+  formatTokenApprovals(census: TokenApprovalCensus, format: ReportFormat): string {
+    switch (format) {
+      case 'text':
+        return this.formatTokenApprovalsAsText(census);
+      case 'csv':
+        return this.formatTokenApprovalsAsCsv(census);
+      default:
+        return JSON.stringify(census, bigintReplacer, 2);
+    }
+  }
+
+  private formatTokenApprovalsAsText(census: TokenApprovalCensus): string {
+    const { summary, scanMetadata } = census;
+    const lines: string[] = [];
+
+    lines.push('═'.repeat(60));
+    lines.push('APPROVAL GUARD - TOKEN APPROVALS REPORT');
+    lines.push('═'.repeat(60));
+    lines.push('');
+    lines.push(`Token: ${census.tokenSymbol ?? 'UNKNOWN'} (${census.tokenAddress})`);
+    lines.push(`Chain: ${scanMetadata.chainId}`);
+    lines.push(`Blocks: ${scanMetadata.fromBlock} to ${scanMetadata.blockNumber}`);
+    lines.push(`Generated: ${formatDate(new Date(scanMetadata.scanTime))}`);
+    lines.push('');
+    lines.push('─'.repeat(60));
+    lines.push('SUMMARY');
+    lines.push('─'.repeat(60));
+    lines.push(`Owners: ${summary.owners}`);
+    lines.push(`Spenders: ${summary.spenders}`);
+    lines.push(`Live Allowances: ${summary.approvals} (${summary.unlimitedApprovals} unlimited)`);
+    lines.push(`Flagged Spenders: ${summary.flaggedSpenders} (unknown or unverified with ${summary.minAllowances}+ allowances, or blocked)`);
+    lines.push('');
+
+    if (census.spenders.length > 0) {
+      lines.push('─'.repeat(60));
+      lines.push('SPENDERS');
+      lines.push('─'.repeat(60));
+      census.spenders.forEach((spender, index) => {
+        lines.push(`${index + 1}. ${spender.flagged ? '[FLAGGED] ' : ''}${spender.spenderName ?? 'Unknown spender'}`);
+        lines.push(`   Address: ${spender.spenderAddress}`);
+        lines.push(`   Status: ${formatSpenderStatus(spender)}`);
+        lines.push(`   Allowances: ${spender.approvals.length} from ${spender.owners} owners (${spender.unlimitedApprovals} unlimited)`);
+        lines.push('');
+      });
+    }
+
+    lines.push('═'.repeat(60));
+    lines.push('END OF REPORT');
+    lines.push('═'.repeat(60));
+
+    return lines.join('\n');
+  }
+
+  private formatTokenApprovalsAsCsv(census: TokenApprovalCensus): string {
+    const headers = [
+      'Spender Address',
+      'Spender Name',
+      'Spender Status',
+      'Flagged',
+      'Owner Address',
+      'Kind',
+      'Allowance',
+      'Is Unlimited',
+      'Approval Block',
+      'Transaction Hash',
+    ];
+
+    const rows = census.spenders.flatMap((spender) => spender.approvals.map((approval) => [
+      spender.spenderAddress,
+      spender.spenderName ?? '',
+      formatSpenderStatus(spender),
+      spender.flagged ? 'true' : 'false',
+      approval.ownerAddress ?? '',
+      approval.kind ?? 'allowance',
+      approval.kind === 'allowance' || approval.kind === undefined
+        ? approval.allowance.toString()
+        : formatAllowance(approval),
+      approval.isUnlimited ? 'true' : 'false',
+      approval.blockNumber?.toString() ?? '',
+      approval.transactionHash ?? '',
+    ]));
+
+    return toCsv(headers, rows);
   }
 
   async saveReport(
@@ -204,3 +590,61 @@ export class ReportGenerator {
     return resolvedPath;
   }
 }
+
+function isApprovalReport(value: unknown): value is ApprovalReport {
+  if (typeof value !== 'object' || value === null) return false;
+  const report = value as Partial<ApprovalReport>;
+  return (
+    typeof report.walletAddress === 'string' &&
+    typeof report.summary === 'object' && report.summary !== null &&
+    typeof report.riskModel === 'object' && report.riskModel !== null &&
+    Array.isArray(report.approvals) &&
+    Array.isArray(report.recommendations)
+  );
+}
+
+function recommendationKey(recommendation: RevocationRecommendation): string {
+  return approvalKey({
+    kind: recommendation.kind,
+    tokenAddress: recommendation.tokenAddress as Address,
+    spenderAddress: recommendation.spenderAddress as Address,
+    tokenId: recommendation.tokenId !== undefined ? BigInt(recommendation.tokenId) : undefined,
+  });
+}
+
+function toCsv(headers: string[], rows: string[][]): string {
+  const escapeCsvValue = (value: string): string => {
+    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  };
+
+  return [
+    headers.map(escapeCsvValue).join(','),
+    ...rows.map(row => row.map(escapeCsvValue).join(',')),
+  ].join('\n');
+}
+
+function chainName(report: ApprovalReport, chainId: number): string {
+  const chain = report.chains?.find((c) => c.chainId === chainId);
+  return chain ? `${chain.chainName} (${chainId})` : String(chainId);
+}
+
+function formatModel(model: RiskModelInfo): string {
+  return `${model.id}@${model.version}`;
+}
+
+function toReportRow(approval: ApprovalLike): ApprovalData {
+  return isApprovalData(approval) ? approval : toApprovalData(toApproval(approval));
+}
+
+function parseAllowance(value: unknown): bigint {
+  try {
+    return BigInt(value as string);
+  } catch {
+    throw new ValidationError(`Invalid allowance in report: ${String(value)}`, [
+      { field: 'allowance', message: 'Must be a decimal integer string', value },
+    ]);
+  }
+}
@@ -0,0 +1,256 @@
+import { NetworkError } from '../errors/network-error.js';
+import { delay, retryWithBackoff } from '../utils/batch-processor.js';
+import { toNetworkError } from '../utils/rpc-errors.js';
+
+/**
+ * What a provider plan allows per second. Both limits are enforced as
+ * token buckets holding one second's worth, so short bursts up to the
+ * limit go out at once.
+ */
+export interface RequestBudget {
+  requestsPerSecond?: number;
+  computeUnitsPerSecond?: number;
+}
+
+export interface RequestSchedulerOptions {
+  /** Budget of every provider (default: unlimited) */
+  budget?: RequestBudget;
+  /** Budgets of single providers by URL, in place of `budget` */
+  budgets?: Record<string, RequestBudget>;
+  /** Compute units per JSON-RPC method, merged over `DEFAULT_COMPUTE_UNITS` */
+  computeUnits?: Record<string, number>;
+  /** Further attempts of a request failing with a retryable error (default: 3) */
+  maxRetries?: number;
+  /** First backoff delay in ms, doubled per attempt and jittered (default: 250) */
+  baseDelayMs?: number;
+  /** Longest wait for a Retry-After, in ms (default: 30s) */
+  maxRetryAfterMs?: number;
+}
+
+export interface ProviderRequestStats {
+  provider: string;
+  requests: number;
+  computeUnits: number;
+  /** Responses asking to slow down (HTTP 429 and rate-limit JSON-RPC errors) */
+  rateLimited: number;
+  /** Time requests spent waiting for budget or a Retry-After, in ms */
+  waitedMs: number;
+  /** Most requests sent in one clock second */
+  peakRequestsPerSecond: number;
+  /** Most compute units spent in one clock second */
+  peakComputeUnitsPerSecond: number;
+  budget?: RequestBudget;
+}
+
+export interface RequestSchedulerStats {
+  /** Attempts made again after a retryable error */
+  retries: number;
+  /** Requests still failing once the retries ran out */
+  exhausted: number;
+  providers: ProviderRequestStats[];
+}
+
+/**
+ * Compute units per method, after the pricing common to hosted providers.
+ * Methods not listed cost `DEFAULT_METHOD_COST`.
+ */
+export const DEFAULT_COMPUTE_UNITS: Record<string, number> = {
+  eth_chainId: 0,
+  eth_blockNumber: 10,
+  eth_getBlockByNumber: 16,
+  eth_getBlockByHash: 16,
+  eth_getTransactionReceipt: 15,
+  eth_getCode: 26,
+  eth_call: 26,
+  eth_getLogs: 75,
+};
+
+export const DEFAULT_METHOD_COST = 20;
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Provider {
+  stats: ProviderRequestStats;
+  requestBucket?: Bucket;
+  unitBucket?: Bucket;
+  pausedUntil: number;
+  // Requests take their turn in order, so a burst cannot overdraw a bucket
+  queue: Promise<void>;
+  second: number;
+  secondRequests: number;
+  secondUnits: number;
+}
+
+/**
+ * Paces requests to each provider within its budget, holds a provider
+ * back for as long as it asks after rate limiting, and retries requests
+ * failing with a retryable `NetworkError` with jittered backoff.
+ */
+export class RequestScheduler {
+  private readonly options: RequestSchedulerOptions;
+  private readonly computeUnits: Record<string, number>;
+  private readonly providers = new Map<string, Provider>();
+  private retries = 0;
+  private exhausted = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.options = options;
+    this.computeUnits = { ...DEFAULT_COMPUTE_UNITS, ...options.computeUnits };
+  }
+
+  costOf(method: string): number {
+    return this.computeUnits[method] ?? DEFAULT_METHOD_COST;
+  }
+
+  /**
+   * Waits until `provider` may be sent a `method` request, then counts it.
+   */
+  acquire(provider: string, method: string): Promise<void> {
+    const state = this.provider(provider);
+    const requestedAt = Date.now();
+    const turn = state.queue.then(() => this.take(state, this.costOf(method), requestedAt));
+    state.queue = turn;
+    return turn;
+  }
+
+  /**
+   * Holds every request to `provider` back for `retryAfterMs`, or for the
+   * first backoff delay when the provider named no wait.
+   */
+  noteRateLimit(provider: string, retryAfterMs?: number): void {
+    const state = this.provider(provider);
+    const wait = Math.min(retryAfterMs ?? this.options.baseDelayMs ?? 250, this.maxRetryAfterMs);
+    state.stats.rateLimited++;
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + wait);
+  }
+
+  /**
+   * Runs `request`, trying again while it fails with an error `classify`
+   * calls retryable. A Retry-After the error carries replaces the backoff.
+   */
+  async run<T>(
+    request: () => Promise<T>,
+    classify: (error: unknown) => NetworkError | null = toNetworkError
+  ): Promise<T> {
+    try {
+      return await retryWithBackoff(request, this.options.maxRetries ?? 3, this.options.baseDelayMs ?? 250, {
+        shouldRetry: (error) => classify(error)?.retryable ?? false,
+        retryAfterMs: (error) => {
+          const retryAfterMs = classify(error)?.retryAfterMs;
+          return retryAfterMs !== undefined ? Math.min(retryAfterMs, this.maxRetryAfterMs) : undefined;
+        },
+        jitter: true,
+        onRetry: () => {
+          this.retries++;
+        },
+      });
+    } catch (error) {
+      if (classify(error)?.retryable) {
+        this.exhausted++;
+      }
+      throw error;
+    }
+  }
+
+  stats(): RequestSchedulerStats {
+    return {
+      retries: this.retries,
+      exhausted: this.exhausted,
+      providers: Array.from(this.providers.values(), ({ stats }) => ({ ...stats })),
+    };
+  }
+
+  private get maxRetryAfterMs(): number {
+    return this.options.maxRetryAfterMs ?? 30_000;
+  }
+
+  private provider(url: string): Provider {
+    let state = this.providers.get(url);
+    if (!state) {
+      const budget = this.options.budgets?.[url] ?? this.options.budget;
+      state = {
+        stats: {
+          provider: url,
+          requests: 0,
+          computeUnits: 0,
+          rateLimited: 0,
+          waitedMs: 0,
+          peakRequestsPerSecond: 0,
+          peakComputeUnitsPerSecond: 0,
+          budget,
+        },
+        requestBucket: createBucket(budget?.requestsPerSecond),
+        unitBucket: createBucket(budget?.computeUnitsPerSecond),
+        pausedUntil: 0,
+        queue: Promise.resolve(),
+        second: 0,
+        secondRequests: 0,
+        secondUnits: 0,
+      };
+      this.providers.set(url, state);
+    }
+    return state;
+  }
+
+  private async take(state: Provider, cost: number, requestedAt: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(
+        state.pausedUntil - now,
+        waitFor(state.requestBucket, 1, now),
+        waitFor(state.unitBucket, cost, now)
+      );
+      if (wait <= 0) break;
+      await delay(wait);
+    }
+
+    const now = Date.now();
+    spend(state.requestBucket, 1, now);
+    spend(state.unitBucket, cost, now);
+
+    const { stats } = state;
+    stats.requests++;
+    stats.computeUnits += cost;
+    stats.waitedMs += now - requestedAt;
+
+    const second = Math.floor(now / 1000);
+    if (second !== state.second) {
+      state.second = second;
+      state.secondRequests = 0;
+      state.secondUnits = 0;
+    }
+    state.secondRequests++;
+    state.secondUnits += cost;
+    stats.peakRequestsPerSecond = Math.max(stats.peakRequestsPerSecond, state.secondRequests);
+    stats.peakComputeUnitsPerSecond = Math.max(stats.peakComputeUnitsPerSecond, state.secondUnits);
+  }
+}
+
+function createBucket(perSecond: number | undefined): Bucket | undefined {
+  return perSecond !== undefined && perSecond > 0
+    ? { capacity: perSecond, tokens: perSecond, updatedAt: Date.now() }
+    : undefined;
+}
+
+function refill(bucket: Bucket, now: number): void {
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.capacity / 1000);
+  bucket.updatedAt = now;
+}
+
+// A request costing more than a whole second's budget waits for a full bucket
+function waitFor(bucket: Bucket | undefined, cost: number, now: number): number {
+  if (!bucket) return 0;
+  refill(bucket, now);
+  const needed = Math.min(cost, bucket.capacity) - bucket.tokens;
+  return needed > 0 ? Math.ceil(needed * 1000 / bucket.capacity) : 0;
+}
+
+function spend(bucket: Bucket | undefined, cost: number, now: number): void {
+  if (!bucket) return;
+  refill(bucket, now);
+  bucket.tokens -= Math.min(cost, bucket.capacity);
+}
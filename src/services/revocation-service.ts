@@ -1,5 +1,11 @@
-import { Approval, RiskScore, RevocationRecommendation, RiskLevel } from '../types.js';
-import { RISK_THRESHOLDS } from '../constants.js';
+import { Approval, RiskScore, RevocationRecommendation, RevocationUrgency } from '../types.js';
+import {
+  approvalKey,
+  buildRevocationCall,
+  isOperatorApproval,
+  isSingleTokenApproval,
+  isUnlimitedApproval,
+} from '../approval/index.js';
 
 export interface RevocationPriority {
   approval: Approval;
@@ -21,40 +27,56 @@ export class RevocationService {
     approvals: Approval[],
     riskScores: Map<string, RiskScore>
   ): RevocationRecommendation[] {
-    const recommendations: RevocationRecommendation[] = [];
+    return this.assess(approvals, riskScores).map(p => p.recommendation);
+  }
+
+  /**
+   * Pairs every scored approval with its recommendation, most urgent first.
+   */
+  private assess(
+    approvals: Approval[],
+    riskScores: Map<string, RiskScore>
+  ): RevocationPriority[] {
+    const assessed: RevocationPriority[] = [];
 
     for (const approval of approvals) {
-      const key = this.getApprovalKey(approval);
-      const riskScore = riskScores.get(key);
+      const riskScore = riskScores.get(approvalKey(approval));
 
       if (!riskScore) {
         continue;
       }
 
       const recommendation = this.createRecommendation(approval, riskScore);
-      recommendations.push(recommendation);
+      assessed.push({
+        approval,
+        riskScore,
+        recommendation,
+        priority: this.calculatePriorityScore(riskScore),
+      });
     }
 
-    return this.sortByPriority(recommendations);
+    return this.sortByUrgency(assessed);
   }
 
   private createRecommendation(
     approval: Approval,
     riskScore: RiskScore
   ): RevocationRecommendation {
-    const shouldRevoke = this.shouldRecommendRevocation(riskScore);
     const urgency = this.calculateUrgency(riskScore);
-    const reason = this.generateReason(approval, riskScore);
-    const estimatedGasCost = this.estimateGasCost();
 
     return {
-      approval,
-      riskScore,
-      shouldRevoke,
+      kind: approval.kind,
+      tokenAddress: approval.tokenAddress,
+      tokenId: approval.tokenId?.toString(),
+      tokenSymbol: approval.tokenSymbol,
+      spenderAddress: approval.spenderAddress,
+      spenderName: approval.spenderName,
+      shouldRevoke: this.shouldRecommendRevocation(riskScore),
+      priority: urgency === 'immediate' || urgency === 'high' ? 3 : urgency === 'medium' ? 2 : 1,
+      reason: this.generateReason(approval, riskScore),
       urgency,
-      reason,
-      estimatedGasCost,
-      createdAt: new Date(),
+      estimatedGas: this.estimateGasCost().toString(),
+      revocation: buildRevocationCall(approval),
     };
   }
 
@@ -70,7 +92,7 @@ export class RevocationService {
     return false;
   }
 
-  private calculateUrgency(riskScore: RiskScore): 'immediate' | 'high' | 'medium' | 'low' {
+  private calculateUrgency(riskScore: RiskScore): RevocationUrgency {
     if (riskScore.level === 'critical') {
       return 'immediate';
     }
@@ -89,21 +111,29 @@ export class RevocationService {
   private generateReason(approval: Approval, riskScore: RiskScore): string {
     const reasons: string[] = [];
 
-    if (approval.isUnlimited) {
+    if (isUnlimitedApproval(approval)) {
       reasons.push('Unlimited approval poses significant risk if spender is compromised');
     }
 
+    if (isOperatorApproval(approval)) {
+      reasons.push('Operator can transfer every token in the collection; revoke with setApprovalForAll(operator, false)');
+    }
+
+    if (isSingleTokenApproval(approval)) {
+      reasons.push(`Spender can transfer token #${approval.tokenId ?? '?'}; clear with approve(address(0), tokenId)`);
+    }
+
     const dormantFactor = riskScore.factors.find(f => f.name === 'dormant_approval');
     if (dormantFactor) {
       reasons.push('Approval has been dormant and may no longer be needed');
     }
 
-    const unknownFactor = riskScore.factors.find(f => f.name === 'unknown_spender');
+    const unknownFactor = riskScore.factors.find(f => f.name === 'unverified_spender');
     if (unknownFactor) {
       reasons.push('Spender contract is not verified or recognized');
     }
 
-    const highValueFactor = riskScore.factors.find(f => f.name === 'high_value_approval');
+    const highValueFactor = riskScore.factors.find(f => f.name === 'high_value');
     if (highValueFactor) {
       reasons.push('High value at risk relative to wallet holdings');
     }
@@ -121,51 +151,40 @@ export class RevocationService {
     return BigInt(45000);
   }
 
-  private sortByPriority(recommendations: RevocationRecommendation[]): RevocationRecommendation[] {
-    const urgencyOrder = {
+  private sortByUrgency(assessed: RevocationPriority[]): RevocationPriority[] {
+    const urgencyOrder: Record<RevocationUrgency, number> = {
       immediate: 0,
       high: 1,
       medium: 2,
       low: 3,
     };
 
-    return recommendations.sort((a, b) => {
-      const urgencyDiff = urgencyOrder[a.urgency] - urgencyOrder[b.urgency];
+    return assessed.sort((a, b) => {
+      const urgencyDiff =
+        urgencyOrder[a.recommendation.urgency ?? 'low'] - urgencyOrder[b.recommendation.urgency ?? 'low'];
       if (urgencyDiff !== 0) {
         return urgencyDiff;
       }
 
-      return b.riskScore.score - a.riskScore.score;
+      return b.riskScore.overall - a.riskScore.overall;
     });
   }
 
-  private getApprovalKey(approval: Approval): string {
-    return `${approval.tokenAddress.toLowerCase()}-${approval.spenderAddress.toLowerCase()}`;
-  }
-
   getPrioritizedRevocations(
     approvals: Approval[],
     riskScores: Map<string, RiskScore>
   ): RevocationPriority[] {
-    const recommendations = this.generateRecommendations(approvals, riskScores);
-
-    return recommendations
-      .filter(rec => rec.shouldRevoke)
-      .map(rec => ({
-        approval: rec.approval,
-        riskScore: rec.riskScore,
-        recommendation: rec,
-        priority: this.calculatePriorityScore(rec),
-      }))
+    return this.assess(approvals, riskScores)
+      .filter(p => p.recommendation.shouldRevoke)
       .sort((a, b) => b.priority - a.priority);
   }
 
-  private calculatePriorityScore(recommendation: RevocationRecommendation): number {
-    let score = recommendation.riskScore.score;
+  private calculatePriorityScore(riskScore: RiskScore): number {
+    let score = riskScore.overall;
 
-    for (const factor of recommendation.riskScore.factors) {
+    for (const factor of riskScore.factors) {
       const weight = this.riskWeights[factor.name as keyof typeof this.riskWeights] || 1;
-      score += factor.impact * weight;
+      score += factor.score * weight;
     }
 
     return score;
@@ -177,7 +196,7 @@ export class RevocationService {
   ): bigint {
     const revocationsNeeded = recommendations.filter(r => r.shouldRevoke);
     const totalGas = revocationsNeeded.reduce(
-      (sum, r) => sum + r.estimatedGasCost,
+      (sum, r) => sum + BigInt(r.estimatedGas ?? this.estimateGasCost()),
       BigInt(0)
     );
 
@@ -205,7 +224,7 @@ export class RevocationService {
       if (!rec.shouldRevoke) {
         summary.noAction++;
       } else {
-        summary[rec.urgency]++;
+        summary[rec.urgency ?? 'low']++;
       }
     }
 
@@ -1,6 +1,8 @@
-import type { ApprovalInfo, RiskAssessment } from '../types';
-import { RiskCalculator, RiskLevel } from '../risk';
+import type { Approval, RiskAssessment, RiskLevel } from '../types';
+import { RiskCalculator } from '../risk';
 import { HistoryTracker } from '../history';
+import { isUnlimitedApproval } from '../approval';
+import { addressEquals } from '../utils/address';
 
 export interface RiskAnalysisOptions {
   includeHistory?: boolean;
@@ -37,22 +39,23 @@ export class RiskAnalysisService {
   }
 
   async analyzeApproval(
-    approval: ApprovalInfo,
+    approval: Approval,
     options: RiskAnalysisOptions = {}
   ): Promise<RiskAssessment> {
     const { includeHistory = true } = options;
 
-    const baseRisk = this.riskCalculator.calculateRisk(approval);
+    const baseRisk = await this.riskCalculator.calculateApprovalRisk(approval);
 
     let historyRisk = 0;
-    if (includeHistory && this.historyTracker) {
-      const history = await this.historyTracker.getHistory(approval.owner);
-      const approvalHistory = history.find(
-        h => h.tokenAddress === approval.tokenAddress && h.spender === approval.spender
+    if (includeHistory && this.historyTracker && approval.ownerAddress) {
+      const history = await this.historyTracker.getApprovalHistory(approval.ownerAddress);
+      const timeline = history.timelines.find(
+        t => addressEquals(t.tokenAddress, approval.tokenAddress) &&
+          addressEquals(t.spender, approval.spenderAddress)
       );
 
-      if (approvalHistory) {
-        const daysSinceApproval = this.calculateDaysSince(approvalHistory.timestamp);
+      if (timeline) {
+        const daysSinceApproval = this.calculateDaysSince(timeline.firstApproval);
         if (daysSinceApproval > 365) {
           historyRisk = this.weights.dormantApproval;
         } else if (daysSinceApproval > 180) {
@@ -62,19 +65,20 @@ export class RiskAnalysisService {
     }
 
     const totalScore = Math.min(100, baseRisk.score + historyRisk);
-    const riskLevel = this.determineRiskLevel(totalScore);
+    const riskLevel = this.riskCalculator.levelFor(totalScore);
 
     return {
-      approval,
+      tokenAddress: approval.tokenAddress,
+      spenderAddress: approval.spenderAddress,
       riskScore: totalScore,
       riskLevel,
-      factors: baseRisk.factors,
+      factors: baseRisk.breakdown.map(b => b.category),
       recommendations: this.generateRecommendations(approval, riskLevel),
     };
   }
 
   async analyzeMultipleApprovals(
-    approvals: ApprovalInfo[],
+    approvals: Approval[],
     options: RiskAnalysisOptions = {}
   ): Promise<RiskAssessment[]> {
     const assessments: RiskAssessment[] = [];
@@ -101,13 +105,6 @@ export class RiskAnalysisService {
     return Math.min(100, Math.round(weightedScore));
   }
 
-  private determineRiskLevel(score: number): RiskLevel {
-    if (score >= 80) return 'critical';
-    if (score >= 60) return 'high';
-    if (score >= 40) return 'medium';
-    return 'low';
-  }
-
   private calculateDaysSince(timestamp: number): number {
     const now = Date.now();
     const diff = now - timestamp;
@@ -115,13 +112,12 @@ export class RiskAnalysisService {
   }
 
   private generateRecommendations(
-    approval: ApprovalInfo,
+    approval: Approval,
     riskLevel: RiskLevel
   ): string[] {
     const recommendations: string[] = [];
 
-    const maxUint256 = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
-    const isUnlimited = BigInt(approval.allowance) >= maxUint256 / 2n;
+    const isUnlimited = isUnlimitedApproval(approval);
 
     if (riskLevel === 'critical') {
       recommendations.push('Immediate revocation recommended');
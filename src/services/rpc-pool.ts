@@ -0,0 +1,314 @@
+import {
+  custom,
+  decodeFunctionData,
+  http,
+  multicall3Abi,
+  toFunctionSelector,
+  type EIP1193RequestFn,
+  type Hex,
+  type Transport,
+} from 'viem';
+import { NetworkError } from '../errors/network-error.js';
+import { classifyLimitError } from './log-fetcher.js';
+import { RequestScheduler, RequestSchedulerOptions, RequestSchedulerStats } from './request-scheduler.js';
+import { toNetworkError } from '../utils/rpc-errors.js';
+
+/**
+ * `failover` sends every request to the first healthy endpoint, in the
+ * order given; `round-robin` spreads requests over all healthy endpoints.
+ */
+export type RpcPoolMode = 'failover' | 'round-robin';
+
+export interface RpcPoolOptions {
+  mode?: RpcPoolMode;
+  /** Send critical reads to two endpoints and record disagreements (default: false) */
+  quorum?: boolean;
+  /** How long an endpoint is skipped after its first failure, in ms (default: 30s) */
+  cooldownMs?: number;
+  /** Longest skip after repeated failures, in ms (default: 5 minutes) */
+  maxCooldownMs?: number;
+  /** Per-provider budgets and the retry policy; see `RequestScheduler` */
+  scheduler?: RequestSchedulerOptions;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  requests: number;
+  failures: number;
+  /** Failures since the endpoint last answered */
+  consecutiveFailures: number;
+  /** Moving average over answered requests */
+  averageLatencyMs?: number;
+  /** Set while the endpoint is skipped (ms since epoch) */
+  coolingDownUntil?: number;
+  lastError?: string;
+}
+
+/**
+ * Two endpoints answering a critical read differently at the same block.
+ */
+export interface RpcDisagreement {
+  method: string;
+  blockNumber: bigint;
+  endpoints: [string, string];
+  results: [unknown, unknown];
+}
+
+interface Endpoint {
+  url: string;
+  request: EIP1193RequestFn;
+  health: RpcEndpointHealth;
+}
+
+type RequestArguments = Parameters<EIP1193RequestFn>[0];
+
+// `allowance(owner, spender)` of ERC-20 and `allowance(owner, token, spender)` of Permit2
+const ALLOWANCE_SELECTORS = new Set<string>([
+  toFunctionSelector('allowance(address,address)'),
+  toFunctionSelector('allowance(address,address,address)'),
+]);
+const AGGREGATE3_SELECTOR = toFunctionSelector('aggregate3((address,bool,bytes)[])');
+
+const LATENCY_WEIGHT = 0.2;
+
+/**
+ * Spreads RPC requests over several endpoints of one chain. An endpoint
+ * failing with a retryable `NetworkError` is skipped for a cooldown that
+ * doubles with each further failure, and the request moves on to the next
+ * endpoint. Reverts, range limits and other answers from a node are passed
+ * through as they are: another endpoint would answer the same.
+ *
+ * With `quorum`, reads of current allowances and block hashes at a fixed
+ * block go to two endpoints; the first answer is used and any difference is
+ * kept in `disagreements`.
+ *
+ * Every request to an endpoint is paced by a `RequestScheduler`, which also
+ * retries a request once every endpoint has failed it.
+ */
+export class RpcPool {
+  private readonly endpoints: Endpoint[];
+  private readonly mode: RpcPoolMode;
+  private readonly quorum: boolean;
+  private readonly cooldownMs: number;
+  private readonly maxCooldownMs: number;
+  private readonly scheduler: RequestScheduler;
+  private next = 0;
+  private found: RpcDisagreement[] = [];
+
+  constructor(
+    urls: string[],
+    options: RpcPoolOptions = {},
+    createEndpoint: (url: string) => Transport = (url): Transport => http(url, { retryCount: 0 })
+  ) {
+    if (urls.length === 0) {
+      throw new Error('RpcPool needs at least one endpoint');
+    }
+
+    this.endpoints = [...new Set(urls)].map((url) => ({
+      url,
+      request: createEndpoint(url)({ retryCount: 0 }).request,
+      health: { url, requests: 0, failures: 0, consecutiveFailures: 0 },
+    }));
+    this.mode = options.mode ?? 'failover';
+    this.quorum = options.quorum ?? false;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.maxCooldownMs = options.maxCooldownMs ?? 5 * 60_000;
+    this.scheduler = new RequestScheduler(options.scheduler);
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  /** Disagreements found by quorum reads so far */
+  get disagreements(): RpcDisagreement[] {
+    return [...this.found];
+  }
+
+  /**
+   * Returns the disagreements found so far and forgets them.
+   */
+  takeDisagreements(): RpcDisagreement[] {
+    return this.found.splice(0);
+  }
+
+  health(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(({ health }) => ({
+      ...health,
+      coolingDownUntil: health.coolingDownUntil !== undefined && health.coolingDownUntil > now
+        ? health.coolingDownUntil
+        : undefined,
+    }));
+  }
+
+  /** Requests, compute units and rate limiting per endpoint */
+  requestStats(): RequestSchedulerStats {
+    return this.scheduler.stats();
+  }
+
+  /**
+   * A viem transport sending through this pool. Retries are left to the
+   * pool's scheduler rather than viem.
+   */
+  transport(): Transport {
+    return custom({ request: (args: RequestArguments) => this.request(args) }, {
+      key: 'rpcPool',
+      name: 'RPC Pool',
+      retryCount: 0,
+    });
+  }
+
+  private request(args: RequestArguments): Promise<unknown> {
+    return this.scheduler.run(() => this.dispatch(args), classifyFailure);
+  }
+
+  private async dispatch(args: RequestArguments): Promise<unknown> {
+    const blockNumber = this.quorum && this.endpoints.length > 1 ? criticalReadBlock(args) : null;
+    if (blockNumber === null) {
+      return (await this.send(args, this.order())).result;
+    }
+
+    const order = this.order();
+    const [first, second] = await Promise.allSettled([
+      this.send(args, order),
+      this.send(args, [...order.slice(1), order[0]]),
+    ]);
+
+    if (first.status === 'rejected') {
+      if (second.status === 'rejected') throw first.reason;
+      return second.value.result;
+    }
+    if (second.status === 'fulfilled' && second.value.endpoint !== first.value.endpoint) {
+      const compared = [first.value.result, second.value.result].map((result) =>
+        args.method === 'eth_getBlockByNumber' ? (result as { hash?: Hex } | null)?.hash ?? null : result
+      );
+      if (JSON.stringify(compared[0]) !== JSON.stringify(compared[1])) {
+        this.found.push({
+          method: args.method,
+          blockNumber,
+          endpoints: [first.value.endpoint.url, second.value.endpoint.url],
+          results: [compared[0], compared[1]],
+        });
+      }
+    }
+    return first.value.result;
+  }
+
+  /**
+   * Tries each endpoint in `order` until one answers.
+   */
+  private async send(args: RequestArguments, order: Endpoint[]): Promise<{ result: unknown; endpoint: Endpoint }> {
+    let lastError: unknown;
+
+    for (const endpoint of order) {
+      const { health } = endpoint;
+      await this.scheduler.acquire(endpoint.url, args.method);
+      const started = Date.now();
+      health.requests++;
+
+      try {
+        const result = await endpoint.request(args);
+        const latency = Date.now() - started;
+        health.averageLatencyMs = health.averageLatencyMs === undefined
+          ? latency
+          : health.averageLatencyMs * (1 - LATENCY_WEIGHT) + latency * LATENCY_WEIGHT;
+        health.consecutiveFailures = 0;
+        health.coolingDownUntil = undefined;
+        return { result, endpoint };
+      } catch (error) {
+        const failure = classifyFailure(error);
+        if (!failure) {
+          // The node answered; count the endpoint as healthy
+          health.consecutiveFailures = 0;
+          throw error;
+        }
+
+        health.failures++;
+        health.consecutiveFailures++;
+        health.lastError = failure.message;
+        if (failure.statusCode === 429) {
+          this.scheduler.noteRateLimit(endpoint.url, failure.retryAfterMs);
+        }
+        health.coolingDownUntil = Date.now() + (failure.retryAfterMs ?? Math.min(
+          this.cooldownMs * 2 ** (health.consecutiveFailures - 1),
+          this.maxCooldownMs
+        ));
+
+        lastError = error;
+        if (!failure.retryable) throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Healthy endpoints first, rotated per request in round-robin mode, then
+   * the ones cooling down, soonest back first, as a last resort.
+   */
+  private order(): Endpoint[] {
+    const now = Date.now();
+    const isCooling = (endpoint: Endpoint): boolean => (endpoint.health.coolingDownUntil ?? 0) > now;
+
+    let healthy = this.endpoints.filter((endpoint) => !isCooling(endpoint));
+    const cooling = this.endpoints
+      .filter(isCooling)
+      .sort((a, b) => (a.health.coolingDownUntil ?? 0) - (b.health.coolingDownUntil ?? 0));
+
+    if (this.mode === 'round-robin' && healthy.length > 1) {
+      const start = this.next++ % healthy.length;
+      healthy = [...healthy.slice(start), ...healthy.slice(0, start)];
+    }
+
+    return [...healthy, ...cooling];
+  }
+}
+
+// Range and result limits are the node's answer to a query, which LogFetcher splits
+function classifyFailure(error: unknown): NetworkError | null {
+  return classifyLimitError(error) ? null : toNetworkError(error);
+}
+
+/**
+ * The block of a read worth cross-checking: a block by number, or an
+ * allowance read, directly or within a Multicall3 batch. Reads at a tag
+ * such as `latest` are not compared, as two endpoints may be at different
+ * heights. Returns null for any other request.
+ */
+function criticalReadBlock({ method, params }: RequestArguments): bigint | null {
+  const args = Array.isArray(params) ? params : [];
+
+  if (method === 'eth_getBlockByNumber') {
+    return isBlockNumber(args[0]) ? BigInt(args[0]) : null;
+  }
+  if (method !== 'eth_call' || !isBlockNumber(args[1])) {
+    return null;
+  }
+
+  const call = args[0] as { data?: Hex; input?: Hex } | undefined;
+  const data = call?.data ?? call?.input;
+  return data && readsAllowance(data) ? BigInt(args[1]) : null;
+}
+
+function readsAllowance(data: Hex): boolean {
+  const selector = data.slice(0, 10);
+  if (ALLOWANCE_SELECTORS.has(selector)) {
+    return true;
+  }
+  if (selector !== AGGREGATE3_SELECTOR) {
+    return false;
+  }
+
+  try {
+    const { args } = decodeFunctionData({ abi: multicall3Abi, data });
+    const calls = args[0] as readonly { callData: Hex }[];
+    return calls.some(({ callData }) => ALLOWANCE_SELECTORS.has(callData.slice(0, 10)));
+  } catch {
+    return false;
+  }
+}
+
+function isBlockNumber(value: unknown): value is Hex {
+  return typeof value === 'string' && /^0x[0-9a-f]+$/i.test(value);
+}
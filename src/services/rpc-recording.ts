@@ -0,0 +1,210 @@
+import * as fs from 'fs/promises';
+import {
+  BaseError,
+  HttpRequestError,
+  RpcRequestError,
+  custom,
+  type EIP1193RequestFn,
+  type Transport,
+} from 'viem';
+import { NetworkError } from '../errors/network-error.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { writeFileAtomic } from '../utils/file-system.js';
+
+/**
+ * Version of the `RpcRecordingFile` layout. Files with another version are
+ * rejected rather than replayed partially.
+ */
+export const RPC_RECORDING_SCHEMA_VERSION = 1;
+
+/**
+ * How a recorded request failed: a JSON-RPC error the node answered with,
+ * or an HTTP status the endpoint returned.
+ */
+export interface RecordedRpcError {
+  message: string;
+  code?: number;
+  data?: unknown;
+  status?: number;
+}
+
+export interface RecordedRpcExchange {
+  method: string;
+  params?: unknown;
+  result?: unknown;
+  error?: RecordedRpcError;
+}
+
+export interface RpcRecordingFile {
+  schemaVersion: number;
+  chainId?: number;
+  recordedAt: string;
+  exchanges: RecordedRpcExchange[];
+}
+
+type RequestArguments = Parameters<EIP1193RequestFn>[0];
+
+/**
+ * Collects the JSON-RPC exchanges of a scan, in the order they completed.
+ */
+export class RpcRecorder {
+  private readonly exchanges: RecordedRpcExchange[] = [];
+
+  constructor(private readonly chainId?: number) {}
+
+  get size(): number {
+    return this.exchanges.length;
+  }
+
+  record(exchange: RecordedRpcExchange): void {
+    this.exchanges.push(exchange);
+  }
+
+  toJSON(): RpcRecordingFile {
+    return {
+      schemaVersion: RPC_RECORDING_SCHEMA_VERSION,
+      chainId: this.chainId,
+      recordedAt: new Date().toISOString(),
+      exchanges: [...this.exchanges],
+    };
+  }
+
+  async save(filePath: string): Promise<void> {
+    await writeFileAtomic(filePath, JSON.stringify(this.toJSON(), null, 2));
+  }
+}
+
+/**
+ * Wraps `transport` so every request and its result or error is kept in
+ * `recorder`. Requests are passed on unchanged.
+ */
+export function recordingTransport(transport: Transport, recorder: RpcRecorder): Transport {
+  return (config) => {
+    const { request } = transport(config);
+
+    return custom({
+      request: async ({ method, params }: RequestArguments) => {
+        try {
+          const result = await request({ method, params } as RequestArguments);
+          recorder.record({ method, params, result });
+          return result;
+        } catch (error) {
+          recorder.record({ method, params, error: toRecordedError(error) });
+          throw error;
+        }
+      },
+    }, { key: 'recording', name: 'Recording', retryCount: 0 })(config);
+  };
+}
+
+/**
+ * A transport answering from a recording, without a network. Requests are
+ * matched on method and parameters; a request made several times gets the
+ * recorded answers in order, then the last one again. Recorded errors are
+ * thrown as the same kind of viem error, so reverts still read as reverts.
+ *
+ * A request the recording lacks fails with a non-retryable `NetworkError`.
+ */
+export function replayTransport(recording: RpcRecordingFile): Transport {
+  const answers = new Map<string, RecordedRpcExchange[]>();
+  for (const exchange of recording.exchanges) {
+    const key = requestKey(exchange.method, exchange.params);
+    answers.set(key, [...(answers.get(key) ?? []), exchange]);
+  }
+  const served = new Map<string, number>();
+
+  return custom({
+    request: async ({ method, params }: RequestArguments) => {
+      const key = requestKey(method, params);
+      const recorded = answers.get(key);
+      if (!recorded) {
+        throw new NetworkError(`No recorded response for ${method} ${stableStringify(params ?? [])}`, {
+          retryable: false,
+          details: { method, params },
+        });
+      }
+
+      const index = served.get(key) ?? 0;
+      served.set(key, index + 1);
+      const exchange = recorded[Math.min(index, recorded.length - 1)];
+      if (exchange.error) {
+        throw toReplayedError(exchange, params);
+      }
+      return exchange.result;
+    },
+  }, { key: 'replay', name: 'Replay', retryCount: 0 });
+}
+
+/**
+ * Reads and checks a recording written by `RpcRecorder.save`.
+ */
+export async function loadRpcRecording(filePath: string): Promise<RpcRecordingFile> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Cannot read RPC recording ${filePath}: ${message}`, [
+      { field: 'replay', message: 'File must exist and be valid JSON', value: filePath },
+    ]);
+  }
+
+  const recording = parsed as Partial<RpcRecordingFile> | null;
+  if (recording?.schemaVersion !== RPC_RECORDING_SCHEMA_VERSION || !Array.isArray(recording.exchanges)) {
+    throw new ValidationError(`Unsupported RPC recording ${filePath}`, [
+      {
+        field: 'replay',
+        message: `Must be a recording with schemaVersion ${RPC_RECORDING_SCHEMA_VERSION}`,
+        value: recording?.schemaVersion,
+      },
+    ]);
+  }
+
+  return recording as RpcRecordingFile;
+}
+
+function toRecordedError(error: unknown): RecordedRpcError {
+  if (error instanceof BaseError) {
+    const rpcError = error.walk((e) => e instanceof RpcRequestError) as RpcRequestError | null;
+    if (rpcError) {
+      return { message: rpcError.details, code: rpcError.code, data: rpcError.data };
+    }
+    const httpError = error.walk((e) => e instanceof HttpRequestError) as HttpRequestError | null;
+    if (httpError) {
+      return { message: httpError.details || httpError.shortMessage, status: httpError.status };
+    }
+    return { message: error.details || error.shortMessage };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+function toReplayedError({ method, error }: RecordedRpcExchange, params: unknown): Error {
+  const { message, code, data, status } = error as RecordedRpcError;
+  const body = { method, params };
+
+  if (code !== undefined) {
+    return new RpcRequestError({ body, error: { code, message, data }, url: 'replay' });
+  }
+  if (status !== undefined) {
+    return new HttpRequestError({ body, details: message, status, url: 'replay' });
+  }
+  return new Error(message);
+}
+
+function requestKey(method: string, params: unknown): string {
+  return `${method}:${stableStringify(params ?? [])}`;
+}
+
+// Object keys sorted, so the key does not depend on how a request was built
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,123 @@
+import { isAddress } from 'viem';
+import { SpenderLabel } from '../types.js';
+import { ValidationError, ValidationIssue } from '../errors/validation-error.js';
+import { isRecord } from '../utils/validation.js';
+import { loadStructuredFile, parseStructured, StructuredFormat } from '../utils/yaml.js';
+import { isPermit2 } from './permit2-service.js';
+
+/**
+ * One spender of a labels file. Labels are verified unless they say
+ * otherwise, so a file can also name contracts it does not vouch for.
+ */
+export interface SpenderLabelEntry {
+  address: string;
+  name: string;
+  verified?: boolean;
+}
+
+const ENTRY_KEYS = ['address', 'name', 'verified'];
+
+// Mainnet addresses; Permit2 is known on every chain
+const KNOWN_SPENDERS: Record<number, Record<string, string>> = {
+  1: {
+    '0x7a250d5630b4cf539739df2c5dacb4c659f2488d': 'Uniswap V2 Router',
+    '0xe592427a0aece92de3edee1f18e0157c05861564': 'Uniswap V3 Router',
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'Uniswap V3 Router 2',
+    '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad': 'Uniswap Universal Router',
+    '0x1111111254eeb25477b68fb85ed929f73a960582': '1inch Router v5',
+    '0xdef1c0ded9bec7f1a1670819833240f027b25eff': '0x Exchange Proxy',
+    '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2': 'Aave V3 Pool',
+  },
+};
+
+/**
+ * Spender names from labels files on top of the built-in well-known
+ * contracts. Entries are given in precedence order: when two name the same
+ * spender, the earlier one wins, and any label wins over a built-in name.
+ */
+export class SpenderLabelIndex {
+  private labels = new Map<string, SpenderLabel>();
+
+  constructor(entries: SpenderLabelEntry[] = []) {
+    for (const entry of entries) {
+      const key = entry.address.toLowerCase();
+      if (!this.labels.has(key)) {
+        this.labels.set(key, { name: entry.name, verified: entry.verified ?? true, source: 'labels' });
+      }
+    }
+  }
+
+  get(chainId: number, address: string): SpenderLabel | undefined {
+    const key = address.toLowerCase();
+    const labelled = this.labels.get(key);
+    if (labelled) return labelled;
+
+    const known = isPermit2(key) ? 'Uniswap Permit2' : KNOWN_SPENDERS[chainId]?.[key];
+    return known ? { name: known, verified: true, source: 'known' } : undefined;
+  }
+}
+
+/**
+ * Reads a spender labels file: a `spenders` list in JSON (`.json`) or YAML
+ * (anything else).
+ */
+export async function loadSpenderLabels(filePath: string): Promise<SpenderLabelEntry[]> {
+  return validateSpenderLabels(await loadStructuredFile(filePath, 'spenderLabels', 'spender labels'));
+}
+
+export function parseSpenderLabels(content: string, format: StructuredFormat): SpenderLabelEntry[] {
+  return validateSpenderLabels(parseStructured(content, format, 'spenderLabels', 'spender labels'));
+}
+
+/**
+ * Checks parsed spender labels, reporting every problem at once.
+ */
+export function validateSpenderLabels(value: unknown): SpenderLabelEntry[] {
+  if (!isRecord(value) || !Array.isArray(value.spenders)) {
+    throw new ValidationError('Spender labels must have a spenders list', [
+      { field: 'spenders', message: 'Must be a list of spenders', value },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, message: string, fieldValue?: unknown): void => {
+    issues.push({ field, message, value: fieldValue });
+  };
+
+  const addresses = new Set<string>();
+  value.spenders.forEach((spender, index) => {
+    const field = `spenders[${index}]`;
+    if (!isRecord(spender)) {
+      issue(field, 'must be a mapping with an address and a name', spender);
+      return;
+    }
+
+    for (const key of Object.keys(spender)) {
+      if (!ENTRY_KEYS.includes(key)) {
+        issue(`${field}.${key}`, `unknown key; expected one of ${ENTRY_KEYS.join(', ')}`);
+      }
+    }
+    if (typeof spender.address !== 'string' || !isAddress(spender.address, { strict: false })) {
+      issue(`${field}.address`, 'must be a valid Ethereum address', spender.address);
+    } else if (addresses.has(spender.address.toLowerCase())) {
+      issue(`${field}.address`, `duplicate spender ${spender.address}`, spender.address);
+    } else {
+      addresses.add(spender.address.toLowerCase());
+    }
+    if (typeof spender.name !== 'string' || spender.name.trim() === '') {
+      issue(`${field}.name`, 'name must be a non-empty string', spender.name);
+    }
+    if (spender.verified !== undefined && typeof spender.verified !== 'boolean') {
+      issue(`${field}.verified`, 'verified must be true or false', spender.verified);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid spender labels: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  return value.spenders as SpenderLabelEntry[];
+}
@@ -0,0 +1,162 @@
+import * as fs from 'fs/promises';
+import { isAddress } from 'viem';
+import { ValidationError, ValidationIssue } from '../errors/validation-error.js';
+import { isRecord } from '../utils/validation.js';
+
+/**
+ * One token of a list in the Uniswap Token List schema
+ * (https://uniswap.org/tokenlist.schema.json). Fields this tool does not use,
+ * such as `tags` and `extensions`, are dropped when a list is parsed.
+ */
+export interface TokenListEntry {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+export interface TokenList {
+  name: string;
+  version?: { major: number; minor: number; patch: number };
+  tokens: TokenListEntry[];
+}
+
+/**
+ * A token as merged from every loaded list. Its fields come from the first
+ * list that names it; `lists` holds the name of every list that does.
+ */
+export interface ListedToken extends TokenListEntry {
+  lists: string[];
+}
+
+/**
+ * Token lists merged per chain. Lists are given in precedence order: when
+ * two lists disagree about a token, the earlier one wins.
+ */
+export class TokenListIndex {
+  private tokens = new Map<string, ListedToken>();
+
+  constructor(lists: TokenList[] = []) {
+    for (const list of lists) {
+      for (const entry of list.tokens) {
+        const key = listKey(entry.chainId, entry.address);
+        const existing = this.tokens.get(key);
+        if (!existing) {
+          this.tokens.set(key, { ...entry, address: entry.address.toLowerCase(), lists: [list.name] });
+        } else if (!existing.lists.includes(list.name)) {
+          existing.lists.push(list.name);
+        }
+      }
+    }
+  }
+
+  get(chainId: number, address: string): ListedToken | undefined {
+    return this.tokens.get(listKey(chainId, address));
+  }
+
+  /** How many tokens the lists name on `chainId` */
+  count(chainId: number): number {
+    return Array.from(this.tokens.values()).filter((token) => token.chainId === chainId).length;
+  }
+}
+
+/**
+ * Reads and validates a token list file.
+ */
+export async function loadTokenList(filePath: string): Promise<TokenList> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Cannot read token list ${filePath}: ${message}`, [
+      { field: 'tokenList', message: 'File must exist and be valid JSON', value: filePath },
+    ]);
+  }
+
+  return parseTokenList(parsed);
+}
+
+/**
+ * Checks an already parsed token list, reporting every problem at once.
+ */
+export function parseTokenList(value: unknown): TokenList {
+  if (!isRecord(value)) {
+    throw new ValidationError('Token list must be an object', [
+      { field: 'tokenList', message: 'Must be a token list with name and tokens', value },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, message: string, fieldValue?: unknown): void => {
+    issues.push({ field, message, value: fieldValue });
+  };
+
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    issue('name', 'name must be a non-empty string', value.name);
+  }
+
+  const version = value.version;
+  if (version !== undefined && !(isRecord(version) &&
+    ['major', 'minor', 'patch'].every((part) => Number.isInteger(version[part])))) {
+    issue('version', 'version must have integer major, minor and patch', version);
+  }
+
+  const tokens: TokenListEntry[] = [];
+  if (!Array.isArray(value.tokens)) {
+    issue('tokens', 'tokens must be an array', value.tokens);
+  } else {
+    value.tokens.forEach((token: unknown, i) => {
+      const field = `tokens[${i}]`;
+      if (!isRecord(token)) {
+        issue(field, 'must be an object', token);
+        return;
+      }
+
+      const before = issues.length;
+      if (!Number.isInteger(token.chainId) || (token.chainId as number) <= 0) {
+        issue(`${field}.chainId`, 'must be a positive integer', token.chainId);
+      }
+      if (typeof token.address !== 'string' || !isAddress(token.address, { strict: false })) {
+        issue(`${field}.address`, 'must be a valid Ethereum address', token.address);
+      }
+      for (const key of ['name', 'symbol'] as const) {
+        if (typeof token[key] !== 'string') {
+          issue(`${field}.${key}`, 'must be a string', token[key]);
+        }
+      }
+      if (!Number.isInteger(token.decimals) || (token.decimals as number) < 0 || (token.decimals as number) > 255) {
+        issue(`${field}.decimals`, 'must be an integer between 0 and 255', token.decimals);
+      }
+      if (issues.length > before) return;
+
+      tokens.push({
+        chainId: token.chainId as number,
+        address: token.address as string,
+        name: token.name as string,
+        symbol: token.symbol as string,
+        decimals: token.decimals as number,
+        logoURI: typeof token.logoURI === 'string' ? token.logoURI : undefined,
+      });
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid token list: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  return {
+    name: value.name as string,
+    version: version as TokenList['version'],
+    tokens,
+  };
+}
+
+function listKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
@@ -1,20 +1,88 @@
-import { createPublicClient, http, type Address, type PublicClient } from 'viem';
-import { mainnet, goerli, sepolia, polygon, arbitrum, optimism } from 'viem/chains';
-import { config } from '../config.js';
+import {
+  createPublicClient,
+  hexToString,
+  http,
+  parseAbi,
+  type Address,
+  type PublicClient,
+} from 'viem';
+import { getConfig } from '../config.js';
 import { NetworkError } from '../errors/index.js';
-import { ApprovalCache } from '../cache/approval-cache.js';
+import { isRpcFailure } from '../utils/rpc-errors.js';
+import { MemoryTokenMetadataStore, TokenMetadataStore } from '../cache/token-metadata-store.js';
+import type {
+  MetadataConfidence,
+  TokenMetadataConfidence,
+  TokenMetadataRecord,
+  TokenMetadataSource,
+} from '../cache/types.js';
+import type { TokenStandard } from '../types.js';
+import { CallResult, ContractCall, MulticallReader } from './multicall-reader.js';
+import { TokenListIndex } from './token-list.js';
+
+/** Fields compared between a token list and the token contract */
+export type TokenListField = 'symbol' | 'decimals';
 
 export interface TokenMetadata {
   address: Address;
   name: string;
   symbol: string;
-  decimals: number;
+  /** Unset when the token has no `decimals()`; amounts then cannot be scaled */
+  decimals?: number;
   totalSupply?: bigint;
   logoUrl?: string;
   verified?: boolean;
   priceUsd?: number;
+  /** Where name, symbol and decimals came from */
+  source?: TokenMetadataSource;
+  /** When name, symbol and decimals were resolved (ms since epoch) */
+  resolvedAt?: number;
+  /** How far each of name, symbol and decimals can be trusted */
+  confidence?: TokenMetadataConfidence;
+  /** Names of the loaded token lists that include the token */
+  lists?: string[];
+  /**
+   * Fields the token contract answers differently from the token list, a
+   * sign of a list entry pointing at an impersonating contract
+   */
+  listMismatches?: TokenListField[];
+}
+
+export interface TokenMetadataServiceOptions {
+  /** Chain the store is scoped to (default: the client's chain, else mainnet) */
+  chainId?: number;
+  /** Keeps resolved metadata between runs (default: in memory only) */
+  store?: TokenMetadataStore;
+  /** How long a `totalSupply` read stays fresh, in ms (default: 1 hour) */
+  supplyTtl?: number;
+  /** Token lists whose members count as verified, merged by `TokenListIndex` */
+  tokenLists?: TokenListIndex;
+  /** Batches contract reads (default: Multicall3 where the chain has it) */
+  reader?: MulticallReader;
+}
+
+/**
+ * Name and symbol of an ERC-721 or ERC-1155 collection. ERC-1155 makes both
+ * optional, and `standard` is only set when the contract answers ERC-165.
+ */
+export interface CollectionMetadata {
+  address: Address;
+  name?: string;
+  symbol?: string;
+  standard?: TokenStandard;
 }
 
+const COLLECTION_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+]);
+
+const ERC165_INTERFACE_IDS = {
+  erc721: '0x80ac58cd',
+  erc1155: '0xd9b67a26',
+} as const;
+
 const ERC20_ABI = [
   {
     name: 'name',
@@ -46,167 +114,390 @@ const ERC20_ABI = [
   },
 ] as const;
 
-const KNOWN_TOKENS: Record<string, Partial<TokenMetadata>> = {
-  '0xdac17f958d2ee523a2206206994597c13d831ec7': {
-    name: 'Tether USD',
-    symbol: 'USDT',
-    decimals: 6,
-    verified: true,
-  },
-  '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': {
-    name: 'USD Coin',
-    symbol: 'USDC',
-    decimals: 6,
-    verified: true,
-  },
-  '0x6b175474e89094c44da98b954eedeac495271d0f': {
-    name: 'Dai Stablecoin',
-    symbol: 'DAI',
-    decimals: 18,
-    verified: true,
-  },
-  '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599': {
-    name: 'Wrapped BTC',
-    symbol: 'WBTC',
-    decimals: 8,
-    verified: true,
-  },
-  '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': {
-    name: 'Wrapped Ether',
-    symbol: 'WETH',
-    decimals: 18,
-    verified: true,
+// Pre-standard tokens such as MKR return their name and symbol as bytes32
+const BYTES32_METADATA_ABI = parseAbi([
+  'function name() view returns (bytes32)',
+  'function symbol() view returns (bytes32)',
+]);
+
+const TOKEN_FIELDS = ['name', 'symbol', 'decimals', 'totalSupply'] as const;
+
+const HIGH_CONFIDENCE: TokenMetadataConfidence = { name: 'high', symbol: 'high', decimals: 'high' };
+
+/**
+ * Outcome of reading one metadata method: a value, a token without the
+ * method, or a read the RPC could not complete.
+ */
+type FieldRead<T> =
+  | { status: 'read'; value: T; confidence: MetadataConfidence }
+  | { status: 'missing' }
+  | { status: 'failed' };
+
+const DEFAULT_SUPPLY_TTL = 60 * 60 * 1000;
+
+// Mainnet addresses; other chains start with an empty list
+const KNOWN_TOKENS: Record<number, Record<string, Pick<TokenMetadata, 'name' | 'symbol' | 'decimals' | 'verified'>>> = {
+  1: {
+    '0xdac17f958d2ee523a2206206994597c13d831ec7': {
+      name: 'Tether USD',
+      symbol: 'USDT',
+      decimals: 6,
+      verified: true,
+    },
+    '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': {
+      name: 'USD Coin',
+      symbol: 'USDC',
+      decimals: 6,
+      verified: true,
+    },
+    '0x6b175474e89094c44da98b954eedeac495271d0f': {
+      name: 'Dai Stablecoin',
+      symbol: 'DAI',
+      decimals: 18,
+      verified: true,
+    },
+    '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599': {
+      name: 'Wrapped BTC',
+      symbol: 'WBTC',
+      decimals: 8,
+      verified: true,
+    },
+    '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': {
+      name: 'Wrapped Ether',
+      symbol: 'WETH',
+      decimals: 18,
+      verified: true,
+    },
   },
 };
 
-const CHAIN_MAP = {
-  mainnet,
-  goerli,
-  sepolia,
-  polygon,
-  arbitrum,
-  optimism,
-} as const;
-
 export class TokenMetadataService {
   private client: PublicClient;
-  private cache: ApprovalCache;
-  private metadataCache: Map<string, TokenMetadata> = new Map();
+  private chainId: number;
+  private store: TokenMetadataStore;
+  private supplyTtl: number;
+  private tokenLists: TokenListIndex;
+  private reader: MulticallReader;
+  private metadataCache: Map<string, TokenMetadataRecord> = new Map();
+  private collectionCache: Map<string, CollectionMetadata> = new Map();
 
-  constructor(rpcUrl?: string) {
-    const chain = CHAIN_MAP[config.network as keyof typeof CHAIN_MAP] || mainnet;
-    
-    this.client = createPublicClient({
-      chain,
-      transport: http(rpcUrl || config.rpcUrl),
-    });
-    
-    this.cache = new ApprovalCache();
+  constructor(client?: PublicClient, options: TokenMetadataServiceOptions = {}) {
+    if (client) {
+      this.client = client;
+    } else {
+      const appConfig = getConfig();
+      this.client = createPublicClient({
+        chain: appConfig.chain,
+        transport: http(appConfig.rpcUrl),
+      });
+    }
+    this.chainId = options.chainId ?? this.client.chain?.id ?? 1;
+    this.store = options.store ?? new MemoryTokenMetadataStore();
+    this.supplyTtl = options.supplyTtl ?? DEFAULT_SUPPLY_TTL;
+    this.tokenLists = options.tokenLists ?? new TokenListIndex();
+    this.reader = options.reader ?? new MulticallReader(this.client);
   }
 
+  /**
+   * Resolves token metadata from this run's cache, then the store, then the
+   * built-in list, then the token contract. Name, symbol and decimals are
+   * kept once resolved; `totalSupply` of tokens read from the chain is read
+   * again when older than the supply TTL.
+   *
+   * Tokens on a loaded token list are verified, and their on-chain symbol
+   * and decimals are checked against the list.
+   */
   async getTokenMetadata(tokenAddress: Address): Promise<TokenMetadata> {
-    const normalizedAddress = tokenAddress.toLowerCase();
-    
-    // Check in-memory cache first
-    const cached = this.metadataCache.get(normalizedAddress);
-    if (cached) {
-      return cached;
+    const [metadata] = await this.resolveTokens([tokenAddress]);
+    return metadata;
+  }
+
+  /**
+   * Resolves many tokens as `getTokenMetadata` does, reading the ones not
+   * yet known in shared batches rather than token by token.
+   */
+  async getMultipleTokenMetadata(tokenAddresses: Address[]): Promise<Map<Address, TokenMetadata>> {
+    const uniqueAddresses = [...new Set(tokenAddresses)];
+
+    let resolved: TokenMetadata[];
+    try {
+      resolved = await this.resolveTokens(uniqueAddresses);
+    } catch {
+      resolved = uniqueAddresses.map((address) => ({
+        address,
+        name: 'Unknown',
+        symbol: 'UNKNOWN',
+        verified: false,
+        confidence: { name: 'none', symbol: 'none', decimals: 'none' },
+      }));
+    }
+
+    return new Map(uniqueAddresses.map((address, i) => [address, resolved[i]]));
+  }
+
+  private async resolveTokens(tokenAddresses: Address[]): Promise<TokenMetadata[]> {
+    const records = new Map<string, TokenMetadataRecord>();
+    const unresolved = new Map<string, Address>();
+    const stale: TokenMetadataRecord[] = [];
+
+    for (const tokenAddress of tokenAddresses) {
+      const normalizedAddress = tokenAddress.toLowerCase();
+      if (records.has(normalizedAddress) || unresolved.has(normalizedAddress)) continue;
+
+      const record = this.metadataCache.get(normalizedAddress)
+        ?? await this.store.get(this.chainId, normalizedAddress)
+        ?? await this.resolveKnownToken(normalizedAddress);
+
+      if (!record) {
+        unresolved.set(normalizedAddress, tokenAddress);
+        continue;
+      }
+      records.set(normalizedAddress, record);
+      if (record.refreshedAt !== undefined && Date.now() - record.refreshedAt >= this.supplyTtl) {
+        stale.push(record);
+      }
+    }
+
+    const [fetched, refreshed] = await Promise.all([
+      this.fetchTokenMetadata(Array.from(unresolved.values())),
+      this.refreshTotalSupply(stale),
+    ]);
+    for (const record of [...fetched, ...refreshed]) {
+      records.set(record.address, record);
+    }
+
+    for (const [normalizedAddress, record] of records) {
+      this.metadataCache.set(normalizedAddress, record);
     }
 
-    // Check known tokens
-    const known = KNOWN_TOKENS[normalizedAddress];
-    if (known && known.name && known.symbol && known.decimals !== undefined) {
-      const metadata: TokenMetadata = {
-        address: tokenAddress,
-        name: known.name,
-        symbol: known.symbol,
-        decimals: known.decimals,
-        verified: known.verified,
-      };
-      this.metadataCache.set(normalizedAddress, metadata);
+    return tokenAddresses.map((tokenAddress) =>
+      this.applyTokenList(tokenAddress, records.get(tokenAddress.toLowerCase()) as TokenMetadataRecord)
+    );
+  }
+
+  private applyTokenList(tokenAddress: Address, record: TokenMetadataRecord): TokenMetadata {
+    const metadata = toTokenMetadata(tokenAddress, record);
+    const listed = this.tokenLists.get(this.chainId, record.address);
+    if (!listed) {
       return metadata;
     }
 
-    // Fetch from chain
-    return this.fetchTokenMetadata(tokenAddress);
+    const listMismatches = record.source === 'chain'
+      ? (['symbol', 'decimals'] as const).filter((field) => record[field] !== listed[field])
+      : [];
+    return {
+      ...metadata,
+      verified: true,
+      logoUrl: listed.logoURI,
+      lists: listed.lists,
+      listMismatches: listMismatches.length > 0 ? listMismatches : undefined,
+    };
+  }
+
+  private async resolveKnownToken(normalizedAddress: string): Promise<TokenMetadataRecord | null> {
+    const known = KNOWN_TOKENS[this.chainId]?.[normalizedAddress];
+    if (!known) {
+      return null;
+    }
+
+    const record: TokenMetadataRecord = {
+      ...known,
+      chainId: this.chainId,
+      address: normalizedAddress,
+      source: 'builtin',
+      confidence: HIGH_CONFIDENCE,
+      resolvedAt: Date.now(),
+    };
+    await this.store.put([record]);
+    return record;
   }
 
-  private async fetchTokenMetadata(tokenAddress: Address): Promise<TokenMetadata> {
+  /**
+   * Reads every field from the token contracts, falling back per field to
+   * the token list. A record is stored unless a read failed in transport or
+   * a field came from a list; a token lacking a method is stored as such,
+   * so it is not asked again.
+   */
+  private async fetchTokenMetadata(tokenAddresses: Address[]): Promise<TokenMetadataRecord[]> {
+    if (tokenAddresses.length === 0) {
+      return [];
+    }
+
     try {
-      const [name, symbol, decimals, totalSupply] = await Promise.all([
-        this.client.readContract({
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          functionName: 'name',
-        }).catch(() => 'Unknown Token'),
-        this.client.readContract({
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          functionName: 'symbol',
-        }).catch(() => 'UNKNOWN'),
-        this.client.readContract({
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          functionName: 'decimals',
-        }).catch(() => 18),
-        this.client.readContract({
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          functionName: 'totalSupply',
-        }).catch(() => undefined),
+      const reads = await this.reader.read(tokenAddresses.flatMap((address) =>
+        TOKEN_FIELDS.map((functionName): ContractCall => ({ address, abi: ERC20_ABI, functionName }))
+      ));
+      const [names, symbols] = await Promise.all([
+        this.readText(tokenAddresses, 'name', reads.filter((_, i) => i % 4 === 0)),
+        this.readText(tokenAddresses, 'symbol', reads.filter((_, i) => i % 4 === 1)),
       ]);
 
-      const metadata: TokenMetadata = {
-        address: tokenAddress,
-        name: name as string,
-        symbol: symbol as string,
-        decimals: decimals as number,
-        totalSupply: totalSupply as bigint | undefined,
-        verified: false,
-      };
+      const now = Date.now();
+      const resolved = tokenAddresses.map((tokenAddress, i) => {
+        const listed = this.tokenLists.get(this.chainId, tokenAddress);
+        const decimals = toDecimalsRead(reads[i * 4 + 2]);
+        const totalSupply = reads[i * 4 + 3];
 
-      this.metadataCache.set(tokenAddress.toLowerCase(), metadata);
-      return metadata;
+        const pick = <T>(read: FieldRead<T>, listedValue?: T): [T | undefined, MetadataConfidence] => {
+          if (read.status === 'read') return [read.value, read.confidence];
+          return listedValue !== undefined ? [listedValue, 'medium'] : [undefined, 'none'];
+        };
+        const [nameValue, nameConfidence] = pick(names[i], listed?.name);
+        const [symbolValue, symbolConfidence] = pick(symbols[i], listed?.symbol);
+        const [decimalsValue, decimalsConfidence] = pick(decimals, listed?.decimals);
+
+        const fields = [names[i], symbols[i], decimals];
+        const unread = fields.filter((read) => read.status !== 'read').length;
+        const fromList = listed !== undefined && unread === fields.length;
+
+        const record: TokenMetadataRecord = {
+          chainId: this.chainId,
+          address: tokenAddress.toLowerCase(),
+          name: nameValue ?? 'Unknown Token',
+          symbol: symbolValue ?? 'UNKNOWN',
+          decimals: decimalsValue,
+          totalSupply: totalSupply.status === 'success' ? totalSupply.result as bigint : undefined,
+          verified: false,
+          source: fromList ? 'list' : 'chain',
+          confidence: { name: nameConfidence, symbol: symbolConfidence, decimals: decimalsConfidence },
+          resolvedAt: now,
+          refreshedAt: fromList ? undefined : now,
+        };
+
+        const failed = fields.some((read) => read.status === 'failed');
+        return { record, storable: !failed && !(listed && unread > 0) };
+      });
+
+      await this.store.put(resolved.filter(({ storable }) => storable).map(({ record }) => record));
+      return resolved.map(({ record }) => record);
     } catch (error) {
-      throw new NetworkError(
-        `Failed to fetch metadata for token ${tokenAddress}`,
-        error instanceof Error ? error : undefined
-      );
+      throw new NetworkError(`Failed to fetch metadata for ${tokenAddresses.length} token(s)`, {
+        cause: error instanceof Error ? error : undefined,
+      });
     }
   }
 
-  async getMultipleTokenMetadata(tokenAddresses: Address[]): Promise<Map<Address, TokenMetadata>> {
-    const results = new Map<Address, TokenMetadata>();
-    const uniqueAddresses = [...new Set(tokenAddresses)];
+  /**
+   * Turns `name()` or `symbol()` results into field reads, asking again
+   * for bytes32 where the return did not decode as a string.
+   */
+  private async readText(
+    tokenAddresses: Address[],
+    functionName: 'name' | 'symbol',
+    results: CallResult[]
+  ): Promise<FieldRead<string>[]> {
+    const fields = results.map((result): FieldRead<string> => {
+      if (result.status === 'success') return { status: 'read', value: result.result as string, confidence: 'high' };
+      return isRpcFailure(result.error) ? { status: 'failed' } : { status: 'missing' };
+    });
 
-    const metadataPromises = uniqueAddresses.map(async (address) => {
-      try {
-        const metadata = await this.getTokenMetadata(address);
-        return { address, metadata };
-      } catch {
-        return {
-          address,
-          metadata: {
-            address,
-            name: 'Unknown',
-            symbol: 'UNKNOWN',
-            decimals: 18,
-            verified: false,
-          } as TokenMetadata,
-        };
+    const retry = fields.flatMap((field, i) => field.status === 'missing' ? [i] : []);
+    const retried = await this.reader.read<`0x${string}`>(retry.map((i) => ({
+      address: tokenAddresses[i],
+      abi: BYTES32_METADATA_ABI,
+      functionName,
+    })));
+
+    retried.forEach((result, j) => {
+      if (result.status === 'failure') {
+        fields[retry[j]] = isRpcFailure(result.error) ? { status: 'failed' } : { status: 'missing' };
+        return;
       }
+      const value = hexToString(result.result).replace(/\0+$/, '');
+      fields[retry[j]] = value ? { status: 'read', value, confidence: 'medium' } : { status: 'missing' };
     });
 
-    const resolvedMetadata = await Promise.all(metadataPromises);
-    
-    for (const { address, metadata } of resolvedMetadata) {
-      results.set(address, metadata);
+    return fields;
+  }
+
+  /**
+   * Reads `totalSupply` again. Where the read fails the stored value is kept
+   * and not retried until the TTL passes once more.
+   */
+  private async refreshTotalSupply(records: TokenMetadataRecord[]): Promise<TokenMetadataRecord[]> {
+    if (records.length === 0) {
+      return [];
     }
 
-    return results;
+    const reads = await this.reader.read<bigint>(records.map((record) => ({
+      address: record.address as Address,
+      abi: ERC20_ABI,
+      functionName: 'totalSupply',
+    })));
+
+    const now = Date.now();
+    const refreshed = records.map((record, i) => {
+      const read = reads[i];
+      return read.status === 'success'
+        ? { ...record, totalSupply: read.result, refreshedAt: now }
+        : { ...record, refreshedAt: now };
+    });
+
+    await this.store.put(refreshed.filter((_, i) => reads[i].status === 'success'));
+    return refreshed;
+  }
+
+  /**
+   * Reads collection metadata for an NFT contract. Every call is optional,
+   * so a contract that answers none of them still resolves.
+   */
+  async getCollectionMetadata(collectionAddress: Address): Promise<CollectionMetadata> {
+    const [metadata] = await this.resolveCollections([collectionAddress]);
+    return metadata;
+  }
+
+  /**
+   * Resolves many collections as `getCollectionMetadata` does, in shared
+   * batches.
+   */
+  async getMultipleCollectionMetadata(collectionAddresses: Address[]): Promise<Map<Address, CollectionMetadata>> {
+    const uniqueAddresses = [...new Set(collectionAddresses)];
+    const resolved = await this.resolveCollections(uniqueAddresses);
+    return new Map(uniqueAddresses.map((address, i) => [address, resolved[i]]));
+  }
+
+  private async resolveCollections(collectionAddresses: Address[]): Promise<CollectionMetadata[]> {
+    const unresolved = [...new Map(
+      collectionAddresses
+        .filter((address) => !this.collectionCache.has(address.toLowerCase()))
+        .map((address) => [address.toLowerCase(), address])
+    ).values()];
+
+    const reads = await this.reader.read(unresolved.flatMap((address): ContractCall[] => [
+      { address, abi: COLLECTION_ABI, functionName: 'name' },
+      { address, abi: COLLECTION_ABI, functionName: 'symbol' },
+      { address, abi: COLLECTION_ABI, functionName: 'supportsInterface', args: [ERC165_INTERFACE_IDS.erc721] },
+      { address, abi: COLLECTION_ABI, functionName: 'supportsInterface', args: [ERC165_INTERFACE_IDS.erc1155] },
+    ]));
+
+    unresolved.forEach((address, i) => {
+      const [name, symbol, isErc721, isErc1155] = reads
+        .slice(i * 4, i * 4 + 4)
+        .map((read) => read.status === 'success' ? read.result : undefined);
+
+      this.collectionCache.set(address.toLowerCase(), {
+        address,
+        name: name as string | undefined,
+        symbol: symbol as string | undefined,
+        standard: isErc721 === true ? 'erc721' : isErc1155 === true ? 'erc1155' : undefined,
+      });
+    });
+
+    return collectionAddresses.map((address) => ({
+      ...this.collectionCache.get(address.toLowerCase()) as CollectionMetadata,
+      address,
+    }));
   }
 
-  formatTokenAmount(amount: bigint, decimals: number): string {
+  /**
+   * Scales a raw amount by the token's decimals. Without decimals the raw
+   * amount is shown as such rather than scaled by a guess.
+   */
+  formatTokenAmount(amount: bigint, decimals: number | undefined): string {
+    if (decimals === undefined) {
+      return `${amount} (decimals unknown)`;
+    }
+
     const divisor = BigInt(10 ** decimals);
     const integerPart = amount / divisor;
     const fractionalPart = amount % divisor;
@@ -222,12 +513,39 @@ export class TokenMetadataService {
   }
 
   isKnownToken(tokenAddress: Address): boolean {
-    return tokenAddress.toLowerCase() in KNOWN_TOKENS;
+    return tokenAddress.toLowerCase() in (KNOWN_TOKENS[this.chainId] ?? {})
+      || this.tokenLists.get(this.chainId, tokenAddress) !== undefined;
   }
 
+  /**
+   * Forgets what this run has resolved. The store is left untouched.
+   */
   clearCache(): void {
     this.metadataCache.clear();
+    this.collectionCache.clear();
   }
 }
 
+function toDecimalsRead(result: CallResult): FieldRead<number> {
+  if (result.status === 'failure') {
+    return isRpcFailure(result.error) ? { status: 'failed' } : { status: 'missing' };
+  }
+  const value = Number(result.result);
+  return Number.isInteger(value) ? { status: 'read', value, confidence: 'high' } : { status: 'missing' };
+}
+
+function toTokenMetadata(tokenAddress: Address, record: TokenMetadataRecord): TokenMetadata {
+  return {
+    address: tokenAddress,
+    name: record.name,
+    symbol: record.symbol,
+    decimals: record.decimals,
+    totalSupply: record.totalSupply,
+    verified: record.verified,
+    source: record.source,
+    resolvedAt: record.resolvedAt,
+    confidence: record.confidence,
+  };
+}
+
 export const tokenMetadataService = new TokenMetadataService();
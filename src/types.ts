@@ -1,21 +1,158 @@
-import { Address } from 'viem';
+import type { Address, Hash } from 'viem';
 
+export type TokenStandard = 'erc20' | 'erc721' | 'erc1155';
+
+/**
+ * What an approval grants: an ERC-20 `allowance` of some amount, an
+ * `operator` approval (`setApprovalForAll`) over every token of an ERC-721
+ * or ERC-1155 collection, a single ERC-721 `token` (`approve(to, tokenId)`),
+ * or a `permit2` sub-allowance a spender holds inside Uniswap Permit2 for an
+ * ERC-20 the wallet has approved to Permit2.
+ */
+export type ApprovalKind = 'allowance' | 'operator' | 'token' | 'permit2';
+
+/**
+ * Canonical approval record: one allowance or operator approval granted by
+ * an owner to a spender, with every amount kept as a bigint. The other
+ * approval shapes below are views of this one; `src/approval` converts
+ * between them and provides the versioned JSON form.
+ */
+export interface Approval {
+  /** Defaults to `allowance` */
+  kind?: ApprovalKind;
+  tokenStandard?: TokenStandard;
+  tokenAddress: Address;
+  /** The approved ERC-721 token of a `token` approval */
+  tokenId?: bigint;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  spenderAddress: Address;
+  spenderName?: string;
+  spenderVerified?: boolean;
+  ownerAddress?: Address;
+  chainId?: number;
+  /**
+   * Allowance currently remaining. NFT approvals are 1n while approved and
+   * 0n once revoked.
+   */
+  value: bigint;
+  /** Amount the latest `Approval` log set, before any spending */
+  approvedValue?: bigint;
+  /** When a Permit2 sub-allowance stops being spendable */
+  expiration?: Date;
+  /** Permit2 signature nonce for the owner/token/spender triple */
+  nonce?: number;
+  transactionHash?: Hash;
+  blockNumber?: bigint;
+  logIndex?: number;
+  timestamp?: Date;
+  lastUsed?: Date;
+  usdValue?: number;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+  riskFactors?: string[];
+}
+
+/**
+ * JSON form of `Approval`: bigints as decimal strings, dates as ISO strings.
+ */
+export interface SerializedApproval {
+  schemaVersion: number;
+  kind?: ApprovalKind;
+  tokenStandard?: TokenStandard;
+  tokenAddress: string;
+  tokenId?: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  spenderAddress: string;
+  spenderName?: string;
+  spenderVerified?: boolean;
+  ownerAddress?: string;
+  chainId?: number;
+  value: string;
+  approvedValue?: string;
+  expiration?: string;
+  nonce?: number;
+  transactionHash?: string;
+  blockNumber?: string;
+  logIndex?: number;
+  timestamp?: string;
+  lastUsed?: string;
+  usdValue?: number;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+  riskFactors?: string[];
+}
+
+/**
+ * Scan and report row. `allowance` is the same bigint as `Approval.value`
+ * (the amount currently remaining) and `approvedAllowance` the same as
+ * `Approval.approvedValue`; `tokenId` is a decimal string.
+ */
 export interface ApprovalData {
+  kind?: ApprovalKind;
+  tokenStandard?: TokenStandard;
   tokenAddress: string;
+  tokenId?: string;
   tokenName?: string;
   tokenSymbol?: string;
   tokenDecimals?: number;
   spenderAddress: string;
   spenderName?: string;
-  ownerAddress: string;
+  ownerAddress?: string;
+  chainId?: number;
+  allowance: bigint;
+  approvedAllowance?: bigint;
+  isUnlimited: boolean;
+  expiration?: string;
+  nonce?: number;
+  blockNumber?: number;
+  transactionHash?: string;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+  riskFactors?: string[];
+  lastUsed?: string;
+  approvalDate?: string;
+}
+
+/**
+ * Approval row consumed by the filters in `utils/approval-filters`.
+ */
+export interface TokenApproval {
+  kind?: ApprovalKind;
+  tokenAddress: string;
+  tokenId?: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  spender: string;
+  spenderName?: string;
   allowance: string;
   isUnlimited: boolean;
-  blockNumber: number;
-  transactionHash: string;
   riskScore: number;
+  riskLevel: RiskLevel;
   riskFactors: string[];
   lastUsed?: string;
-  approvalDate?: string;
+  lastUpdated?: Date;
+  transactionHash?: string;
+  approvedAt?: number;
+  usdValue?: number;
+}
+
+/**
+ * Approval row returned by the pre-canonical `ApprovalService` API.
+ */
+export interface ApprovalInfo {
+  owner: Address;
+  tokenAddress: Address;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  spender: Address;
+  allowance: string;
+  blockNumber?: bigint;
+  transactionHash?: string;
 }
 
 export interface ScanOptions {
@@ -25,6 +162,16 @@ export interface ScanOptions {
   includeZeroAllowances?: boolean;
 }
 
+export interface ExposureOptions extends Pick<ScanOptions, 'fromBlock' | 'toBlock'> {
+  /** Only look at approvals from these owners (default: every owner) */
+  owners?: string[];
+}
+
+export interface TokenApprovalsOptions extends Pick<ScanOptions, 'fromBlock' | 'toBlock'> {
+  /** Allowances an unknown or unverified spender holds before it is flagged (default: 10) */
+  minAllowances?: number;
+}
+
 export interface ScanSummary {
   totalApprovals: number;
   unlimitedApprovals: number;
@@ -38,16 +185,116 @@ export interface ScanMetadata {
   scanTime: string;
   durationMs: number;
   fromCache: boolean;
+  chainId: number;
   rpcUrl: string;
+  blockNumber?: string;
+  /** Block an incremental scan continued from; unset for a full scan */
+  checkpointBlock?: string;
+  /** Critical reads two RPC endpoints answered differently (quorum mode) */
+  rpcDisagreements?: Array<{ method: string; blockNumber: string; endpoints: string[] }>;
+  riskModel: RiskModelInfo;
 }
 
 export interface ScanResult {
   walletAddress: string;
   approvals: ApprovalData[];
+  recommendations: RevocationRecommendation[];
   summary: ScanSummary;
   scanMetadata: ScanMetadata;
 }
 
+export interface ChainScanFailure {
+  chainId: number;
+  chainName: string;
+  error: string;
+  /** `ApprovalGuardError` code of the failure, when it had one */
+  code?: string;
+}
+
+/**
+ * One wallet scanned on several chains. `chains` holds each chain's own
+ * result by chain ID; `approvals`, `recommendations` and `summary` combine
+ * them, each row carrying its `chainId`. Chains whose scan failed are named
+ * in `failures` and left out of everything else.
+ */
+export interface MultiChainScanResult extends Omit<ScanResult, 'scanMetadata'> {
+  chains: Record<number, ScanResult>;
+  failures: ChainScanFailure[];
+  scanMetadata: {
+    scanTime: string;
+    durationMs: number;
+    /** Chains scanned, including those that failed */
+    chainIds: number[];
+    riskModel: RiskModelInfo;
+  };
+}
+
+/**
+ * One owner's live approval to the spender of an exposure scan.
+ */
+export interface ExposureEntry {
+  ownerAddress: string;
+  approval: ApprovalData;
+  /** Owner's token balance at the scanned block; unset for NFTs or when it cannot be read */
+  balance?: bigint;
+  /** What the spender can move now: the smaller of allowance and balance */
+  amountAtRisk?: bigint;
+}
+
+export interface SpenderExposureResult {
+  spenderAddress: string;
+  /** Largest amount at risk first, see `ApprovalScanner.spenderExposure` */
+  exposures: ExposureEntry[];
+  summary: {
+    owners: number;
+    tokens: number;
+    approvals: number;
+    unlimitedApprovals: number;
+  };
+  scanMetadata: Pick<ScanMetadata, 'scanTime' | 'durationMs' | 'chainId' | 'rpcUrl' | 'rpcDisagreements'> & {
+    fromBlock: string;
+    blockNumber: string;
+  };
+}
+
+/**
+ * One spender of a token approval census with the live allowances owners
+ * granted it. `labelSource` says where its name or trust comes from and is
+ * unset for an unknown spender.
+ */
+export interface TokenSpenderAllowances {
+  spenderAddress: string;
+  spenderName?: string;
+  labelSource?: SpenderLabelSource;
+  /** Named by a verified label or trusted by the risk policy, and not blocked by it */
+  spenderVerified: boolean;
+  blocked: boolean;
+  /** Blocked, or not verified and holding at least `minAllowances` allowances */
+  flagged: boolean;
+  owners: number;
+  unlimitedApprovals: number;
+  /** Largest allowance first */
+  approvals: ApprovalData[];
+}
+
+export interface TokenApprovalCensus {
+  tokenAddress: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  /** Most allowances first, see `ApprovalScanner.tokenApprovals` */
+  spenders: TokenSpenderAllowances[];
+  summary: {
+    owners: number;
+    spenders: number;
+    approvals: number;
+    unlimitedApprovals: number;
+    flaggedSpenders: number;
+    minAllowances: number;
+  };
+  scanMetadata: SpenderExposureResult['scanMetadata'];
+}
+
 export interface TokenMetadata {
   address: string;
   name: string;
@@ -63,13 +310,47 @@ export interface SpenderInfo {
   riskLevel?: 'low' | 'medium' | 'high' | 'critical';
 }
 
+export type SpenderLabelSource = 'known' | 'labels' | 'policy';
+
+/** A spender name from the built-in list or a labels file, see `SpenderLabelIndex` */
+export interface SpenderLabel {
+  name: string;
+  verified: boolean;
+  source: Exclude<SpenderLabelSource, 'policy'>;
+}
+
 export interface RevocationRecommendation {
-  approval: ApprovalData;
-  priority: 'critical' | 'high' | 'medium' | 'low';
+  /** Chain the revocation has to be sent on */
+  chainId?: number;
+  /** Kind of the approval, as in `Approval.kind` */
+  kind?: ApprovalKind;
+  tokenAddress: string;
+  /** The ERC-721 token of a `token` approval, as a decimal string */
+  tokenId?: string;
+  tokenSymbol?: string;
+  spenderAddress: string;
+  spenderName?: string;
+  shouldRevoke: boolean;
+  priority: number; // 3 = high, 2 = medium, 1 = low
   reason: string;
+  urgency?: RevocationUrgency;
   estimatedGas?: string;
+  revocation?: RevocationCall;
+}
+
+/**
+ * The transaction that revokes an approval, ready to sign. Arguments are
+ * decimal or hex strings so the call survives a JSON report.
+ */
+export interface RevocationCall {
+  to: string;
+  functionName: 'approve' | 'setApprovalForAll';
+  args: string[];
+  data: string;
 }
 
+export type RevocationUrgency = 'immediate' | 'high' | 'medium' | 'low';
+
 export interface ReportData {
   scanResult: ScanResult;
   recommendations: RevocationRecommendation[];
@@ -85,11 +366,166 @@ export interface ConfigOptions {
   batchSize?: number;
 }
 
-export type RiskLevel = 'critical' | 'high' | 'medium' | 'low';
+export const RiskLevel = {
+  CRITICAL: 'critical',
+  HIGH: 'high',
+  MEDIUM: 'medium',
+  LOW: 'low',
+  MINIMAL: 'minimal',
+} as const;
 
-export interface RiskAssessment {
-  level: RiskLevel;
+export type RiskLevel = typeof RiskLevel[keyof typeof RiskLevel];
+
+/**
+ * Minimum score for each level; anything below `low` is `minimal`.
+ */
+export interface RiskThresholds {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+/**
+ * Identifies the risk model that produced a score. Scores are only
+ * comparable between results carrying the same id, version, thresholds and
+ * rules.
+ */
+export interface RiskModelInfo {
+  id: string;
+  version: string;
+  thresholds: RiskThresholds;
+  /** Ids of the rules that ran, in order */
+  rules: string[];
+}
+
+export interface RiskFactor {
+  name: string;
   score: number;
+  description: string;
+  weight: number;
+}
+
+export interface RiskScore {
+  overall: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export interface RiskAssessment {
+  tokenAddress: string;
+  spenderAddress: string;
+  riskScore: number;
+  riskLevel: RiskLevel;
   factors: string[];
-  recommendations: string[];
+  recommendations?: string[];
+}
+
+export type ReportFormat = 'json' | 'text' | 'csv';
+
+export interface ReportSummary {
+  totalApprovals: number;
+  highRiskCount: number;
+  mediumRiskCount: number;
+  lowRiskCount: number;
+  totalRiskScore: number;
+  overallRiskLevel: RiskLevel;
+}
+
+export interface ReportApprovalEntry {
+  approval: ApprovalData;
+  riskAssessment: RiskAssessment;
+  recommendation?: RevocationRecommendation;
+}
+
+/**
+ * Summary of one chain in a multi-chain report; `error` instead of a
+ * summary when the chain could not be scanned.
+ */
+export interface ChainReportSummary {
+  chainId: number;
+  chainName: string;
+  summary?: ReportSummary;
+  error?: string;
+}
+
+export interface ApprovalReport {
+  walletAddress: string;
+  generatedAt: string;
+  riskModel: RiskModelInfo;
+  summary: ReportSummary;
+  approvals: ReportApprovalEntry[];
+  recommendations: RevocationRecommendation[];
+  /** Per-chain summaries of a multi-chain scan; `summary` covers them all */
+  chains?: ChainReportSummary[];
+}
+
+/**
+ * One wallet of a portfolio scan. `error` instead of a result when none of
+ * its chains could be scanned.
+ */
+export interface PortfolioWalletResult {
+  address: string;
+  label?: string;
+  tags: string[];
+  chainIds: number[];
+  result?: MultiChainScanResult;
+  error?: string;
+}
+
+export interface PortfolioScanResult {
+  wallets: PortfolioWalletResult[];
+  scanMetadata: {
+    scanTime: string;
+    durationMs: number;
+  };
+}
+
+export interface PortfolioWalletReport {
+  address: string;
+  label?: string;
+  tags: string[];
+  chainIds: number[];
+  report?: ApprovalReport;
+  error?: string;
+}
+
+/**
+ * A spender approved by more than one wallet of a portfolio, with at least
+ * one of those approvals high risk or recommended for revocation.
+ */
+export interface SharedSpender {
+  spenderAddress: string;
+  spenderName?: string;
+  /** Chains the approvals are on */
+  chainIds: number[];
+  /** Addresses of the wallets approving the spender */
+  wallets: string[];
+  approvals: number;
+  unlimitedApprovals: number;
+  highestRiskScore: number;
+  riskLevel: RiskLevel;
+}
+
+export interface PortfolioSummary {
+  totalWallets: number;
+  scannedWallets: number;
+  failedWallets: number;
+  /** Wallets with at least one high or critical risk approval */
+  walletsAtRisk: number;
+  totalApprovals: number;
+  unlimitedApprovals: number;
+  highRiskCount: number;
+  mediumRiskCount: number;
+  lowRiskCount: number;
+  averageRiskScore: number;
+  overallRiskLevel: RiskLevel;
+}
+
+export interface PortfolioReport {
+  generatedAt: string;
+  riskModel: RiskModelInfo;
+  summary: PortfolioSummary;
+  wallets: PortfolioWalletReport[];
+  sharedSpenders: SharedSpender[];
 }
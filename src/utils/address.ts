@@ -15,11 +15,20 @@ export function validateAddress(address: string): Address {
 
 /**
  * Checks if a string is a valid Ethereum address
- * @param address - The address to check
+ * @param address - The address to check (checksum casing is not enforced)
  * @returns True if valid, false otherwise
  */
 export function isValidAddress(address: string): boolean {
-  return isAddress(address);
+  return isAddress(address, { strict: false });
+}
+
+/**
+ * Normalizes an address to its lowercase form for use as a map key
+ * @param address - The address to normalize
+ * @returns The lowercased address
+ */
+export function normalizeAddress(address: string): Address {
+  return address.toLowerCase() as Address;
 }
 
 /**
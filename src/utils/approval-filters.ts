@@ -1,4 +1,8 @@
-import { TokenApproval, RiskLevel } from '../types.js';
+import { Approval, TokenApproval, RiskLevel } from '../types.js';
+import { isApproval, toTokenApproval } from '../approval/index.js';
+
+/** Filters work on scored `TokenApproval` rows and canonical `Approval`s alike */
+export type FilterableApproval = TokenApproval | Approval;
 
 export interface ApprovalFilterOptions {
   minRiskScore?: number;
@@ -19,11 +23,13 @@ export interface SortOptions {
   order: SortOrder;
 }
 
-export function filterApprovals(
-  approvals: TokenApproval[],
+export function filterApprovals<T extends FilterableApproval>(
+  approvals: T[],
   options: ApprovalFilterOptions
-): TokenApproval[] {
-  return approvals.filter((approval) => {
+): T[] {
+  return approvals.filter((item) => {
+    const approval = asTokenApproval(item);
+
     // Filter by risk score range
     if (options.minRiskScore !== undefined && approval.riskScore < options.minRiskScore) {
       return false;
@@ -72,14 +78,16 @@ export function filterApprovals(
   });
 }
 
-export function sortApprovals(
-  approvals: TokenApproval[],
+export function sortApprovals<T extends FilterableApproval>(
+  approvals: T[],
   options: SortOptions
-): TokenApproval[] {
+): T[] {
   const sorted = [...approvals];
   const multiplier = options.order === 'asc' ? 1 : -1;
 
-  sorted.sort((a, b) => {
+  sorted.sort((itemA, itemB) => {
+    const a = asTokenApproval(itemA);
+    const b = asTokenApproval(itemB);
     switch (options.field) {
       case 'riskScore':
         return (a.riskScore - b.riskScore) * multiplier;
@@ -104,7 +112,8 @@ export function sortApprovals(
   return sorted;
 }
 
-export function isDormantApproval(approval: TokenApproval, dormantDays: number): boolean {
+export function isDormantApproval(item: FilterableApproval, dormantDays: number): boolean {
+  const approval = asTokenApproval(item);
   if (!approval.lastUsed) {
     return true; // Never used is considered dormant
   }
@@ -116,27 +125,28 @@ export function isDormantApproval(approval: TokenApproval, dormantDays: number):
   return lastUsedDate < cutoffDate;
 }
 
-export function groupApprovalsByRiskLevel(
-  approvals: TokenApproval[]
-): Record<RiskLevel, TokenApproval[]> {
-  const grouped: Record<RiskLevel, TokenApproval[]> = {
+export function groupApprovalsByRiskLevel<T extends FilterableApproval>(
+  approvals: T[]
+): Record<RiskLevel, T[]> {
+  const grouped: Record<RiskLevel, T[]> = {
     critical: [],
     high: [],
     medium: [],
     low: [],
+    minimal: [],
   };
 
   for (const approval of approvals) {
-    grouped[approval.riskLevel].push(approval);
+    grouped[asTokenApproval(approval).riskLevel].push(approval);
   }
 
   return grouped;
 }
 
-export function groupApprovalsByToken(
-  approvals: TokenApproval[]
-): Map<string, TokenApproval[]> {
-  const grouped = new Map<string, TokenApproval[]>();
+export function groupApprovalsByToken<T extends FilterableApproval>(
+  approvals: T[]
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
 
   for (const approval of approvals) {
     const tokenKey = approval.tokenAddress.toLowerCase();
@@ -148,13 +158,13 @@ export function groupApprovalsByToken(
   return grouped;
 }
 
-export function groupApprovalsBySpender(
-  approvals: TokenApproval[]
-): Map<string, TokenApproval[]> {
-  const grouped = new Map<string, TokenApproval[]>();
+export function groupApprovalsBySpender<T extends FilterableApproval>(
+  approvals: T[]
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
 
   for (const approval of approvals) {
-    const spenderKey = approval.spender.toLowerCase();
+    const spenderKey = asTokenApproval(approval).spender.toLowerCase();
     const existing = grouped.get(spenderKey) ?? [];
     existing.push(approval);
     grouped.set(spenderKey, existing);
@@ -163,6 +173,10 @@ export function groupApprovalsBySpender(
   return grouped;
 }
 
+function asTokenApproval(approval: FilterableApproval): TokenApproval {
+  return isApproval(approval) ? toTokenApproval(approval) : approval;
+}
+
 function compareAllowances(a: string, b: string): number {
   try {
     const bigA = BigInt(a);
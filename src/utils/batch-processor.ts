@@ -197,13 +197,24 @@ export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+export interface RetryOptions {
+  /** Whether an error is worth another attempt (default: every error) */
+  shouldRetry?: (error: Error) => boolean;
+  /** Wait the error asks for, such as a Retry-After, in place of the backoff */
+  retryAfterMs?: (error: Error) => number | undefined;
+  /** Wait a random part of each backoff delay, so clients do not retry in step */
+  jitter?: boolean;
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+}
+
 /**
  * Retry a function with exponential backoff
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelayMs: number = 1000
+  baseDelayMs: number = 1000,
+  options: RetryOptions = {}
 ): Promise<T> {
   let lastError: Error | undefined;
 
@@ -213,8 +224,15 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      if (options.shouldRetry && !options.shouldRetry(lastError)) {
+        throw lastError;
+      }
+
       if (attempt < maxRetries) {
-        const delayTime = baseDelayMs * Math.pow(2, attempt);
+        const backoff = baseDelayMs * Math.pow(2, attempt);
+        const delayTime = options.retryAfterMs?.(lastError)
+          ?? (options.jitter ? Math.random() * backoff : backoff);
+        options.onRetry?.(lastError, attempt + 1, delayTime);
         await delay(delayTime);
       }
     }
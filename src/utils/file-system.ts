@@ -0,0 +1,20 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Writes a file so readers only ever see the old or the new content
+ * @param filePath - Destination file; its directory is created if missing
+ * @param content - Full file content
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const temporary = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(temporary, content, 'utf-8');
+    await fs.rename(temporary, filePath);
+  } catch (error) {
+    await fs.rm(temporary, { force: true });
+    throw error;
+  }
+}
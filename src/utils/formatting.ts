@@ -1,16 +1,23 @@
-import { formatUnits, parseUnits } from 'viem';
-import { UNLIMITED_APPROVAL_THRESHOLD } from '../constants';
+import { formatUnits } from 'viem';
+import { UNLIMITED_THRESHOLD } from '../constants';
+import { isUnlimitedApproval } from '../approval/approval-adapters';
+import type { ApprovalData, ExposureEntry, TokenSpenderAllowances } from '../types';
 
 /**
  * Formats a token amount for display
  * @param amount - The raw token amount as bigint
- * @param decimals - Token decimals (default: 18)
- * @returns Formatted string representation
+ * @param decimals - Token decimals, or undefined when the token has none
+ * @returns Formatted string representation; the raw amount marked
+ *   "decimals unknown" when there are no decimals to scale by
  */
-export function formatTokenAmount(amount: bigint, decimals: number = 18): string {
-  if (amount >= UNLIMITED_APPROVAL_THRESHOLD) {
+export function formatTokenAmount(amount: bigint, decimals: number | undefined): string {
+  if (amount >= UNLIMITED_THRESHOLD) {
     return 'Unlimited';
   }
+
+  if (decimals === undefined) {
+    return `${amount} (decimals unknown)`;
+  }
   
   const formatted = formatUnits(amount, decimals);
   const num = parseFloat(formatted);
@@ -42,6 +49,73 @@ export function formatTokenAmount(amount: bigint, decimals: number = 18): string
   return `${(num / 1000000000).toFixed(2)}B`;
 }
 
+/**
+ * Formats what an approval lets its spender take
+ * @param approval - The approval row
+ * @returns "ALL TOKENS" for operator approvals, "TOKEN #id" for single NFTs,
+ *   "UNLIMITED" for unlimited allowances, else the amount
+ */
+export function formatAllowance(
+  approval: Pick<ApprovalData, 'kind' | 'tokenId' | 'allowance' | 'isUnlimited' | 'tokenDecimals'>
+): string {
+  if (approval.kind === 'operator') {
+    return 'ALL TOKENS';
+  }
+  if (approval.kind === 'token') {
+    return `TOKEN #${approval.tokenId ?? '?'}`;
+  }
+  if (approval.isUnlimited) {
+    return 'UNLIMITED';
+  }
+  return formatTokenAmount(approval.allowance, approval.tokenDecimals);
+}
+
+/**
+ * Formats the amount an allowance's latest Approval log set
+ * @param approval - The approval row
+ * @returns "UNLIMITED" or the amount, or undefined when no log was read
+ */
+export function formatApprovedAllowance(
+  approval: Pick<ApprovalData, 'kind' | 'approvedAllowance' | 'tokenDecimals'>
+): string | undefined {
+  if (approval.approvedAllowance === undefined) {
+    return undefined;
+  }
+  if (isUnlimitedApproval({ kind: approval.kind, value: approval.approvedAllowance })) {
+    return 'UNLIMITED';
+  }
+  return formatTokenAmount(approval.approvedAllowance, approval.tokenDecimals);
+}
+
+/**
+ * Formats what a spender can take from one owner right now
+ * @param entry - The exposure row
+ * @returns The amount at risk, what an NFT approval covers, or "unknown"
+ *   when the owner's balance could not be read
+ */
+export function formatAmountAtRisk(entry: ExposureEntry): string {
+  if (entry.amountAtRisk !== undefined) {
+    return formatTokenAmount(entry.amountAtRisk, entry.approval.tokenDecimals);
+  }
+  return entry.approval.kind === 'operator' || entry.approval.kind === 'token'
+    ? formatAllowance(entry.approval)
+    : 'unknown';
+}
+
+/**
+ * Describes how far a spender of a token census can be trusted
+ * @param spender - The census row
+ * @returns "blocked", "verified" or "unverified", with where its label comes
+ *   from, or "unknown" for a spender nothing names
+ */
+export function formatSpenderStatus(spender: TokenSpenderAllowances): string {
+  if (!spender.labelSource) {
+    return 'unknown';
+  }
+  const status = spender.blocked ? 'blocked' : spender.spenderVerified ? 'verified' : 'unverified';
+  return `${status} (${spender.labelSource})`;
+}
+
 /**
  * Formats a timestamp to a human-readable date string
  * @param timestamp - Unix timestamp in seconds
@@ -51,6 +125,15 @@ export function formatTimestamp(timestamp: number): string {
   return new Date(timestamp * 1000).toISOString();
 }
 
+/**
+ * Formats a date for human-readable reports
+ * @param date - The date to format
+ * @returns Date string like "2024-01-15 10:30:00 UTC"
+ */
+export function formatDate(date: Date): string {
+  return `${date.toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+}
+
 /**
  * Calculates the number of days since a timestamp
  * @param timestamp - Unix timestamp in seconds
@@ -1,7 +1,10 @@
-export * from './address';
+export { isValidAddress, normalizeAddress, shortenAddress, addressEquals } from './address';
 export * from './formatting';
 export * from './batch-processor';
 export * from './approval-filters';
 export * from './validation';
 export * from './spinner';
 export * from './logger';
+export * from './file-system';
+export * from './rpc-errors';
+export * from './yaml';
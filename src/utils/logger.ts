@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import { RiskLevel } from '../types';
 
 export enum LogLevel {
   DEBUG = 0,
@@ -95,17 +96,22 @@ class Logger {
     }
   }
 
-  riskBadge(score: number): string {
-    if (score >= 80) {
-      return chalk.bgRed.white.bold(` CRITICAL ${score} `);
-    } else if (score >= 60) {
-      return chalk.bgYellow.black.bold(` HIGH ${score} `);
-    } else if (score >= 40) {
-      return chalk.bgMagenta.white.bold(` MEDIUM ${score} `);
-    } else if (score >= 20) {
-      return chalk.bgBlue.white(` LOW ${score} `);
+  /**
+   * The level comes from the risk model; the badge only picks the colour.
+   */
+  riskBadge(score: number, level: RiskLevel): string {
+    switch (level) {
+      case RiskLevel.CRITICAL:
+        return chalk.bgRed.white.bold(` CRITICAL ${score} `);
+      case RiskLevel.HIGH:
+        return chalk.bgYellow.black.bold(` HIGH ${score} `);
+      case RiskLevel.MEDIUM:
+        return chalk.bgMagenta.white.bold(` MEDIUM ${score} `);
+      case RiskLevel.LOW:
+        return chalk.bgBlue.white(` LOW ${score} `);
+      default:
+        return chalk.bgGreen.white(` SAFE ${score} `);
     }
-    return chalk.bgGreen.white(` SAFE ${score} `);
   }
 
   formatAddress(address: string, truncate = true): string {
@@ -0,0 +1,97 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  ExecutionRevertedError,
+  HttpRequestError,
+  LimitExceededRpcError,
+  RawContractError,
+  RpcRequestError,
+  SocketClosedError,
+  TimeoutError,
+  WebSocketRequestError,
+} from 'viem';
+import { NetworkError } from '../errors/network-error';
+
+/**
+ * Whether a contract read failed in transport rather than in the contract.
+ * Reverts, empty returns and undecodable data are answers from the
+ * contract: it lacks the method or implements it differently.
+ * @param error - Error thrown by, or reported for, a contract read
+ */
+export function isRpcFailure(error: unknown): boolean {
+  if (error instanceof BaseError) {
+    const reverted = error.walk((e) =>
+      e instanceof ContractFunctionRevertedError ||
+      e instanceof ContractFunctionZeroDataError ||
+      e instanceof ExecutionRevertedError ||
+      e instanceof RawContractError ||
+      // A node's raw answer to an `eth_call` that reverted
+      (e instanceof RpcRequestError && (e.code === 3 || /revert/i.test(e.details)))
+    );
+    if (reverted) return false;
+
+    return error.walk((e) =>
+      e instanceof NetworkError ||
+      e instanceof HttpRequestError ||
+      e instanceof RpcRequestError ||
+      e instanceof TimeoutError ||
+      e instanceof WebSocketRequestError ||
+      e instanceof SocketClosedError
+    ) !== null;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return !/revert|returned no data/i.test(message);
+}
+
+/**
+ * Describes a transport failure as a `NetworkError`, whose `retryable`
+ * says whether another attempt, or another endpoint, may succeed. Returns
+ * null for errors that are the node's or the contract's answer.
+ * @param error - Error thrown by an RPC request or a contract read
+ */
+export function toNetworkError(error: unknown): NetworkError | null {
+  if (error instanceof NetworkError) return error;
+  if (!isRpcFailure(error)) return null;
+
+  // A NetworkError thrown by a custom transport reaches callers wrapped by viem
+  const wrapped = error instanceof BaseError ? error.walk((e) => e instanceof NetworkError) : null;
+  if (wrapped) return wrapped as NetworkError;
+
+  const cause = error instanceof Error ? error : undefined;
+  if (!(error instanceof BaseError)) {
+    return NetworkError.rpcError(cause?.message ?? String(error), cause);
+  }
+
+  const httpError = error.walk((e) => e instanceof HttpRequestError) as HttpRequestError | null;
+  if (httpError?.status === 429 || error.walk((e) => e instanceof LimitExceededRpcError)) {
+    return NetworkError.rateLimited(parseRetryAfter(httpError?.headers?.get('retry-after')), cause);
+  }
+  if (httpError?.status !== undefined) {
+    return new NetworkError(`RPC endpoint answered HTTP ${httpError.status}`, {
+      statusCode: httpError.status,
+      cause,
+    });
+  }
+  if (httpError) {
+    return NetworkError.connectionFailed(httpError.url, cause);
+  }
+  if (error.walk((e) => e instanceof TimeoutError)) {
+    return NetworkError.timeout('RPC request');
+  }
+  return NetworkError.rpcError(error.shortMessage, cause);
+}
+
+/**
+ * Reads a Retry-After header, given in seconds or as an HTTP date, as ms.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { isAddress } from 'viem';
 import { ValidationError } from '../errors';
 
@@ -9,23 +11,38 @@ export interface ValidationResult {
   errors: string[];
 }
 
+/**
+ * Whether a parsed document value is a plain mapping
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is a string with more than whitespace
+ */
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function fieldError(field: string, message: string): ValidationError {
+  return new ValidationError(message, [{ field, message }]);
+}
+
 /**
  * Validate an Ethereum address
  */
 export function validateAddress(address: string, fieldName = 'address'): void {
   if (!address) {
-    throw new ValidationError(`${fieldName} is required`, fieldName);
+    throw fieldError(fieldName, `${fieldName} is required`);
   }
 
   if (typeof address !== 'string') {
-    throw new ValidationError(`${fieldName} must be a string`, fieldName);
+    throw fieldError(fieldName, `${fieldName} must be a string`);
   }
 
-  if (!isAddress(address)) {
-    throw new ValidationError(
-      `${fieldName} "${address}" is not a valid Ethereum address`,
-      fieldName
-    );
+  if (!isAddress(address, { strict: false })) {
+    throw fieldError(fieldName, `${fieldName} "${address}" is not a valid Ethereum address`);
   }
 }
 
@@ -37,15 +54,15 @@ export function validatePositiveNumber(
   fieldName = 'value'
 ): void {
   if (typeof value !== 'number') {
-    throw new ValidationError(`${fieldName} must be a number`, fieldName);
+    throw fieldError(fieldName, `${fieldName} must be a number`);
   }
 
   if (isNaN(value)) {
-    throw new ValidationError(`${fieldName} cannot be NaN`, fieldName);
+    throw fieldError(fieldName, `${fieldName} cannot be NaN`);
   }
 
   if (value < 0) {
-    throw new ValidationError(`${fieldName} must be non-negative`, fieldName);
+    throw fieldError(fieldName, `${fieldName} must be non-negative`);
   }
 }
 
@@ -57,11 +74,11 @@ export function validateNonEmptyString(
   fieldName = 'value'
 ): void {
   if (typeof value !== 'string') {
-    throw new ValidationError(`${fieldName} must be a string`, fieldName);
+    throw fieldError(fieldName, `${fieldName} must be a string`);
   }
 
   if (value.trim().length === 0) {
-    throw new ValidationError(`${fieldName} cannot be empty`, fieldName);
+    throw fieldError(fieldName, `${fieldName} cannot be empty`);
   }
 }
 
@@ -73,11 +90,11 @@ export function validateNonEmptyArray<T>(
   fieldName = 'array'
 ): void {
   if (!Array.isArray(value)) {
-    throw new ValidationError(`${fieldName} must be an array`, fieldName);
+    throw fieldError(fieldName, `${fieldName} must be an array`);
   }
 
   if (value.length === 0) {
-    throw new ValidationError(`${fieldName} cannot be empty`, fieldName);
+    throw fieldError(fieldName, `${fieldName} cannot be empty`);
   }
 }
 
@@ -88,10 +105,19 @@ export function validateRiskScore(score: number): void {
   validatePositiveNumber(score, 'riskScore');
 
   if (score > 100) {
-    throw new ValidationError(
-      'riskScore must be between 0 and 100',
-      'riskScore'
-    );
+    throw fieldError('riskScore', 'riskScore must be between 0 and 100');
+  }
+}
+
+/**
+ * Validate that an output path points into an existing directory
+ */
+export function validateOutputPath(outputPath: string, fieldName = 'output'): void {
+  validateNonEmptyString(outputPath, fieldName);
+
+  const directory = path.dirname(path.resolve(outputPath));
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    throw fieldError(fieldName, `${fieldName} directory "${directory}" does not exist`);
   }
 }
 
@@ -0,0 +1,67 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseDocument, visit } from 'yaml';
+import { ValidationError } from '../errors/validation-error';
+
+/** How a settings file is written; `.json` files are JSON, anything else YAML */
+export type StructuredFormat = 'json' | 'yaml';
+
+/**
+ * YAML reads unquoted `0x...` scalars as hex integers, which would turn
+ * addresses into imprecise numbers; keep those exactly as written.
+ */
+export function parseYaml(content: string): unknown {
+  const document = parseDocument(content);
+  if (document.errors.length > 0) {
+    throw document.errors[0];
+  }
+
+  visit(document, {
+    Scalar(_key, node) {
+      if (typeof node.value === 'number' && node.source && /^0x/i.test(node.source)) {
+        node.value = node.source;
+      }
+    },
+  });
+
+  return document.toJS();
+}
+
+/**
+ * Parses a JSON or YAML document, reporting malformed content as a
+ * ValidationError on `field`.
+ */
+export function parseStructured(
+  content: string,
+  format: StructuredFormat,
+  field: string,
+  label: string
+): unknown {
+  try {
+    return format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Cannot parse ${label} as ${format.toUpperCase()}: ${message}`, [
+      { field, message: `Must be a ${format.toUpperCase()} document` },
+    ]);
+  }
+}
+
+/**
+ * Reads and parses a JSON (`.json`) or YAML (anything else) file. The
+ * caller validates the document.
+ */
+export async function loadStructuredFile(filePath: string, field: string, label: string): Promise<unknown> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ValidationError(`Cannot read ${label} ${filePath}: ${message}`, [
+      { field, message: 'File must exist and be readable', value: filePath },
+    ]);
+  }
+
+  const format: StructuredFormat = path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'yaml';
+  return parseStructured(content, format, field, label);
+}
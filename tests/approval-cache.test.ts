@@ -0,0 +1,81 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ApprovalCache } from '../src/cache/approval-cache';
+import { FileCacheStorage } from '../src/cache/cache-storage';
+import { Approval } from '../src/types';
+
+describe('ApprovalCache', () => {
+  const wallet = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+  const approval: Approval = {
+    tokenAddress: '0x1234567890123456789012345678901234567890',
+    spenderAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+    value: 2n ** 256n - 1n,
+    approvedValue: 2n ** 256n - 1n,
+    blockNumber: 17500000n,
+    lastUsed: new Date('2024-01-15T10:30:00.000Z'),
+  };
+
+  let directory: string;
+  const caches: ApprovalCache[] = [];
+
+  const openCache = (options = {}): ApprovalCache => {
+    const cache = new ApprovalCache(options, new FileCacheStorage(directory));
+    caches.push(cache);
+    return cache;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-guard-'));
+  });
+
+  afterEach(async () => {
+    caches.splice(0).forEach((cache) => cache.destroy());
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('with file storage', () => {
+    it('should share entries between cache instances without losing bigints', async () => {
+      await openCache().set(wallet, 1, [approval], 18000000n);
+
+      const cached = await openCache().get(wallet.toUpperCase(), 1);
+
+      expect(cached?.blockNumber).toBe(18000000n);
+      expect(cached?.approvals).toEqual([approval]);
+      expect(await openCache().get(wallet, 10)).toBeNull();
+    });
+
+    it('should leave no temporary files behind', async () => {
+      await openCache().set(wallet, 1, [approval], 18000000n);
+
+      expect(await fs.readdir(directory)).toEqual([`${wallet}-1.json`]);
+    });
+
+    it('should read corrupt entries as misses', async () => {
+      await fs.writeFile(path.join(directory, `${wallet}-1.json`), '{"schemaVersion": 1, "data"');
+
+      expect(await openCache().get(wallet, 1)).toBeNull();
+    });
+
+    it('should prune expired entries and the oldest beyond the size limit', async () => {
+      await openCache({ ttl: -1 }).set(wallet, 1, [approval], 1n);
+      await openCache().set(wallet, 10, [approval], 1n);
+      await openCache().set(wallet, 137, [approval], 1n);
+
+      const cache = openCache({ maxSize: 1 });
+      const removed = await cache.prune();
+
+      expect(removed).toBe(2);
+      expect((await cache.list()).map((entry) => entry.chainId)).toEqual([137]);
+    });
+
+    it('should clear every entry', async () => {
+      const cache = openCache();
+      await cache.set(wallet, 1, [approval], 1n);
+
+      await cache.invalidateAll();
+
+      expect(await cache.getStats()).toMatchObject({ size: 0 });
+    });
+  });
+});
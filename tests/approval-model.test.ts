@@ -0,0 +1,210 @@
+import {
+  APPROVAL_SCHEMA_VERSION,
+  approvalKey,
+  buildRevocationCall,
+  decodeApprovalLog,
+  deserializeApproval,
+  fromApprovalData,
+  fromApprovalEvent,
+  fromTokenApproval,
+  parseApprovals,
+  serializeApproval,
+  stringifyApprovals,
+  toApproval,
+  toApprovalData,
+  toApprovalInfo,
+  toTokenApproval,
+} from '../src/approval/index.js';
+import { decodeFunctionData, erc721Abi, getAddress } from 'viem';
+import { ValidationError } from '../src/errors/validation-error.js';
+import { Approval } from '../src/types.js';
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+const createApproval = (overrides: Partial<Approval> = {}): Approval => ({
+  tokenAddress: '0x1234567890123456789012345678901234567890',
+  tokenSymbol: 'TEST',
+  tokenDecimals: 18,
+  spenderAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  ownerAddress: '0x742d35cc6634c0532925a3b844bc9e7595f5be21',
+  value: MAX_UINT256,
+  transactionHash: '0x01',
+  blockNumber: 18000000n,
+  timestamp: new Date('2024-01-01T00:00:00.000Z'),
+  lastUsed: new Date('2024-02-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('approval serialization', () => {
+  it('round-trips bigints and dates without loss', () => {
+    const approval = createApproval();
+
+    const restored = deserializeApproval(serializeApproval(approval));
+
+    expect(restored).toEqual(approval);
+  });
+
+  it('writes bigints as decimal strings with the schema version', () => {
+    const serialized = serializeApproval(createApproval());
+
+    expect(serialized.schemaVersion).toBe(APPROVAL_SCHEMA_VERSION);
+    expect(serialized.value).toBe(MAX_UINT256.toString());
+    expect(serialized.blockNumber).toBe('18000000');
+  });
+
+  it('round-trips a list through JSON', () => {
+    const approvals = [createApproval(), createApproval({ value: 5n, lastUsed: undefined })];
+
+    expect(parseApprovals(stringifyApprovals(approvals))).toEqual(approvals);
+  });
+
+  it('rejects unknown schema versions', () => {
+    const serialized = { ...serializeApproval(createApproval()), schemaVersion: 99 };
+
+    expect(() => deserializeApproval(serialized)).toThrow(ValidationError);
+  });
+
+  it('rejects documents without an approvals list', () => {
+    expect(() => parseApprovals('{}')).toThrow(ValidationError);
+  });
+});
+
+describe('approval adapters', () => {
+  it('converts to and from ApprovalData', () => {
+    const approval = createApproval();
+
+    const data = toApprovalData(approval);
+
+    expect(data.allowance).toBe(MAX_UINT256);
+    expect(data.isUnlimited).toBe(true);
+    expect(fromApprovalData(data)).toEqual(approval);
+  });
+
+  it('converts to and from TokenApproval', () => {
+    const approval = createApproval({ value: 5n, riskScore: 40, riskLevel: 'medium', riskFactors: [] });
+
+    const token = toTokenApproval(approval);
+
+    expect(token.spender).toBe(approval.spenderAddress);
+    expect(token.allowance).toBe('5');
+    expect(token.isUnlimited).toBe(false);
+    expect(fromTokenApproval(token, approval.ownerAddress)).toMatchObject({
+      value: 5n,
+      spenderAddress: approval.spenderAddress,
+      timestamp: approval.timestamp,
+      lastUsed: approval.lastUsed,
+      riskLevel: 'medium',
+    });
+  });
+
+  it('requires an owner for ApprovalInfo', () => {
+    expect(toApprovalInfo(createApproval()).owner).toBe('0x742d35cc6634c0532925a3b844bc9e7595f5be21');
+    expect(() => toApprovalInfo(createApproval({ ownerAddress: undefined }))).toThrow(ValidationError);
+  });
+
+  it('builds the approval left behind by a history event', () => {
+    const approval = fromApprovalEvent({
+      transactionHash: '0x02',
+      blockNumber: 10n,
+      timestamp: Date.parse('2024-01-01T00:00:00.000Z'),
+      owner: '0x742d35cc6634c0532925a3b844bc9e7595f5be21',
+      spender: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      tokenAddress: '0x1234567890123456789012345678901234567890',
+      amount: 0n,
+      eventType: 'revocation',
+    });
+
+    expect(approval.value).toBe(0n);
+    expect(approval.timestamp?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('normalizes any approval shape to the canonical model', () => {
+    const approval = createApproval();
+
+    expect(toApproval(approval)).toBe(approval);
+    expect(toApproval(toApprovalData(approval)).value).toBe(MAX_UINT256);
+    expect(toApproval(toTokenApproval(approval)).value).toBe(MAX_UINT256);
+    expect(toApproval(toApprovalInfo(approval)).value).toBe(MAX_UINT256);
+  });
+
+  it('keys approvals by token and spender regardless of casing', () => {
+    const lower = createApproval();
+    const upper = createApproval({ spenderAddress: '0xABCDEFABCDEFABCDEFABCDEFABCDEFABCDEFABCD' });
+
+    expect(approvalKey(lower)).toBe(approvalKey(upper));
+  });
+});
+
+describe('operator approvals', () => {
+  const operator = createApproval({ kind: 'operator', tokenStandard: 'erc721', value: 1n });
+
+  it('keys an operator approval apart from an allowance on the same pair', () => {
+    expect(approvalKey(operator)).not.toBe(approvalKey(createApproval()));
+  });
+
+  it('keeps the kind and standard through serialization and ApprovalData', () => {
+    expect(deserializeApproval(serializeApproval(operator))).toMatchObject({ kind: 'operator', tokenStandard: 'erc721' });
+    expect(fromApprovalData(toApprovalData(operator))).toMatchObject({ kind: 'operator', tokenStandard: 'erc721' });
+  });
+
+  it('revokes with setApprovalForAll(operator, false)', () => {
+    const call = buildRevocationCall(operator);
+
+    expect(call.functionName).toBe('setApprovalForAll');
+    expect(decodeFunctionData({ abi: erc721Abi, data: call.data as `0x${string}` }).args)
+      .toEqual([getAddress(operator.spenderAddress), false]);
+  });
+
+  it('revokes allowances with approve(spender, 0)', () => {
+    expect(buildRevocationCall(createApproval()).args).toEqual([createApproval().spenderAddress, '0']);
+  });
+});
+
+describe('ERC-721 token approvals', () => {
+  const tokenApproval = createApproval({ kind: 'token', tokenStandard: 'erc721', tokenId: 42n, value: 1n });
+
+  it('is never an unlimited allowance', () => {
+    expect(toApprovalData(createApproval({ kind: 'token', value: MAX_UINT256 })).isUnlimited).toBe(false);
+  });
+
+  it('keys by token id so a new approval replaces the previous spender', () => {
+    const other = { ...tokenApproval, spenderAddress: '0x1111111111111111111111111111111111111111' as const };
+
+    expect(approvalKey(other)).toBe(approvalKey(tokenApproval));
+    expect(approvalKey({ ...tokenApproval, tokenId: 43n })).not.toBe(approvalKey(tokenApproval));
+  });
+
+  it('round-trips the token id', () => {
+    expect(deserializeApproval(serializeApproval(tokenApproval)).tokenId).toBe(42n);
+    expect(fromApprovalData(toApprovalData(tokenApproval)).tokenId).toBe(42n);
+    expect(fromTokenApproval(toTokenApproval(tokenApproval)).tokenId).toBe(42n);
+  });
+
+  it('revokes with approve(address(0), tokenId)', () => {
+    const call = buildRevocationCall(tokenApproval);
+
+    expect(decodeFunctionData({ abi: erc721Abi, data: call.data as `0x${string}` }).args)
+      .toEqual(['0x0000000000000000000000000000000000000000', 42n]);
+  });
+});
+
+describe('decodeApprovalLog', () => {
+  const topic0 = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+  const owner = '0x000000000000000000000000742d35cc6634c0532925a3b844bc9e7595f5be21';
+  const spender = '0x000000000000000000000000abcdefabcdefabcdefabcdefabcdefabcdefabcd';
+  const word = (n: number): `0x${string}` => `0x${n.toString(16).padStart(64, '0')}`;
+
+  it('reads ERC-20 logs from three topics and data', () => {
+    expect(decodeApprovalLog({ topics: [topic0, owner, spender], data: word(5) }))
+      .toMatchObject({ standard: 'erc20', value: 5n });
+  });
+
+  it('reads ERC-721 logs from four topics and no data', () => {
+    expect(decodeApprovalLog({ topics: [topic0, owner, spender, word(9)], data: '0x' }))
+      .toMatchObject({ standard: 'erc721', tokenId: 9n, spender: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' });
+  });
+
+  it('ignores logs matching neither layout', () => {
+    expect(decodeApprovalLog({ topics: [topic0, owner, spender], data: '0x' })).toBeNull();
+  });
+});
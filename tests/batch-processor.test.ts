@@ -121,5 +121,14 @@ describe('batch-processor', () => {
       await expect(retryWithBackoff(fn, 2, 10)).rejects.toThrow('persistent error');
       expect(fn).toHaveBeenCalledTimes(3); // initial + 2 retries
     });
+
+    it('should stop at errors not worth retrying', async () => {
+      const fn = jest.fn().mockRejectedValue(new Error('execution reverted'));
+      const onRetry = jest.fn();
+
+      await expect(retryWithBackoff(fn, 3, 10, { shouldRetry: () => false, onRetry })).rejects.toThrow('execution reverted');
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
   });
 });
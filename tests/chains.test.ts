@@ -0,0 +1,107 @@
+import { ChainRegistry, DEFAULT_CHAIN_REGISTRY, parseChainConfig } from '../src/chains';
+import { getConfig } from '../src/config';
+import { ValidationError } from '../src/errors';
+
+const bsc = `
+chains:
+  - id: 56
+    name: BSC
+    aliases: [bnb]
+    displayName: BNB Smart Chain
+    rpcUrls: [https://bsc.example]
+    multicall3: { address: 0xcA11bde05977b3631167028862bE2a173976CA11, blockCreated: 15921452 }
+    maxBlockRange: 5000
+    nativeCurrency: { name: BNB, symbol: BNB, decimals: 18 }
+`;
+
+describe('ChainRegistry', () => {
+  it('should resolve built-in chains by name, alias or id', () => {
+    expect(DEFAULT_CHAIN_REGISTRY.resolve('ethereum').chain.id).toBe(1);
+    expect(DEFAULT_CHAIN_REGISTRY.resolve('Base').chain.id).toBe(8453);
+    expect(DEFAULT_CHAIN_REGISTRY.resolve('42161').chain.name).toBe('Arbitrum One');
+    expect(() => DEFAULT_CHAIN_REGISTRY.resolve('bsc')).toThrow(ValidationError);
+  });
+
+  it('should add chains from a config file', () => {
+    const registry = DEFAULT_CHAIN_REGISTRY.extend(parseChainConfig(bsc, 'yaml'));
+
+    const { chain, names, rpcUrls, maxBlockRange } = registry.resolve('bnb');
+
+    expect(chain).toMatchObject({
+      id: 56,
+      name: 'BNB Smart Chain',
+      nativeCurrency: { symbol: 'BNB' },
+      contracts: { multicall3: { address: '0xcA11bde05977b3631167028862bE2a173976CA11', blockCreated: 15921452 } },
+    });
+    expect(names).toEqual(['bsc', 'bnb']);
+    expect(rpcUrls).toEqual(['https://bsc.example']);
+    expect(maxBlockRange).toBe(5000n);
+    expect(registry.ids).toContain(1);
+  });
+
+  it('should adjust a built-in chain with only the fields given', () => {
+    const registry = new ChainRegistry().extend([{ id: 1, maxBlockRange: 2_000 }]);
+
+    const entry = registry.resolve('mainnet');
+
+    expect(entry.maxBlockRange).toBe(2_000n);
+    expect(entry.names).toEqual(['mainnet', 'ethereum']);
+    expect(entry.chain.contracts?.multicall3).toBeDefined();
+    expect(DEFAULT_CHAIN_REGISTRY.resolve(1).maxBlockRange).toBeUndefined();
+  });
+
+  it('should report every problem of a chain config', () => {
+    const config = JSON.stringify({
+      chains: [
+        { id: 250 },
+        { id: 1, multicall3: { address: '0x123' }, colour: 'blue' },
+      ],
+    });
+
+    expect.assertions(2);
+    try {
+      parseChainConfig(config, 'json');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues.map((i) => i.field)).toEqual([
+        'chains[0].name',
+        'chains[0].rpcUrls',
+        'chains[1].colour',
+        'chains[1].multicall3.address',
+      ]);
+    }
+  });
+});
+
+describe('getConfig', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should use a chain config\'s endpoints before ETH_RPC_URL', () => {
+    process.env.ETH_RPC_URL = 'https://mainnet.example';
+    delete process.env.RPC_URLS_56;
+    const chains = DEFAULT_CHAIN_REGISTRY.extend(parseChainConfig(bsc, 'yaml'));
+
+    const config = getConfig({ chain: 'bsc', chains });
+
+    expect(config.rpcUrls).toEqual(['https://bsc.example']);
+    expect(config.maxBlockRange).toBe(5000n);
+    expect(getConfig({ chain: 'bsc', chains, rpcUrls: ['https://mine.example'] }).rpcUrl).toBe('https://mine.example');
+  });
+
+  it('should only use ETH_RPC_URL for the chain of CHAIN_ID', () => {
+    process.env.ETH_RPC_URL = 'https://mainnet.example';
+    delete process.env.CHAIN_ID;
+    delete process.env.RPC_URLS_1;
+    delete process.env.RPC_URLS_137;
+
+    expect(getConfig({ chain: 'mainnet' }).rpcUrls).toEqual(['https://mainnet.example']);
+    expect(getConfig({ chain: 'polygon' }).rpcUrls).not.toContain('https://mainnet.example');
+
+    process.env.CHAIN_ID = '137';
+    expect(getConfig({ chain: 'polygon' }).rpcUrls).toEqual(['https://mainnet.example']);
+  });
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCheckpointStore } from '../src/cache/checkpoint-store';
+import { ScanCheckpoint } from '../src/cache/types';
+
+describe('FileCheckpointStore', () => {
+  let directory: string;
+
+  const checkpoint: ScanCheckpoint = {
+    walletAddress: '0x742d35cc6634c0532925a3b844bc9e7595f5be21',
+    chainId: 1,
+    fromBlock: 17000000n,
+    blockNumber: 18000000n,
+    blockHash: '0xabc',
+    approvals: [{
+      tokenAddress: '0x1234567890123456789012345678901234567890',
+      spenderAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      value: 2n ** 256n - 1n,
+      blockNumber: 17500000n,
+    }],
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-guard-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip a checkpoint per wallet and chain', async () => {
+    const store = new FileCheckpointStore(directory);
+
+    await store.set(checkpoint);
+
+    expect(await store.get(checkpoint.walletAddress.toUpperCase(), 1)).toEqual(checkpoint);
+    expect(await store.get(checkpoint.walletAddress, 10)).toBeNull();
+    expect(await fs.readdir(directory)).toEqual([`${checkpoint.walletAddress}-1.json`]);
+  });
+
+  it('should treat unreadable or outdated files as missing', async () => {
+    const store = new FileCheckpointStore(directory);
+    const file = path.join(directory, `${checkpoint.walletAddress}-1.json`);
+
+    await fs.writeFile(file, '{ truncated');
+    expect(await store.get(checkpoint.walletAddress, 1)).toBeNull();
+
+    await fs.writeFile(file, JSON.stringify({ schemaVersion: 0 }));
+    expect(await store.get(checkpoint.walletAddress, 1)).toBeNull();
+  });
+});
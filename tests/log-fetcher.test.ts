@@ -0,0 +1,91 @@
+import { LogFetcher, classifyLimitError } from '../src/services/log-fetcher';
+
+type Range = [bigint, bigint];
+
+// Provider that rejects spans wider than `limit` and returns one log per block
+const createProvider = (limit: bigint, message = 'eth_getLogs block range is too wide') => {
+  const calls: Range[] = [];
+  const query = jest.fn(async (fromBlock: bigint, toBlock: bigint) => {
+    calls.push([fromBlock, toBlock]);
+    if (toBlock - fromBlock + 1n > limit) {
+      throw new Error(message);
+    }
+    const logs: bigint[] = [];
+    for (let block = fromBlock; block <= toBlock; block++) logs.push(block);
+    return logs;
+  });
+  return { calls, query };
+};
+
+describe('LogFetcher', () => {
+  it('should cover the range exactly once, in order', async () => {
+    const { query } = createProvider(1_000n);
+    const fetcher = new LogFetcher({ initialBlockRange: 100n, growBelowLogs: 10_000 });
+
+    const logs = await fetcher.fetch(0n, 4_999n, query);
+
+    expect(logs).toHaveLength(5_000);
+    expect(logs[0]).toBe(0n);
+    expect(logs[4_999]).toBe(4_999n);
+  });
+
+  it('should halve the window on range errors and keep the learned limit', async () => {
+    const { calls, query } = createProvider(2_000n);
+    const fetcher = new LogFetcher({ initialBlockRange: 10_000n, growBelowLogs: 100_000 });
+
+    await fetcher.fetch(0n, 19_999n, query);
+
+    expect(calls[0]).toEqual([0n, 9_999n]);
+    expect(fetcher.blockRange).toBeLessThanOrEqual(2_000n);
+    const rejected = calls.filter(([from, to]) => to - from + 1n > 2_000n);
+    expect(rejected).toHaveLength(3); // 10000, 5000, 2500
+  });
+
+  it('should grow the window while responses stay small', async () => {
+    const query = jest.fn().mockResolvedValue([]);
+    const fetcher = new LogFetcher({ initialBlockRange: 1_000n, maxBlockRange: 8_000n });
+
+    await fetcher.fetch(0n, 100_000n, query);
+
+    expect(query.mock.calls[1]).toEqual([1_000n, 2_999n]);
+    expect(fetcher.blockRange).toBe(8_000n);
+  });
+
+  it('should jump to the window a provider suggests', async () => {
+    const { calls, query } = createProvider(
+      500n,
+      'Log response size exceeded. this block range should work: [0x0, 0x1f3]'
+    );
+    const fetcher = new LogFetcher({ initialBlockRange: 10_000n, growBelowLogs: 0 });
+
+    await fetcher.fetch(0n, 999n, query);
+
+    expect(calls).toEqual([[0n, 999n], [0n, 499n], [500n, 999n]]);
+  });
+
+  it('should rethrow errors that are not size limits', async () => {
+    const query = jest.fn().mockRejectedValue(new Error('execution reverted'));
+    const fetcher = new LogFetcher();
+
+    await expect(fetcher.fetch(0n, 10n, query)).rejects.toThrow('execution reverted');
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up once the window cannot shrink any further', async () => {
+    const { query } = createProvider(0n);
+    const fetcher = new LogFetcher({ initialBlockRange: 8n, minBlockRange: 2n });
+
+    await expect(fetcher.fetch(0n, 10n, query)).rejects.toThrow('block range is too wide');
+    expect(query).toHaveBeenCalledTimes(3); // 8, 4, 2
+  });
+
+  describe('classifyLimitError', () => {
+    it('should recognise span and result-count limits from nested provider errors', () => {
+      const nested = { message: 'RPC Request failed.', cause: { details: 'query returned more than 10000 results' } };
+
+      expect(classifyLimitError(new Error('exceed maximum block range: 2000'))).toBe('range');
+      expect(classifyLimitError(nested)).toBe('results');
+      expect(classifyLimitError(new Error('rate limit exceeded'))).toBeNull();
+    });
+  });
+});
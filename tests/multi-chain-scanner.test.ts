@@ -0,0 +1,104 @@
+import { ScannerOptions } from '../src/scanner';
+import { MultiChainScanner, selectChains } from '../src/multi-chain-scanner';
+import { DEFAULT_CHAIN_REGISTRY } from '../src/chains';
+import { NetworkError, ValidationError } from '../src/errors';
+import { ApprovalData, RiskLevel, ScanResult } from '../src/types';
+import { scanResultOf, scoredApproval, stubChainScanner } from './scan-fixtures';
+
+const wallet = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+const approval = (chainId: number, riskScore: number, riskLevel: RiskLevel): ApprovalData =>
+  scoredApproval(chainId, spender, riskScore, riskLevel);
+
+// Each approval comes with a recommendation to revoke it
+const resultOf = (chainId: number, approvals: ApprovalData[]): ScanResult =>
+  scanResultOf(wallet, chainId, approvals, approvals.map((a) => ({
+    chainId,
+    tokenAddress: a.tokenAddress,
+    spenderAddress: a.spenderAddress,
+    shouldRevoke: true,
+    priority: a.riskLevel === 'high' ? 3 : 1,
+    reason: 'Unlimited approval',
+  })));
+
+// Scanners whose scan answers from `outcomes` by chain ID
+const createMultiScanner = (chains: Array<string | number>, outcomes: Record<number, ScanResult | Error>) =>
+  new MultiChainScanner(chains, { cacheEnabled: false, historyEnabled: false }, (options: ScannerOptions) =>
+    stubChainScanner(options, () => outcomes[options.chain as number]));
+
+describe('MultiChainScanner', () => {
+  it('should merge the chains into one result keyed by chain', async () => {
+    const scanner = createMultiScanner(['mainnet', 'base'], {
+      1: resultOf(1, [approval(1, 30, 'low')]),
+      8453: resultOf(8453, [approval(8453, 70, 'high')]),
+    });
+
+    const result = await scanner.scan(wallet);
+
+    expect(Object.keys(result.chains)).toEqual(['1', '8453']);
+    expect(result.approvals.map((a) => a.chainId)).toEqual([8453, 1]);
+    expect(result.recommendations[0].chainId).toBe(8453);
+    expect(result.summary).toMatchObject({ totalApprovals: 2, highRiskApprovals: 1, lowRiskApprovals: 1 });
+    expect(result.failures).toEqual([]);
+  });
+
+  it('should report a failing chain and keep the others', async () => {
+    const scanner = createMultiScanner(['mainnet', 'arbitrum'], {
+      1: resultOf(1, [approval(1, 30, 'low')]),
+      42161: NetworkError.timeout('eth_blockNumber'),
+    });
+
+    const result = await scanner.scan(wallet);
+    const report = scanner.buildReport(result);
+
+    expect(result.failures).toEqual([expect.objectContaining({ chainId: 42161, chainName: 'Arbitrum One' })]);
+    expect(report.chains).toEqual([
+      expect.objectContaining({ chainId: 1, summary: expect.objectContaining({ totalApprovals: 1 }) }),
+      expect.objectContaining({ chainId: 42161, summary: undefined, error: expect.any(String) }),
+    ]);
+    expect(report.approvals[0].recommendation?.chainId).toBe(1);
+  });
+
+  it('should throw when every chain fails', async () => {
+    const scanner = createMultiScanner(['mainnet', 'base'], {
+      1: new Error('mainnet down'),
+      8453: new Error('base down'),
+    });
+
+    await expect(scanner.scan(wallet)).rejects.toThrow('mainnet down');
+  });
+});
+
+describe('MultiChainScanner endpoints', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should only send the chain of ETH_RPC_URL to it', () => {
+    process.env.ETH_RPC_URL = 'https://mainnet.example';
+    delete process.env.CHAIN_ID;
+    delete process.env.RPC_URLS_1;
+    delete process.env.RPC_URLS_8453;
+
+    const scanner = new MultiChainScanner(['mainnet', 'base'], { cacheEnabled: false, historyEnabled: false });
+
+    expect(scanner.scannerFor(1)?.rpcHealth().map((e) => e.url)).toEqual(['https://mainnet.example']);
+    expect(scanner.scannerFor(8453)?.rpcHealth().map((e) => e.url)).not.toContain('https://mainnet.example');
+  });
+});
+
+describe('selectChains', () => {
+  it('should select every chain that is not a testnet for all', () => {
+    const ids = selectChains('all').map(({ chain }) => chain.id);
+
+    expect(ids).toEqual(DEFAULT_CHAIN_REGISTRY.ids.filter((id) => id !== 11155111));
+  });
+
+  it('should take each chain once and reject unknown names', () => {
+    expect(selectChains(['base', '8453', 'mainnet']).map(({ chain }) => chain.id)).toEqual([8453, 1]);
+    expect(() => selectChains(['base', 'nowhere'])).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,99 @@
+import { HttpRequestError, erc20Abi, type Address, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { ContractCall, MulticallReader } from '../src/services/multicall-reader';
+
+const token = (i: number): Address => `0x${i.toString(16).padStart(40, '0')}`;
+
+const balanceCall = (i: number): ContractCall => ({
+  address: token(i),
+  abi: erc20Abi,
+  functionName: 'balanceOf',
+  args: ['0x742d35cc6634c0532925a3b844bc9e7595f5be21'],
+});
+
+// Client whose token at index 2 reverts; every other token answers its index
+const mockClient = (multicall: jest.Mock, chain: unknown = mainnet) => {
+  const readContract = jest.fn(async ({ address }: { address: Address }) => {
+    if (address === token(2)) throw new Error('execution reverted');
+    return BigInt(parseInt(address, 16));
+  });
+  return { readContract, client: { chain, multicall, readContract } as unknown as PublicClient };
+};
+
+const aggregate = jest.fn(async ({ contracts }: { contracts: ContractCall[] }) =>
+  contracts.map(({ address }) => address === token(2)
+    ? { status: 'failure', error: new Error('execution reverted') }
+    : { status: 'success', result: BigInt(parseInt(address, 16)) })
+);
+
+describe('MulticallReader', () => {
+  beforeEach(() => {
+    aggregate.mockClear();
+  });
+
+  it('should batch calls and keep each failure to its own call', async () => {
+    const { client, readContract } = mockClient(aggregate);
+    const reader = new MulticallReader(client, { batchSize: 2 });
+
+    const results = await reader.read([1, 2, 3].map(balanceCall), 20_000_000n);
+
+    expect(aggregate).toHaveBeenCalledTimes(2);
+    expect(aggregate.mock.calls[0][0]).toMatchObject({ allowFailure: true, blockNumber: 20_000_000n });
+    expect(readContract).not.toHaveBeenCalled();
+    expect(results.map((result) => result.status)).toEqual(['success', 'failure', 'success']);
+    expect(results[2]).toEqual({ status: 'success', result: 3n });
+  });
+
+  it('should read one call at a time without a known Multicall3', async () => {
+    const { client, readContract } = mockClient(aggregate, { id: 31337 });
+    const reader = new MulticallReader(client);
+
+    const results = await reader.read([1, 2].map(balanceCall));
+
+    expect(aggregate).not.toHaveBeenCalled();
+    expect(readContract).toHaveBeenCalledTimes(2);
+    expect(results.map((result) => result.status)).toEqual(['success', 'failure']);
+  });
+
+  it('should read one call at a time before Multicall3 was deployed', async () => {
+    const { client, readContract } = mockClient(aggregate);
+    const reader = new MulticallReader(client);
+
+    await reader.read([balanceCall(1)], 1_000n);
+
+    expect(reader.supports(1_000n)).toBe(false);
+    expect(aggregate).not.toHaveBeenCalled();
+    expect(readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to single calls when the batch itself reverts', async () => {
+    const { client, readContract } = mockClient(jest.fn().mockRejectedValue(new Error('execution reverted')));
+    const reader = new MulticallReader(client);
+
+    const results = await reader.read([1, 3].map(balanceCall));
+
+    expect(readContract).toHaveBeenCalledTimes(2);
+    expect(results).toEqual([{ status: 'success', result: 1n }, { status: 'success', result: 3n }]);
+  });
+
+  it('should fail the batch without resending it when the RPC fails', async () => {
+    const failure = new HttpRequestError({ url: 'http://localhost:8545', status: 503 });
+    const { client, readContract } = mockClient(jest.fn().mockRejectedValue(failure));
+    const reader = new MulticallReader(client);
+
+    const results = await reader.read([1, 3].map(balanceCall));
+
+    expect(readContract).not.toHaveBeenCalled();
+    expect(results).toEqual([{ status: 'failure', error: failure }, { status: 'failure', error: failure }]);
+  });
+
+  it('should not batch when disabled', async () => {
+    const { client, readContract } = mockClient(aggregate);
+    const reader = new MulticallReader(client, { enabled: false });
+
+    await reader.read([balanceCall(1)]);
+
+    expect(aggregate).not.toHaveBeenCalled();
+    expect(readContract).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,161 @@
+import { ScannerOptions } from '../src/scanner';
+import { PortfolioScanner, parseAddressBook } from '../src/portfolio';
+import { ReportGenerator } from '../src/services/report-generator';
+import { ValidationError } from '../src/errors';
+import { ApprovalData } from '../src/types';
+import { scanResultOf, scoredApproval as approval, stubChainScanner } from './scan-fixtures';
+
+const treasury = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+const payroll = '0x1111111111111111111111111111111111111111';
+const ops = '0x2222222222222222222222222222222222222222';
+const router = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const vault = '0x9999999999999999999999999999999999999999';
+
+// Chain scanners whose scan answers from `outcomes` by chain ID and wallet
+const createPortfolio = (
+  entries: ConstructorParameters<typeof PortfolioScanner>[0],
+  outcomes: Record<number, Record<string, ApprovalData[] | Error>>
+): { portfolio: PortfolioScanner; created: number[] } => {
+  const created: number[] = [];
+  const portfolio = new PortfolioScanner(entries, { cacheEnabled: false, concurrency: 2 }, (options: ScannerOptions) => {
+    const chainId = options.chain as number;
+    created.push(chainId);
+    return stubChainScanner(options, (wallet) => {
+      const outcome = outcomes[chainId]?.[wallet] ?? [];
+      return outcome instanceof Error ? outcome : scanResultOf(wallet, chainId, outcome);
+    });
+  });
+  return { portfolio, created };
+};
+
+describe('PortfolioScanner', () => {
+  it('should aggregate wallets and find the risky spenders they share', async () => {
+    const { portfolio, created } = createPortfolio(
+      [
+        { address: treasury, label: 'Treasury', tags: ['treasury'], chains: ['mainnet', 'base'] },
+        { address: payroll, label: 'Payroll' },
+        { address: ops, chains: ['base'] },
+      ],
+      {
+        1: {
+          [treasury]: [approval(1, router, 70, 'high'), approval(1, vault, 10, 'minimal')],
+          [payroll]: [approval(1, router, 30, 'low'), approval(1, vault, 15, 'minimal')],
+        },
+        8453: { [ops]: [approval(8453, router, 50, 'medium')] },
+      }
+    );
+
+    const report = portfolio.buildReport(await portfolio.scan());
+
+    expect(created).toEqual([1, 8453]);
+    expect(report.wallets.map((w) => [w.label, w.chainIds])).toEqual([
+      ['Treasury', [1, 8453]],
+      ['Payroll', [1]],
+      [undefined, [8453]],
+    ]);
+    expect(report.summary).toMatchObject({
+      totalWallets: 3,
+      scannedWallets: 3,
+      walletsAtRisk: 1,
+      totalApprovals: 5,
+      highRiskCount: 1,
+      averageRiskScore: 35,
+    });
+    expect(report.sharedSpenders).toEqual([
+      expect.objectContaining({
+        spenderAddress: router,
+        wallets: [treasury, payroll, ops],
+        chainIds: [1, 8453],
+        highestRiskScore: 70,
+        riskLevel: 'high',
+      }),
+    ]);
+  });
+
+  it('should keep a wallet that cannot be scanned in the report', async () => {
+    const { portfolio } = createPortfolio(
+      [{ address: treasury }, { address: payroll }],
+      { 1: { [treasury]: [approval(1, router, 70, 'high')], [payroll]: new Error('rpc down') } }
+    );
+
+    const report = portfolio.buildReport(await portfolio.scan());
+    const csv = new ReportGenerator().formatPortfolioReport(report, 'csv');
+
+    expect(report.wallets[1]).toMatchObject({ address: payroll, error: 'rpc down', report: undefined });
+    expect(report.summary).toMatchObject({ scannedWallets: 1, failedWallets: 1 });
+    expect(csv.split('\n')).toHaveLength(2);
+    expect(csv.split('\n')[1].startsWith(`,${treasury},,1,`)).toBe(true);
+  });
+
+  it('should throw when no wallet can be scanned', async () => {
+    const { portfolio } = createPortfolio([{ address: treasury }], { 1: { [treasury]: new Error('rpc down') } });
+
+    await expect(portfolio.scan()).rejects.toThrow('rpc down');
+  });
+});
+
+describe('PortfolioScanner endpoints', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should only send the chain of ETH_RPC_URL to it', () => {
+    process.env.ETH_RPC_URL = 'https://mainnet.example';
+    delete process.env.CHAIN_ID;
+    delete process.env.RPC_URLS_1;
+    delete process.env.RPC_URLS_8453;
+
+    const portfolio = new PortfolioScanner(
+      [{ address: treasury, chains: ['mainnet', 'base'] }, { address: ops, chains: ['base'] }],
+      { cacheEnabled: false, historyEnabled: false }
+    );
+
+    expect(portfolio.scannerFor(1)?.rpcHealth().map((e) => e.url)).toEqual(['https://mainnet.example']);
+    expect(portfolio.scannerFor(8453)?.rpcHealth().map((e) => e.url)).not.toContain('https://mainnet.example');
+  });
+});
+
+describe('parseAddressBook', () => {
+  it('should read wallets with labels, tags and chains', () => {
+    const wallets = parseAddressBook(`
+wallets:
+  - address: ${treasury}
+    label: Treasury
+    tags: [treasury, hot]
+    chains: [mainnet, base]
+  - address: ${payroll}
+    chains: all
+`, 'yaml');
+
+    expect(wallets).toEqual([
+      { address: treasury, label: 'Treasury', tags: ['treasury', 'hot'], chains: ['mainnet', 'base'] },
+      { address: payroll, chains: 'all' },
+    ]);
+  });
+
+  it('should report every problem of an address book', () => {
+    const book = JSON.stringify({
+      wallets: [
+        { address: '0x123', owner: 'alice' },
+        { address: treasury, chains: ['nowhere'] },
+        { address: treasury.toUpperCase().replace('0X', '0x'), tags: 'hot' },
+      ],
+    });
+
+    expect.assertions(2);
+    try {
+      parseAddressBook(book, 'json');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues.map((i) => i.field)).toEqual([
+        'wallets[0].owner',
+        'wallets[0].address',
+        'wallets[1].chains',
+        'wallets[2].address',
+        'wallets[2].tags',
+      ]);
+    }
+  });
+});
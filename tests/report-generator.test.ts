@@ -1,4 +1,6 @@
 import { ReportGenerator } from '../src/services/report-generator.js';
+import { ValidationError } from '../src/errors/validation-error.js';
+import { DEFAULT_RISK_MODEL } from '../src/risk/risk-model.js';
 import { ApprovalData, RiskAssessment, RevocationRecommendation } from '../src/types.js';
 
 describe('ReportGenerator', () => {
@@ -93,7 +95,7 @@ describe('ReportGenerator', () => {
 
       expect(report.summary.totalApprovals).toBe(0);
       expect(report.summary.totalRiskScore).toBe(0);
-      expect(report.summary.overallRiskLevel).toBe('low');
+      expect(report.summary.overallRiskLevel).toBe('minimal');
     });
   });
 
@@ -145,6 +147,98 @@ describe('ReportGenerator', () => {
       expect(lines.length).toBe(3); // header + 2 data rows
     });
 
+    it('should show the last approved amount next to the remaining allowance', () => {
+      const spent: ApprovalData = { ...mockApprovals[1], approvedAllowance: BigInt('5000000000') };
+      const report = generator.generateReport('0xTestWallet', [spent], [mockRiskAssessments[1]], []);
+
+      expect(generator.formatReport(report, 'text')).toContain('Last approved: 5.00K');
+      expect(generator.formatReport(report, 'text')).toContain('Remaining: 1.00K');
+      expect(generator.formatReport(report, 'csv').split('\n')[1]).toContain('1000000000,5000000000');
+      expect(generator.parseReport(generator.formatReport(report, 'json'))).toEqual(report);
+    });
+
+    it('should show amounts of tokens without decimals unscaled', () => {
+      const { tokenDecimals: _decimals, ...noDecimals } = mockApprovals[1];
+      const report = generator.generateReport('0xTestWallet', [noDecimals], [mockRiskAssessments[1]], []);
+
+      expect(generator.formatReport(report, 'text')).toContain('Allowance: 1000000000 (decimals unknown)');
+    });
+
+    it('should show the chain of each row in a multi-chain report', () => {
+      const onBase: ApprovalData = { ...mockApprovals[1], chainId: 8453 };
+      const report = {
+        ...generator.generateReport('0xTestWallet', [onBase], [mockRiskAssessments[1]], []),
+        chains: [
+          { chainId: 1, chainName: 'Ethereum', error: 'timed out' },
+          { chainId: 8453, chainName: 'Base' },
+        ],
+      };
+
+      const text = generator.formatReport(report, 'text');
+      const csv = generator.formatReport(report, 'csv').split('\n');
+
+      expect(text).toContain('Ethereum (1): scan failed: timed out');
+      expect(text).toContain('Chain: Base (8453)');
+      expect(csv[0].startsWith('Chain ID,')).toBe(true);
+      expect(csv[1].startsWith('8453,')).toBe(true);
+    });
+
+    it('should give each ERC-721 token approval its own recommendation', () => {
+      const collection = '0x5555555555555555555555555555555555555555';
+      const marketplace = '0x00000000000000adc04c56bf30ac9d3c0aaf14dc';
+      const tokenApproval = (tokenId: string): ApprovalData => ({
+        kind: 'token',
+        tokenStandard: 'erc721',
+        tokenAddress: collection,
+        tokenId,
+        spenderAddress: marketplace,
+        allowance: 1n,
+        isUnlimited: false,
+      });
+      const recommendation = (tokenId: string, shouldRevoke: boolean): RevocationRecommendation => ({
+        kind: 'token',
+        tokenAddress: collection,
+        tokenId,
+        spenderAddress: marketplace,
+        shouldRevoke,
+        priority: shouldRevoke ? 3 : 1,
+        reason: `Token #${tokenId}`,
+      });
+
+      const report = generator.generateReport(
+        '0xTestWallet',
+        [tokenApproval('1'), tokenApproval('2')],
+        [mockRiskAssessments[1], mockRiskAssessments[0]],
+        [recommendation('2', true), recommendation('1', false)]
+      );
+
+      expect(report.approvals.map((a) => [a.approval.tokenId, a.recommendation?.tokenId, a.recommendation?.shouldRevoke]))
+        .toEqual([['1', '1', false], ['2', '2', true]]);
+    });
+
+    it('should keep a direct approval apart from a Permit2 one on the same token and spender', () => {
+      const direct: ApprovalData = { ...mockApprovals[1] };
+      const viaPermit2: ApprovalData = { ...mockApprovals[1], kind: 'permit2', allowance: BigInt('5000000') };
+      const recommendation = (kind: 'allowance' | 'permit2', shouldRevoke: boolean): RevocationRecommendation => ({
+        kind,
+        tokenAddress: direct.tokenAddress,
+        spenderAddress: direct.spenderAddress,
+        shouldRevoke,
+        priority: shouldRevoke ? 3 : 1,
+        reason: kind,
+      });
+
+      const report = generator.generateReport(
+        '0xTestWallet',
+        [direct, viaPermit2],
+        [mockRiskAssessments[1], mockRiskAssessments[0]],
+        [recommendation('permit2', true), recommendation('allowance', false)]
+      );
+
+      expect(report.approvals.map((a) => [a.approval.kind, a.recommendation?.reason, a.recommendation?.shouldRevoke]))
+        .toEqual([[undefined, 'allowance', false], ['permit2', 'permit2', true]]);
+    });
+
     it('should escape CSV special characters', () => {
       const approvalWithComma: ApprovalData = {
         ...mockApprovals[0],
@@ -162,4 +256,47 @@ describe('ReportGenerator', () => {
       expect(formatted).toContain('"');
     });
   });
+
+  describe('risk model', () => {
+    it('should stamp the risk model on every report', () => {
+      const report = generator.generateReport('0xTestWallet', mockApprovals, mockRiskAssessments, []);
+
+      expect(report.riskModel.id).toBe(DEFAULT_RISK_MODEL.id);
+      expect(report.riskModel.version).toBe(DEFAULT_RISK_MODEL.version);
+      expect(generator.formatReport(report, 'csv')).toContain(`${DEFAULT_RISK_MODEL.id}@${DEFAULT_RISK_MODEL.version}`);
+    });
+
+    it("should derive the overall level from the model's thresholds", () => {
+      const strict = new ReportGenerator({
+        id: 'strict',
+        version: '1.0.0',
+        thresholds: { critical: 50, high: 40, medium: 30, low: 10 },
+        rules: [],
+      });
+
+      const report = strict.generateReport('0xTestWallet', mockApprovals, mockRiskAssessments, []);
+
+      expect(report.summary.totalRiskScore).toBe(50);
+      expect(report.summary.overallRiskLevel).toBe('critical');
+    });
+  });
+
+  describe('parseReport', () => {
+    it('should read back a report saved as JSON', () => {
+      const report = generator.generateReport('0xTestWallet', [], [], []);
+
+      const parsed = generator.parseReport(generator.formatReport(report, 'json'));
+
+      expect(parsed).toEqual(report);
+      expect(generator.formatReport(parsed, 'text')).toContain('Wallet: 0xTestWallet');
+    });
+
+    it('should reject content that is not JSON', () => {
+      expect(() => generator.parseReport('Token,Spender')).toThrow(ValidationError);
+    });
+
+    it('should reject JSON that is not a report', () => {
+      expect(() => generator.parseReport('{"approvals": []}')).toThrow(ValidationError);
+    });
+  });
 });
@@ -0,0 +1,104 @@
+import { HttpRequestError } from 'viem';
+import { RequestScheduler } from '../src/services/request-scheduler';
+import { NetworkError } from '../src/errors';
+import { parseRetryAfter, toNetworkError } from '../src/utils/rpc-errors';
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should pace requests to a provider within its budget', async () => {
+    const scheduler = new RequestScheduler({ budget: { requestsPerSecond: 2 } });
+    const sent: number[] = [];
+
+    const requests = Array.from({ length: 4 }, () =>
+      scheduler.acquire('a', 'eth_chainId').then(() => sent.push(Date.now()))
+    );
+    await jest.advanceTimersByTimeAsync(2_000);
+    await Promise.all(requests);
+
+    const start = 1_700_000_000_000;
+    expect(sent.map((at) => at - start)).toEqual([0, 0, 500, 1_000]);
+    expect(scheduler.stats().providers[0]).toMatchObject({ requests: 4, waitedMs: 1_500 });
+  });
+
+  it('should charge compute units per method against the budget', async () => {
+    const scheduler = new RequestScheduler({ budget: { computeUnitsPerSecond: 100 } });
+
+    await scheduler.acquire('a', 'eth_getLogs');
+    const second = scheduler.acquire('a', 'eth_getLogs');
+    await jest.advanceTimersByTimeAsync(1_000);
+    await second;
+
+    expect(scheduler.stats().providers[0]).toMatchObject({
+      computeUnits: 150,
+      waitedMs: 500,
+      peakComputeUnitsPerSecond: 150,
+    });
+  });
+
+  it('should hold a rate-limited provider back for its Retry-After only', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.noteRateLimit('a', 3_000);
+
+    let limited = false;
+    const pending = scheduler.acquire('a', 'eth_call').then(() => {
+      limited = true;
+    });
+    await scheduler.acquire('b', 'eth_call');
+    await jest.advanceTimersByTimeAsync(2_999);
+    expect(limited).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(scheduler.stats().providers.find((p) => p.provider === 'a')?.rateLimited).toBe(1);
+  });
+
+  it('should retry retryable errors and wait as long as the server asks', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2 });
+    const request = jest.fn()
+      .mockRejectedValueOnce(NetworkError.rateLimited(5_000))
+      .mockResolvedValueOnce('0x1');
+
+    const result = scheduler.run(request);
+    await jest.advanceTimersByTimeAsync(4_999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('0x1');
+    expect(scheduler.stats()).toMatchObject({ retries: 1, exhausted: 0 });
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const scheduler = new RequestScheduler();
+    const request = jest.fn().mockRejectedValue(new Error('execution reverted'));
+
+    await expect(scheduler.run(request)).rejects.toThrow('execution reverted');
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('toNetworkError', () => {
+  it('should read the Retry-After of a 429 response', () => {
+    const error = new HttpRequestError({
+      url: 'https://rpc.example',
+      status: 429,
+      headers: new Headers({ 'Retry-After': '2' }),
+    });
+
+    expect(toNetworkError(error)).toMatchObject({ statusCode: 429, retryable: true, retryAfterMs: 2_000 });
+  });
+
+  it('should read Retry-After dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
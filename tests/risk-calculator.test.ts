@@ -0,0 +1,141 @@
+import { RiskCalculator } from '../src/risk/risk-calculator';
+import { DEFAULT_RISK_MODEL, scoreToRiskLevel } from '../src/risk/risk-model';
+import { RiskCategory } from '../src/risk/risk-types';
+import { BUILTIN_RULES } from '../src/risk/rules';
+import { Approval, RiskLevel } from '../src/types';
+
+describe('RiskCalculator', () => {
+  let calculator: RiskCalculator;
+
+  beforeEach(() => {
+    calculator = new RiskCalculator();
+  });
+
+  const createMockApproval = (overrides: Partial<Approval> = {}): Approval => ({
+    tokenAddress: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+    tokenSymbol: 'DAI',
+    tokenName: 'Dai Stablecoin',
+    tokenDecimals: 18,
+    spenderAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+    spenderName: 'Uniswap V2 Router',
+    value: BigInt('1000000000000000000'),
+    transactionHash: '0x123',
+    blockNumber: BigInt(12345678),
+    lastUsed: new Date(),
+    spenderVerified: true,
+    ...overrides,
+  });
+
+  const daysAgo = (days: number): Date => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  describe('calculateApprovalRisk', () => {
+    it('should return a minimal score for zero-value approvals', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({ value: BigInt(0) }));
+
+      expect(result.score).toBe(0);
+      expect(result.level).toBe(RiskLevel.MINIMAL);
+    });
+
+    it('should flag unlimited approvals as high risk', async () => {
+      const approval = createMockApproval({ value: 2n ** 256n - 1n });
+      const result = await calculator.calculateApprovalRisk(approval);
+
+      expect(result.score).toBeGreaterThan(70);
+      expect(result.level).toBe(RiskLevel.HIGH);
+      expect(result.breakdown.some(b => b.category === RiskCategory.UNLIMITED_ALLOWANCE)).toBe(true);
+    });
+
+    it('should flag NFT operator approvals without treating them as unlimited allowances', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({ kind: 'operator', value: 1n }));
+
+      expect(result.level).toBe(RiskLevel.HIGH);
+      expect(result.breakdown.map(b => b.category)).toEqual([RiskCategory.NFT_OPERATOR]);
+      expect(result.recommendations.join(' ')).toContain('setApprovalForAll(operator, false)');
+    });
+
+    it('should measure Permit2 sub-allowances against uint160 and flag far-future expirations', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({
+        kind: 'permit2',
+        value: 2n ** 160n - 1n,
+        expiration: daysAgo(-400),
+      }));
+
+      expect(result.breakdown.map(b => b.category)).toEqual([
+        RiskCategory.UNLIMITED_ALLOWANCE,
+        RiskCategory.PERMIT2_FAR_EXPIRATION,
+      ]);
+    });
+
+    it('should flag dormant approvals', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({ lastUsed: daysAgo(100) }));
+
+      expect(result.breakdown.some(b => b.category === RiskCategory.DORMANT_APPROVAL)).toBe(true);
+    });
+
+    it('should flag unverified spenders', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({ spenderVerified: false }));
+
+      expect(result.breakdown.some(b => b.category === RiskCategory.UNVERIFIED_SPENDER)).toBe(true);
+    });
+
+    it('should not penalise spenders with unknown verification status', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({ spenderVerified: undefined }));
+
+      expect(result.breakdown).toHaveLength(0);
+    });
+
+    it('should return minimal risk for verified, recently used, reasonable approvals', async () => {
+      const result = await calculator.calculateApprovalRisk(createMockApproval({ lastUsed: daysAgo(5) }));
+
+      expect(result.level).toBe(RiskLevel.MINIMAL);
+    });
+  });
+
+  describe('calculateAggregateRisk', () => {
+    it('should return minimal risk for no approvals', async () => {
+      const result = await calculator.calculateAggregateRisk([]);
+
+      expect(result.level).toBe(RiskLevel.MINIMAL);
+      expect(result.score).toBe(0);
+    });
+
+    it('should weight the riskiest approval most heavily', async () => {
+      const result = await calculator.calculateAggregateRisk([
+        createMockApproval({ value: 2n ** 256n - 1n }),
+        createMockApproval({ value: BigInt(0) }),
+      ]);
+
+      expect(result.score).toBeCloseTo(75 * 0.6 + 37.5 * 0.4);
+      expect(result.level).toBe(RiskLevel.HIGH);
+    });
+  });
+
+  describe('risk model', () => {
+    it('should describe the default model', () => {
+      expect(calculator.modelInfo).toEqual({
+        id: DEFAULT_RISK_MODEL.id,
+        version: DEFAULT_RISK_MODEL.version,
+        thresholds: DEFAULT_RISK_MODEL.thresholds,
+        rules: [...BUILTIN_RULES.map((rule) => rule.id), 'blocked-spender'],
+      });
+    });
+
+    it('should apply threshold overrides to levels and model info', () => {
+      const strict = new RiskCalculator({ thresholds: { critical: 70 } });
+
+      expect(strict.levelFor(75)).toBe(RiskLevel.CRITICAL);
+      expect(strict.modelInfo.thresholds.critical).toBe(70);
+      expect(calculator.levelFor(75)).toBe(RiskLevel.HIGH);
+    });
+  });
+});
+
+describe('scoreToRiskLevel', () => {
+  it('should map scores onto the default threshold table', () => {
+    expect(scoreToRiskLevel(85)).toBe(RiskLevel.CRITICAL);
+    expect(scoreToRiskLevel(60)).toBe(RiskLevel.HIGH);
+    expect(scoreToRiskLevel(50)).toBe(RiskLevel.MEDIUM);
+    expect(scoreToRiskLevel(20)).toBe(RiskLevel.LOW);
+    expect(scoreToRiskLevel(19)).toBe(RiskLevel.MINIMAL);
+  });
+});
@@ -0,0 +1,148 @@
+import { parseRiskPolicy, policyToModel, validateRiskPolicy } from '../src/risk/risk-policy';
+import { RiskCalculator } from '../src/risk/risk-calculator';
+import { RiskCategory } from '../src/risk/risk-types';
+import { ValidationError } from '../src/errors/validation-error';
+import { Approval, RiskLevel } from '../src/types';
+
+const UNISWAP = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+const UNKNOWN = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+const YAML_POLICY = `
+name: acme-security
+version: "2024.1"
+thresholds:
+  critical: 70
+dormancyDays: 30
+weights:
+  unlimited_allowance: 1
+spenders:
+  trusted:
+    - ${UNISWAP}
+rules:
+  - id: unlimited-untrusted
+    description: Unlimited approvals to non-allowlisted spenders are critical
+    when:
+      unlimited: true
+      trustedSpender: false
+    level: critical
+`;
+
+const createApproval = (overrides: Partial<Approval> = {}): Approval => ({
+  tokenAddress: '0x1234567890123456789012345678901234567890',
+  spenderAddress: UNKNOWN,
+  value: 2n ** 256n - 1n,
+  lastUsed: new Date(),
+  ...overrides,
+});
+
+const expectIssue = (run: () => unknown, field: string): void => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues.map((i) => i.field)).toContain(field);
+    return;
+  }
+  throw new Error('Expected a ValidationError');
+};
+
+describe('risk policy', () => {
+  describe('parseRiskPolicy', () => {
+    it('should parse a YAML policy', () => {
+      const policy = parseRiskPolicy(YAML_POLICY, 'yaml');
+
+      expect(policy.name).toBe('acme-security');
+      expect(policy.rules).toHaveLength(1);
+    });
+
+    it('should parse a JSON policy', () => {
+      const policy = parseRiskPolicy('{"name": "p", "version": "1", "dormancyDays": 10}', 'json');
+
+      expect(policy.dormancyDays).toBe(10);
+    });
+
+    it('should reject malformed documents', () => {
+      expect(() => parseRiskPolicy('{ name', 'json')).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateRiskPolicy', () => {
+    it('should require a name and version', () => {
+      expectIssue(() => validateRiskPolicy({ name: 'p' }), 'version');
+    });
+
+    it('should reject unknown keys', () => {
+      expectIssue(() => validateRiskPolicy({ name: 'p', version: '1', thresold: {} }), 'thresold');
+    });
+
+    it('should reject thresholds out of order', () => {
+      expectIssue(() => validateRiskPolicy({ name: 'p', version: '1', thresholds: { high: 90 } }), 'thresholds');
+    });
+
+    it('should reject weights for unknown factors', () => {
+      expectIssue(() => validateRiskPolicy({ name: 'p', version: '1', weights: { gas: 1 } }), 'weights.gas');
+    });
+
+    it('should reject invalid spender addresses', () => {
+      expectIssue(
+        () => validateRiskPolicy({ name: 'p', version: '1', spenders: { blocked: ['0x123'] } }),
+        'spenders.blocked[0]'
+      );
+    });
+
+    it('should reject rules with unknown levels or duplicate ids', () => {
+      const rules = [
+        { id: 'a', when: {}, level: 'severe' },
+        { id: 'a', when: {}, level: 'high' },
+      ];
+
+      expectIssue(() => validateRiskPolicy({ name: 'p', version: '1', rules }), 'rules[0].level');
+      expectIssue(() => validateRiskPolicy({ name: 'p', version: '1', rules }), 'rules[1].id');
+    });
+  });
+
+  describe('policyToModel', () => {
+    it('should identify the model by the policy name and version', () => {
+      const model = policyToModel(parseRiskPolicy(YAML_POLICY, 'yaml'));
+
+      expect(model.id).toBe('acme-security');
+      expect(model.version).toBe('2024.1');
+      expect(model.thresholds.critical).toBe(70);
+      expect(model.thresholds.high).toBe(60);
+      expect(model.factors[RiskCategory.UNLIMITED_ALLOWANCE].weight).toBe(1);
+      expect(model.trustedSpenders).toEqual([UNISWAP.toLowerCase()]);
+    });
+  });
+
+  describe('scoring with a policy', () => {
+    const calculator = new RiskCalculator({ policy: parseRiskPolicy(YAML_POLICY, 'yaml') });
+
+    it('should apply custom rules', async () => {
+      const risk = await calculator.calculateApprovalRisk(createApproval());
+
+      expect(risk.level).toBe(RiskLevel.CRITICAL);
+      expect(risk.breakdown.some((b) => b.category === 'rule:unlimited-untrusted')).toBe(true);
+    });
+
+    it('should not apply rules excluded by the trusted spender list', async () => {
+      const risk = await calculator.calculateApprovalRisk(createApproval({ spenderAddress: UNISWAP }));
+
+      expect(risk.level).toBe(RiskLevel.MEDIUM);
+    });
+
+    it('should raise blocked spenders to critical', async () => {
+      const blocking = new RiskCalculator({
+        policy: { name: 'p', version: '1', spenders: { blocked: [UNKNOWN] } },
+      });
+
+      const risk = await blocking.calculateApprovalRisk(createApproval({ value: 1n }));
+
+      expect(risk.score).toBe(100);
+      expect(risk.level).toBe(RiskLevel.CRITICAL);
+    });
+
+    it('should stamp the policy on the model info', () => {
+      expect(calculator.modelInfo).toMatchObject({ id: 'acme-security', version: '2024.1' });
+    });
+  });
+});
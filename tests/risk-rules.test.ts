@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RiskCalculator } from '../src/risk/risk-calculator';
+import { RiskRule, loadRiskRules } from '../src/risk/rules';
+import { ApprovalGuardError } from '../src/errors/approval-guard-error';
+import { ValidationError } from '../src/errors/validation-error';
+import { Approval, RiskLevel } from '../src/types';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+
+const createApproval = (overrides: Partial<Approval> = {}): Approval => ({
+  tokenAddress: '0x1234567890123456789012345678901234567890',
+  spenderAddress: VAULT,
+  value: 2n ** 256n - 1n,
+  lastUsed: new Date(),
+  ...overrides,
+});
+
+// Offsets whatever the rules before it scored for our own vault contracts
+const trustedVaultRule: RiskRule = {
+  id: 'acme-vaults',
+  category: 'acme_vault',
+  async evaluate(approval, context) {
+    if (approval.spenderAddress.toLowerCase() !== VAULT) return null;
+    return { category: 'acme_vault', score: -context.score, description: 'ACME vault', weight: 1 };
+  },
+};
+
+describe('risk rules', () => {
+  it('should run extra rules after the built-in rules', async () => {
+    const calculator = new RiskCalculator({ rules: [trustedVaultRule] });
+
+    const risk = await calculator.calculateApprovalRisk(createApproval());
+
+    expect(risk.breakdown.map((b) => b.category)).toEqual(['unlimited_allowance', 'acme_vault']);
+    expect(risk.score).toBe(0);
+    expect(risk.level).toBe(RiskLevel.MINIMAL);
+  });
+
+  it('should still apply policy rules after extra rules', async () => {
+    const calculator = new RiskCalculator({
+      rules: [trustedVaultRule],
+      policy: { name: 'p', version: '1', spenders: { blocked: [VAULT] } },
+    });
+
+    const risk = await calculator.calculateApprovalRisk(createApproval());
+
+    expect(risk.level).toBe(RiskLevel.CRITICAL);
+  });
+
+  it('should stamp extra rule ids on the model info', () => {
+    const calculator = new RiskCalculator({ rules: [trustedVaultRule] });
+
+    expect(calculator.modelInfo.rules).toContain('acme-vaults');
+  });
+
+  it('should reject duplicate rule ids', () => {
+    expect(() => new RiskCalculator({ rules: [trustedVaultRule, trustedVaultRule] })).toThrow(ValidationError);
+  });
+
+  it('should report which rule failed', async () => {
+    const failing: RiskRule = {
+      id: 'broken',
+      category: 'broken',
+      evaluate: () => Promise.reject(new Error('lookup failed')),
+    };
+    const calculator = new RiskCalculator({ rules: [failing] });
+
+    await expect(calculator.calculateApprovalRisk(createApproval())).rejects.toThrow(ApprovalGuardError);
+    await expect(calculator.calculateApprovalRisk(createApproval())).rejects.toThrow('Risk rule "broken" failed');
+  });
+
+  describe('loadRiskRules', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-guard-rules-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeModule = (name: string, source: string): string => {
+      const file = path.join(dir, name);
+      fs.writeFileSync(file, source);
+      return file;
+    };
+
+    it('should load rules exported as `rules`', async () => {
+      const file = writeModule('rules.js', `
+        exports.rules = [{ id: 'custom', category: 'custom', evaluate: async () => null }];
+      `);
+
+      const rules = await loadRiskRules(file);
+
+      expect(rules.map((rule) => rule.id)).toEqual(['custom']);
+    });
+
+    it('should reject modules without valid rules', async () => {
+      const file = writeModule('invalid.js', `module.exports = { rules: [{ id: 'x' }] };`);
+
+      await expect(loadRiskRules(file)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject paths that cannot be loaded', async () => {
+      await expect(loadRiskRules(path.join(dir, 'missing.js'))).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  HttpRequestError,
+  RpcRequestError,
+  createPublicClient,
+  custom,
+  encodeFunctionData,
+  erc20Abi,
+  type PublicClient,
+} from 'viem';
+import { RpcPool, RpcPoolOptions } from '../src/services/rpc-pool';
+
+type Answer = (method: string, params: unknown[]) => unknown;
+
+const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const token = '0x1234567890123456789012345678901234567890';
+
+const unavailable = (url: string) => (): never => {
+  throw new HttpRequestError({ url, status: 503 });
+};
+
+// Pool over fake endpoints; each endpoint answers through its own function
+const createPool = (answers: Record<string, Answer>, options: RpcPoolOptions = {}) => {
+  const calls: string[] = [];
+  const pool = new RpcPool(Object.keys(answers), options, (url) => custom({
+    request: async ({ method, params }: { method: string; params?: unknown }) => {
+      calls.push(url);
+      return answers[url](method, (params ?? []) as unknown[]);
+    },
+  }));
+  const client = createPublicClient({ transport: pool.transport() }) as PublicClient;
+  return { pool, client, calls };
+};
+
+describe('RpcPool', () => {
+  it('should fail over and skip the failing endpoint afterwards', async () => {
+    const { pool, client, calls } = createPool({
+      a: unavailable('a'),
+      b: () => '0x10',
+    });
+
+    expect(await client.request({ method: 'eth_chainId' })).toBe('0x10');
+    expect(await client.request({ method: 'eth_chainId' })).toBe('0x10');
+
+    expect(calls).toEqual(['a', 'b', 'b']);
+    const [a, b] = pool.health();
+    expect(a).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+    expect(a.coolingDownUntil).toBeGreaterThan(Date.now());
+    expect(b).toMatchObject({ requests: 2, failures: 0 });
+  });
+
+  it('should pass a revert through without trying another endpoint', async () => {
+    const { pool, client, calls } = createPool({
+      a: () => {
+        throw new RpcRequestError({ body: {}, error: { code: 3, message: 'execution reverted' }, url: 'a' });
+      },
+      b: () => '0x',
+    });
+
+    await expect(client.request({ method: 'eth_call', params: [{ to: token, data: '0x' }, 'latest'] }))
+      .rejects.toThrow();
+
+    expect(calls).toEqual(['a']);
+    expect(pool.health()[0].failures).toBe(0);
+  });
+
+  it('should not fail over on errors that are not retryable', async () => {
+    const { client, calls } = createPool({
+      a: () => {
+        throw new HttpRequestError({ url: 'a', status: 401 });
+      },
+      b: () => '0x1',
+    });
+
+    await expect(client.request({ method: 'eth_chainId' })).rejects.toThrow();
+
+    expect(calls).toEqual(['a']);
+  });
+
+  it('should rotate endpoints in round-robin mode', async () => {
+    const { client, calls } = createPool({ a: () => '0x1', b: () => '0x1', c: () => '0x1' }, { mode: 'round-robin' });
+
+    for (let i = 0; i < 4; i++) {
+      await client.request({ method: 'eth_chainId' });
+    }
+
+    expect(calls).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  describe('quorum', () => {
+    const block = (hash: string) => (): unknown => ({ number: '0x64', hash });
+
+    it('should record endpoints disagreeing on a block hash', async () => {
+      const { pool, client } = createPool({ a: block('0xaa'), b: block('0xbb') }, { quorum: true });
+
+      const result = await client.request({ method: 'eth_getBlockByNumber', params: ['0x64', false] });
+
+      expect(result).toMatchObject({ hash: '0xaa' });
+      expect(pool.takeDisagreements()).toEqual([{
+        method: 'eth_getBlockByNumber',
+        blockNumber: 100n,
+        endpoints: ['a', 'b'],
+        results: ['0xaa', '0xbb'],
+      }]);
+      expect(pool.disagreements).toEqual([]);
+    });
+
+    it('should cross-check allowance reads at a fixed block only', async () => {
+      const { pool, client, calls } = createPool({ a: () => '0x01', b: () => '0x02' }, { quorum: true });
+      const allowance = encodeFunctionData({ abi: erc20Abi, functionName: 'allowance', args: [owner, spender] });
+      const balance = encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+
+      await client.request({ method: 'eth_call', params: [{ to: token, data: allowance }, '0x64'] });
+      await client.request({ method: 'eth_call', params: [{ to: token, data: allowance }, 'latest'] });
+      await client.request({ method: 'eth_call', params: [{ to: token, data: balance }, '0x64'] });
+
+      expect(calls).toEqual(['a', 'b', 'a', 'a']);
+      expect(pool.disagreements).toHaveLength(1);
+    });
+
+    it('should not report agreeing endpoints', async () => {
+      const { pool, client } = createPool({ a: block('0xaa'), b: block('0xaa') }, { quorum: true });
+
+      await client.request({ method: 'eth_getBlockByNumber', params: ['0x64', false] });
+
+      expect(pool.disagreements).toEqual([]);
+    });
+  });
+});
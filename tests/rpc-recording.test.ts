@@ -0,0 +1,122 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ContractFunctionExecutionError,
+  RpcRequestError,
+  createPublicClient,
+  custom,
+  erc20Abi,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+import { mainnet } from 'viem/chains';
+import {
+  RpcRecorder,
+  loadRpcRecording,
+  recordingTransport,
+  replayTransport,
+} from '../src/services/rpc-recording';
+import { ValidationError } from '../src/errors';
+
+const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const token = '0x1234567890123456789012345678901234567890';
+const reverting = '0x0000000000000000000000000000000000000bad';
+
+const allowance = `0x${'0'.repeat(63)}5`;
+
+// A node answering allowance reads, and reverting for one contract
+const node = custom({
+  request: async ({ method, params }: { method: string; params?: unknown }) => {
+    if (method === 'eth_chainId') return '0x1';
+    if (method === 'eth_blockNumber') return '0x64';
+    const [call] = params as [{ to: string }];
+    if (call.to === reverting) {
+      throw new RpcRequestError({ body: {}, error: { code: 3, message: 'execution reverted' }, url: 'node' });
+    }
+    return allowance;
+  },
+});
+
+const clientOf = (transport: Transport): PublicClient =>
+  createPublicClient({ chain: mainnet, transport }) as PublicClient;
+
+const readAllowance = (client: PublicClient, address: `0x${string}`): Promise<bigint> =>
+  client.readContract({ address, abi: erc20Abi, functionName: 'allowance', args: [owner, spender] });
+
+describe('RPC recording', () => {
+  it('should replay recorded results', async () => {
+    const recorder = new RpcRecorder(1);
+    const recorded = clientOf(recordingTransport(node, recorder));
+    expect(await readAllowance(recorded, token)).toBe(5n);
+    expect(await recorded.getBlockNumber()).toBe(100n);
+
+    const replayed = clientOf(replayTransport(recorder.toJSON()));
+
+    expect(await readAllowance(replayed, token)).toBe(5n);
+    expect(await replayed.getBlockNumber()).toBe(100n);
+    expect(recorder.size).toBe(2);
+  });
+
+  it('should replay a revert as a revert', async () => {
+    const recorder = new RpcRecorder(1);
+    await expect(readAllowance(clientOf(recordingTransport(node, recorder)), reverting)).rejects.toThrow();
+
+    const replay = readAllowance(clientOf(replayTransport(recorder.toJSON())), reverting);
+
+    await expect(replay).rejects.toBeInstanceOf(ContractFunctionExecutionError);
+    await expect(replay).rejects.toThrow('execution reverted');
+  });
+
+  it('should serve a repeated request its answers in order', async () => {
+    const replayed = clientOf(replayTransport({
+      schemaVersion: 1,
+      recordedAt: new Date(0).toISOString(),
+      exchanges: [
+        { method: 'eth_blockNumber', result: '0x1' },
+        { method: 'eth_blockNumber', result: '0x2' },
+      ],
+    }));
+
+    const read = (): Promise<unknown> => replayed.request({ method: 'eth_blockNumber' });
+
+    expect([await read(), await read(), await read()]).toEqual(['0x1', '0x2', '0x2']);
+  });
+
+  it('should fail requests missing from the recording', async () => {
+    const replayed = clientOf(replayTransport(new RpcRecorder(1).toJSON()));
+
+    await expect(readAllowance(replayed, token)).rejects.toThrow('No recorded response for eth_call');
+  });
+
+  describe('files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-guard-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load a saved recording', async () => {
+      const file = path.join(directory, 'scan.json');
+      const recorder = new RpcRecorder(1);
+      await readAllowance(clientOf(recordingTransport(node, recorder)), token);
+
+      await recorder.save(file);
+      const recording = await loadRpcRecording(file);
+
+      expect(recording).toMatchObject({ schemaVersion: 1, chainId: 1, exchanges: recorder.toJSON().exchanges });
+    });
+
+    it('should reject files of another schema version', async () => {
+      const file = path.join(directory, 'scan.json');
+      await fs.writeFile(file, JSON.stringify({ schemaVersion: 2, exchanges: [] }));
+
+      await expect(loadRpcRecording(file)).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import type { PublicClient } from 'viem';
+import { ApprovalScanner, ScannerOptions } from '../src/scanner';
+import { ApprovalData, RevocationRecommendation, RiskLevel, ScanResult } from '../src/types';
+
+// Shared by the multi-chain and portfolio tests, which stub whole chain scans
+
+export const scoredApproval = (
+  chainId: number,
+  spender: string,
+  riskScore: number,
+  riskLevel: RiskLevel
+): ApprovalData => ({
+  chainId,
+  tokenAddress: '0x1234567890123456789012345678901234567890',
+  tokenSymbol: 'TKN',
+  spenderAddress: spender,
+  allowance: 2n ** 256n - 1n,
+  isUnlimited: true,
+  riskScore,
+  riskLevel,
+  riskFactors: [],
+});
+
+export const scanResultOf = (
+  wallet: string,
+  chainId: number,
+  approvals: ApprovalData[],
+  recommendations: RevocationRecommendation[] = []
+): ScanResult => ({
+  walletAddress: wallet,
+  approvals,
+  recommendations,
+  summary: {
+    totalApprovals: approvals.length,
+    unlimitedApprovals: approvals.length,
+    highRiskApprovals: 0,
+    mediumRiskApprovals: 0,
+    lowRiskApprovals: 0,
+    averageRiskScore: 0,
+  },
+  scanMetadata: {
+    scanTime: new Date(0).toISOString(),
+    durationMs: 1,
+    fromCache: false,
+    chainId,
+    rpcUrl: 'https://rpc.example',
+    riskModel: { id: 'default', version: '1', thresholds: { critical: 80, high: 60, medium: 40, low: 20 }, rules: [] },
+  },
+});
+
+// A chain scanner whose scan answers from `outcome` by wallet, without an RPC
+export const stubChainScanner = (
+  options: ScannerOptions,
+  outcome: (wallet: string) => ScanResult | Error
+): ApprovalScanner => {
+  const chainId = options.chain as number;
+  const scanner = new ApprovalScanner({ ...options, client: { chain: { id: chainId } } as unknown as PublicClient });
+  jest.spyOn(scanner, 'scan').mockImplementation(async (wallet) => {
+    const result = outcome(wallet);
+    if (result instanceof Error) throw result;
+    return result;
+  });
+  return scanner;
+};
@@ -1,16 +1,47 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { encodeEventTopics, numberToHex, parseAbiItem, type Address } from 'viem';
 import { ApprovalScanner, createScanner, scanApprovals } from '../src/scanner.js';
 import { ValidationError } from '../src/errors/validation-error.js';
+import { MemoryCheckpointStore } from '../src/cache/checkpoint-store.js';
+import { SpenderLabelIndex } from '../src/services/spender-labels.js';
+import { DEFAULT_RISK_MODEL } from '../src/risk/risk-model.js';
+
+const approvalEvent = parseAbiItem('event Approval(address indexed owner, address indexed spender, uint256 value)');
+const nftApprovalEvent = parseAbiItem('event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)');
+
+// Raw ERC-20 Approval log as returned by getLogs
+const erc20Log = (token: string, owner: string, spender: string, value: bigint, blockNumber: bigint, transactionHash: string) => ({
+  address: token,
+  topics: encodeEventTopics({ abi: [approvalEvent], args: { owner: owner as Address, spender: spender as Address } }),
+  data: numberToHex(value, { size: 32 }),
+  args: { owner, spender, value },
+  blockNumber,
+  logIndex: 0,
+  transactionHash,
+});
+
+// Raw ERC-721 Approval log: the token id is a fourth topic and there is no data
+const erc721Log = (token: string, owner: string, approved: string, tokenId: bigint, blockNumber: bigint, transactionHash: string) => ({
+  address: token,
+  topics: encodeEventTopics({
+    abi: [nftApprovalEvent],
+    args: { owner: owner as Address, approved: approved as Address, tokenId },
+  }),
+  data: '0x',
+  args: { owner, spender: approved },
+  blockNumber,
+  logIndex: 0,
+  transactionHash,
+});
 
 // Mock viem
-vi.mock('viem', async () => {
-  const actual = await vi.importActual('viem');
+jest.mock('viem', () => {
+  const actual = jest.requireActual('viem');
   return {
     ...actual,
-    createPublicClient: vi.fn(() => ({
-      getBlockNumber: vi.fn().mockResolvedValue(18000000n),
-      getLogs: vi.fn().mockResolvedValue([]),
-      readContract: vi.fn().mockResolvedValue('Test Token'),
+    createPublicClient: jest.fn(() => ({
+      getBlockNumber: jest.fn().mockResolvedValue(18000000n),
+      getLogs: jest.fn().mockResolvedValue([]),
+      readContract: jest.fn().mockResolvedValue('Test Token'),
     })),
   };
 });
@@ -72,6 +103,302 @@ describe('ApprovalScanner', () => {
       expect(result.scanMetadata).toHaveProperty('durationMs');
       expect(result.scanMetadata).toHaveProperty('fromCache');
       expect(result.scanMetadata.fromCache).toBe(false);
+      expect(result.scanMetadata.chainId).toBe(1);
+      expect(result.scanMetadata.riskModel).toMatchObject({ id: 'approval-guard-additive', version: '1.0.0' });
+    });
+
+    it('should scan the requested chain', async () => {
+      const arbitrumScanner = new ApprovalScanner({ chain: 'arbitrum', cacheEnabled: false });
+      const result = await arbitrumScanner.scan('0x742d35Cc6634C0532925a3b844Bc9e7595f5bE21');
+
+      expect(result.scanMetadata.chainId).toBe(42161);
+    });
+
+    it('should keep the latest approval per token-spender pair and score it', async () => {
+      const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+      const token = '0x1234567890123456789012345678901234567890';
+      const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+      const client = {
+        getBlockNumber: jest.fn().mockResolvedValue(100n),
+        getLogs: jest.fn().mockImplementation(({ event }: { event: { name: string } }) => Promise.resolve(
+          event.name === 'Approval'
+            ? [
+              erc20Log(token, owner, spender, 5n, 10n, '0x01'),
+              erc20Log(token, owner, spender, 2n ** 256n - 1n, 20n, '0x02'),
+            ]
+            : []
+        )),
+        readContract: jest.fn().mockRejectedValue(new Error('not a token')),
+      };
+      const pipelineScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      const result = await pipelineScanner.scan(owner);
+
+      expect(result.approvals).toHaveLength(1);
+      expect(result.approvals[0].transactionHash).toBe('0x02');
+      expect(result.approvals[0].isUnlimited).toBe(true);
+      expect(result.approvals[0].riskFactors).toContain('unlimited_allowance');
+      expect(result.recommendations).toHaveLength(1);
+      expect(pipelineScanner.buildReport(result).summary.totalApprovals).toBe(1);
+    });
+
+    it('should only answer default scans from the cache', async () => {
+      const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+      const client = {
+        getBlockNumber: jest.fn().mockResolvedValue(2_000_000n),
+        getLogs: jest.fn().mockResolvedValue([]),
+        readContract: jest.fn().mockRejectedValue(new Error('not a token')),
+      };
+      const cachedScanner = new ApprovalScanner({ client: client as never, cacheEnabled: true });
+
+      await cachedScanner.scan(owner);
+      const fullHistory = await cachedScanner.scan(owner, { fromBlock: 0n });
+      const withZero = await cachedScanner.scan(owner, { includeZeroAllowances: true });
+      const again = await cachedScanner.scan(owner);
+
+      expect(fullHistory.scanMetadata.fromCache).toBe(false);
+      expect(client.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 0n }));
+      expect(withZero.scanMetadata.fromCache).toBe(false);
+      expect(again.scanMetadata.fromCache).toBe(true);
+    });
+
+    describe('live allowances', () => {
+      const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+      const token = '0x1234567890123456789012345678901234567890';
+      const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+      const createClient = (allowance: bigint) => ({
+        getBlockNumber: jest.fn().mockResolvedValue(100n),
+        getLogs: jest.fn().mockImplementation(({ event }: { event: { name: string } }) => Promise.resolve(
+          event.name === 'Approval' ? [erc20Log(token, owner, spender, 2n ** 256n - 1n, 10n, '0x01')] : []
+        )),
+        readContract: jest.fn().mockImplementation(({ functionName }: { functionName: string }) =>
+          functionName === 'allowance' ? Promise.resolve(allowance) : Promise.reject(new Error('not a token'))
+        ),
+      });
+
+      it('should report the remaining allowance next to the last approved amount', async () => {
+        const client = createClient(5n);
+        const liveScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await liveScanner.scan(owner);
+
+        expect(result.approvals).toHaveLength(1);
+        expect(result.approvals[0]).toMatchObject({ allowance: 5n, approvedAllowance: 2n ** 256n - 1n, isUnlimited: false });
+        expect(client.readContract).toHaveBeenCalledWith(
+          expect.objectContaining({ address: token, functionName: 'allowance', args: [owner, spender], blockNumber: 100n })
+        );
+      });
+
+      it('should drop pairs whose allowance has been spent', async () => {
+        const client = createClient(0n);
+        const liveScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await liveScanner.scan(owner);
+
+        expect(result.approvals).toHaveLength(0);
+      });
+    });
+
+    describe('operator approvals', () => {
+      const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+      const collection = '0x1234567890123456789012345678901234567890';
+      const operator = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+      const createClient = (logs: unknown[], liveApproved: boolean) => ({
+        getBlockNumber: jest.fn().mockResolvedValue(100n),
+        getLogs: jest.fn().mockImplementation(({ event }: { event: { name: string } }) =>
+          Promise.resolve(event.name === 'ApprovalForAll' ? logs : [])
+        ),
+        readContract: jest.fn().mockImplementation(
+          ({ functionName, args }: { functionName: string; args?: unknown[] }) => {
+            switch (functionName) {
+              case 'isApprovedForAll': return Promise.resolve(liveApproved);
+              case 'name': return Promise.resolve('Test Apes');
+              case 'symbol': return Promise.resolve('TAPE');
+              case 'supportsInterface': return Promise.resolve(args?.[0] === '0x80ac58cd');
+              default: return Promise.reject(new Error('unsupported'));
+            }
+          }
+        ),
+      });
+
+      const approvedLog = {
+        address: collection,
+        args: { owner, operator, approved: true },
+        blockNumber: 10n,
+        logIndex: 0,
+        transactionHash: '0x01',
+      };
+
+      it('should report live operator approvals with collection metadata', async () => {
+        const client = createClient([approvedLog], true);
+        const operatorScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await operatorScanner.scan(owner);
+
+        expect(result.approvals).toHaveLength(1);
+        expect(result.approvals[0]).toMatchObject({
+          kind: 'operator',
+          tokenStandard: 'erc721',
+          tokenSymbol: 'TAPE',
+          isUnlimited: false,
+        });
+        expect(result.approvals[0].riskFactors).toContain('nft_operator');
+        expect(result.recommendations[0].revocation).toMatchObject({
+          to: collection,
+          functionName: 'setApprovalForAll',
+          args: [operator, 'false'],
+        });
+        expect(client.readContract).toHaveBeenCalledWith(
+          expect.objectContaining({ functionName: 'isApprovedForAll', blockNumber: 100n })
+        );
+      });
+
+      it('should drop operators revoked by a later log', async () => {
+        const client = createClient([
+          approvedLog,
+          { ...approvedLog, args: { owner, operator, approved: false }, blockNumber: 20n },
+        ], true);
+        const operatorScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await operatorScanner.scan(owner);
+
+        expect(result.approvals).toHaveLength(0);
+      });
+
+      it('should drop operators that are no longer approved on chain', async () => {
+        const client = createClient([approvedLog], false);
+        const operatorScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await operatorScanner.scan(owner);
+
+        expect(result.approvals).toHaveLength(0);
+      });
+    });
+
+    describe('ERC-721 token approvals', () => {
+      const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+      const collection = '0x1234567890123456789012345678901234567890';
+      const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+      const zero = '0x0000000000000000000000000000000000000000';
+
+      const createClient = (logs: unknown[], approved: string) => ({
+        getBlockNumber: jest.fn().mockResolvedValue(100n),
+        getLogs: jest.fn().mockImplementation(({ event }: { event: { name: string } }) =>
+          Promise.resolve(event.name === 'Approval' ? logs : [])
+        ),
+        readContract: jest.fn().mockImplementation(({ functionName }: { functionName: string }) =>
+          functionName === 'getApproved' ? Promise.resolve(approved) : Promise.reject(new Error('unsupported'))
+        ),
+      });
+
+      it('should report per-token approvals without scoring them as allowances', async () => {
+        const client = createClient([erc721Log(collection, owner, spender, 7n, 10n, '0x01')], spender);
+        const nftScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await nftScanner.scan(owner);
+
+        expect(result.approvals).toHaveLength(1);
+        expect(result.approvals[0]).toMatchObject({ kind: 'token', tokenStandard: 'erc721', tokenId: '7', isUnlimited: false });
+        expect(result.approvals[0].riskFactors).toEqual(['nft_token_approval']);
+        expect(result.summary.unlimitedApprovals).toBe(0);
+        expect(result.recommendations[0].revocation).toMatchObject({ functionName: 'approve', args: [zero, '7'] });
+      });
+
+      it('should drop token approvals cleared by a later log or a transfer', async () => {
+        const cleared = createClient([
+          erc721Log(collection, owner, spender, 7n, 10n, '0x01'),
+          erc721Log(collection, owner, zero, 7n, 20n, '0x02'),
+        ], zero);
+        const transferred = createClient([erc721Log(collection, owner, spender, 7n, 10n, '0x01')], zero);
+
+        const clearedResult = await new ApprovalScanner({ client: cleared as never, cacheEnabled: false }).scan(owner);
+        const transferredResult = await new ApprovalScanner({ client: transferred as never, cacheEnabled: false }).scan(owner);
+
+        expect(clearedResult.approvals).toHaveLength(0);
+        expect(transferredResult.approvals).toHaveLength(0);
+      });
+    });
+
+    describe('Permit2 sub-allowances', () => {
+      const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+      const token = '0x1234567890123456789012345678901234567890';
+      const router = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+      const permit2 = '0x000000000022d473030f116ddee9f6b43ac78ba3';
+      const farFuture = 2 ** 48 - 1;
+
+      const createClient = (live: readonly [bigint, number, number] | Error, lockdowns: unknown[] = []) => ({
+        getBlockNumber: jest.fn().mockResolvedValue(100n),
+        getLogs: jest.fn().mockImplementation(({ address, event }: { address?: string; event: { name: string } }) => {
+          if (address === permit2) {
+            if (event.name === 'Lockdown') return Promise.resolve(lockdowns);
+            return Promise.resolve(event.name === 'Approval'
+              ? [{ address: permit2, args: { owner, token, spender: router, amount: 5n, expiration: farFuture }, blockNumber: 30n, logIndex: 0, transactionHash: '0x03' }]
+              : []);
+          }
+          return Promise.resolve(event.name === 'Approval'
+            ? [erc20Log(token, owner, permit2, 2n ** 256n - 1n, 20n, '0x02')]
+            : []);
+        }),
+        readContract: jest.fn().mockImplementation(({ address, functionName }: { address: string; functionName: string }) => {
+          if (functionName !== 'allowance') return Promise.reject(new Error('not a token'));
+          if (address !== permit2) return Promise.resolve(2n ** 256n - 1n);
+          return live instanceof Error ? Promise.reject(live) : Promise.resolve(live);
+        }),
+      });
+
+      it('should surface live sub-allowances of tokens approved to Permit2', async () => {
+        const client = createClient([2n ** 160n - 1n, farFuture, 3]);
+        const permit2Scanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+        const result = await permit2Scanner.scan(owner);
+        const sub = result.approvals.find((a) => a.kind === 'permit2');
+
+        expect(result.approvals).toHaveLength(2);
+        expect(sub).toMatchObject({ tokenAddress: token, spenderAddress: router, nonce: 3, isUnlimited: true });
+        expect(sub?.riskFactors).toEqual(expect.arrayContaining(['unlimited_allowance', 'permit2_far_expiration']));
+        expect(result.recommendations.find((r) => r.spenderAddress === router)?.revocation).toMatchObject({
+          to: permit2,
+          args: [token, router, '0', '0'],
+        });
+        expect(client.readContract).toHaveBeenCalledWith(
+          expect.objectContaining({ address: permit2, functionName: 'allowance', args: [owner, token, router], blockNumber: 100n })
+        );
+      });
+
+      it('should drop sub-allowances that are spent or expired', async () => {
+        const spent = createClient([0n, farFuture, 3]);
+        const expired = createClient([5n, 1, 3]);
+
+        const spentResult = await new ApprovalScanner({ client: spent as never, cacheEnabled: false }).scan(owner);
+        const expiredResult = await new ApprovalScanner({ client: expired as never, cacheEnabled: false }).scan(owner);
+
+        expect(spentResult.approvals.filter((a) => a.kind === 'permit2')).toHaveLength(0);
+        expect(expiredResult.approvals.filter((a) => a.kind === 'permit2')).toHaveLength(0);
+      });
+
+      it('should keep the logged sub-allowance when its live read fails', async () => {
+        const client = createClient(new Error('execution reverted'));
+
+        const result = await new ApprovalScanner({ client: client as never, cacheEnabled: false }).scan(owner);
+
+        expect(result.approvals.find((a) => a.kind === 'permit2')).toMatchObject({
+          spenderAddress: router,
+          allowance: 5n,
+          approvedAllowance: 5n,
+        });
+      });
+
+      it('should order Permit2 logs of one block by log index', async () => {
+        const lockdown = { address: permit2, args: { owner, token, spender: router }, blockNumber: 30n, logIndex: 2, transactionHash: '0x03' };
+        const client = createClient(new Error('execution reverted'), [lockdown]);
+
+        const result = await new ApprovalScanner({ client: client as never, cacheEnabled: false }).scan(owner);
+
+        // The Lockdown after the Approval revoked it, so the logged sub-allowance is 0
+        expect(result.approvals.filter((a) => a.kind === 'permit2')).toHaveLength(0);
+      });
     });
 
     it('should include summary statistics', async () => {
@@ -86,22 +413,293 @@ describe('ApprovalScanner', () => {
     });
   });
 
+  describe('incremental scans', () => {
+    const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+    const token = '0x1234567890123456789012345678901234567890';
+    const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+    // Chain whose head, logs and block hashes tests can change between scans
+    const createChain = () => {
+      const chain = {
+        head: 1000n,
+        logs: [erc20Log(token, owner, spender, 2n ** 256n - 1n, 100n, '0x01')],
+        allowance: 2n ** 256n - 1n,
+        forkedBelow: -1n,
+      };
+      const client = {
+        getBlockNumber: jest.fn(() => Promise.resolve(chain.head)),
+        getBlock: jest.fn(({ blockNumber }: { blockNumber: bigint }) =>
+          Promise.resolve({ hash: `0x${blockNumber.toString(16)}${blockNumber <= chain.forkedBelow ? 'ff' : ''}` })
+        ),
+        getLogs: jest.fn(({ address, event, fromBlock, toBlock }: { address?: string; event: { name: string }; fromBlock: bigint; toBlock: bigint }) =>
+          Promise.resolve(address === undefined && event.name === 'Approval'
+            ? chain.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+            : [])
+        ),
+        readContract: jest.fn(({ functionName }: { functionName: string }) =>
+          functionName === 'allowance' ? Promise.resolve(chain.allowance) : Promise.reject(new Error('not a token'))
+        ),
+      };
+      const scanner = new ApprovalScanner({
+        client: client as never,
+        cacheEnabled: false,
+        checkpoints: new MemoryCheckpointStore(),
+        reorgDepth: 10n,
+        blockRange: 1000n,
+      });
+      const approvalRanges = () => client.getLogs.mock.calls
+        .filter(([query]) => query.address === undefined && query.event.name === 'Approval')
+        .map(([query]) => [query.fromBlock, query.toBlock]);
+      return { chain, client, scanner, approvalRanges };
+    };
+
+    it('should only read logs after the checkpoint and keep earlier approvals', async () => {
+      const { chain, scanner, approvalRanges } = createChain();
+
+      const first = await scanner.scan(owner);
+      chain.head = 1100n;
+      const second = await scanner.scan(owner);
+
+      expect(first.scanMetadata.checkpointBlock).toBeUndefined();
+      expect(second.scanMetadata.checkpointBlock).toBe('990');
+      expect(approvalRanges()).toEqual([[0n, 1000n], [991n, 1100n]]);
+      expect(second.approvals).toHaveLength(1);
+      expect(second.approvals[0].transactionHash).toBe('0x01');
+    });
+
+    it('should apply logs that arrive after the checkpoint', async () => {
+      const { chain, scanner } = createChain();
+
+      await scanner.scan(owner);
+      chain.head = 1100n;
+      chain.logs.push(erc20Log(token, owner, spender, 5n, 1050n, '0x02'));
+      chain.allowance = 5n;
+      const result = await scanner.scan(owner);
+
+      expect(result.approvals).toHaveLength(1);
+      expect(result.approvals[0]).toMatchObject({ transactionHash: '0x02', approvedAllowance: 5n, allowance: 5n });
+    });
+
+    it('should rescan in full when the checkpoint block was reorged away', async () => {
+      const { chain, scanner, approvalRanges } = createChain();
+
+      await scanner.scan(owner);
+      chain.head = 1100n;
+      chain.forkedBelow = 995n;
+      const result = await scanner.scan(owner);
+
+      expect(result.scanMetadata.checkpointBlock).toBeUndefined();
+      expect(approvalRanges()[1]).toEqual([100n, 1100n]);
+    });
+  });
+
+  describe('check', () => {
+    const owner = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+    const token = '0x1234567890123456789012345678901234567890';
+    const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+    const createClient = (allowance: bigint, logs: unknown[] = []) => ({
+      getBlockNumber: jest.fn().mockResolvedValue(100n),
+      getLogs: jest.fn().mockResolvedValue(logs),
+      readContract: jest.fn().mockImplementation(({ functionName }: { functionName: string }) =>
+        functionName === 'allowance' ? Promise.resolve(allowance) : Promise.reject(new Error('not a token'))
+      ),
+    });
+
+    it('should throw ValidationError for invalid token address', async () => {
+      await expect(scanner.check(owner, 'invalid')).rejects.toThrow(ValidationError);
+    });
+
+    it('should score the live allowance instead of the logged value', async () => {
+      const client = createClient(2n ** 256n - 1n, [
+        erc20Log(token, owner, spender, 5n, 10n, '0x01'),
+      ]);
+      const checkScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      const result = await checkScanner.check(owner, token, spender);
+
+      expect(result.approvals).toHaveLength(1);
+      expect(result.approvals[0].transactionHash).toBe('0x01');
+      expect(result.approvals[0].isUnlimited).toBe(true);
+      expect(result.approvals[0].riskFactors).toContain('unlimited_allowance');
+    });
+
+    it('should report an explicit spender even without an allowance', async () => {
+      const client = createClient(0n);
+      const checkScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      const result = await checkScanner.check(owner, token, spender);
+
+      expect(result.approvals).toHaveLength(1);
+      expect(result.approvals[0].allowance).toBe(0n);
+    });
+
+    it('should drop revoked spenders when no spender is given', async () => {
+      const client = createClient(0n, [
+        erc20Log(token, owner, spender, 5n, 10n, '0x01'),
+      ]);
+      const checkScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      const result = await checkScanner.check(owner, token);
+
+      expect(result.approvals).toHaveLength(0);
+    });
+  });
+
+  describe('spenderExposure', () => {
+    const alice = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+    const bob = '0x1111111111111111111111111111111111111111';
+    const token = '0x1234567890123456789012345678901234567890';
+    const spender = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+    // Alice approved everything but holds 300; Bob approved 50 of his 1000
+    const createClient = () => ({
+      getBlockNumber: jest.fn().mockResolvedValue(100n),
+      getLogs: jest.fn().mockImplementation(({ event }: { event: { name: string } }) => Promise.resolve(
+        event.name === 'Approval'
+          ? [
+            erc20Log(token, alice, spender, 2n ** 256n - 1n, 10n, '0x01'),
+            erc20Log(token, bob, spender, 50n, 20n, '0x02'),
+          ]
+          : []
+      )),
+      readContract: jest.fn().mockImplementation(({ functionName, args }: { functionName: string; args: string[] }) => {
+        if (functionName === 'allowance') return Promise.resolve(args[0] === alice ? 2n ** 256n - 1n : 50n);
+        if (functionName === 'balanceOf') return Promise.resolve(args[0] === alice ? 300n : 1000n);
+        return Promise.reject(new Error('not a token'));
+      }),
+    });
+
+    it('should list every owner of a live approval by amount at risk', async () => {
+      const exposureScanner = new ApprovalScanner({ client: createClient() as never, cacheEnabled: false });
+
+      const result = await exposureScanner.spenderExposure(spender);
+
+      expect(result.exposures.map((e) => [e.ownerAddress, e.balance, e.amountAtRisk])).toEqual([
+        [alice, 300n, 300n],
+        [bob, 1000n, 50n],
+      ]);
+      expect(result.summary).toEqual({ owners: 2, tokens: 1, approvals: 2, unlimitedApprovals: 1 });
+    });
+
+    it('should only query the given owners', async () => {
+      const client = createClient();
+      const exposureScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      await exposureScanner.spenderExposure(spender, { owners: [bob], fromBlock: 0n });
+
+      expect(client.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ args: { owner: [bob], spender }, fromBlock: 0n })
+      );
+      await expect(exposureScanner.spenderExposure(spender, { owners: ['0x12'] })).rejects.toThrow(ValidationError);
+    });
+
+    it('should read the logs of a few owner groups at a time', async () => {
+      const owners = Array.from({ length: 1000 }, (_, i) => `0x${(i + 1).toString(16).padStart(40, '0')}`);
+      let inFlight = 0;
+      let mostInFlight = 0;
+      const client = {
+        ...createClient(),
+        getLogs: jest.fn().mockImplementation(async () => {
+          inFlight++;
+          mostInFlight = Math.max(mostInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          return [];
+        }),
+      };
+      const exposureScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      await exposureScanner.spenderExposure(spender, { owners, fromBlock: 0n });
+
+      expect(client.getLogs).toHaveBeenCalledTimes(20);
+      expect(mostInFlight).toBe(8);
+    });
+  });
+
+  describe('tokenApprovals', () => {
+    const alice = '0x742d35cc6634c0532925a3b844bc9e7595f5be21';
+    const bob = '0x1111111111111111111111111111111111111111';
+    const carol = '0x2222222222222222222222222222222222222222';
+    const token = '0x1234567890123456789012345678901234567890';
+    const router = '0x7a250d5630b4cf539739df2c5dacb4c659f2488d';
+    const drainer = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+    // Alice approved the router and revoked the drainer; Bob and Carol approved the drainer
+    const createClient = () => ({
+      getBlockNumber: jest.fn().mockResolvedValue(100n),
+      getLogs: jest.fn().mockResolvedValue([
+        erc20Log(token, alice, router, 2n ** 256n - 1n, 10n, '0x01'),
+        erc20Log(token, alice, drainer, 2n ** 256n - 1n, 11n, '0x02'),
+        erc20Log(token, alice, drainer, 0n, 12n, '0x03'),
+        erc20Log(token, bob, drainer, 2n ** 256n - 1n, 20n, '0x04'),
+        erc20Log(token, carol, drainer, 500n, 30n, '0x05'),
+      ]),
+      readContract: jest.fn().mockImplementation(({ functionName, args }: { functionName: string; args: string[] }) => {
+        if (functionName !== 'allowance') return Promise.reject(new Error('not a token'));
+        if (args[0] === alice && args[1] === drainer) return Promise.resolve(0n);
+        return Promise.resolve(args[0] === carol ? 500n : 2n ** 256n - 1n);
+      }),
+    });
+
+    it('should group live allowances by spender and flag unknown spenders holding many', async () => {
+      const client = createClient();
+      const censusScanner = new ApprovalScanner({ client: client as never, cacheEnabled: false });
+
+      const census = await censusScanner.tokenApprovals(token, { minAllowances: 2 });
+
+      expect(client.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ address: token, args: { owner: undefined, spender: undefined } })
+      );
+      expect(census.spenders.map((s) => [s.spenderAddress, s.spenderName, s.flagged, s.owners])).toEqual([
+        [drainer, undefined, true, 2],
+        [router, 'Uniswap V2 Router', false, 1],
+      ]);
+      expect(census.spenders[0].approvals.map((a) => a.ownerAddress)).toEqual([bob, carol]);
+      expect(census.summary).toEqual({
+        owners: 3,
+        spenders: 2,
+        approvals: 3,
+        unlimitedApprovals: 2,
+        flaggedSpenders: 1,
+        minAllowances: 2,
+      });
+    });
+
+    it('should take spender trust from labels and the risk policy', async () => {
+      const censusScanner = new ApprovalScanner({
+        client: createClient() as never,
+        cacheEnabled: false,
+        spenderLabels: new SpenderLabelIndex([{ address: drainer, name: 'Token Staking' }]),
+        risk: { model: { ...DEFAULT_RISK_MODEL, blockedSpenders: [router] } },
+      });
+
+      const census = await censusScanner.tokenApprovals(token, { minAllowances: 2 });
+
+      expect(census.spenders.map((s) => [s.spenderName, s.labelSource, s.spenderVerified, s.flagged])).toEqual([
+        ['Token Staking', 'labels', true, false],
+        ['Uniswap V2 Router', 'known', false, true],
+      ]);
+      await expect(censusScanner.tokenApprovals(token, { minAllowances: 0 })).rejects.toThrow(ValidationError);
+    });
+  });
+
   describe('clearCache', () => {
-    it('should not throw when cache is disabled', () => {
-      expect(() => scanner.clearCache()).not.toThrow();
+    it('should not throw when cache is disabled', async () => {
+      await expect(scanner.clearCache()).resolves.toBeUndefined();
     });
 
-    it('should clear cache when enabled', () => {
+    it('should clear cache when enabled', async () => {
       const cachedScanner = new ApprovalScanner({ cacheEnabled: true });
-      expect(() => cachedScanner.clearCache()).not.toThrow();
+      await expect(cachedScanner.clearCache()).resolves.toBeUndefined();
     });
   });
 
   describe('getHistory', () => {
-    it('should return empty history when history tracking is disabled', () => {
-      const history = scanner.getHistory();
-      expect(history.entries).toEqual([]);
-      expect(history.statistics.totalApprovals).toBe(0);
+    it('should return empty history when history tracking is disabled', async () => {
+      const history = await scanner.getHistory('0x742d35Cc6634C0532925a3b844Bc9e7595f5bE21');
+      expect(history.timelines).toEqual([]);
+      expect(history.totalApprovals).toBe(0);
     });
   });
 });
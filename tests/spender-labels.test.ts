@@ -0,0 +1,66 @@
+import { SpenderLabelIndex, parseSpenderLabels } from '../src/services/spender-labels';
+import { ValidationError } from '../src/errors/validation-error';
+
+describe('spender labels', () => {
+  const staking = '0x9999999999999999999999999999999999999999';
+  const router = '0x7a250d5630b4cf539739df2c5dacb4c659f2488d';
+
+  describe('parseSpenderLabels', () => {
+    it('should read spenders with names and verification', () => {
+      const labels = parseSpenderLabels(`
+spenders:
+  - address: ${staking}
+    name: Token Staking
+  - address: ${router}
+    name: Old Router
+    verified: false
+`, 'yaml');
+
+      expect(labels).toEqual([
+        { address: staking, name: 'Token Staking' },
+        { address: router, name: 'Old Router', verified: false },
+      ]);
+    });
+
+    it('should report every problem of a labels file', () => {
+      const labels = JSON.stringify({
+        spenders: [
+          { address: '0x123', name: 'Broken', owner: 'alice' },
+          { address: staking, name: '' },
+          { address: staking.toUpperCase().replace('0X', '0x'), name: 'Twice', verified: 'yes' },
+        ],
+      });
+
+      expect.assertions(2);
+      try {
+        parseSpenderLabels(labels, 'json');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).issues.map((i) => i.field)).toEqual([
+          'spenders[0].owner',
+          'spenders[0].address',
+          'spenders[1].name',
+          'spenders[2].address',
+          'spenders[2].verified',
+        ]);
+      }
+    });
+  });
+
+  describe('SpenderLabelIndex', () => {
+    it('should name well-known spenders and let labels override them', () => {
+      const index = new SpenderLabelIndex([
+        { address: router.toUpperCase().replace('0X', '0x'), name: 'Old Router', verified: false },
+        { address: router, name: 'Ignored' },
+      ]);
+
+      expect(index.get(1, router)).toEqual({ name: 'Old Router', verified: false, source: 'labels' });
+      expect(index.get(8453, '0x000000000022D473030F116dDEE9F6B43aC78BA3')).toEqual({
+        name: 'Uniswap Permit2',
+        verified: true,
+        source: 'known',
+      });
+      expect(index.get(8453, staking)).toBeUndefined();
+    });
+  });
+});
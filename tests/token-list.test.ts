@@ -0,0 +1,58 @@
+import { TokenListIndex, parseTokenList } from '../src/services/token-list';
+import { ValidationError } from '../src/errors/validation-error';
+
+describe('token lists', () => {
+  const usdc = {
+    chainId: 1,
+    address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    name: 'USD Coin',
+    symbol: 'USDC',
+    decimals: 6,
+    logoURI: 'https://example.com/usdc.png',
+    tags: ['stablecoin'],
+  };
+
+  describe('parseTokenList', () => {
+    it('should parse a Uniswap token list', () => {
+      const list = parseTokenList({
+        name: 'Default',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        version: { major: 1, minor: 2, patch: 0 },
+        tokens: [usdc],
+        keywords: ['uniswap'],
+      });
+
+      expect(list.name).toBe('Default');
+      expect(list.version).toEqual({ major: 1, minor: 2, patch: 0 });
+      const { tags: _tags, ...token } = usdc;
+      expect(list.tokens).toEqual([token]);
+    });
+
+    it('should report every invalid token', () => {
+      expect.assertions(2);
+      try {
+        parseTokenList({ name: 'Bad', tokens: [{ ...usdc, address: '0x123' }, { ...usdc, decimals: '6' }] });
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).issues.map((i) => i.field)).toEqual([
+          'tokens[0].address',
+          'tokens[1].decimals',
+        ]);
+      }
+    });
+  });
+
+  describe('TokenListIndex', () => {
+    it('should let earlier lists win and record every list naming a token', () => {
+      const index = new TokenListIndex([
+        { name: 'First', tokens: [usdc] },
+        { name: 'Second', tokens: [{ ...usdc, symbol: 'USDC.e' }, { ...usdc, chainId: 10 }] },
+      ]);
+
+      expect(index.get(1, usdc.address.toLowerCase())).toMatchObject({ symbol: 'USDC', lists: ['First', 'Second'] });
+      expect(index.get(10, usdc.address)).toMatchObject({ lists: ['Second'] });
+      expect(index.get(137, usdc.address)).toBeUndefined();
+      expect(index.count(1)).toBe(1);
+    });
+  });
+});
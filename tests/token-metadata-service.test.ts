@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { TokenMetadataService } from '../src/services/token-metadata-service.js';
-import type { Address } from 'viem';
+import { MemoryTokenMetadataStore } from '../src/cache/token-metadata-store.js';
+import { TokenListIndex } from '../src/services/token-list.js';
+import { decodeFunctionResult, type Abi, type Address, type Hex, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
 
 describe('TokenMetadataService', () => {
   let service: TokenMetadataService;
@@ -105,6 +108,176 @@ describe('TokenMetadataService', () => {
     });
   });
 
+  describe('metadata store', () => {
+    const token = '0x1234567890123456789012345678901234567890' as Address;
+    const answers: Record<string, unknown> = {
+      name: 'Test Token',
+      symbol: 'TEST',
+      decimals: 8,
+      totalSupply: 1000n,
+    };
+
+    const mockClient = (chainId = 1) => {
+      const readContract = jest.fn(async ({ functionName }: { functionName: string }) => {
+        const answer = answers[functionName];
+        if (answer instanceof Error) throw answer;
+        if (answer === undefined) throw new Error('execution reverted');
+        return answer;
+      });
+      return { readContract, client: { chain: { id: chainId }, readContract } as unknown as PublicClient };
+    };
+
+    it('should resolve a token from the store without reading the chain again', async () => {
+      const store = new MemoryTokenMetadataStore();
+      await new TokenMetadataService(mockClient().client, { store }).getTokenMetadata(token);
+
+      const { client, readContract } = mockClient();
+      const metadata = await new TokenMetadataService(client, { store }).getTokenMetadata(token);
+
+      expect(readContract).not.toHaveBeenCalled();
+      expect(metadata).toMatchObject({ symbol: 'TEST', decimals: 8, totalSupply: 1000n, source: 'chain' });
+    });
+
+    it('should only re-read totalSupply once it is older than the TTL', async () => {
+      const store = new MemoryTokenMetadataStore();
+      await new TokenMetadataService(mockClient().client, { store }).getTokenMetadata(token);
+
+      const { client, readContract } = mockClient();
+      const metadata = await new TokenMetadataService(client, { store, supplyTtl: 0 }).getTokenMetadata(token);
+
+      expect(readContract).toHaveBeenCalledTimes(1);
+      expect(readContract.mock.calls[0][0]).toMatchObject({ functionName: 'totalSupply' });
+      expect(metadata.totalSupply).toBe(1000n);
+      expect((await store.get(1, token))?.refreshedAt).toBeDefined();
+    });
+
+    it('should scope stored metadata to a chain', async () => {
+      const store = new MemoryTokenMetadataStore();
+      await new TokenMetadataService(mockClient(1).client, { store }).getTokenMetadata(token);
+
+      expect(await store.get(1, token)).not.toBeNull();
+      expect(await store.get(10, token)).toBeNull();
+    });
+
+    it('should read many tokens in one multicall', async () => {
+      const other = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      const multicall = jest.fn(async ({ contracts }: { contracts: Array<{ functionName: string }> }) =>
+        contracts.map(({ functionName }) => ({ status: 'success', result: answers[functionName] }))
+      );
+      const { readContract } = mockClient();
+      const client = { chain: mainnet, multicall, readContract } as unknown as PublicClient;
+
+      const metadata = await new TokenMetadataService(client).getMultipleTokenMetadata([token, other]);
+
+      expect(multicall).toHaveBeenCalledTimes(1);
+      expect(multicall.mock.calls[0][0].contracts).toHaveLength(8);
+      expect(readContract).not.toHaveBeenCalled();
+      expect(metadata.get(other)).toMatchObject({ symbol: 'TEST', decimals: 8 });
+    });
+
+    it('should not store a token whose reads failed in transport', async () => {
+      const store = new MemoryTokenMetadataStore();
+      const { client } = mockClient();
+      answers.symbol = new Error('fetch failed');
+
+      try {
+        const metadata = await new TokenMetadataService(client, { store }).getTokenMetadata(token);
+
+        expect(metadata.symbol).toBe('UNKNOWN');
+        expect(metadata.confidence?.symbol).toBe('none');
+        expect(await store.get(1, token)).toBeNull();
+      } finally {
+        answers.symbol = 'TEST';
+      }
+    });
+
+    it('should store a token without decimals() as having unknown decimals', async () => {
+      const store = new MemoryTokenMetadataStore();
+      delete answers.decimals;
+
+      try {
+        const metadata = await new TokenMetadataService(mockClient().client, { store }).getTokenMetadata(token);
+
+        expect(metadata.decimals).toBeUndefined();
+        expect(metadata.confidence).toEqual({ name: 'high', symbol: 'high', decimals: 'none' });
+        expect(await store.get(1, token)).toMatchObject({ decimals: undefined });
+      } finally {
+        answers.decimals = 8;
+      }
+    });
+
+    it('should decode names and symbols returned as bytes32', async () => {
+      // MKR returns bytes32, which does not decode as a string
+      const raw: Record<string, Hex> = {
+        name: '0x4d616b6572000000000000000000000000000000000000000000000000000000',
+        symbol: '0x4d4b520000000000000000000000000000000000000000000000000000000000',
+        decimals: '0x0000000000000000000000000000000000000000000000000000000000000012',
+        totalSupply: '0x0000000000000000000000000000000000000000000000000000000000000001',
+      };
+      const client = {
+        chain: { id: 1 },
+        readContract: jest.fn(async ({ abi, functionName }: { abi: Abi; functionName: string }) =>
+          decodeFunctionResult({ abi, functionName, data: raw[functionName] })),
+      } as unknown as PublicClient;
+
+      const metadata = await new TokenMetadataService(client).getTokenMetadata(token);
+
+      expect(metadata).toMatchObject({ name: 'Maker', symbol: 'MKR', decimals: 18 });
+      expect(metadata.confidence).toEqual({ name: 'medium', symbol: 'medium', decimals: 'high' });
+    });
+
+    it('should verify listed tokens and flag on-chain values that disagree with the list', async () => {
+      const tokenLists = new TokenListIndex([{
+        name: 'Default',
+        tokens: [{ chainId: 1, address: token, name: 'Test Token', symbol: 'TST', decimals: 8 }],
+      }]);
+
+      const metadata = await new TokenMetadataService(mockClient().client, { tokenLists }).getTokenMetadata(token);
+
+      expect(metadata).toMatchObject({ verified: true, lists: ['Default'], listMismatches: ['symbol'] });
+      expect(new TokenMetadataService(mockClient().client, { tokenLists }).isKnownToken(token)).toBe(true);
+    });
+
+    it('should fall back to the token list when the contract does not answer', async () => {
+      const tokenLists = new TokenListIndex([{
+        name: 'Default',
+        tokens: [{ chainId: 1, address: token, name: 'Test Token', symbol: 'TEST', decimals: 6 }],
+      }]);
+      const store = new MemoryTokenMetadataStore();
+      delete answers.decimals;
+
+      try {
+        const metadata = await new TokenMetadataService(mockClient().client, { store, tokenLists })
+          .getTokenMetadata(token);
+
+        expect(metadata).toMatchObject({ decimals: 6, verified: true, confidence: { decimals: 'medium' } });
+        expect(metadata.listMismatches).toBeUndefined();
+        expect(await store.get(1, token)).toBeNull();
+      } finally {
+        answers.decimals = 8;
+      }
+    });
+
+    it('should prefer seeded metadata over the built-in list', async () => {
+      const usdt = '0xdac17f958d2ee523a2206206994597c13d831ec7';
+      const store = new MemoryTokenMetadataStore();
+      await store.put([{
+        chainId: 1, address: usdt, name: 'Tether', symbol: 'USD₮', decimals: 6, source: 'seed', resolvedAt: 0,
+        confidence: { name: 'high', symbol: 'high', decimals: 'high' },
+      }]);
+
+      const metadata = await new TokenMetadataService(mockClient().client, { store }).getTokenMetadata(usdt as Address);
+
+      expect(metadata).toMatchObject({ symbol: 'USD₮', source: 'seed' });
+    });
+  });
+
+  describe('formatTokenAmount without decimals', () => {
+    it('should show the raw amount instead of guessing', () => {
+      expect(service.formatTokenAmount(1500000n, undefined)).toBe('1500000 (decimals unknown)');
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear the metadata cache', async () => {
       const usdt = '0xdAC17F958D2ee523a2206206994597C13D831ec7' as Address;
@@ -0,0 +1,93 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTokenMetadataStore, parseTokenMetadataSeed } from '../src/cache/token-metadata-store';
+import { TokenMetadataRecord } from '../src/cache/types';
+import { ValidationError } from '../src/errors/validation-error';
+
+describe('FileTokenMetadataStore', () => {
+  let directory: string;
+
+  const record = (chainId: number, address: string): TokenMetadataRecord => ({
+    chainId,
+    address,
+    name: 'Test Token',
+    symbol: 'TEST',
+    decimals: 18,
+    totalSupply: 2n ** 128n,
+    verified: false,
+    source: 'chain',
+    confidence: { name: 'high', symbol: 'high', decimals: 'high' },
+    resolvedAt: 1700000000000,
+    refreshedAt: 1700000000000,
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-guard-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist records in one file per chain', async () => {
+    const first = record(1, '0x1234567890123456789012345678901234567890');
+    const second = record(1, '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd');
+    const other = record(10, first.address);
+
+    const store = new FileTokenMetadataStore(directory);
+    await Promise.all([store.put([first]), store.put([second]), store.put([other])]);
+
+    const reopened = new FileTokenMetadataStore(directory);
+    expect(await reopened.get(1, first.address.toUpperCase())).toEqual(first);
+    expect(await reopened.list(1)).toHaveLength(2);
+    expect(await reopened.get(10, first.address)).toEqual(other);
+    expect((await fs.readdir(directory)).sort()).toEqual(['1.json', '10.json']);
+  });
+
+  it('should read unreadable or outdated files as empty', async () => {
+    await fs.writeFile(path.join(directory, '1.json'), '{ truncated');
+    await fs.writeFile(path.join(directory, '10.json'), JSON.stringify({ schemaVersion: 1, chainId: 10, tokens: [] }));
+
+    const store = new FileTokenMetadataStore(directory);
+
+    expect(await store.list(1)).toEqual([]);
+    expect(await store.list(10)).toEqual([]);
+  });
+});
+
+describe('parseTokenMetadataSeed', () => {
+  it('should accept a list of tokens or an object holding one', () => {
+    const token = {
+      chainId: 1,
+      address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      name: 'USD Coin',
+      symbol: 'USDC',
+      decimals: 6,
+    };
+
+    expect(parseTokenMetadataSeed([token], 5)).toEqual([{
+      ...token,
+      address: token.address.toLowerCase(),
+      verified: undefined,
+      source: 'seed',
+      confidence: { name: 'high', symbol: 'high', decimals: 'high' },
+      resolvedAt: 5,
+    }]);
+    expect(parseTokenMetadataSeed({ tokens: [token] })).toHaveLength(1);
+  });
+
+  it('should report every invalid field', () => {
+    expect.assertions(2);
+    try {
+      parseTokenMetadataSeed([{ chainId: 0, address: '0x123', name: 'X', symbol: 'X', decimals: 300 }]);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues.map((i) => i.field)).toEqual([
+        'tokens[0].chainId',
+        'tokens[0].address',
+        'tokens[0].decimals',
+      ]);
+    }
+  });
+});